@@ -15,6 +15,7 @@ import TradeNotes from "./pages/TradeNotes";
 import NotFound from "./pages/NotFound";
 import Auth from "./pages/Auth";
 import PlaybookManager from "./pages/PlaybookManager";
+import ImportTemplates from "./pages/ImportTemplates";
 import { AuthProvider } from "./components/AuthProvider";
 import ProtectedRoute from "./components/ProtectedRoute";
 
@@ -50,6 +51,7 @@ function App() {
                 <Route path="/journals/:journalId/sessions/:sessionId" element={<SessionDetail />} />
                 <Route path="/trade-notes/:tradeId" element={<TradeNotes />} />
                 <Route path="/playbooks" element={<PlaybookManager />} />
+                <Route path="/import-templates" element={<ImportTemplates />} />
               </Route>
               
               {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
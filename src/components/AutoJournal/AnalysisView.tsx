@@ -1,41 +1,85 @@
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { BarChart3 as BarChart3Icon, ArrowLeft, TrendingUp, TrendingDown, Percent, Clock, BookOpen, Scale, CalendarDays, Tags, Target, Brain, AlertTriangle, Info, Trophy, Shield, Zap, Activity, PieChart as PieChartIcon, BarChart as BarChartIcon, LineChart as LineChartIcon, DollarSign } from 'lucide-react';
+import { BarChart3 as BarChart3Icon, ArrowLeft, TrendingUp, TrendingDown, Percent, Clock, BookOpen, Scale, CalendarDays, Tags, Target, Brain, AlertTriangle, Info, Trophy, Shield, Zap, Activity, PieChart as PieChartIcon, BarChart as BarChartIcon, LineChart as LineChartIcon, DollarSign, Dices } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, LineChart, Line, Cell, PieChart, Pie, Area, AreaChart, ComposedChart, Scatter, ScatterChart } from 'recharts';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip as RechartsTooltip, ResponsiveContainer, LineChart, Line, Cell, PieChart, Pie, ComposedChart, Scatter, ScatterChart } from 'recharts';
 import { Tables } from '@/integrations/supabase/types';
 import TradesLogTable from './TradesLogTable';
-import { calculateMetrics } from "@/lib/trade-metrics";
+import ExcursionAnalysis from './ExcursionAnalysis';
+import { PnlBasis, RISK_RATIOS, applyCurrency, applyPnlBasis, calculateMetrics, formatRiskRatio } from "@/lib/trade-metrics";
+import PnlBasisToggle from "@/components/PnlBasisToggle";
+import CurrencySelect from "@/components/CurrencySelect";
+import { useReportingCurrency } from "@/hooks/useReportingCurrency";
+import { formatMoney } from "@/lib/currency";
+import { rootSymbol } from "@/lib/contract-specs";
+import { formatHoldingTime, pnlByHoldTime, winnerLoserHoldTime } from "@/lib/holding-time";
+import { analyzeDrawdowns, startingEquity } from "@/lib/drawdowns";
+import UnderwaterChart from "@/components/UnderwaterChart";
+import DrawdownPeriods from "@/components/DrawdownPeriods";
+import MonteCarloPanel from "./MonteCarloPanel";
+import EquityCurveChart from "@/components/EquityCurveChart";
+import { useEquityEvents } from "@/hooks/useEquityEvents";
+import { dayToDate, sessionDay, zonedParts } from "@/lib/timezones";
 
 type TradeSessionWithTrades = Tables<'trade_sessions'> & { trades: Tables<'trades'>[] };
 
 interface AnalysisViewProps {
   currentSession: TradeSessionWithTrades;
   onUploadNew: () => void;
+  /** The journal's timezone; hours and weekdays are read in it */
+  timeZone?: string;
+  /** The journal's account currency, used for trades that do not record their own */
+  currency?: string;
+  /** The journal's account size; the session's drawdowns are measured from it as starting equity */
+  accountSize?: number | null;
 }
 
-const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
+const AnalysisView = ({ currentSession, onUploadNew, timeZone, currency, accountSize }: AnalysisViewProps) => {
   const navigate = useNavigate();
+  const [pnlBasis, setPnlBasis] = useState<PnlBasis>('net');
+  const { reportingCurrency, setReportingCurrency, conversion } = useReportingCurrency(currency);
+
+  // Every view below reads `pnl`, so restate it once on the selected basis
+  const sessionTrades = useMemo(() => applyPnlBasis(currentSession.trades, pnlBasis), [currentSession.trades, pnlBasis]);
+
+  // Aggregates add trades up, so they read them in the reporting currency; the trade log and
+  // excursions keep each trade's own
+  const { trades, unconverted: unconvertedTrades } = useMemo(
+    () => applyCurrency(sessionTrades, conversion),
+    [sessionTrades, conversion]
+  );
 
   const extendedMetrics = useMemo(() => {
-    return calculateMetrics(currentSession.trades);
-  }, [currentSession.trades]);
+    return calculateMetrics(currentSession.trades, { basis: pnlBasis, timeZone, currency: conversion, accountSize });
+  }, [currentSession.trades, pnlBasis, timeZone, conversion, accountSize]);
+
+  const equity = useMemo(() => startingEquity(accountSize, trades, conversion), [accountSize, trades, conversion]);
+  const drawdowns = useMemo(() => analyzeDrawdowns(trades, equity), [trades, equity]);
+  const equityGroups = useMemo(() => [{ key: 'session', label: 'Session', trades }], [trades]);
+  const { events } = useEquityEvents(currentSession.journal_id);
+  const dailyPnl = useMemo(() => extendedMetrics.daily_pnl.map(day => day.pnl), [extendedMetrics.daily_pnl]);
+
+  const formatCurrency = (value: number) => formatMoney(value, reportingCurrency);
+  const formatDay = (day: string) => dayToDate(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
+
+  // Duration analytics only cover trades with both entry and exit times
+  const holdTimeBuckets = useMemo(() => pnlByHoldTime(trades), [trades]);
+  const holdTimeComparison = useMemo(() => winnerLoserHoldTime(trades), [trades]);
+  const hasHoldTimes = holdTimeComparison.winners + holdTimeComparison.losers > 0;
 
   // Advanced Analytics Calculations
   const advancedAnalytics = useMemo(() => {
-    const trades = currentSession.trades;
     if (!trades || trades.length === 0) return null;
 
     // Risk Metrics
     const returns = trades.map(t => t.pnl || 0);
     const sortedReturns = [...returns].sort((a, b) => a - b);
     const var95 = sortedReturns[Math.floor(returns.length * 0.05)] || 0; // Value at Risk 95%
-    const sharpeRatio = returns.length > 1 ? (extendedMetrics.total_pnl / returns.length) / (Math.sqrt(returns.reduce((sum, r) => sum + Math.pow(r - (extendedMetrics.total_pnl / returns.length), 2), 0) / returns.length) || 1) : 0;
 
     // Time-based Performance
     const hourlyPerformance: { [key: number]: { pnl: number; trades: number; winRate: number } } = {};
@@ -45,9 +89,10 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
     trades.forEach(trade => {
       if (trade.datetime) {
         const date = new Date(trade.datetime);
-        const hour = date.getHours();
-        const day = date.toLocaleDateString('en-US', { weekday: 'long' });
-        const month = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric' });
+        const wall = zonedParts(date, timeZone);
+        const hour = wall.hour;
+        const day = wall.weekday;
+        const month = date.toLocaleDateString('en-US', { month: 'short', year: 'numeric', timeZone });
         const pnl = trade.pnl || 0;
 
         // Hourly
@@ -69,14 +114,14 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
 
     // Calculate win rates
     Object.keys(hourlyPerformance).forEach(hour => {
-      const winners = trades.filter(t => t.datetime && new Date(t.datetime).getHours() === parseInt(hour) && (t.pnl || 0) > 0).length;
+      const winners = trades.filter(t => t.datetime && zonedParts(new Date(t.datetime), timeZone).hour === parseInt(hour) && (t.pnl || 0) > 0).length;
       hourlyPerformance[parseInt(hour)].winRate = hourlyPerformance[parseInt(hour)].trades > 0 ? (winners / hourlyPerformance[parseInt(hour)].trades) * 100 : 0;
     });
 
     // Symbol Performance Analysis
     const symbolStats: { [key: string]: { pnl: number; trades: number; winRate: number; avgPnl: number } } = {};
     trades.forEach(trade => {
-      const symbol = trade.symbol || 'Unknown';
+      const symbol = trade.symbol ? rootSymbol(trade.symbol) : 'Unknown';
       const pnl = trade.pnl || 0;
       
       if (!symbolStats[symbol]) symbolStats[symbol] = { pnl: 0, trades: 0, winRate: 0, avgPnl: 0 };
@@ -85,7 +130,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
     });
 
     Object.keys(symbolStats).forEach(symbol => {
-      const winners = trades.filter(t => t.symbol === symbol && (t.pnl || 0) > 0).length;
+      const winners = trades.filter(t => t.symbol && rootSymbol(t.symbol) === symbol && (t.pnl || 0) > 0).length;
       symbolStats[symbol].winRate = symbolStats[symbol].trades > 0 ? (winners / symbolStats[symbol].trades) * 100 : 0;
       symbolStats[symbol].avgPnl = symbolStats[symbol].pnl / symbolStats[symbol].trades;
     });
@@ -150,9 +195,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
     return {
       riskMetrics: {
         valueAtRisk95: var95,
-        sharpeRatio,
         maxConsecutiveLosses: Math.max(...streaks.filter(s => s.type === 'loss').map(s => s.length), 0),
-        riskOfRuin: extendedMetrics.total_pnl < 0 ? Math.min(95, Math.abs(extendedMetrics.total_pnl) / 1000 * 100) : 0
       },
       timeAnalysis: {
         hourlyPerformance,
@@ -168,7 +211,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
       },
       streakAnalysis: streaks
     };
-  }, [currentSession.trades, extendedMetrics]);
+  }, [trades, timeZone]);
 
   // Performance Rating
   const performanceRating = useMemo(() => {
@@ -272,10 +315,12 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-slate-800">Comprehensive Trade Analysis</h1>
-                <p className="text-sm text-slate-600">{currentSession.total_trades} trades • {new Date(currentSession.created_at).toLocaleDateString()}</p>
+                <p className="text-sm text-slate-600">{currentSession.total_trades} trades • {dayToDate(sessionDay(currentSession, timeZone)).toLocaleDateString()}</p>
               </div>
             </div>
             <div className="flex items-center space-x-3">
+              <CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} label="Reporting currency" />
+              <PnlBasisToggle value={pnlBasis} onChange={setPnlBasis} />
               <div className="text-right">
                 <p className="text-sm text-slate-600">Performance Grade</p>
                 <Badge variant={performanceRating.grade.includes('A') ? 'default' : performanceRating.grade.includes('B') ? 'secondary' : 'destructive'} className="text-lg px-3 py-1">
@@ -291,6 +336,13 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
       </header>
 
       <div className="container mx-auto px-4 py-8">
+        {unconvertedTrades > 0 && (
+          <div className="mb-8 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            {unconvertedTrades} trade{unconvertedTrades === 1 ? ' is' : 's are'} left out of these figures because there is no FX rate to {reportingCurrency}.
+            Import rates from the journal's FX Rates dialog, or report in the trades' own currency.
+          </div>
+        )}
+
         {/* Performance Overview */}
         <Card className="mb-8 border-0 shadow-xl bg-gradient-to-r from-blue-600 to-green-500 text-white">
           <CardContent className="pt-8">
@@ -316,12 +368,17 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                   <DollarSign className="w-8 h-8 text-white" />
                 </div>
                 <h3 className="text-2xl font-bold">
-                  {extendedMetrics.total_pnl >= 0 ? '+' : ''}${extendedMetrics.total_pnl.toFixed(2)}
+                  {extendedMetrics.total_pnl >= 0 ? '+' : ''}{formatCurrency(extendedMetrics.total_pnl)}
                 </h3>
-                <p className="text-blue-100">Total P&L</p>
+                <p className="text-blue-100">Total P&L ({pnlBasis === 'gross' ? 'gross' : 'net'})</p>
                 <p className="text-xs text-blue-200 mt-1">
-                  ${extendedMetrics.expectancy.toFixed(2)} per trade
+                  {formatCurrency(extendedMetrics.expectancy)} per trade
                 </p>
+                {(extendedMetrics.total_commissions > 0 || extendedMetrics.total_fees > 0) && (
+                  <p className="text-xs text-blue-200">
+                    {formatCurrency(extendedMetrics.total_commissions)} commissions • {formatCurrency(extendedMetrics.total_fees)} fees
+                  </p>
+                )}
               </div>
               <div className="text-center">
                 <div className="w-16 h-16 rounded-full bg-white/20 flex items-center justify-center mx-auto mb-3">
@@ -338,7 +395,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
         </Card>
 
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="overview" className="flex items-center space-x-2">
               <BarChartIcon className="w-4 h-4" />
               <span>Overview</span>
@@ -351,6 +408,10 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               <Shield className="w-4 h-4" />
               <span>Risk Analysis</span>
             </TabsTrigger>
+            <TabsTrigger value="simulation" className="flex items-center space-x-2">
+              <Dices className="w-4 h-4" />
+              <span>Simulation</span>
+            </TabsTrigger>
             <TabsTrigger value="psychology" className="flex items-center space-x-2">
               <Brain className="w-4 h-4" />
               <span>Psychology</span>
@@ -386,19 +447,21 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               />
               <MetricCard
                 title="Sharpe Ratio"
-                value={advancedAnalytics?.riskMetrics.sharpeRatio.toFixed(2) || '0.00'}
-                description="Risk-adjusted returns"
+                value={formatRiskRatio('sharpe_ratio', extendedMetrics.sharpe_ratio)}
+                description={extendedMetrics.sharpe_ratio !== null ? "Annualised, from daily returns" : "Needs an account size and 2+ days"}
                 icon={Activity}
                 color="purple"
-                tooltip="Measures return per unit of risk. Above 1.0 is good, above 2.0 is excellent."
+                tooltip={RISK_RATIOS.find(ratio => ratio.key === 'sharpe_ratio')?.explanation}
               />
               <MetricCard
                 title="Max Drawdown"
-                value={`$${extendedMetrics.max_drawdown.toFixed(2)}`}
-                description="Largest peak-to-trough loss"
+                value={formatCurrency(extendedMetrics.max_drawdown)}
+                description={drawdowns.maxDrawdownPct !== null
+                  ? `${drawdowns.maxDrawdownPct.toFixed(2)}% of peak account equity`
+                  : 'Largest peak-to-trough loss'}
                 icon={TrendingDown}
                 color="red"
-                tooltip="The maximum loss from a peak to a trough. Smaller is better for risk management."
+                tooltip="The maximum loss from a peak to a trough. Smaller is better for risk management. Set the journal's account size to see it as a percentage."
               />
             </div>
 
@@ -410,24 +473,17 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                     <LineChartIcon className="w-5 h-5 text-green-600" />
                     <span>Equity Curve</span>
                   </CardTitle>
-                  <CardDescription>Your account balance over time - the holy grail of trading</CardDescription>
+                  <CardDescription>Your account balance over time, with drawdown periods shaded and bias checks and imports marked</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <AreaChart data={(currentSession.equity_curve as any[]) || []}>
-                      <defs>
-                        <linearGradient id="equityGradient" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#10b981" stopOpacity={0.3}/>
-                          <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="trade" />
-                      <YAxis />
-                      <RechartsTooltip formatter={(value: number) => [`$${value.toFixed(2)}`, 'Cumulative P&L']} />
-                      <Area type="monotone" dataKey="cumulative" stroke="#10b981" fillOpacity={1} fill="url(#equityGradient)" strokeWidth={3} />
-                    </AreaChart>
-                  </ResponsiveContainer>
+                  <EquityCurveChart
+                    groups={equityGroups}
+                    startingEquity={equity}
+                    drawdowns={drawdowns.periods}
+                    events={events}
+                    currency={reportingCurrency}
+                    timeZone={timeZone}
+                  />
                 </CardContent>
               </Card>
 
@@ -442,12 +498,12 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                 <CardContent>
                   <ResponsiveContainer width="100%" height={300}>
                     <BarChart data={[
-                      { range: '$0-$50', count: currentSession.trades.filter(t => (t.pnl || 0) >= 0 && (t.pnl || 0) <= 50).length },
-                      { range: '$50-$100', count: currentSession.trades.filter(t => (t.pnl || 0) > 50 && (t.pnl || 0) <= 100).length },
-                      { range: '$100+', count: currentSession.trades.filter(t => (t.pnl || 0) > 100).length },
-                      { range: '$0 to -$50', count: currentSession.trades.filter(t => (t.pnl || 0) < 0 && (t.pnl || 0) >= -50).length },
-                      { range: '-$50 to -$100', count: currentSession.trades.filter(t => (t.pnl || 0) < -50 && (t.pnl || 0) >= -100).length },
-                      { range: '-$100-', count: currentSession.trades.filter(t => (t.pnl || 0) < -100).length },
+                      { range: '$0-$50', count: trades.filter(t => (t.pnl || 0) >= 0 && (t.pnl || 0) <= 50).length },
+                      { range: '$50-$100', count: trades.filter(t => (t.pnl || 0) > 50 && (t.pnl || 0) <= 100).length },
+                      { range: '$100+', count: trades.filter(t => (t.pnl || 0) > 100).length },
+                      { range: '$0 to -$50', count: trades.filter(t => (t.pnl || 0) < 0 && (t.pnl || 0) >= -50).length },
+                      { range: '-$50 to -$100', count: trades.filter(t => (t.pnl || 0) < -50 && (t.pnl || 0) >= -100).length },
+                      { range: '-$100-', count: trades.filter(t => (t.pnl || 0) < -100).length },
                     ]}>
                       <CartesianGrid strokeDasharray="3 3" />
                       <XAxis dataKey="range" />
@@ -466,7 +522,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
             <div className="grid lg:grid-cols-3 gap-6">
               <MetricCard
                 title="Average Win"
-                value={`$${extendedMetrics.avg_win.toFixed(2)}`}
+                value={formatCurrency(extendedMetrics.avg_win)}
                 description="Average profit per winning trade"
                 icon={TrendingUp}
                 color="green"
@@ -474,7 +530,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               />
               <MetricCard
                 title="Average Loss"
-                value={`$${Math.abs(extendedMetrics.avg_loss).toFixed(2)}`}
+                value={formatCurrency(Math.abs(extendedMetrics.avg_loss))}
                 description="Average loss per losing trade"
                 icon={TrendingDown}
                 color="red"
@@ -490,6 +546,44 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               />
             </div>
 
+            {/* Trading Days */}
+            <div className="grid lg:grid-cols-4 md:grid-cols-2 gap-6">
+              <MetricCard
+                title="Green Days"
+                value={`${extendedMetrics.green_day_rate.toFixed(1)}%`}
+                description={`${extendedMetrics.trading_days} trading day${extendedMetrics.trading_days !== 1 ? 's' : ''}`}
+                icon={CalendarDays}
+                color={extendedMetrics.green_day_rate >= 50 ? "green" : "red"}
+                tooltip="Share of trading days that closed with a profit. Days run midnight to midnight in the journal's timezone."
+              />
+              <MetricCard
+                title="Average Day"
+                value={formatCurrency(extendedMetrics.avg_daily_pnl)}
+                description={`Median ${formatCurrency(extendedMetrics.median_daily_pnl)} • σ ${formatCurrency(extendedMetrics.daily_pnl_std_dev)}`}
+                icon={BarChartIcon}
+                color={extendedMetrics.avg_daily_pnl >= 0 ? "green" : "red"}
+                tooltip="Mean P&L per trading day. A median well below the mean means a few big days carry the rest; the standard deviation shows how much days swing."
+              />
+              <MetricCard
+                title="Best / Worst Day"
+                value={`${formatCurrency(extendedMetrics.best_day?.pnl || 0)} / ${formatCurrency(extendedMetrics.worst_day?.pnl || 0)}`}
+                description={extendedMetrics.best_day && extendedMetrics.worst_day
+                  ? `${formatDay(extendedMetrics.best_day.date)} / ${formatDay(extendedMetrics.worst_day.date)}`
+                  : 'No trading days'}
+                icon={Trophy}
+                color="purple"
+                tooltip="Your highest and lowest closing days. A worst day bigger than several average days is worth a daily loss limit."
+              />
+              <MetricCard
+                title="Day Streaks"
+                value={`${extendedMetrics.max_green_day_streak} / ${extendedMetrics.max_red_day_streak}`}
+                description="Longest green / red run of days"
+                icon={Activity}
+                color="blue"
+                tooltip="Most consecutive green and red trading days. Flat days end both streaks."
+              />
+            </div>
+
             {/* Time-based Performance */}
             <div className="grid lg:grid-cols-2 gap-8">
               <Card className="border-0 shadow-lg">
@@ -540,7 +634,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                       <XAxis dataKey="day" />
                       <YAxis />
                       <RechartsTooltip formatter={(value: number, name: string) => {
-                        if (name === 'pnl') return [`$${value.toFixed(2)}`, 'P&L'];
+                        if (name === 'pnl') return [formatCurrency(value), 'P&L'];
                         if (name === 'winRate') return [`${value.toFixed(1)}%`, 'Win Rate'];
                         return [value, name];
                       }} />
@@ -555,6 +649,68 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               </Card>
             </div>
 
+            {/* Holding Time */}
+            {hasHoldTimes && (
+              <div className="grid lg:grid-cols-3 gap-8">
+                <Card className="border-0 shadow-lg lg:col-span-2">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Clock className="w-5 h-5 text-orange-600" />
+                      <span>P&L by Holding Time</span>
+                    </CardTitle>
+                    <CardDescription>How long you stay in a trade versus what it pays</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ResponsiveContainer width="100%" height={300}>
+                      <ComposedChart data={holdTimeBuckets}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="label" />
+                        <YAxis yAxisId="left" />
+                        <YAxis yAxisId="right" orientation="right" />
+                        <RechartsTooltip formatter={(value: number, name: string) => {
+                          if (name === 'P&L') return [formatCurrency(value), name];
+                          if (name === 'Win Rate %') return [`${value.toFixed(1)}%`, name];
+                          return [value, name];
+                        }} />
+                        <Bar yAxisId="left" dataKey="pnl" name="P&L">
+                          {holdTimeBuckets.map((bucket, index) => (
+                            <Cell key={`hold-${index}`} fill={bucket.pnl >= 0 ? '#10b981' : '#ef4444'} />
+                          ))}
+                        </Bar>
+                        <Line yAxisId="right" type="monotone" dataKey="winRate" stroke="#3b82f6" strokeWidth={2} name="Win Rate %" />
+                      </ComposedChart>
+                    </ResponsiveContainer>
+                  </CardContent>
+                </Card>
+
+                <Card className="border-0 shadow-lg">
+                  <CardHeader>
+                    <CardTitle className="flex items-center space-x-2">
+                      <Scale className="w-5 h-5 text-purple-600" />
+                      <span>Winners vs Losers</span>
+                    </CardTitle>
+                    <CardDescription>Average holding time</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="p-4 rounded-lg bg-green-50 border-l-4 border-l-green-500">
+                      <p className="text-sm text-green-700">Winners ({holdTimeComparison.winners})</p>
+                      <p className="text-2xl font-bold text-green-800">{formatHoldingTime(holdTimeComparison.winnersMs)}</p>
+                    </div>
+                    <div className="p-4 rounded-lg bg-red-50 border-l-4 border-l-red-500">
+                      <p className="text-sm text-red-700">Losers ({holdTimeComparison.losers})</p>
+                      <p className="text-2xl font-bold text-red-800">{formatHoldingTime(holdTimeComparison.losersMs)}</p>
+                    </div>
+                    {holdTimeComparison.winnersMs !== null && holdTimeComparison.losersMs !== null &&
+                      holdTimeComparison.losersMs > holdTimeComparison.winnersMs && (
+                      <p className="text-xs text-slate-600">
+                        You hold losers longer than winners. Consider tighter exits on trades going against you.
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              </div>
+            )}
+
             {/* Symbol Performance */}
             <Card className="border-0 shadow-lg">
               <CardHeader>
@@ -575,7 +731,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                           <div>
                             <h4 className="font-bold text-lg">{symbol}</h4>
                             <p className={`text-sm ${stats.pnl >= 0 ? 'text-green-700' : 'text-red-700'}`}>
-                              {stats.pnl >= 0 ? '+' : ''}${stats.pnl.toFixed(2)}
+                              {stats.pnl >= 0 ? '+' : ''}{formatCurrency(stats.pnl)}
                             </p>
                           </div>
                           <Badge variant={stats.pnl >= 0 ? 'default' : 'destructive'}>
@@ -584,7 +740,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                         </div>
                         <div className="mt-2 text-xs text-slate-600">
                           <p>{stats.trades} trades • {stats.winRate.toFixed(1)}% win rate</p>
-                          <p>Avg: ${stats.avgPnl.toFixed(2)} per trade</p>
+                          <p>Avg: {formatCurrency(stats.avgPnl)} per trade</p>
                         </div>
                       </div>
                     ))}
@@ -595,10 +751,10 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
 
           <TabsContent value="risk" className="space-y-6">
             {/* Risk Metrics */}
-            <div className="grid lg:grid-cols-4 gap-6">
+            <div className="grid lg:grid-cols-3 gap-6">
               <MetricCard
                 title="Value at Risk (95%)"
-                value={`$${Math.abs(advancedAnalytics?.riskMetrics.valueAtRisk95 || 0).toFixed(2)}`}
+                value={formatCurrency(Math.abs(advancedAnalytics?.riskMetrics.valueAtRisk95 || 0))}
                 description="Max expected loss (95% confidence)"
                 icon={AlertTriangle}
                 color="red"
@@ -612,17 +768,9 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                 color="orange"
                 tooltip="Your longest string of losses in a row. Important for position sizing."
               />
-              <MetricCard
-                title="Risk of Ruin"
-                value={`${(advancedAnalytics?.riskMetrics.riskOfRuin || 0).toFixed(1)}%`}
-                description="Probability of significant loss"
-                icon={Shield}
-                color="red"
-                tooltip="Estimated probability of losing a significant portion of your account."
-              />
               <MetricCard
                 title="Largest Single Loss"
-                value={`$${Math.abs(extendedMetrics.largest_loss).toFixed(2)}`}
+                value={formatCurrency(Math.abs(extendedMetrics.largest_loss))}
                 description="Worst individual trade"
                 icon={TrendingDown}
                 color="red"
@@ -630,32 +778,38 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               />
             </div>
 
+            {/* Risk-Adjusted Returns */}
+            <div className="grid lg:grid-cols-3 md:grid-cols-2 gap-6">
+              {RISK_RATIOS.map(ratio => {
+                const fromTrades = ratio.key === 'sqn' || ratio.key === 'kelly_fraction';
+                return (
+                  <MetricCard
+                    key={ratio.key}
+                    title={ratio.label}
+                    value={formatRiskRatio(ratio.key, extendedMetrics[ratio.key])}
+                    description={extendedMetrics[ratio.key] === null
+                      ? (fromTrades ? 'Needs winning and losing trades' : 'Needs an account size and more trading days')
+                      : (fromTrades ? 'From trade P&L' : 'From daily returns on account equity')}
+                    icon={ratio.key === 'ulcer_index' ? TrendingDown : fromTrades ? Target : Shield}
+                    color={ratio.key === 'ulcer_index' ? "orange" : "purple"}
+                    tooltip={ratio.explanation}
+                  />
+                );
+              })}
+            </div>
+
             {/* Risk Analysis Charts */}
             <div className="grid lg:grid-cols-2 gap-8">
               <Card className="border-0 shadow-lg">
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <Activity className="w-5 h-5 text-red-600" />
-                    <span>Drawdown Analysis</span>
+                    <span>Underwater Equity</span>
                   </CardTitle>
-                  <CardDescription>How deep your losses go before recovery</CardDescription>
+                  <CardDescription>How far equity sits below its last peak after each trade</CardDescription>
                 </CardHeader>
                 <CardContent>
-                  <ResponsiveContainer width="100%" height={300}>
-                    <AreaChart data={(currentSession.equity_curve as any[]) || []}>
-                      <defs>
-                        <linearGradient id="drawdownGradient" x1="0" y1="0" x2="0" y2="1">
-                          <stop offset="5%" stopColor="#ef4444" stopOpacity={0.3}/>
-                          <stop offset="95%" stopColor="#ef4444" stopOpacity={0}/>
-                        </linearGradient>
-                      </defs>
-                      <CartesianGrid strokeDasharray="3 3" />
-                      <XAxis dataKey="trade" />
-                      <YAxis />
-                      <RechartsTooltip />
-                      <Area type="monotone" dataKey="cumulative" stroke="#ef4444" fill="url(#drawdownGradient)" />
-                    </AreaChart>
-                  </ResponsiveContainer>
+                  <UnderwaterChart analysis={drawdowns} currency={reportingCurrency} timeZone={timeZone} />
                 </CardContent>
               </Card>
 
@@ -672,9 +826,9 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                     <PieChart>
                       <Pie
                         data={[
-                          { name: 'Winning Trades', value: currentSession.trades.filter(t => (t.pnl || 0) > 0).length, fill: '#10b981' },
-                          { name: 'Losing Trades', value: currentSession.trades.filter(t => (t.pnl || 0) < 0).length, fill: '#ef4444' },
-                          { name: 'Breakeven Trades', value: currentSession.trades.filter(t => (t.pnl || 0) === 0).length, fill: '#6b7280' }
+                          { name: 'Winning Trades', value: trades.filter(t => (t.pnl || 0) > 0).length, fill: '#10b981' },
+                          { name: 'Losing Trades', value: trades.filter(t => (t.pnl || 0) < 0).length, fill: '#ef4444' },
+                          { name: 'Breakeven Trades', value: trades.filter(t => (t.pnl || 0) === 0).length, fill: '#6b7280' }
                         ]}
                         cx="50%"
                         cy="50%"
@@ -689,6 +843,112 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
               </Card>
             </div>
 
+            {/* Drawdown Periods */}
+            <Card className="border-0 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <TrendingDown className="w-5 h-5 text-red-600" />
+                  <span>Drawdown Periods</span>
+                </CardTitle>
+                <CardDescription>
+                  Each fall from a peak, how deep it went and how long it took to climb back
+                  {drawdowns.maxDrawdownPct === null && ' • set the journal\'s account size to see depths as a percentage'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DrawdownPeriods analysis={drawdowns} currency={reportingCurrency} timeZone={timeZone} />
+              </CardContent>
+            </Card>
+
+            {/* R-Multiples */}
+            {extendedMetrics.trades_with_risk > 0 ? (
+              <>
+                <div className="grid lg:grid-cols-3 gap-6">
+                  <MetricCard
+                    title="Average R"
+                    value={`${extendedMetrics.avg_r_multiple >= 0 ? '+' : ''}${extendedMetrics.avg_r_multiple.toFixed(2)}R`}
+                    description={`Across ${extendedMetrics.trades_with_risk} of ${extendedMetrics.total_trades} trades with a planned risk`}
+                    icon={Target}
+                    color={extendedMetrics.avg_r_multiple >= 0 ? 'green' : 'red'}
+                    tooltip="P&L divided by the risk you planned at entry, averaged over trades with a stop or initial risk."
+                  />
+                  <MetricCard
+                    title="R Expectancy"
+                    value={`${extendedMetrics.r_expectancy >= 0 ? '+' : ''}${extendedMetrics.r_expectancy.toFixed(2)}R`}
+                    description="Win rate × avg win R − loss rate × avg loss R"
+                    icon={Scale}
+                    color="blue"
+                    tooltip="What you can expect to make per trade in units of risk. Positive expectancy means your edge pays for your losses."
+                  />
+                  <MetricCard
+                    title="Total R"
+                    value={`${(extendedMetrics.r_equity_curve[extendedMetrics.r_equity_curve.length - 1]?.cumulative || 0).toFixed(2)}R`}
+                    description="Cumulative R across planned trades"
+                    icon={TrendingUp}
+                    color="purple"
+                    tooltip="The sum of all R-multiples. Comparing it to your dollar P&L shows whether sizing helped or hurt."
+                  />
+                </div>
+
+                <div className="grid lg:grid-cols-2 gap-8">
+                  <Card className="border-0 shadow-lg">
+                    <CardHeader>
+                      <CardTitle className="flex items-center space-x-2">
+                        <BarChartIcon className="w-5 h-5 text-blue-600" />
+                        <span>R-Multiple Distribution</span>
+                      </CardTitle>
+                      <CardDescription>How your outcomes compare to the risk you planned</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <BarChart data={extendedMetrics.r_distribution}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="bucket" />
+                          <YAxis allowDecimals={false} />
+                          <RechartsTooltip formatter={(value: number) => [value, 'Trades']} />
+                          <Bar dataKey="trades">
+                            {extendedMetrics.r_distribution.map((entry, index) => (
+                              <Cell key={`r-${index}`} fill={entry.bucket.startsWith('-') || entry.bucket.startsWith('<') ? '#ef4444' : '#10b981'} />
+                            ))}
+                          </Bar>
+                        </BarChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+
+                  <Card className="border-0 shadow-lg">
+                    <CardHeader>
+                      <CardTitle className="flex items-center space-x-2">
+                        <LineChartIcon className="w-5 h-5 text-purple-600" />
+                        <span>R Equity Curve</span>
+                      </CardTitle>
+                      <CardDescription>Cumulative R, independent of position size</CardDescription>
+                    </CardHeader>
+                    <CardContent>
+                      <ResponsiveContainer width="100%" height={300}>
+                        <LineChart data={extendedMetrics.r_equity_curve}>
+                          <CartesianGrid strokeDasharray="3 3" />
+                          <XAxis dataKey="trade" />
+                          <YAxis />
+                          <RechartsTooltip formatter={(value: number) => [`${value.toFixed(2)}R`, 'Cumulative R']} />
+                          <Line type="monotone" dataKey="cumulative" stroke="#8b5cf6" strokeWidth={2} dot={false} />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </CardContent>
+                  </Card>
+                </div>
+              </>
+            ) : (
+              <Card className="border-0 shadow-lg">
+                <CardContent className="pt-6 text-sm text-slate-600">
+                  Record a planned stop or initial risk on your trades to see R-multiples, R expectancy and an R equity curve.
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Excursions */}
+            <ExcursionAnalysis sessionId={currentSession.id} trades={sessionTrades} timeZone={timeZone} currency={currency} />
+
             {/* Risk Recommendations */}
             <Card className="border-0 shadow-lg border-l-4 border-l-amber-500">
               <CardHeader>
@@ -726,6 +986,10 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="simulation" className="space-y-6">
+            <MonteCarloPanel trades={trades} dailyPnl={dailyPnl} startingEquity={equity} currency={reportingCurrency} />
+          </TabsContent>
+
           <TabsContent value="psychology" className="space-y-6">
             {/* Psychology Metrics */}
             <div className="grid lg:grid-cols-3 gap-6">
@@ -912,7 +1176,7 @@ const AnalysisView = ({ currentSession, onUploadNew }: AnalysisViewProps) => {
                 <CardDescription>Detailed analysis of every trade with editing capabilities</CardDescription>
               </CardHeader>
               <CardContent>
-                <TradesLogTable trades={currentSession.trades} />
+                <TradesLogTable trades={sessionTrades} timeZone={timeZone} currency={currency} />
               </CardContent>
             </Card>
           </TabsContent>
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { Crosshair, Upload } from 'lucide-react';
+import { CartesianGrid, Legend, ResponsiveContainer, Scatter, ScatterChart, Tooltip as RechartsTooltip, XAxis, YAxis, ZAxis } from 'recharts';
+import { rootSymbol } from '@/lib/contract-specs';
+import { calculateExcursion, mfeCapture } from '@/lib/excursions';
+import { optionContract } from '@/lib/options';
+import { loadPriceBarsFile } from '@/lib/price-bars';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface ExcursionAnalysisProps {
+  sessionId: string;
+  trades: Tables<'trades'>[];
+  /** The journal's timezone; bar times without an offset are read in it */
+  timeZone?: string;
+  /** The journal's account currency; excursions are measured in it */
+  currency?: string;
+}
+
+const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+const ExcursionAnalysis = ({ sessionId, trades, timeZone, currency = DEFAULT_CURRENCY }: ExcursionAnalysisProps) => {
+  const formatAmount = (value: number | null) => value === null ? '-' : formatMoney(value, currency);
+  const queryClient = useQueryClient();
+  // Option prices are premiums, not the underlying's, so bars of the underlying cannot measure them
+  const barTrades = useMemo(() => trades.filter(trade => !optionContract(trade)), [trades]);
+  const symbols = useMemo(
+    () => Array.from(new Set(barTrades.map(trade => trade.symbol).filter(Boolean).map(symbol => rootSymbol(symbol)))).sort(),
+    [barTrades]
+  );
+  const [symbol, setSymbol] = useState(symbols[0] || '');
+  const [file, setFile] = useState<File | null>(null);
+
+  /** Load the bar file, measure every trade in the chosen symbol and store MAE/MFE on the trades */
+  const calculateMutation = useMutation({
+    mutationFn: async () => {
+      if (!file || !symbol) throw new Error('Choose a symbol and a price bar file first.');
+
+      const bars = await loadPriceBarsFile(file, timeZone);
+      if (bars.length === 0) throw new Error('No usable price bars were found in the file.');
+
+      const updates = barTrades
+        .filter(trade => trade.symbol && rootSymbol(trade.symbol) === symbol)
+        .map(trade => ({ id: trade.id, excursion: calculateExcursion(trade, bars) }))
+        .filter(update => update.excursion !== null);
+
+      for (let index = 0; index < updates.length; index += 20) {
+        const results = await Promise.all(
+          updates.slice(index, index + 20).map(({ id, excursion }) =>
+            supabase.from('trades').update({ mae: excursion!.mae, mfe: excursion!.mfe }).eq('id', id)
+          )
+        );
+        const failed = results.find(result => result.error);
+        if (failed?.error) throw failed.error;
+      }
+
+      return { measured: updates.length, bars: bars.length };
+    },
+    onSuccess: ({ measured, bars }) => {
+      queryClient.invalidateQueries({ queryKey: ['session', sessionId] });
+      toast({
+        title: measured > 0 ? 'Excursions calculated' : 'No trades covered',
+        description: measured > 0
+          ? `Measured ${measured} ${symbol} trades against ${bars} bars.`
+          : `None of the ${symbol} trades fall inside the loaded bars.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const measured = trades.filter(trade => trade.mae !== null && trade.mfe !== null);
+  const points = measured.map(trade => ({ mae: trade.mae!, mfe: trade.mfe!, pnl: trade.pnl || 0, symbol: trade.symbol }));
+  const winners = measured.filter(trade => (trade.pnl || 0) > 0);
+  const losers = measured.filter(trade => (trade.pnl || 0) < 0);
+  const capture = average(winners.map(mfeCapture).filter((value): value is number => value !== null));
+
+  return (
+    <Card className="border-0 shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Crosshair className="w-5 h-5 text-indigo-600" />
+          <span>MAE / MFE Excursions</span>
+        </CardTitle>
+        <CardDescription>
+          Load OHLC bars to see how far each trade went against you and how much it offered before you exited
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid md:grid-cols-3 gap-4 items-end">
+          <div>
+            <Label>Symbol</Label>
+            <Select value={symbol} onValueChange={setSymbol}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select symbol" />
+              </SelectTrigger>
+              <SelectContent>
+                {symbols.map(root => (
+                  <SelectItem key={root} value={root}>{root}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="price-bars">Price bars (CSV or Parquet)</Label>
+            <Input
+              id="price-bars"
+              type="file"
+              accept=".csv,.parquet"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+            />
+          </div>
+          <Button
+            onClick={() => calculateMutation.mutate()}
+            disabled={!file || !symbol || calculateMutation.isPending}
+          >
+            <Upload className="w-4 h-4 mr-2" />
+            {calculateMutation.isPending ? 'Calculating...' : 'Calculate Excursions'}
+          </Button>
+        </div>
+
+        {measured.length > 0 ? (
+          <>
+            <div className="grid md:grid-cols-3 gap-4 text-sm">
+              <div className="p-3 rounded-lg bg-green-50">
+                <p className="text-green-700">Avg MAE on winners</p>
+                <p className="text-xl font-bold text-green-800">{formatAmount(average(winners.map(trade => trade.mae!)))}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-red-50">
+                <p className="text-red-700">Avg MAE on losers</p>
+                <p className="text-xl font-bold text-red-800">{formatAmount(average(losers.map(trade => trade.mae!)))}</p>
+              </div>
+              <div className="p-3 rounded-lg bg-blue-50">
+                <p className="text-blue-700">MFE captured by winners</p>
+                <p className="text-xl font-bold text-blue-800">{capture === null ? '-' : `${capture.toFixed(0)}%`}</p>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={320}>
+              <ScatterChart margin={{ top: 10, right: 20, bottom: 20, left: 10 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis type="number" dataKey="mae" name="MAE" label={{ value: `MAE (${currency})`, position: 'insideBottom', offset: -10 }} />
+                <YAxis type="number" dataKey="mfe" name="MFE" label={{ value: `MFE (${currency})`, angle: -90, position: 'insideLeft' }} />
+                <ZAxis type="number" dataKey="pnl" name="P&L" />
+                <RechartsTooltip cursor={{ strokeDasharray: '3 3' }} formatter={(value: number, name: string) => [formatMoney(value, currency), name]} />
+                <Legend verticalAlign="top" />
+                <Scatter name="Winners" data={points.filter(point => point.pnl > 0)} fill="#10b981" />
+                <Scatter name="Losers" data={points.filter(point => point.pnl <= 0)} fill="#ef4444" />
+              </ScatterChart>
+            </ResponsiveContainer>
+            <p className="text-xs text-slate-500">
+              Losers with a small MAE were stopped near entry; winners with a large MFE but small P&L gave back most of the move.
+            </p>
+          </>
+        ) : (
+          <p className="text-sm text-slate-600">
+            No trades in this session have excursions yet. Bars should cover the trades' entry and exit times; times without an offset are read in the journal's timezone.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExcursionAnalysis;
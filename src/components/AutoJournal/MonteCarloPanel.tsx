@@ -0,0 +1,216 @@
+import { useMemo, useState } from 'react';
+import { useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { toast } from '@/components/ui/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import { Dices, Loader2 } from 'lucide-react';
+import { Area, CartesianGrid, ComposedChart, Line, ResponsiveContainer, Tooltip as RechartsTooltip, XAxis, YAxis } from 'recharts';
+import { DEFAULT_RUNS, MAX_HORIZON, MonteCarloResult, SimulationBasis, simulateInWorker, tradeSamples } from '@/lib/monte-carlo';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface MonteCarloPanelProps {
+  /** Trades on the selected P&L basis and in the reporting currency */
+  trades: Partial<Tables<'trades'>>[];
+  /** P&L of each trading day, from `calculateMetrics` */
+  dailyPnl: number[];
+  /** Account size in the reporting currency, null when unknown */
+  startingEquity: number | null;
+  currency?: string;
+}
+
+const parseAmount = (value: string): number | null => {
+  const amount = parseFloat(value);
+  return isNaN(amount) || amount <= 0 ? null : amount;
+};
+
+/** Resample the session's P&L into thousands of futures and summarise their spread */
+const MonteCarloPanel = ({ trades, dailyPnl, startingEquity, currency = DEFAULT_CURRENCY }: MonteCarloPanelProps) => {
+  const [basis, setBasis] = useState<SimulationBasis>('trades');
+  const [horizon, setHorizon] = useState('250');
+  const [sizing, setSizing] = useState('1');
+  const [ruinThreshold, setRuinThreshold] = useState(startingEquity ? '10' : '1000');
+  const [lossLimit, setLossLimit] = useState('');
+  const [trailingLossLimit, setTrailingLossLimit] = useState(false);
+  const [profitTarget, setProfitTarget] = useState('');
+
+  const samples = useMemo(() => (basis === 'trades' ? tradeSamples(trades) : dailyPnl), [basis, trades, dailyPnl]);
+  const unit = basis === 'trades' ? 'trades' : 'trading days';
+  const formatAmount = (value: number) => formatMoney(value, currency, 0);
+
+  const simulation = useMutation({
+    mutationFn: () => {
+      const threshold = parseAmount(ruinThreshold);
+      if (!threshold) throw new Error('Enter a ruin threshold above zero.');
+      return simulateInWorker({
+        samples,
+        horizon: Math.min(parseInt(horizon) || 1, MAX_HORIZON),
+        runs: DEFAULT_RUNS,
+        sizing: parseAmount(sizing) ?? 1,
+        startingEquity: startingEquity || 0,
+        // With an account size the threshold is a percentage of it
+        ruinDrawdown: startingEquity ? (startingEquity * threshold) / 100 : threshold,
+        lossLimit: parseAmount(lossLimit),
+        trailingLossLimit,
+        profitTarget: parseAmount(profitTarget),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Simulation failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const result: MonteCarloResult | undefined = simulation.data;
+  const chartData = useMemo(() => (result?.cone || []).map(point => ({
+    step: point.step,
+    outer: [point.p5, point.p95],
+    inner: [point.p25, point.p75],
+    median: point.p50,
+  })), [result]);
+
+  const stats = result ? [
+    {
+      label: 'Risk of Ruin',
+      value: `${result.ruinProbability.toFixed(1)}%`,
+      note: `Drawdown of ${startingEquity ? `${ruinThreshold}% of the account` : formatAmount(parseAmount(ruinThreshold) || 0)}`,
+      bad: result.ruinProbability > 5,
+    },
+    ...(result.lossLimitProbability !== null ? [{
+      label: 'Loss Limit Hit',
+      value: `${result.lossLimitProbability.toFixed(1)}%`,
+      note: `${trailingLossLimit ? 'Trailing' : 'Static'} limit of ${formatAmount(parseAmount(lossLimit) || 0)}`,
+      bad: result.lossLimitProbability > 5,
+    }] : []),
+    ...(result.targetProbability !== null ? [{
+      label: 'Target Reached',
+      value: `${result.targetProbability.toFixed(1)}%`,
+      note: result.medianStepsToTarget !== null ? `Median ${result.medianStepsToTarget} ${unit} to ${formatAmount(parseAmount(profitTarget) || 0)}` : 'Never reached in the horizon',
+      bad: result.targetProbability < 50,
+    }] : []),
+    {
+      label: 'Max Drawdown',
+      value: formatAmount(result.maxDrawdown.p50),
+      note: `Median path; 1 in 20 paths see ${formatAmount(result.maxDrawdown.p95)}`,
+      bad: false,
+    },
+    {
+      label: 'Final Equity',
+      value: formatAmount(result.finalEquity.p50),
+      note: `90% between ${formatAmount(result.finalEquity.p5)} and ${formatAmount(result.finalEquity.p95)}`,
+      bad: result.finalEquity.p50 < (startingEquity || 0),
+    },
+  ] : [];
+
+  return (
+    <div className="space-y-6">
+      <Card className="border-0 shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Dices className="w-5 h-5 text-indigo-600" />
+            <span>Monte Carlo Simulation</span>
+          </CardTitle>
+          <CardDescription>
+            Draws {DEFAULT_RUNS.toLocaleString()} futures from your {samples.length} historical {unit}, with replacement.
+            {!startingEquity && ' Paths start from zero since the journal has no account size.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2">
+              <Label>Resample</Label>
+              <Select value={basis} onValueChange={(value) => setBasis(value as SimulationBasis)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="trades">Trades</SelectItem>
+                  <SelectItem value="days">Trading days</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mc-horizon">Horizon ({unit})</Label>
+              <Input id="mc-horizon" type="number" min={1} max={MAX_HORIZON} value={horizon} onChange={(e) => setHorizon(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mc-sizing">Size multiplier</Label>
+              <Input id="mc-sizing" type="number" min={0.1} step={0.1} value={sizing} onChange={(e) => setSizing(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mc-ruin">Ruin drawdown ({startingEquity ? '% of account' : currency})</Label>
+              <Input id="mc-ruin" type="number" min={0} value={ruinThreshold} onChange={(e) => setRuinThreshold(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mc-limit">Loss limit ({currency})</Label>
+              <Input id="mc-limit" type="number" min={0} placeholder="Optional" value={lossLimit} onChange={(e) => setLossLimit(e.target.value)} />
+              <div className="flex items-center space-x-2">
+                <Checkbox id="mc-trailing" checked={trailingLossLimit} onCheckedChange={(checked) => setTrailingLossLimit(checked === true)} />
+                <Label htmlFor="mc-trailing" className="text-xs font-normal">Trails the equity peak</Label>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="mc-target">Profit target ({currency})</Label>
+              <Input id="mc-target" type="number" min={0} placeholder="Optional" value={profitTarget} onChange={(e) => setProfitTarget(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center gap-4">
+            <Button onClick={() => simulation.mutate()} disabled={simulation.isPending || samples.length < 2}>
+              {simulation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Dices className="mr-2 h-4 w-4" />}
+              {simulation.isPending ? 'Simulating...' : 'Run Simulation'}
+            </Button>
+            {samples.length < 2 && (
+              <p className="text-sm text-slate-500">At least two {unit} are needed to resample.</p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <>
+          <div className="grid md:grid-cols-3 lg:grid-cols-5 gap-4">
+            {stats.map(stat => (
+              <div key={stat.label} className={`p-4 rounded-lg border-l-4 bg-white shadow ${stat.bad ? 'border-l-red-500' : 'border-l-green-500'}`}>
+                <p className="text-sm text-slate-600">{stat.label}</p>
+                <p className={`text-2xl font-bold ${stat.bad ? 'text-red-600' : 'text-green-600'}`}>{stat.value}</p>
+                <p className="text-xs text-slate-500 mt-1">{stat.note}</p>
+              </div>
+            ))}
+          </div>
+
+          <Card className="border-0 shadow-lg">
+            <CardHeader>
+              <CardTitle>Equity Cone</CardTitle>
+              <CardDescription>Median path with the middle 50% and 90% of outcomes after each number of {unit}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResponsiveContainer width="100%" height={360}>
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="step" />
+                  <YAxis tickFormatter={formatAmount} domain={['auto', 'auto']} width={90} />
+                  <RechartsTooltip
+                    formatter={(value: number | number[], name: string) => [
+                      Array.isArray(value) ? `${formatAmount(value[0])} to ${formatAmount(value[1])}` : formatAmount(value),
+                      name,
+                    ]}
+                    labelFormatter={(step) => `After ${step} ${unit}`}
+                  />
+                  <Area type="monotone" dataKey="outer" name="5th-95th percentile" stroke="none" fill="#6366f1" fillOpacity={0.15} />
+                  <Area type="monotone" dataKey="inner" name="25th-75th percentile" stroke="none" fill="#6366f1" fillOpacity={0.3} />
+                  <Line type="monotone" dataKey="median" name="Median" stroke="#4f46e5" strokeWidth={2} dot={false} />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MonteCarloPanel;
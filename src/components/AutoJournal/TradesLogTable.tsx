@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { Fragment, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Button } from '@/components/ui/button';
@@ -6,28 +6,37 @@ import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tables } from '@/integrations/supabase/types';
-import { Edit, Filter, SortAsc, SortDesc, FileText, TrendingUp, TrendingDown } from 'lucide-react';
+import { ChevronDown, ChevronRight, Edit, Filter, SortAsc, SortDesc, FileText, TrendingUp, TrendingDown } from 'lucide-react';
 import { format } from 'date-fns';
+import { formatHoldingTime, holdingTimeMs } from '@/lib/holding-time';
+import { toZonedTime } from '@/lib/timezones';
+import { Position, describeContract, optionContract, toPositions } from '@/lib/options';
+import { formatMoney, tradeCurrency } from '@/lib/currency';
 
 interface TradesLogTableProps {
   trades: Tables<'trades'>[];
+  /** The journal's timezone; times are shown on its clock */
+  timeZone?: string;
+  /** The journal's account currency; each trade is shown in its own when it records one */
+  currency?: string;
 }
 
-const TradesLogTable = ({ trades }: TradesLogTableProps) => {
+const TradesLogTable = ({ trades, timeZone, currency }: TradesLogTableProps) => {
   const navigate = useNavigate();
   const [sortField, setSortField] = useState<string>('datetime');
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [filterSymbol, setFilterSymbol] = useState<string>('');
   const [filterSide, setFilterSide] = useState<string>('all');
   const [filterPnL, setFilterPnL] = useState<string>('all');
+  const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
 
-  // Get unique symbols for filter
-  const uniqueSymbols = Array.from(new Set(trades.map(t => t.symbol).filter(Boolean)));
+  // Spread legs filled together are listed as one position
+  const positions = toPositions(trades);
 
-  // Filter trades
-  const filteredTrades = trades.filter(trade => {
-    const symbolMatch = !filterSymbol || (trade.symbol?.toLowerCase().includes(filterSymbol.toLowerCase()));
-    const sideMatch = filterSide === 'all' || trade.side === filterSide;
+  // Filter positions; symbol and side match on any leg, P&L on the position's total
+  const filteredPositions = positions.filter(({ legs, trade }) => {
+    const symbolMatch = !filterSymbol || [trade, ...legs].some(leg => leg.symbol?.toLowerCase().includes(filterSymbol.toLowerCase()));
+    const sideMatch = filterSide === 'all' || legs.some(leg => leg.side === filterSide);
     const pnlMatch = filterPnL === 'all' || 
       (filterPnL === 'winners' && (trade.pnl || 0) > 0) ||
       (filterPnL === 'losers' && (trade.pnl || 0) < 0) ||
@@ -36,14 +45,17 @@ const TradesLogTable = ({ trades }: TradesLogTableProps) => {
     return symbolMatch && sideMatch && pnlMatch;
   });
 
-  // Sort trades
-  const sortedTrades = [...filteredTrades].sort((a, b) => {
+  // Sort positions by their rolled-up trade
+  const sortedPositions = [...filteredPositions].sort(({ trade: a }, { trade: b }) => {
     let aValue: any = a[sortField as keyof Tables<'trades'>];
     let bValue: any = b[sortField as keyof Tables<'trades'>];
     
     if (sortField === 'datetime') {
       aValue = new Date(aValue || 0).getTime();
       bValue = new Date(bValue || 0).getTime();
+    } else if (sortField === 'hold') {
+      aValue = holdingTimeMs(a) ?? -1;
+      bValue = holdingTimeMs(b) ?? -1;
     } else if (typeof aValue === 'string') {
       aValue = aValue.toLowerCase();
       bValue = bValue?.toLowerCase() || '';
@@ -69,18 +81,194 @@ const TradesLogTable = ({ trades }: TradesLogTableProps) => {
     navigate(`/trade-notes/${tradeId}`);
   };
 
+  const toggleGroup = (key: string) => {
+    setExpandedGroups(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
   const SortIcon = ({ field }: { field: string }) => {
     if (sortField !== field) return null;
     return sortDirection === 'asc' ? <SortAsc className="w-4 h-4" /> : <SortDesc className="w-4 h-4" />;
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(value);
+  const formatCurrency = (value: number, trade: Partial<Tables<'trades'>>) => formatMoney(value, tradeCurrency(trade, currency));
+
+  const renderTradeRow = (trade: Tables<'trades'>, isLeg = false) => (
+      <TableRow 
+        key={trade.id}
+        className={`cursor-pointer hover:bg-blue-50 transition-colors ${isLeg ? 'bg-slate-50/60' : ''}`}
+        onClick={() => handleTradeClick(trade.id)}
+      >
+        <TableCell className="font-medium">
+          <div className={isLeg ? 'pl-6' : ''}>
+            <div className="text-slate-800">
+              {trade.datetime ? format(toZonedTime(new Date(trade.datetime), timeZone), 'MMM dd, yyyy') : 'Unknown Date'}
+            </div>
+            <div className="text-xs text-slate-500">
+              {trade.datetime ? format(toZonedTime(new Date(trade.datetime), timeZone), 'HH:mm:ss') : ''}
+            </div>
+          </div>
+        </TableCell>
+        <TableCell>
+          <Badge variant="outline" className="font-mono">
+            {trade.symbol || 'N/A'}
+          </Badge>
+          {optionContract(trade) && (
+            <div className="text-xs text-slate-500 mt-1 whitespace-nowrap">{describeContract(trade)}</div>
+          )}
+        </TableCell>
+        <TableCell>
+          <Badge 
+            variant={trade.side === 'BUY' ? 'default' : 'secondary'}
+            className={trade.side === 'BUY' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
+          >
+            {trade.side || 'N/A'}
+          </Badge>
+        </TableCell>
+        <TableCell className="text-right font-mono">
+          {(trade.qty || 0).toLocaleString()}
+        </TableCell>
+        <TableCell className="text-right font-mono">
+          <div>{formatCurrency(trade.entry_price ?? trade.price ?? 0, trade)}</div>
+          {trade.entry_time && (
+            <div className="text-xs text-slate-500">{format(toZonedTime(new Date(trade.entry_time), timeZone), 'HH:mm:ss')}</div>
+          )}
+        </TableCell>
+        <TableCell className="text-right font-mono">
+          <div>{trade.exit_price != null ? formatCurrency(trade.exit_price, trade) : '-'}</div>
+          {trade.exit_time && (
+            <div className="text-xs text-slate-500">{format(toZonedTime(new Date(trade.exit_time), timeZone), 'HH:mm:ss')}</div>
+          )}
+        </TableCell>
+        <TableCell className="text-right font-mono text-sm text-slate-600">
+          {formatHoldingTime(holdingTimeMs(trade))}
+        </TableCell>
+        <TableCell className="text-right">
+          <div className={`flex items-center justify-end space-x-1 font-semibold ${
+            (trade.pnl || 0) >= 0 ? 'text-green-600' : 'text-red-600'
+          }`}>
+            {(trade.pnl || 0) >= 0 ? (
+              <TrendingUp className="w-4 h-4" />
+            ) : (
+              <TrendingDown className="w-4 h-4" />
+            )}
+            <span className="font-mono">
+              {(trade.pnl || 0) >= 0 ? '+' : ''}{formatCurrency(trade.pnl || 0, trade)}
+            </span>
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="max-w-24 truncate text-sm text-slate-600">
+            {trade.strategy || '-'}
+          </div>
+        </TableCell>
+        <TableCell>
+          <div className="max-w-32 truncate text-sm text-slate-600">
+            {trade.notes ? (
+              <div className="flex items-center space-x-1">
+                <FileText className="w-3 h-3" />
+                <span>Has notes</span>
+              </div>
+            ) : (
+              <span className="text-slate-400">No notes</span>
+            )}
+          </div>
+        </TableCell>
+        <TableCell className="text-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={(e) => {
+              e.stopPropagation();
+              handleTradeClick(trade.id);
+            }}
+            className="hover:bg-blue-100"
+          >
+            <Edit className="w-4 h-4" />
+          </Button>
+        </TableCell>
+      </TableRow>
+  );
+
+  const renderPosition = (position: Position<Tables<'trades'>>) => {
+    if (position.legs.length === 1) return renderTradeRow(position.legs[0]);
+
+    const { key, legs, trade, strategy } = position;
+    const expanded = expandedGroups.has(key);
+    const pnl = trade.pnl || 0;
+
+    return (
+      <Fragment key={key}>
+        <TableRow
+          className="cursor-pointer hover:bg-blue-50 transition-colors"
+          onClick={() => toggleGroup(key)}
+        >
+          <TableCell className="font-medium">
+            <div className="flex items-start space-x-1">
+              {expanded ? <ChevronDown className="w-4 h-4 mt-0.5 text-slate-500" /> : <ChevronRight className="w-4 h-4 mt-0.5 text-slate-500" />}
+              <div>
+                <div className="text-slate-800">
+                  {trade.datetime ? format(toZonedTime(new Date(trade.datetime), timeZone), 'MMM dd, yyyy') : 'Unknown Date'}
+                </div>
+                <div className="text-xs text-slate-500">
+                  {trade.datetime ? format(toZonedTime(new Date(trade.datetime), timeZone), 'HH:mm:ss') : ''}
+                </div>
+              </div>
+            </div>
+          </TableCell>
+          <TableCell>
+            <Badge variant="outline" className="font-mono">
+              {trade.symbol || 'N/A'}
+            </Badge>
+            <div className="text-xs text-slate-500 mt-1">{legs.length} legs</div>
+          </TableCell>
+          <TableCell>
+            <Badge variant="secondary" className="bg-indigo-100 text-indigo-800 whitespace-nowrap">
+              {strategy || 'Spread'}
+            </Badge>
+          </TableCell>
+          <TableCell className="text-right font-mono text-slate-400">-</TableCell>
+          <TableCell className="text-right font-mono text-slate-400">-</TableCell>
+          <TableCell className="text-right font-mono text-slate-400">-</TableCell>
+          <TableCell className="text-right font-mono text-sm text-slate-600">
+            {formatHoldingTime(holdingTimeMs(trade))}
+          </TableCell>
+          <TableCell className="text-right">
+            <div className={`flex items-center justify-end space-x-1 font-semibold ${pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+              {pnl >= 0 ? <TrendingUp className="w-4 h-4" /> : <TrendingDown className="w-4 h-4" />}
+              <span className="font-mono">
+                {pnl >= 0 ? '+' : ''}{formatCurrency(pnl, trade)}
+              </span>
+            </div>
+          </TableCell>
+          <TableCell>
+            <div className="max-w-24 truncate text-sm text-slate-600">
+              {trade.strategy || '-'}
+            </div>
+          </TableCell>
+          <TableCell>
+            <div className="max-w-32 truncate text-sm text-slate-600">
+              {legs.some(leg => leg.notes) ? (
+                <div className="flex items-center space-x-1">
+                  <FileText className="w-3 h-3" />
+                  <span>Has notes</span>
+                </div>
+              ) : (
+                <span className="text-slate-400">No notes</span>
+              )}
+            </div>
+          </TableCell>
+          <TableCell className="text-center text-xs text-slate-500">
+            {expanded ? 'Hide legs' : 'Show legs'}
+          </TableCell>
+        </TableRow>
+        {expanded && legs.map(leg => renderTradeRow(leg, true))}
+      </Fragment>
+    );
   };
 
   return (
@@ -132,7 +320,7 @@ const TradesLogTable = ({ trades }: TradesLogTableProps) => {
         </div>
         
         <div className="flex items-center space-x-2 text-sm text-slate-600">
-          <span>Showing {sortedTrades.length} of {trades.length} trades</span>
+          <span>Showing {sortedPositions.length} of {positions.length} trades</span>
         </div>
       </div>
 
@@ -179,11 +367,29 @@ const TradesLogTable = ({ trades }: TradesLogTableProps) => {
               </TableHead>
               <TableHead 
                 className="cursor-pointer hover:bg-slate-100 transition-colors text-right"
-                onClick={() => handleSort('price')}
+                onClick={() => handleSort('entry_price')}
+              >
+                <div className="flex items-center justify-end space-x-1">
+                  <span>Entry</span>
+                  <SortIcon field="entry_price" />
+                </div>
+              </TableHead>
+              <TableHead 
+                className="cursor-pointer hover:bg-slate-100 transition-colors text-right"
+                onClick={() => handleSort('exit_price')}
               >
                 <div className="flex items-center justify-end space-x-1">
-                  <span>Price</span>
-                  <SortIcon field="price" />
+                  <span>Exit</span>
+                  <SortIcon field="exit_price" />
+                </div>
+              </TableHead>
+              <TableHead 
+                className="cursor-pointer hover:bg-slate-100 transition-colors text-right"
+                onClick={() => handleSort('hold')}
+              >
+                <div className="flex items-center justify-end space-x-1">
+                  <span>Hold</span>
+                  <SortIcon field="hold" />
                 </div>
               </TableHead>
               <TableHead 
@@ -201,91 +407,11 @@ const TradesLogTable = ({ trades }: TradesLogTableProps) => {
             </TableRow>
           </TableHeader>
           <TableBody>
-            {sortedTrades.map((trade) => (
-              <TableRow 
-                key={trade.id}
-                className="cursor-pointer hover:bg-blue-50 transition-colors"
-                onClick={() => handleTradeClick(trade.id)}
-              >
-                <TableCell className="font-medium">
-                  <div>
-                    <div className="text-slate-800">
-                      {trade.datetime ? format(new Date(trade.datetime), 'MMM dd, yyyy') : 'Unknown Date'}
-                    </div>
-                    <div className="text-xs text-slate-500">
-                      {trade.datetime ? format(new Date(trade.datetime), 'HH:mm:ss') : ''}
-                    </div>
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <Badge variant="outline" className="font-mono">
-                    {trade.symbol || 'N/A'}
-                  </Badge>
-                </TableCell>
-                <TableCell>
-                  <Badge 
-                    variant={trade.side === 'BUY' ? 'default' : 'secondary'}
-                    className={trade.side === 'BUY' ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'}
-                  >
-                    {trade.side || 'N/A'}
-                  </Badge>
-                </TableCell>
-                <TableCell className="text-right font-mono">
-                  {(trade.qty || 0).toLocaleString()}
-                </TableCell>
-                <TableCell className="text-right font-mono">
-                  {formatCurrency(trade.price || 0)}
-                </TableCell>
-                <TableCell className="text-right">
-                  <div className={`flex items-center justify-end space-x-1 font-semibold ${
-                    (trade.pnl || 0) >= 0 ? 'text-green-600' : 'text-red-600'
-                  }`}>
-                    {(trade.pnl || 0) >= 0 ? (
-                      <TrendingUp className="w-4 h-4" />
-                    ) : (
-                      <TrendingDown className="w-4 h-4" />
-                    )}
-                    <span className="font-mono">
-                      {(trade.pnl || 0) >= 0 ? '+' : ''}{formatCurrency(trade.pnl || 0)}
-                    </span>
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <div className="max-w-24 truncate text-sm text-slate-600">
-                    {trade.strategy || '-'}
-                  </div>
-                </TableCell>
-                <TableCell>
-                  <div className="max-w-32 truncate text-sm text-slate-600">
-                    {trade.notes ? (
-                      <div className="flex items-center space-x-1">
-                        <FileText className="w-3 h-3" />
-                        <span>Has notes</span>
-                      </div>
-                    ) : (
-                      <span className="text-slate-400">No notes</span>
-                    )}
-                  </div>
-                </TableCell>
-                <TableCell className="text-center">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={(e) => {
-                      e.stopPropagation();
-                      handleTradeClick(trade.id);
-                    }}
-                    className="hover:bg-blue-100"
-                  >
-                    <Edit className="w-4 h-4" />
-                  </Button>
-                </TableCell>
-              </TableRow>
-            ))}
+            {sortedPositions.map(renderPosition)}
           </TableBody>
         </Table>
         
-        {sortedTrades.length === 0 && (
+        {sortedPositions.length === 0 && (
           <div className="text-center py-8 text-slate-500">
             <FileText className="w-12 h-12 mx-auto mb-4 text-slate-300" />
             <p>No trades found matching your filters</p>
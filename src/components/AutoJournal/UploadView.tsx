@@ -3,6 +3,7 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Button } from "@/components/ui/button";
 import { Upload, Loader2, ArrowLeft, BarChart3 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { IMPORT_FILE_ACCEPT } from '@/lib/import-files';
 
 interface UploadViewProps {
   handleFileUpload: (event: React.ChangeEvent<HTMLInputElement>) => void;
@@ -44,14 +45,14 @@ const UploadView = ({ handleFileUpload, handleUseSampleData, isLoading, statusTe
             </div>
             <CardTitle className="text-2xl">Upload Your Trade Data</CardTitle>
             <CardDescription className="max-w-2xl mx-auto">
-              Drag and drop your CSV file with trade data or click to browse. We'll analyze your performance and provide AI-powered insights.
+              Drag and drop your CSV, Excel, OFX/QFX or JSON statement or click to browse. We'll analyze your performance and provide AI-powered insights.
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="border-2 border-dashed border-slate-300 rounded-lg p-12 text-center hover:border-blue-400 transition-colors">
               <input
                 type="file"
-                accept=".csv"
+                accept={IMPORT_FILE_ACCEPT}
                 onChange={handleFileUpload}
                 className="hidden"
                 id="file-upload"
@@ -4,6 +4,9 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { ChevronLeft, ChevronRight, Calendar as CalendarIcon, TrendingUp, TrendingDown } from 'lucide-react';
 import { Tables } from '@/integrations/supabase/types';
+import { CurrencyConversion, formatMoney } from '@/lib/currency';
+import { applyCurrency } from '@/lib/trade-metrics';
+import { sessionDay } from '@/lib/timezones';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, isSameDay, startOfWeek, endOfWeek, addMonths, subMonths } from 'date-fns';
 
 type TradeSessionWithTrades = Tables<'trade_sessions'> & { trades: Tables<'trades'>[] };
@@ -11,11 +14,25 @@ type TradeSessionWithTrades = Tables<'trade_sessions'> & { trades: Tables<'trade
 interface CalendarViewProps {
   sessions: TradeSessionWithTrades[];
   onSessionClick: (sessionId: string) => void;
+  /** Report each session's P&L in one currency, summed from its converted trades */
+  conversion?: CurrencyConversion;
+  /** The journal's timezone, for sessions created before trading days were recorded */
+  timeZone?: string;
 }
 
-const CalendarView = ({ sessions, onSessionClick }: CalendarViewProps) => {
+const CalendarView = ({ sessions, onSessionClick, conversion, timeZone }: CalendarViewProps) => {
   const [currentDate, setCurrentDate] = useState(new Date());
 
+  // Session P&L by id: the stored total, or the converted trades' sum when reporting in one currency
+  const sessionPnl = useMemo(() => new Map(sessions.map(session => [
+    session.id,
+    conversion
+      ? applyCurrency(session.trades, conversion).trades.reduce((sum, trade) => sum + (Number(trade.pnl) || 0), 0)
+      : Number(session.total_pnl) || 0
+  ])), [sessions, conversion]);
+
+  const formatPnl = (value: number) => `${value >= 0 ? '+' : ''}${formatMoney(value, conversion?.to, 0)}`;
+
   // Get calendar data
   const monthStart = startOfMonth(currentDate);
   const monthEnd = endOfMonth(currentDate);
@@ -27,13 +44,13 @@ const CalendarView = ({ sessions, onSessionClick }: CalendarViewProps) => {
     end: calendarEnd
   });
 
-  // Group sessions by date
+  // Group sessions by trading day
   const sessionsByDate = useMemo(() => {
     const grouped: Record<string, TradeSessionWithTrades[]> = {};
     
     sessions.forEach(session => {
       try {
-        const dateKey = format(new Date(session.created_at), 'yyyy-MM-dd');
+        const dateKey = sessionDay(session, timeZone);
         if (!grouped[dateKey]) {
           grouped[dateKey] = [];
         }
@@ -44,17 +61,14 @@ const CalendarView = ({ sessions, onSessionClick }: CalendarViewProps) => {
     });
     
     return grouped;
-  }, [sessions]);
+  }, [sessions, timeZone]);
 
   const getDayData = (day: Date) => {
     try {
       const dateKey = format(day, 'yyyy-MM-dd');
       const daySessions = sessionsByDate[dateKey] || [];
       
-      const totalPnL = daySessions.reduce((sum, session) => {
-        const pnl = Number(session.total_pnl) || 0;
-        return sum + pnl;
-      }, 0);
+      const totalPnL = daySessions.reduce((sum, session) => sum + (sessionPnl.get(session.id) || 0), 0);
       
       const totalTrades = daySessions.reduce((sum, session) => {
         const trades = Number(session.total_trades) || 0;
@@ -168,7 +182,7 @@ const CalendarView = ({ sessions, onSessionClick }: CalendarViewProps) => {
                       ) : (
                         <TrendingDown className="w-3 h-3 mr-1" />
                       )}
-                      {dayData.totalPnL >= 0 ? '+' : ''}${dayData.totalPnL.toFixed(0)}
+                      {formatPnl(dayData.totalPnL)}
                     </div>
                   </div>
                 )}
@@ -180,7 +194,7 @@ const CalendarView = ({ sessions, onSessionClick }: CalendarViewProps) => {
                       <div
                         key={session.id}
                         className={`h-1.5 rounded-full ${
-                          (Number(session.total_pnl) || 0) >= 0 ? 'bg-green-400' : 'bg-red-400'
+                          (sessionPnl.get(session.id) || 0) >= 0 ? 'bg-green-400' : 'bg-red-400'
                         }`}
                       />
                     ))}
@@ -204,11 +218,11 @@ const CalendarView = ({ sessions, onSessionClick }: CalendarViewProps) => {
                         }}
                         className="w-full text-left text-xs p-1 rounded bg-slate-100 hover:bg-slate-200 transition-colors"
                       >
-                        {format(new Date(session.created_at), 'HH:mm')}
+                        {session.is_sample ? 'Sample' : `${Number(session.total_trades) || 0} trades`}
                         <span className={`ml-1 font-semibold ${
-                          (Number(session.total_pnl) || 0) >= 0 ? 'text-green-600' : 'text-red-600'
+                          (sessionPnl.get(session.id) || 0) >= 0 ? 'text-green-600' : 'text-red-600'
                         }`}>
-                          {(Number(session.total_pnl) || 0) >= 0 ? '+' : ''}${(Number(session.total_pnl) || 0).toFixed(0)}
+                          {formatPnl(sessionPnl.get(session.id) || 0)}
                         </span>
                       </button>
                     ))}
@@ -0,0 +1,35 @@
+import { Coins } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CURRENCY_OPTIONS } from '@/lib/currency';
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  /** Accessible name, e.g. "Reporting currency" */
+  label: string;
+  disabled?: boolean;
+  className?: string;
+}
+
+const CurrencySelect = ({ value, onChange, label, disabled, className }: CurrencySelectProps) => {
+  // A code picked elsewhere (an import, an older journal) still shows even if it is not listed
+  const options = CURRENCY_OPTIONS.some(option => option.value === value)
+    ? CURRENCY_OPTIONS
+    : [...CURRENCY_OPTIONS, { value, label: value }];
+
+  return (
+    <Select value={value} onValueChange={onChange} disabled={disabled}>
+      <SelectTrigger className={className || 'w-[110px] border-slate-300'} aria-label={label} title={label}>
+        <Coins className="mr-2 h-4 w-4 text-slate-500" />
+        <SelectValue>{value}</SelectValue>
+      </SelectTrigger>
+      <SelectContent>
+        {options.map(option => (
+          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default CurrencySelect;
@@ -0,0 +1,82 @@
+import { format } from 'date-fns';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { DrawdownAnalysis } from '@/lib/drawdowns';
+import { formatMoney } from '@/lib/currency';
+import { formatHoldingTime } from '@/lib/holding-time';
+import { toZonedTime } from '@/lib/timezones';
+
+interface DrawdownPeriodsProps {
+  analysis: DrawdownAnalysis;
+  currency?: string;
+  /** The journal's timezone, for the dates */
+  timeZone?: string;
+}
+
+/** Time-to-recover figures and every drawdown period, newest first */
+const DrawdownPeriods = ({ analysis, currency, timeZone }: DrawdownPeriodsProps) => {
+  const formatTime = (time: string) => format(toZonedTime(new Date(time), timeZone), 'MMM d, yyyy HH:mm');
+  const formatDepth = (depth: number, depthPct: number | null) =>
+    depthPct === null ? formatMoney(-depth, currency) : `${formatMoney(-depth, currency)} (${(-depthPct).toFixed(2)}%)`;
+
+  const stats = [
+    { label: 'Max Drawdown', value: formatDepth(analysis.maxDrawdown, analysis.maxDrawdownPct) },
+    {
+      label: 'Current Drawdown',
+      value: analysis.current ? formatDepth(analysis.current.depth, analysis.current.depthPct) : 'At peak',
+    },
+    { label: 'Avg Time to Recover', value: formatHoldingTime(analysis.avgRecoveryMs) },
+    { label: 'Longest Recovery', value: formatHoldingTime(analysis.longestRecoveryMs) },
+    { label: 'Longest Drawdown', value: formatHoldingTime(analysis.longestDurationMs) },
+  ];
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label} className="p-3 rounded-lg bg-slate-50 border border-slate-200">
+            <p className="text-xs text-slate-600 mb-1">{stat.label}</p>
+            <p className="text-sm font-bold text-slate-800">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      {analysis.periods.length === 0 ? (
+        <p className="text-sm text-slate-500 py-4 text-center">Equity has never fallen below a previous peak.</p>
+      ) : (
+        <div className="border rounded-md max-h-[400px] overflow-y-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Start</TableHead>
+                <TableHead>Trough</TableHead>
+                <TableHead>Recovered</TableHead>
+                <TableHead className="text-right">Depth</TableHead>
+                <TableHead className="text-right">Duration</TableHead>
+                <TableHead className="text-right">Time to Recover</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {[...analysis.periods].reverse().map(period => (
+                <TableRow key={period.start}>
+                  <TableCell className="text-sm whitespace-nowrap">{formatTime(period.start)}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">{formatTime(period.trough)}</TableCell>
+                  <TableCell className="text-sm whitespace-nowrap">
+                    {period.recovery ? formatTime(period.recovery) : (
+                      <Badge variant="secondary" className="bg-amber-100 text-amber-800">Open</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-red-600 whitespace-nowrap">{formatDepth(period.depth, period.depthPct)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatHoldingTime(period.durationMs)}</TableCell>
+                  <TableCell className="text-right font-mono">{formatHoldingTime(period.recoveryMs)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrawdownPeriods;
@@ -0,0 +1,184 @@
+import { ReactNode, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Area, CartesianGrid, ComposedChart, Legend, Line, ReferenceArea, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Tables } from '@/integrations/supabase/types';
+import { DrawdownPeriod } from '@/lib/drawdowns';
+import { EQUITY_INTERVALS, EquityEvent, EquityInterval, MAX_OVERLAY_SERIES, axisFormat, axisTime, equitySeries, mergeSeries } from '@/lib/equity-series';
+import { formatMoney } from '@/lib/currency';
+
+interface EquityCurveChartProps {
+  /** One curve per group, on the wanted P&L basis and in the reporting currency */
+  groups: Array<{ key: string; label: string; trades: Partial<Tables<'trades'>>[] }>;
+  /** Account equity a single curve starts from; overlaid curves compare cumulative P&L */
+  startingEquity?: number | null;
+  /** Shaded behind a single curve */
+  drawdowns?: DrawdownPeriod[];
+  events?: EquityEvent[];
+  currency?: string;
+  /** The journal's timezone, for the time axis and trading days */
+  timeZone?: string;
+  defaultInterval?: EquityInterval;
+  /** Extra controls shown beside the interval picker */
+  controls?: ReactNode;
+  height?: number;
+}
+
+const SERIES_COLORS = ['#10b981', '#3b82f6', '#8b5cf6', '#f59e0b', '#ec4899', '#14b8a6', '#ef4444', '#64748b'];
+
+const EVENT_COLORS: Record<EquityEvent['tone'], string> = {
+  green: '#22c55e',
+  yellow: '#eab308',
+  red: '#ef4444',
+  neutral: '#64748b',
+};
+
+/** Equity over time at a chosen interval, with drawdown periods and journal events marked */
+const EquityCurveChart = ({
+  groups,
+  startingEquity,
+  drawdowns = [],
+  events = [],
+  currency,
+  timeZone,
+  defaultInterval = 'trade',
+  controls,
+  height = 300,
+}: EquityCurveChartProps) => {
+  const [equityInterval, setEquityInterval] = useState<EquityInterval>(defaultInterval);
+  const single = groups.length === 1;
+
+  const series = useMemo(() => groups.slice(0, MAX_OVERLAY_SERIES).map(group => ({
+    key: group.key,
+    label: group.label,
+    points: equitySeries(group.trades, { interval: equityInterval, timeZone, startingEquity: single ? startingEquity : 0 }),
+  })), [groups, equityInterval, timeZone, single, startingEquity]);
+
+  const data = useMemo(() => mergeSeries(series), [series]);
+  const first = data[0]?.time;
+  const last = data[data.length - 1]?.time;
+
+  const bands = useMemo(() => {
+    if (!single || last === undefined) return [];
+    return drawdowns
+      .map(period => ({
+        x1: axisTime(period.start, equityInterval, timeZone),
+        x2: period.recovery ? axisTime(period.recovery, equityInterval, timeZone) : last,
+        depth: period.depth,
+      }))
+      .filter(band => band.x2 > band.x1);
+  }, [single, drawdowns, equityInterval, timeZone, last]);
+  const deepest = bands.reduce<typeof bands[number] | null>((max, band) => (!max || band.depth > max.depth ? band : max), null);
+
+  // Events outside the curve's range are left off
+  const markers = useMemo(() => {
+    if (first === undefined || last === undefined) return [];
+    return events
+      .map(event => ({ ...event, time: axisTime(event.at, equityInterval, timeZone) }))
+      .filter(event => event.time >= first && event.time <= last);
+  }, [events, equityInterval, timeZone, first, last]);
+
+  const formatTime = (time: number) => format(new Date(time), axisFormat(equityInterval));
+  const formatValue = (value: number) => formatMoney(value, currency);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-end gap-2">
+        {controls}
+        <Select value={equityInterval} onValueChange={(value) => setEquityInterval(value as EquityInterval)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EQUITY_INTERVALS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {data.length === 0 ? (
+        <p className="text-sm text-slate-500 py-8 text-center">No trades to chart yet.</p>
+      ) : (
+        <ResponsiveContainer width="100%" height={height}>
+          <ComposedChart data={data}>
+            <defs>
+              <linearGradient id="equityCurveGradient" x1="0" y1="0" x2="0" y2="1">
+                <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
+                <stop offset="95%" stopColor="#10b981" stopOpacity={0.1}/>
+              </linearGradient>
+            </defs>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis dataKey="time" type="number" scale="time" domain={['dataMin', 'dataMax']} tickFormatter={formatTime} minTickGap={40} />
+            <YAxis tickFormatter={(value: number) => formatMoney(value, currency, 0)} domain={['auto', 'auto']} width={80} />
+            <Tooltip
+              labelFormatter={(time: number) => formatTime(time)}
+              formatter={(value: number, name: string) => [formatValue(value), name]}
+            />
+            {bands.map(band => (
+              <ReferenceArea
+                key={band.x1}
+                x1={band.x1}
+                x2={band.x2}
+                fill="#ef4444"
+                fillOpacity={band === deepest ? 0.15 : 0.06}
+                label={band === deepest ? { value: `Max DD ${formatValue(-band.depth)}`, position: 'insideTop', fontSize: 11, fill: '#b91c1c' } : undefined}
+              />
+            ))}
+            {markers.map((marker, index) => (
+              <ReferenceLine
+                key={`${marker.kind}-${marker.at}-${index}`}
+                x={marker.time}
+                stroke={EVENT_COLORS[marker.tone]}
+                strokeDasharray="4 4"
+                label={{ value: marker.kind === 'bias-check' ? 'B' : 'I', position: 'top', fontSize: 10, fill: EVENT_COLORS[marker.tone] }}
+              />
+            ))}
+            {single ? (
+              <Area
+                type={equityInterval === 'trade' ? 'stepAfter' : 'monotone'}
+                dataKey="s0"
+                name={startingEquity ? 'Equity' : 'Cumulative P&L'}
+                stroke="#10b981"
+                fill="url(#equityCurveGradient)"
+                strokeWidth={3}
+              />
+            ) : (
+              series.map((line, index) => (
+                <Line
+                  key={line.key}
+                  type="monotone"
+                  dataKey={`s${index}`}
+                  name={line.label}
+                  stroke={SERIES_COLORS[index % SERIES_COLORS.length]}
+                  strokeWidth={2}
+                  dot={false}
+                  connectNulls
+                />
+              ))
+            )}
+            {!single && <Legend />}
+          </ComposedChart>
+        </ResponsiveContainer>
+      )}
+
+      {groups.length > MAX_OVERLAY_SERIES && (
+        <p className="text-xs text-slate-500">Showing the {MAX_OVERLAY_SERIES} groups with the most trades of {groups.length}.</p>
+      )}
+
+      {markers.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {markers.map((marker, index) => (
+            <Badge key={`${marker.kind}-${marker.at}-${index}`} variant="outline" className="font-normal" style={{ borderColor: EVENT_COLORS[marker.tone] }}>
+              <span className="font-semibold mr-1">{marker.kind === 'bias-check' ? 'B' : 'I'}</span>
+              {formatTime(marker.time)} · {marker.label}
+            </Badge>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EquityCurveChart;
@@ -0,0 +1,104 @@
+import { useMemo, useRef } from 'react';
+import { ArrowLeftRight, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useFxRates } from '@/hooks/useFxRates';
+
+/**
+ * The user's FX rate table: the latest rate of each pair, importing more from a local CSV, and
+ * removing them all
+ */
+const FxRatesDialog = () => {
+  const { rates, importRates, clearRates, isImporting, isClearing } = useFxRates();
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const pairs = useMemo(() => {
+    const byPair = new Map<string, { pair: string; from: string; to: string; days: number; latest: string; rate: number }>();
+    rates.forEach(rate => {
+      const pair = `${rate.base_currency}/${rate.quote_currency}`;
+      const current = byPair.get(pair);
+      byPair.set(pair, {
+        pair,
+        from: current ? (rate.rate_date < current.from ? rate.rate_date : current.from) : rate.rate_date,
+        to: current ? (rate.rate_date > current.to ? rate.rate_date : current.to) : rate.rate_date,
+        days: (current?.days || 0) + 1,
+        latest: current && current.latest > rate.rate_date ? current.latest : rate.rate_date,
+        rate: current && current.latest > rate.rate_date ? current.rate : Number(rate.rate),
+      });
+    });
+    return [...byPair.values()].sort((a, b) => a.pair.localeCompare(b.pair));
+  }, [rates]);
+
+  const handleFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) importRates(file);
+    event.target.value = '';
+  };
+
+  return (
+    <Dialog>
+      <DialogTrigger asChild>
+        <Button variant="outline" className="border-slate-300">
+          <ArrowLeftRight className="mr-2 h-4 w-4" />
+          FX Rates
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>FX Rates</DialogTitle>
+          <DialogDescription>
+            P&amp;L in another currency is converted with the rate on the trade's date, or the closest earlier one.
+            Import a CSV with <code>date</code>, <code>base</code>, <code>quote</code> and <code>rate</code> columns
+            (or a <code>pair</code> column such as EUR/USD); 1 base buys <em>rate</em> quote.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <input ref={fileInput} type="file" accept=".csv,text/csv" className="hidden" onChange={handleFile} />
+          <Button onClick={() => fileInput.current?.click()} disabled={isImporting}>
+            <Upload className="mr-2 h-4 w-4" />
+            {isImporting ? 'Importing...' : 'Import Rates CSV'}
+          </Button>
+          {rates.length > 0 && (
+            <Button variant="outline" onClick={() => clearRates()} disabled={isClearing}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              {isClearing ? 'Removing...' : 'Remove All Rates'}
+            </Button>
+          )}
+        </div>
+
+        {pairs.length === 0 ? (
+          <p className="text-sm text-slate-500 py-4">
+            No rates imported yet. Journals can still be viewed in their own currency.
+          </p>
+        ) : (
+          <div className="border rounded-md">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Pair</TableHead>
+                  <TableHead>Dates</TableHead>
+                  <TableHead className="text-right">Days</TableHead>
+                  <TableHead className="text-right">Latest rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pairs.map(pair => (
+                  <TableRow key={pair.pair}>
+                    <TableCell className="font-mono">{pair.pair}</TableCell>
+                    <TableCell className="text-sm text-slate-600">{pair.from} to {pair.to}</TableCell>
+                    <TableCell className="text-right">{pair.days}</TableCell>
+                    <TableCell className="text-right font-mono">{pair.rate.toFixed(5)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FxRatesDialog;
@@ -0,0 +1,101 @@
+import { useMemo, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { useEquityEvents } from '@/hooks/useEquityEvents';
+import EquityCurveChart from '@/components/EquityCurveChart';
+import { CurrencyConversion } from '@/lib/currency';
+import { DrawdownPeriod } from '@/lib/drawdowns';
+import { EQUITY_OVERLAYS, EquityOverlay, groupTrades } from '@/lib/equity-series';
+import { PnlBasis, applyCurrency, applyPnlBasis } from '@/lib/trade-metrics';
+
+type Trade = Tables<'trades'>;
+
+interface EquityCurvePanelProps {
+  journal: Tables<'journals'>;
+  /** The journal's trades on the selected P&L basis and in the reporting currency */
+  trades: Trade[];
+  startingEquity: number | null;
+  drawdowns: DrawdownPeriod[];
+  pnlBasis: PnlBasis;
+  conversion: CurrencyConversion;
+}
+
+/** The journal's equity curve, optionally split by tag or playbook or overlaid on the user's other journals */
+const EquityCurvePanel = ({ journal, trades, startingEquity, drawdowns, pnlBasis, conversion }: EquityCurvePanelProps) => {
+  const { user } = useAuth();
+  const [overlay, setOverlay] = useState<EquityOverlay>('none');
+  const { events } = useEquityEvents(journal.id);
+
+  const { data: playbooks } = useQuery({
+    queryKey: ['playbookNames', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('trading_playbooks')
+        .select('id, name')
+        .eq('user_id', user!.id);
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && overlay === 'playbook',
+  });
+
+  // Every journal's trades, each converted from its own account currency
+  const { data: journals } = useQuery({
+    queryKey: ['journalEquity', user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('journals')
+        .select('id, name, currency, trades(*)')
+        .eq('user_id', user!.id)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && overlay === 'journal',
+  });
+
+  const groups = useMemo(() => {
+    if (overlay === 'none') return [{ key: journal.id, label: journal.name, trades }];
+    if (overlay === 'tag') return groupTrades(trades, 'tag');
+    if (overlay === 'playbook') {
+      return groupTrades(trades, 'playbook', Object.fromEntries((playbooks || []).map(playbook => [playbook.id, playbook.name])));
+    }
+
+    if (!journals) return [];
+    const allTrades = journals.flatMap(other => applyCurrency(
+      applyPnlBasis(other.trades, pnlBasis),
+      { ...conversion, from: other.currency }
+    ).trades);
+    return groupTrades(allTrades, 'journal', Object.fromEntries(journals.map(other => [other.id, other.name])));
+  }, [overlay, journal.id, journal.name, trades, playbooks, journals, pnlBasis, conversion]);
+
+  return (
+    <EquityCurveChart
+      groups={groups}
+      startingEquity={overlay === 'none' ? startingEquity : null}
+      drawdowns={overlay === 'none' ? drawdowns : []}
+      events={events}
+      currency={conversion.to}
+      timeZone={journal.timezone}
+      defaultInterval="day"
+      height={380}
+      controls={
+        <Select value={overlay} onValueChange={(value) => setOverlay(value as EquityOverlay)}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EQUITY_OVERLAYS.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      }
+    />
+  );
+};
+
+export default EquityCurvePanel;
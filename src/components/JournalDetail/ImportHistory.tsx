@@ -0,0 +1,222 @@
+import { Fragment, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { ChevronDown, ChevronRight, FileSpreadsheet, History, Undo2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { ImportJob, replacedTradeCount, useImportHistory } from '@/hooks/useImportJobs';
+import { FILL_OPTIONAL_FIELDS, FILL_REQUIRED_FIELDS, OPTIONAL_FIELDS, REQUIRED_FIELDS } from '@/lib/import-fields';
+
+interface ImportHistoryProps {
+  journalId: string;
+}
+
+/** Row accounting recorded with each import's raw data */
+interface ImportSummary {
+  mapping?: Record<string, string>;
+  totalRows?: number;
+  emptyRowsSkipped?: number;
+  parseErrors?: number;
+  mockDataFiltered?: number;
+  csvDuplicates?: number;
+  databaseDuplicates?: number;
+  duplicatesKept?: number;
+  duplicatesOverwritten?: number;
+  importMode?: string;
+}
+
+const FIELD_LABELS = Object.fromEntries(
+  [...REQUIRED_FIELDS, ...OPTIONAL_FIELDS, ...FILL_REQUIRED_FIELDS, ...FILL_OPTIONAL_FIELDS].map(field => [field.key, field.label])
+);
+
+const importSummary = (job: ImportJob): ImportSummary => {
+  const rawData = job.raw_data as { data?: ImportSummary } | null;
+  return rawData?.data || {};
+};
+
+const count = (value: number | undefined) => (value === undefined ? '-' : value.toLocaleString());
+
+const ImportHistory = ({ journalId }: ImportHistoryProps) => {
+  const { imports, isLoading, rollbackImport, isRollingBack } = useImportHistory(journalId);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [jobToRollback, setJobToRollback] = useState<ImportJob | null>(null);
+
+  return (
+    <Card className="border-0 shadow-xl bg-white/90 backdrop-blur-sm">
+      <CardHeader>
+        <CardTitle className="text-xl font-bold text-slate-800 flex items-center gap-2">
+          <History className="w-5 h-5 text-blue-600" />
+          Import History
+        </CardTitle>
+        <CardDescription className="text-slate-600 mt-1">
+          Every CSV upload into this journal, with how its rows were accounted for. Rolling back removes only the trades that upload inserted.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-slate-500">Loading imports...</p>
+        ) : imports.length === 0 ? (
+          <div className="text-center py-12 border-2 border-dashed border-slate-200 rounded-lg bg-slate-50/50">
+            <FileSpreadsheet className="w-12 h-12 text-slate-400 mx-auto mb-4" />
+            <h3 className="text-lg font-semibold text-slate-700 mb-2">No Imports Yet</h3>
+            <p className="text-slate-500">Uploaded CSV files will be listed here.</p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-8" />
+                  <TableHead>Imported</TableHead>
+                  <TableHead>File</TableHead>
+                  <TableHead className="text-right">Rows</TableHead>
+                  <TableHead className="text-right">Parse Errors</TableHead>
+                  <TableHead className="text-right">Duplicates</TableHead>
+                  <TableHead className="text-right">Inserted</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {imports.map(job => {
+                  const summary = importSummary(job);
+                  const expanded = expandedId === job.id;
+                  const duplicates = summary.csvDuplicates === undefined && summary.databaseDuplicates === undefined
+                    ? undefined
+                    : (summary.csvDuplicates || 0) + (summary.databaseDuplicates || 0);
+                  const mapping = Object.entries(summary.mapping || {}).filter(([, header]) => header);
+
+                  return (
+                    <Fragment key={job.id}>
+                      <TableRow className="cursor-pointer hover:bg-slate-50" onClick={() => setExpandedId(expanded ? null : job.id)}>
+                        <TableCell>
+                          {expanded ? <ChevronDown className="w-4 h-4 text-slate-500" /> : <ChevronRight className="w-4 h-4 text-slate-500" />}
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap">{format(new Date(job.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                        <TableCell className="font-medium text-slate-700">{job.file_name || 'Untitled import'}</TableCell>
+                        <TableCell className="text-right">{count(summary.totalRows)}</TableCell>
+                        <TableCell className="text-right">{count(summary.parseErrors)}</TableCell>
+                        <TableCell className="text-right">{count(duplicates)}</TableCell>
+                        <TableCell className="text-right font-semibold">{job.inserted_trades.toLocaleString()}</TableCell>
+                        <TableCell>
+                          {job.status === 'rolled_back' ? (
+                            <Badge variant="outline" className="text-slate-500">Rolled back</Badge>
+                          ) : (
+                            <Badge className="bg-green-100 text-green-800 hover:bg-green-100">Imported</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {job.status === 'completed' && !job.can_roll_back && (
+                            <span className="text-xs text-slate-400" title="This import predates import history, so the trades it added were not recorded.">
+                              Can't roll back
+                            </span>
+                          )}
+                          {job.status === 'completed' && job.can_roll_back && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-600 hover:text-red-700"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setJobToRollback(job);
+                              }}
+                            >
+                              <Undo2 className="w-3 h-3 mr-1" />
+                              Roll back
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                      {expanded && (
+                        <TableRow className="bg-slate-50/60 hover:bg-slate-50/60">
+                          <TableCell />
+                          <TableCell colSpan={8}>
+                            <div className="grid md:grid-cols-2 gap-6 py-2 text-sm">
+                              <div>
+                                <p className="font-semibold text-slate-700 mb-2">Row accounting</p>
+                                <dl className="grid grid-cols-2 gap-y-1 text-slate-600">
+                                  <dt>Rows in file</dt><dd className="text-right">{count(summary.totalRows)}</dd>
+                                  <dt>Empty rows</dt><dd className="text-right">{count(summary.emptyRowsSkipped)}</dd>
+                                  <dt>Parse errors</dt><dd className="text-right">{count(summary.parseErrors)}</dd>
+                                  <dt>Sample data filtered</dt><dd className="text-right">{count(summary.mockDataFiltered)}</dd>
+                                  <dt>Duplicates within file</dt><dd className="text-right">{count(summary.csvDuplicates)}</dd>
+                                  <dt>Already in journal</dt><dd className="text-right">{count(summary.databaseDuplicates)}</dd>
+                                  {summary.duplicatesKept !== undefined && (
+                                    <><dt>Duplicates kept</dt><dd className="text-right">{count(summary.duplicatesKept)}</dd></>
+                                  )}
+                                  {summary.duplicatesOverwritten !== undefined && (
+                                    <><dt>Journal trades overwritten</dt><dd className="text-right">{count(summary.duplicatesOverwritten)}</dd></>
+                                  )}
+                                  <dt>Trades inserted</dt><dd className="text-right font-semibold">{job.inserted_trades.toLocaleString()}</dd>
+                                  {job.status === 'rolled_back' && (
+                                    <>
+                                      <dt>Trades rolled back</dt>
+                                      <dd className="text-right">
+                                        {count(job.rolled_back_trades ?? undefined)}
+                                        {job.rolled_back_at && ` on ${format(new Date(job.rolled_back_at), 'MMM d, yyyy')}`}
+                                      </dd>
+                                    </>
+                                  )}
+                                </dl>
+                              </div>
+                              <div>
+                                <p className="font-semibold text-slate-700 mb-2">
+                                  Mapping used{summary.importMode === 'fills' ? ' (fills)' : ''}
+                                </p>
+                                {mapping.length === 0 ? (
+                                  <p className="text-slate-500">No mapping was recorded for this import.</p>
+                                ) : (
+                                  <dl className="grid grid-cols-2 gap-y-1 text-slate-600">
+                                    {mapping.map(([field, header]) => (
+                                      <Fragment key={field}>
+                                        <dt>{FIELD_LABELS[field] || field}</dt>
+                                        <dd className="text-right font-mono text-xs">{header}</dd>
+                                      </Fragment>
+                                    ))}
+                                  </dl>
+                                )}
+                              </div>
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={!!jobToRollback} onOpenChange={() => setJobToRollback(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Roll Back Import</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the {jobToRollback?.inserted_trades} trades imported from {jobToRollback?.file_name || 'this file'}, including any notes added to them. Trades entered manually are kept and session metrics are recalculated.
+              {jobToRollback && replacedTradeCount(jobToRollback) > 0 && ` The ${replacedTradeCount(jobToRollback)} journal trades this import overwrote are restored.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (jobToRollback) rollbackImport(jobToRollback.id);
+                setJobToRollback(null);
+              }}
+              className="bg-red-600 hover:bg-red-700"
+              disabled={isRollingBack}
+            >
+              Roll Back Import
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default ImportHistory;
@@ -6,16 +6,28 @@ import { Badge } from '@/components/ui/badge';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { ArrowLeft, Upload, TrendingUp, TrendingDown, MoreHorizontal, Edit, Trash2, Eye, Calendar, DollarSign, Target, BarChart3, Filter, Download, Plus, FileSpreadsheet, FileUp, ChevronRight } from 'lucide-react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ArrowLeft, Upload, TrendingUp, TrendingDown, MoreHorizontal, Edit, Trash2, Eye, Calendar, CalendarDays, DollarSign, Target, BarChart3, Filter, Download, Plus, FileSpreadsheet, FileUp, ChevronRight, History, Globe, FlaskConical, LineChart } from 'lucide-react';
 import { Tables } from '@/integrations/supabase/types';
-import { calculateMetrics } from '@/lib/trade-metrics';
+import { PnlBasis, RISK_RATIOS, applyCurrency, applyPnlBasis, calculateMetrics, formatRiskRatio } from '@/lib/trade-metrics';
+import { analyzeDrawdowns, startingEquity } from '@/lib/drawdowns';
+import { TIMEZONE_OPTIONS, dayToDate, sessionDay, timezoneLabel, tradingDay } from '@/lib/timezones';
+import { formatMoney } from '@/lib/currency';
+import { useReportingCurrency } from '@/hooks/useReportingCurrency';
 import { useMemo, useState } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import CalendarView from '@/components/CalendarView';
+import UnderwaterChart from '@/components/UnderwaterChart';
+import DrawdownPeriods from '@/components/DrawdownPeriods';
+import EquityCurvePanel from '@/components/JournalDetail/EquityCurvePanel';
 import JournalMetricsCard from '@/components/JournalDetail/JournalMetricsCard';
 import JournalStatsCard from '@/components/JournalDetail/JournalStatsCard';
+import ImportHistory from '@/components/JournalDetail/ImportHistory';
+import PnlBasisToggle from '@/components/PnlBasisToggle';
+import CurrencySelect from '@/components/CurrencySelect';
+import FxRatesDialog from '@/components/FxRatesDialog';
 
 type TradeSessionWithTrades = Tables<'trade_sessions'> & { trades: Tables<'trades'>[] };
 type Journal = Tables<'journals'>;
@@ -32,12 +44,28 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
   const [sessionToDelete, setSessionToDelete] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState('sessions');
   const [filterPeriod, setFilterPeriod] = useState<'all' | 'week' | 'month' | 'quarter'>('all');
+  const [pnlBasis, setPnlBasis] = useState<PnlBasis>('net');
+  const { reportingCurrency, setReportingCurrency, conversion } = useReportingCurrency(journal.currency);
 
   const aggregatedMetrics = useMemo(() => {
     const allTrades = sessions.flatMap(session => session.trades);
     if (allTrades.length === 0) return null;
-    return calculateMetrics(allTrades);
-  }, [sessions]);
+    return calculateMetrics(allTrades, { basis: pnlBasis, timeZone: journal.timezone, currency: conversion, accountSize: journal.account_size });
+  }, [sessions, pnlBasis, journal.timezone, conversion, journal.account_size]);
+
+  // Trades in another currency with no rate to the reporting one are left out of every figure
+  const unconvertedTrades = useMemo(
+    () => applyCurrency(sessions.flatMap(session => session.trades), conversion).unconverted,
+    [sessions, conversion]
+  );
+
+  // Drawdowns and the equity curve run over the whole journal, from the account size as starting equity
+  const journalTrades = useMemo(
+    () => applyCurrency(applyPnlBasis(sessions.flatMap(session => session.trades), pnlBasis), conversion).trades,
+    [sessions, pnlBasis, conversion]
+  );
+  const equity = useMemo(() => startingEquity(journal.account_size, journalTrades, conversion), [journal.account_size, journalTrades, conversion]);
+  const drawdowns = useMemo(() => analyzeDrawdowns(journalTrades, equity), [journalTrades, equity]);
 
   // Filter sessions based on the selected period
   const filteredSessions = useMemo(() => {
@@ -54,15 +82,16 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
       cutoffDate.setMonth(now.getMonth() - 3);
     }
     
-    return sessions.filter(session => new Date(session.created_at) >= cutoffDate);
-  }, [sessions, filterPeriod]);
+    const cutoffDay = tradingDay(cutoffDate, journal.timezone);
+    return sessions.filter(session => sessionDay(session, journal.timezone) >= cutoffDay);
+  }, [sessions, filterPeriod, journal.timezone]);
 
   // Calculate period metrics
   const periodMetrics = useMemo(() => {
     const periodTrades = filteredSessions.flatMap(session => session.trades);
     if (periodTrades.length === 0) return null;
-    return calculateMetrics(periodTrades);
-  }, [filteredSessions]);
+    return calculateMetrics(periodTrades, { basis: pnlBasis, timeZone: journal.timezone, currency: conversion });
+  }, [filteredSessions, pnlBasis, journal.timezone, conversion]);
 
   const deleteSessionMutation = useMutation({
     mutationFn: async (sessionId: string) => {
@@ -84,6 +113,66 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
     },
   });
 
+  // Trades are stored in UTC, so a new zone only moves the hourly and weekday buckets
+  const updateTimezoneMutation = useMutation({
+    mutationFn: async (timezone: string) => {
+      const { error } = await supabase
+        .from('journals')
+        .update({ timezone })
+        .eq('id', journal.id);
+      if (error) throw error;
+      return timezone;
+    },
+    onSuccess: (timezone) => {
+      queryClient.invalidateQueries({ queryKey: ['journalWithSessions', journal.id] });
+      queryClient.invalidateQueries({ queryKey: ['journal', journal.id] });
+      queryClient.invalidateQueries({ queryKey: ['journals'] });
+      toast({ title: "Timezone updated", description: `Time-of-day stats now use ${timezoneLabel(timezone)}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Trades without their own currency take the journal's, so their amounts are relabelled, not converted
+  const updateCurrencyMutation = useMutation({
+    mutationFn: async (currency: string) => {
+      const { error } = await supabase
+        .from('journals')
+        .update({ currency })
+        .eq('id', journal.id);
+      if (error) throw error;
+      return currency;
+    },
+    onSuccess: (currency) => {
+      queryClient.invalidateQueries({ queryKey: ['journalWithSessions', journal.id] });
+      queryClient.invalidateQueries({ queryKey: ['journal', journal.id] });
+      queryClient.invalidateQueries({ queryKey: ['journals'] });
+      toast({ title: "Currency updated", description: `This journal's account currency is now ${currency}.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Only rows flagged is_sample go; real trades added while in demo mode stay
+  const clearSampleDataMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc('clear_sample_data', { p_journal_id: journal.id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (removed) => {
+      queryClient.invalidateQueries({ queryKey: ['journalWithSessions', journal.id] });
+      queryClient.invalidateQueries({ queryKey: ['journal', journal.id] });
+      queryClient.invalidateQueries({ queryKey: ['journals'] });
+      toast({ title: "Sample data removed", description: `${removed} sample trade${removed === 1 ? '' : 's'} removed. Demo mode is off.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
   const handleSessionClick = (sessionId: string) => {
     navigate(`/journals/${journal.id}/sessions/${sessionId}`);
   };
@@ -92,14 +181,8 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
     deleteSessionMutation.mutate(sessionId);
   };
 
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2
-    }).format(value);
-  };
+  const formatCurrency = (value: number) => formatMoney(value, reportingCurrency);
+  const formatDay = (day: string) => dayToDate(day).toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
 
   const getWinRateColor = (winRate: number) => {
     if (winRate >= 70) return 'text-green-600';
@@ -175,6 +258,28 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
               </div>
             </div>
             <div className="flex gap-2">
+              <Select
+                value={journal.timezone}
+                onValueChange={(timezone) => updateTimezoneMutation.mutate(timezone)}
+                disabled={updateTimezoneMutation.isPending}
+              >
+                <SelectTrigger className="w-[220px] border-slate-300" aria-label="Journal timezone">
+                  <Globe className="mr-2 h-4 w-4 text-slate-500" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TIMEZONE_OPTIONS.map(option => (
+                    <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <CurrencySelect
+                value={journal.currency}
+                onChange={(currency) => updateCurrencyMutation.mutate(currency)}
+                label="Account currency"
+                disabled={updateCurrencyMutation.isPending}
+              />
+              <FxRatesDialog />
               <DropdownMenu>
                 <DropdownMenuTrigger asChild>
                   <Button variant="outline" className="border-slate-300">
@@ -209,15 +314,63 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
       </header>
 
       <div className="container mx-auto px-4 py-8">
+        {journal.demo_mode && (
+          <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-8 rounded-lg border border-amber-200 bg-amber-50 p-4">
+            <div className="flex items-start gap-3">
+              <FlaskConical className="h-5 w-5 text-amber-600 mt-0.5" />
+              <div>
+                <p className="font-medium text-amber-900">Demo mode</p>
+                <p className="text-sm text-amber-800">
+                  This journal contains sample trades. Remove them before relying on these stats; your own trades are kept.
+                </p>
+              </div>
+            </div>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="outline" className="border-amber-300 text-amber-900 hover:bg-amber-100" disabled={clearSampleDataMutation.isPending}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  {clearSampleDataMutation.isPending ? 'Removing...' : 'Remove Sample Data'}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove Sample Data</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    All trades marked as sample data will be deleted from this journal and demo mode will be turned off. Trades you imported or entered yourself are not affected.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => clearSampleDataMutation.mutate()}>
+                    Remove Sample Data
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        )}
+
+        {unconvertedTrades > 0 && (
+          <div className="mb-8 rounded-lg border border-amber-200 bg-amber-50 p-4 text-sm text-amber-800">
+            {unconvertedTrades} trade{unconvertedTrades === 1 ? ' is' : 's are'} left out of these figures because there is no FX rate to {reportingCurrency}.
+            Import rates from the FX Rates dialog, or report in the trades' own currency.
+          </div>
+        )}
+
         {/* Journal Overview Cards */}
         {aggregatedMetrics && (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
             <JournalMetricsCard
-              title="Net P&L"
+              title={pnlBasis === 'gross' ? 'Gross P&L' : 'Net P&L'}
               value={aggregatedMetrics.total_pnl}
+              currency={reportingCurrency}
               isPositive={aggregatedMetrics.total_pnl >= 0}
               icon={DollarSign}
-              description={`Across ${aggregatedMetrics.total_trades} trades`}
+              description={
+                aggregatedMetrics.total_commissions > 0 || aggregatedMetrics.total_fees > 0
+                  ? `${formatCurrency(aggregatedMetrics.total_commissions + aggregatedMetrics.total_fees)} in commissions & fees`
+                  : `Across ${aggregatedMetrics.total_trades} trades`
+              }
             />
             
             <JournalMetricsCard
@@ -240,15 +393,18 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
             <JournalMetricsCard
               title="Expectancy"
               value={aggregatedMetrics.expectancy}
+              currency={reportingCurrency}
               isPositive={aggregatedMetrics.expectancy >= 0}
               icon={DollarSign}
-              description="Average $ per trade"
+              description="Average P&L per trade"
             />
           </div>
         )}
 
         {/* Period Filter */}
-        <div className="flex justify-end mb-4">
+        <div className="flex justify-end gap-3 mb-4">
+          <CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} label="Reporting currency" className="w-[110px] h-9 border-slate-300" />
+          <PnlBasisToggle value={pnlBasis} onChange={setPnlBasis} />
           <div className="inline-flex rounded-md shadow-sm">
             <Button 
               variant={filterPeriod === 'all' ? 'default' : 'outline'} 
@@ -327,9 +483,103 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
           </div>
         )}
 
-        {/* Tabs for Sessions and Calendar View */}
+        {/* Trading Day Stats */}
+        {periodMetrics && periodMetrics.trading_days > 0 && (
+          <div className="mb-6">
+            <Card className="border-0 shadow-lg">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <CalendarDays className="w-5 h-5 text-purple-600 mr-2" />
+                  Trading Days
+                </CardTitle>
+                <CardDescription>
+                  {periodMetrics.trading_days} day{periodMetrics.trading_days !== 1 ? 's' : ''} traded • days end at midnight {timezoneLabel(journal.timezone)} time
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                  <JournalStatsCard
+                    label="Green Days"
+                    value={`${periodMetrics.green_day_rate.toFixed(1)}%`}
+                    isPositive={periodMetrics.green_day_rate >= 50}
+                  />
+                  <JournalStatsCard
+                    label="Avg Day"
+                    value={formatCurrency(periodMetrics.avg_daily_pnl)}
+                    isPositive={periodMetrics.avg_daily_pnl > 0}
+                  />
+                  <JournalStatsCard
+                    label="Median Day"
+                    value={formatCurrency(periodMetrics.median_daily_pnl)}
+                    isPositive={periodMetrics.median_daily_pnl > 0}
+                  />
+                  <JournalStatsCard
+                    label="Daily Std Dev"
+                    value={formatCurrency(periodMetrics.daily_pnl_std_dev)}
+                  />
+                  <JournalStatsCard
+                    label={`Best Day${periodMetrics.best_day ? ` (${formatDay(periodMetrics.best_day.date)})` : ''}`}
+                    value={formatCurrency(periodMetrics.best_day?.pnl || 0)}
+                    isPositive={(periodMetrics.best_day?.pnl || 0) > 0}
+                  />
+                  <JournalStatsCard
+                    label={`Worst Day${periodMetrics.worst_day ? ` (${formatDay(periodMetrics.worst_day.date)})` : ''}`}
+                    value={formatCurrency(periodMetrics.worst_day?.pnl || 0)}
+                    isPositive={(periodMetrics.worst_day?.pnl || 0) >= 0}
+                  />
+                  <JournalStatsCard
+                    label="Green Day Streak"
+                    value={`${periodMetrics.max_green_day_streak} day${periodMetrics.max_green_day_streak !== 1 ? 's' : ''}`}
+                  />
+                  <JournalStatsCard
+                    label="Red Day Streak"
+                    value={`${periodMetrics.max_red_day_streak} day${periodMetrics.max_red_day_streak !== 1 ? 's' : ''}`}
+                    isPositive={periodMetrics.max_red_day_streak === 0}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Risk-Adjusted Returns, over the whole journal since they compound from the account size */}
+        {aggregatedMetrics && (
+          <div className="mb-6">
+            <Card className="border-0 shadow-lg">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center">
+                  <Target className="w-5 h-5 text-purple-600 mr-2" />
+                  Risk-Adjusted Returns
+                </CardTitle>
+                <CardDescription>
+                  {journal.account_size
+                    ? 'All time • return ratios use daily returns on account equity'
+                    : 'All time • set an account size to get the return ratios'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
+                  {RISK_RATIOS.map(ratio => {
+                    const value = aggregatedMetrics[ratio.key];
+                    return (
+                      <JournalStatsCard
+                        key={ratio.key}
+                        label={ratio.label}
+                        value={formatRiskRatio(ratio.key, value)}
+                        isPositive={value === null || (ratio.key === 'ulcer_index' ? value < 5 : value > 0)}
+                        tooltip={ratio.explanation}
+                      />
+                    );
+                  })}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        )}
+
+        {/* Tabs for Sessions, Calendar View, Equity, Drawdowns and Import History */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsList className="grid w-full max-w-3xl grid-cols-5">
             <TabsTrigger value="sessions" className="flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
               Trading Sessions
@@ -338,6 +588,18 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
               <Calendar className="w-4 h-4" />
               Calendar View
             </TabsTrigger>
+            <TabsTrigger value="equity" className="flex items-center gap-2">
+              <LineChart className="w-4 h-4" />
+              Equity Curve
+            </TabsTrigger>
+            <TabsTrigger value="drawdowns" className="flex items-center gap-2">
+              <TrendingDown className="w-4 h-4" />
+              Drawdowns
+            </TabsTrigger>
+            <TabsTrigger value="imports" className="flex items-center gap-2">
+              <History className="w-4 h-4" />
+              Imports
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="sessions">
@@ -421,7 +683,7 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
                       </TableHeader>
                       <TableBody>
                         {filteredSessions.map((session, index) => {
-                          const sessionMetrics = calculateMetrics(session.trades);
+                          const sessionMetrics = calculateMetrics(session.trades, { basis: pnlBasis, timeZone: journal.timezone, currency: conversion });
                           const isRecent = index < 3;
                           const isProfitable = sessionMetrics.total_pnl > 0;
                           
@@ -444,7 +706,7 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
                               <TableCell className="font-medium">
                                 <div className="flex items-center space-x-2">
                                   <div className="text-slate-800">
-                                    {new Date(session.created_at).toLocaleDateString('en-US', {
+                                    {dayToDate(sessionDay(session, journal.timezone)).toLocaleDateString('en-US', {
                                       month: 'short',
                                       day: 'numeric',
                                       year: 'numeric'
@@ -457,9 +719,8 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
                                   )}
                                 </div>
                                 <div className="text-xs text-slate-500 mt-1">
-                                  {new Date(session.created_at).toLocaleTimeString('en-US', {
-                                    hour: '2-digit',
-                                    minute: '2-digit'
+                                  {dayToDate(sessionDay(session, journal.timezone)).toLocaleDateString('en-US', {
+                                    weekday: 'long'
                                   })}
                                 </div>
                               </TableCell>
@@ -556,7 +817,67 @@ const JournalDashboard = ({ journal, sessions, onUploadNew }: JournalDashboardPr
           </TabsContent>
 
           <TabsContent value="calendar">
-            <CalendarView sessions={sessions} onSessionClick={handleSessionClick} />
+            <CalendarView sessions={sessions} onSessionClick={handleSessionClick} conversion={conversion} timeZone={journal.timezone} />
+          </TabsContent>
+
+          <TabsContent value="equity">
+            <Card className="border-0 shadow-xl bg-white/90 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                  <LineChart className="w-5 h-5 text-green-600" />
+                  Equity Curve
+                </CardTitle>
+                <CardDescription className="text-slate-600 mt-1">
+                  Equity over time with drawdown periods shaded and bias checks (B) and imports (I) marked. Overlay
+                  tags, playbooks or your other journals to compare their cumulative P&L.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <EquityCurvePanel
+                  journal={journal}
+                  trades={journalTrades}
+                  startingEquity={equity}
+                  drawdowns={drawdowns.periods}
+                  pnlBasis={pnlBasis}
+                  conversion={conversion}
+                />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="drawdowns" className="space-y-6">
+            <Card className="border-0 shadow-xl bg-white/90 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-bold text-slate-800 flex items-center gap-2">
+                  <TrendingDown className="w-5 h-5 text-red-600" />
+                  Underwater Equity
+                </CardTitle>
+                <CardDescription className="text-slate-600 mt-1">
+                  {drawdowns.maxDrawdownPct !== null
+                    ? `Drawdown as a percentage of peak equity, starting from the ${formatMoney(journal.account_size || 0, journal.currency, 0)} account size`
+                    : 'Drawdown in dollars. Set the account size when creating a journal to see it as a percentage of equity.'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UnderwaterChart analysis={drawdowns} currency={reportingCurrency} timeZone={journal.timezone} />
+              </CardContent>
+            </Card>
+
+            <Card className="border-0 shadow-xl bg-white/90 backdrop-blur-sm">
+              <CardHeader>
+                <CardTitle className="text-xl font-bold text-slate-800">Drawdown Periods</CardTitle>
+                <CardDescription className="text-slate-600 mt-1">
+                  Each fall from a peak, how deep it went and how long it took to climb back
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <DrawdownPeriods analysis={drawdowns} currency={reportingCurrency} timeZone={journal.timezone} />
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="imports">
+            <ImportHistory journalId={journal.id} />
           </TabsContent>
         </Tabs>
       </div>
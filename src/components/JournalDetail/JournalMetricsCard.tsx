@@ -1,5 +1,6 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { DivideIcon as LucideIcon } from "lucide-react";
+import { formatMoney } from "@/lib/currency";
 
 interface JournalMetricsCardProps {
   title: string;
@@ -9,6 +10,8 @@ interface JournalMetricsCardProps {
   isPositive?: boolean;
   format?: 'currency' | 'percent' | 'ratio' | 'number';
   valueColor?: string;
+  /** Currency of `value` when it is an amount */
+  currency?: string;
 }
 
 const JournalMetricsCard = ({ 
@@ -18,17 +21,13 @@ const JournalMetricsCard = ({
   description,
   isPositive,
   format = 'currency',
-  valueColor
+  valueColor,
+  currency
 }: JournalMetricsCardProps) => {
   
   const formatValue = () => {
     if (format === 'currency') {
-      return new Intl.NumberFormat('en-US', {
-        style: 'currency',
-        currency: 'USD',
-        minimumFractionDigits: 2,
-        maximumFractionDigits: 2
-      }).format(value);
+      return formatMoney(value, currency);
     } else if (format === 'percent') {
       return `${value.toFixed(1)}%`;
     } else if (format === 'ratio') {
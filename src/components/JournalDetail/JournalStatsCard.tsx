@@ -1,18 +1,22 @@
 import { cn } from '@/lib/utils';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
 
 interface JournalStatsCardProps {
   label: string;
   value: string;
   isPositive?: boolean;
+  /** Explanation shown on hover */
+  tooltip?: string;
 }
 
 const JournalStatsCard = ({ 
   label, 
   value, 
-  isPositive = true 
+  isPositive = true,
+  tooltip
 }: JournalStatsCardProps) => {
-  return (
-    <div className="text-center p-2 rounded-lg bg-white shadow">
+  const card = (
+    <div className={cn("text-center p-2 rounded-lg bg-white shadow", tooltip && "cursor-help")}>
       <p className="text-xs text-slate-600 mb-1">{label}</p>
       <p className={cn("text-sm font-bold", 
         isPositive ? "text-green-600" : "text-red-600"
@@ -21,6 +25,19 @@ const JournalStatsCard = ({
       </p>
     </div>
   );
+
+  if (!tooltip) return card;
+
+  return (
+    <TooltipProvider>
+      <Tooltip>
+        <TooltipTrigger asChild>{card}</TooltipTrigger>
+        <TooltipContent side="top" className="max-w-xs">
+          <p className="text-sm">{tooltip}</p>
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
 };
 
-export default JournalStatsCard;
\ No newline at end of file
+export default JournalStatsCard;
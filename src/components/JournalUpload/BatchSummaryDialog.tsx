@@ -0,0 +1,91 @@
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { BatchFileResult, BatchFileStatus } from '@/lib/import-batch';
+
+interface BatchSummaryDialogProps {
+  files: BatchFileResult[];
+  /** Trades the journal actually saved, which can be fewer than the files staged */
+  insertedTrades: number;
+  /** Whether skipped rows are waiting in the import report */
+  hasReport: boolean;
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<BatchFileStatus, { label: string; className: string }> = {
+  imported: { label: 'Imported', className: 'bg-green-100 text-green-800' },
+  incompatible: { label: 'Columns differ', className: 'bg-amber-100 text-amber-800' },
+  unreadable: { label: 'Unreadable', className: 'bg-red-100 text-red-800' },
+};
+
+/** Inserted, duplicate and rejected counts for each file of a multi-file import */
+const BatchSummaryDialog = ({ files, insertedTrades, hasReport, onClose }: BatchSummaryDialogProps) => {
+  const imported = files.filter(file => file.status === 'imported');
+  const total = (key: 'rows' | 'duplicates' | 'errors') => imported.reduce((sum, file) => sum + file[key], 0);
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[760px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Summary</DialogTitle>
+          <DialogDescription>
+            {insertedTrades.toLocaleString()} trade{insertedTrades === 1 ? '' : 's'} imported from {imported.length} of {files.length} files.
+            Rows are numbered across the batch; each file's range is shown below.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>File</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Rows</TableHead>
+                <TableHead className="text-right">Inserted</TableHead>
+                <TableHead className="text-right">Duplicates</TableHead>
+                <TableHead className="text-right">Errors</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {files.map((file, index) => (
+                <TableRow key={`${file.name}-${index}`}>
+                  <TableCell className="max-w-[220px]">
+                    <div className="truncate font-medium text-slate-800" title={file.name}>{file.name}</div>
+                    {file.message && <div className="text-xs text-slate-500 mt-1">{file.message}</div>}
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="secondary" className={`whitespace-nowrap ${STATUS_LABELS[file.status].className}`}>
+                      {STATUS_LABELS[file.status].label}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-slate-600 whitespace-nowrap">
+                    {file.firstRow !== null && file.lastRow !== null && file.rows > 0
+                      ? `${file.firstRow}–${file.lastRow}`
+                      : file.rows.toLocaleString()}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{file.status === 'imported' ? file.inserted : '-'}</TableCell>
+                  <TableCell className="text-right font-mono">{file.status === 'imported' ? file.duplicates : '-'}</TableCell>
+                  <TableCell className="text-right font-mono">{file.status === 'imported' ? file.errors : '-'}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow className="font-semibold">
+                <TableCell colSpan={2}>Total</TableCell>
+                <TableCell className="text-sm">{total('rows').toLocaleString()}</TableCell>
+                <TableCell className="text-right font-mono">{insertedTrades}</TableCell>
+                <TableCell className="text-right font-mono">{total('duplicates')}</TableCell>
+                <TableCell className="text-right font-mono">{total('errors')}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button onClick={onClose}>{hasReport ? 'Review Skipped Rows' : 'Done'}</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BatchSummaryDialog;
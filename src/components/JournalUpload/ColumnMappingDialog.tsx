@@ -3,57 +3,76 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Badge } from '@/components/ui/badge';
-import { AlertCircle, CheckCircle, Info, Zap } from 'lucide-react';
+import { AlertCircle, AlertTriangle, CheckCircle, Info, Zap } from 'lucide-react';
+import { ImportMode, MatchingMethod } from '@/lib/fill-matching';
+import { getImportFields, isRequiredFieldMapped } from '@/lib/import-fields';
+import type { ImportOptions } from '@/hooks/useProcessCsv';
+import { PnlBasis } from '@/lib/trade-metrics';
+import { ImportRow } from '@/lib/import-issues';
 
 interface ColumnMapping {
   [key: string]: string;
 }
 
+export interface TemplateSaveChoice {
+  name: string;
+  /** Only reuse the template for uploads into this journal */
+  journalOnly: boolean;
+}
+
 interface ColumnMappingDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (mapping: ColumnMapping) => void;
+  onConfirm: (mapping: ColumnMapping, options: ImportOptions, template?: TemplateSaveChoice) => void;
   initialMapping: ColumnMapping;
   csvHeaders: string[];
-  csvData: any[];
+  /** The statement's first rows, for previewing each mapped column */
+  previewRows: ImportRow[];
+  rowCount: number;
+  detectedBroker?: string;
+  /** Why the detected broker's mapping may not fit this file */
+  adapterWarning?: string | null;
+  initialMode?: ImportMode;
+  /** Files in the upload when several were selected; the mapping is reused for all of them */
+  batchFileCount?: number;
 }
 
-const REQUIRED_FIELDS = [
-  { key: 'datetime', label: 'Date/Time', description: 'When the trade was executed' },
-  { key: 'symbol', label: 'Symbol', description: 'Stock ticker or instrument' },
-  { key: 'qty', label: 'Quantity', description: 'Number of shares/contracts' },
-  { key: 'pnl', label: 'P&L', description: 'Profit or Loss amount' }
-];
-
-const OPTIONAL_FIELDS = [
-  { key: 'side', label: 'Side', description: 'BUY or SELL' },
-  { key: 'price', label: 'Price', description: 'Execution price' },
-  { key: 'buyPrice', label: 'Buy Price', description: 'Entry/Buy price' },
-  { key: 'sellPrice', label: 'Sell Price', description: 'Exit/Sell price' },
-  { key: 'buyFillId', label: 'Buy Fill ID', description: 'Unique identifier for buy execution (helps prevent duplicates)' },
-  { key: 'sellFillId', label: 'Sell Fill ID', description: 'Unique identifier for sell execution (helps prevent duplicates)' },
-  { key: 'notes', label: 'Notes', description: 'Trade notes or comments' },
-  { key: 'strategy', label: 'Strategy', description: 'Trading strategy used' },
-  { key: 'tags', label: 'Tags', description: 'Trade categories or labels' }
-];
-
 const ColumnMappingDialog = ({
   isOpen,
   onClose,
   onConfirm,
   initialMapping,
   csvHeaders,
-  csvData
+  previewRows,
+  rowCount,
+  detectedBroker,
+  adapterWarning,
+  initialMode,
+  batchFileCount = 0
 }: ColumnMappingDialogProps) => {
   const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [mode, setMode] = useState<ImportMode>(initialMode || 'trades');
+  const [matchingMethod, setMatchingMethod] = useState<MatchingMethod>('fifo');
+  const [pnlBasis, setPnlBasis] = useState<PnlBasis>('net');
+  const [saveAsTemplate, setSaveAsTemplate] = useState(false);
+  const [templateName, setTemplateName] = useState('');
+  const [journalOnly, setJournalOnly] = useState(false);
+
+  const { required: requiredFields, optional: optionalFields } = getImportFields(mode);
+
+  useEffect(() => {
+    if (initialMode) setMode(initialMode);
+  }, [initialMode]);
 
   // Initialize mapping with fallbacks for required fields
   useEffect(() => {
     const enhancedMapping = { ...initialMapping };
     
     // Ensure all required fields have some mapping
-    REQUIRED_FIELDS.forEach(field => {
+    getImportFields('trades').required.forEach(field => {
       if (!enhancedMapping[field.key]) {
         // Try to find a reasonable fallback
         const possibleHeaders = csvHeaders.filter(header => {
@@ -94,35 +113,43 @@ const ColumnMappingDialog = ({
 
   const getPreviewValue = (field: string): string => {
     const header = mapping[field];
-    if (!header || !csvData[0]) return 'No data';
-    const value = csvData[0][header];
+    if (!header || !previewRows[0]) return 'No data';
+    const value = previewRows[0][header];
     if (value === null || value === undefined) return 'Empty';
     return value.toString().slice(0, 50);
   };
 
   const isValid = () => {
-    const missingFields = REQUIRED_FIELDS.filter(field => !mapping[field.key] || mapping[field.key] === '');
+    const missingFields = requiredFields.filter(field => !isRequiredFieldMapped(field.key, mapping, mode));
     console.log('Validation check:', { mapping, missingFields });
     return missingFields.length === 0;
   };
 
   const getMissingRequiredFields = () => {
-    return REQUIRED_FIELDS.filter(field => !mapping[field.key] || mapping[field.key] === '');
+    return requiredFields.filter(field => !isRequiredFieldMapped(field.key, mapping, mode));
   };
 
   const getFieldStatus = (field: string, isRequired: boolean) => {
     const mapped = mapping[field] && mapping[field] !== '';
     if (isRequired) {
-      return mapped ? 'success' : 'error';
+      return isRequiredFieldMapped(field, mapping, mode) ? 'success' : 'error';
     }
     return mapped ? 'success' : 'optional';
   };
 
   const hasFillIds = () => {
+    if (mode === 'fills') return !!mapping['fillId'];
     return (mapping['buyFillId'] && mapping['buyFillId'] !== '') || 
            (mapping['sellFillId'] && mapping['sellFillId'] !== '');
   };
 
+  const handleConfirm = () => {
+    const template = saveAsTemplate
+      ? { name: templateName.trim() || detectedBroker || 'Import template', journalOnly }
+      : undefined;
+    onConfirm(mapping, { mode, matchingMethod, pnlBasis }, template);
+  };
+
   const missingRequired = getMissingRequiredFields();
   const canProcess = isValid();
 
@@ -137,6 +164,34 @@ const ColumnMappingDialog = ({
           <p className="text-sm text-slate-600">
             Review and adjust how your CSV columns map to our trade fields. Required fields must be mapped.
           </p>
+          {adapterWarning && (
+            <div className="mt-2 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-amber-600" />
+                <p className="text-sm text-amber-800 font-medium">{adapterWarning}</p>
+              </div>
+            </div>
+          )}
+          {detectedBroker && !adapterWarning && (
+            <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <CheckCircle className="w-4 h-4 text-blue-600" />
+                <p className="text-sm text-blue-800 font-medium">
+                  Recognised a {detectedBroker} export - columns were mapped exactly for this format.
+                </p>
+              </div>
+            </div>
+          )}
+          {batchFileCount > 1 && (
+            <div className="mt-2 p-3 bg-blue-50 border border-blue-200 rounded-lg">
+              <div className="flex items-center gap-2">
+                <Info className="w-4 h-4 text-blue-600" />
+                <p className="text-sm text-blue-800 font-medium">
+                  This mapping is applied to all {batchFileCount} files; files without the mapped columns are skipped and listed in the summary.
+                </p>
+              </div>
+            </div>
+          )}
           {hasFillIds() && (
             <div className="mt-2 p-3 bg-green-50 border border-green-200 rounded-lg">
               <div className="flex items-center gap-2">
@@ -157,6 +212,65 @@ const ColumnMappingDialog = ({
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Import Mode */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-3 border rounded-lg bg-slate-50">
+            <div>
+              <Label className="font-medium">Each row is</Label>
+              <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                <SelectTrigger className="mt-1 bg-white">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="trades">A closed trade with its P&L</SelectItem>
+                  <SelectItem value="fills">A single execution (fill)</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-600 mt-1">
+                {mode === 'fills'
+                  ? 'Fills are matched into round-trip trades per symbol and P&L is calculated net of commissions.'
+                  : 'Rows are imported as trades using the P&L column from your file.'}
+              </p>
+            </div>
+            {mode === 'fills' && (
+              <div>
+                <Label className="font-medium">Matching method</Label>
+                <Select value={matchingMethod} onValueChange={(value) => setMatchingMethod(value as MatchingMethod)}>
+                  <SelectTrigger className="mt-1 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="fifo">FIFO (first in, first out)</SelectItem>
+                    <SelectItem value="average">Average cost</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-600 mt-1">
+                  {matchingMethod === 'fifo'
+                    ? 'Exits close the oldest open entries first.'
+                    : 'Scale-ins are blended into one average entry price.'}
+                </p>
+              </div>
+            )}
+            {mode === 'trades' && (
+              <div>
+                <Label className="font-medium">P&L column is</Label>
+                <Select value={pnlBasis} onValueChange={(value) => setPnlBasis(value as PnlBasis)}>
+                  <SelectTrigger className="mt-1 bg-white">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="net">Net (after commissions and fees)</SelectItem>
+                    <SelectItem value="gross">Gross (before commissions and fees)</SelectItem>
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-600 mt-1">
+                  {pnlBasis === 'gross'
+                    ? 'Mapped commission and fee columns are subtracted to store net P&L.'
+                    : 'Mapped commission and fee columns are recorded for gross P&L reporting.'}
+                </p>
+              </div>
+            )}
+          </div>
+
           {/* Required Fields */}
           <div>
             <h3 className="text-lg font-semibold text-slate-800 mb-3 flex items-center gap-2">
@@ -164,9 +278,10 @@ const ColumnMappingDialog = ({
               Required Fields
             </h3>
             <div className="grid gap-4">
-              {REQUIRED_FIELDS.map((field) => {
+              {requiredFields.map((field) => {
                 const status = getFieldStatus(field.key, true);
-                const isMapped = mapping[field.key] && mapping[field.key] !== '';
+                const isMapped = isRequiredFieldMapped(field.key, mapping, mode);
+                const isDerived = isMapped && !mapping[field.key];
                 
                 return (
                   <div key={field.key} className={`grid grid-cols-1 md:grid-cols-3 gap-4 items-center p-3 border rounded-lg ${
@@ -184,7 +299,9 @@ const ColumnMappingDialog = ({
                           Required
                         </Badge>
                       </div>
-                      <p className="text-xs text-slate-600">{field.description}</p>
+                      <p className="text-xs text-slate-600">
+                        {isDerived ? 'Derived from entry/exit prices × quantity × contract point value' : field.description}
+                      </p>
                     </div>
                     <Select
                       value={mapping[field.key] || 'none'}
@@ -221,7 +338,7 @@ const ColumnMappingDialog = ({
               Optional Fields
             </h3>
             <div className="grid gap-4">
-              {OPTIONAL_FIELDS.map((field) => {
+              {optionalFields.map((field) => {
                 const status = getFieldStatus(field.key, false);
                 const isMapped = mapping[field.key] && mapping[field.key] !== '';
                 const isFillId = field.key.includes('FillId');
@@ -274,12 +391,49 @@ const ColumnMappingDialog = ({
           </div>
         </div>
 
+        {/* Save as Template */}
+        <div className="p-3 border rounded-lg bg-slate-50 space-y-3">
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="save-template"
+              checked={saveAsTemplate}
+              onCheckedChange={(checked) => setSaveAsTemplate(checked === true)}
+            />
+            <Label htmlFor="save-template" className="font-medium">
+              Save as import template
+            </Label>
+          </div>
+          <p className="text-xs text-slate-600">
+            Future uploads with the same columns will be imported with this mapping without asking again.
+          </p>
+          {saveAsTemplate && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-center">
+              <Input
+                value={templateName}
+                onChange={(e) => setTemplateName(e.target.value)}
+                placeholder={detectedBroker || 'Template name'}
+                className="bg-white"
+              />
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="template-journal-only"
+                  checked={journalOnly}
+                  onCheckedChange={(checked) => setJournalOnly(checked === true)}
+                />
+                <Label htmlFor="template-journal-only" className="text-sm">
+                  Only use for this journal
+                </Label>
+              </div>
+            </div>
+          )}
+        </div>
+
         <DialogFooter className="flex flex-col-reverse sm:flex-row sm:justify-end sm:space-x-2">
           <Button variant="outline" onClick={onClose}>
             Cancel
           </Button>
           <Button 
-            onClick={() => onConfirm(mapping)} 
+            onClick={handleConfirm} 
             disabled={!canProcess}
             className={`${
               canProcess 
@@ -287,7 +441,7 @@ const ColumnMappingDialog = ({
                 : 'bg-gray-400 cursor-not-allowed'
             }`}
           >
-            {canProcess ? `Process ${csvData.length} Rows` : `Map Required Fields First`}
+            {canProcess ? `Process ${rowCount.toLocaleString()} Rows` : `Map Required Fields First`}
           </Button>
         </DialogFooter>
       </DialogContent>
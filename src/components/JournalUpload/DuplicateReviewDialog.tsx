@@ -0,0 +1,226 @@
+import { Fragment, useEffect, useMemo, useState } from 'react';
+import { format } from 'date-fns';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import {
+  DuplicateCandidate,
+  DuplicateDecision,
+  DuplicateDecisions,
+  DuplicateReview,
+  DuplicateSource,
+  MATCH_TYPE_LABELS,
+  MatchedTrade,
+  defaultDecision
+} from '@/lib/duplicate-review';
+import { toZonedTime } from '@/lib/timezones';
+
+interface DuplicateReviewDialogProps {
+  review: DuplicateReview;
+  /** Journal timezone the trade times are shown in */
+  timeZone?: string;
+  onConfirm: (decisions: DuplicateDecisions) => void;
+  onCancel: () => void;
+}
+
+type ComparedField = 'datetime' | 'symbol' | 'side' | 'qty' | 'price' | 'pnl' | 'fills';
+
+const fillIds = (trade: MatchedTrade) => [trade.buy_fill_id, trade.sell_fill_id].filter(Boolean).join(' / ') || '-';
+
+const money = (value: number | null | undefined) => value === null || value === undefined ? '-' : Number(value).toFixed(2);
+
+/** Fields of the incoming trade that differ from the one it matched */
+const differingFields = (candidate: DuplicateCandidate): Set<ComparedField> => {
+  const { incoming, existing } = candidate;
+  const fields = new Set<ComparedField>();
+  if (new Date(incoming.datetime).getTime() !== new Date(existing.datetime).getTime()) fields.add('datetime');
+  if ((incoming.symbol || '').toUpperCase().trim() !== (existing.symbol || '').toUpperCase().trim()) fields.add('symbol');
+  if ((incoming.side || '').toUpperCase() !== (existing.side || '').toUpperCase()) fields.add('side');
+  if (Number(incoming.qty) !== Number(existing.qty)) fields.add('qty');
+  if (Math.abs(Number(incoming.price) - Number(existing.price)) >= 0.005) fields.add('price');
+  if (Math.abs(Number(incoming.pnl) - Number(existing.pnl)) >= 0.005) fields.add('pnl');
+  if (fillIds(incoming) !== fillIds(existing)) fields.add('fills');
+  return fields;
+};
+
+const DECISION_HINTS: Record<DuplicateSource, Record<DuplicateDecision, string>> = {
+  file: {
+    keep: 'Import both rows',
+    skip: 'Import only the earlier row',
+    overwrite: 'Import this row instead of the earlier one',
+  },
+  journal: {
+    keep: 'Import it alongside the existing trade',
+    skip: 'Leave the existing trade as it is',
+    overwrite: 'Replace the existing trade with this row',
+  },
+};
+
+/**
+ * Duplicates found in the file or the journal, each shown above the trade it matched, with a
+ * keep, skip or overwrite choice per trade before the import is committed
+ */
+const DuplicateReviewDialog = ({ review, timeZone, onConfirm, onCancel }: DuplicateReviewDialogProps) => {
+  const defaults = useMemo(
+    () => Object.fromEntries(review.candidates.map(candidate => [candidate.index, defaultDecision(candidate)])) as DuplicateDecisions,
+    [review]
+  );
+  const [decisions, setDecisions] = useState<DuplicateDecisions>(defaults);
+
+  useEffect(() => {
+    setDecisions(defaults);
+  }, [defaults]);
+
+  const fileCandidates = review.candidates.filter(candidate => candidate.source === 'file');
+  const journalCandidates = review.candidates.filter(candidate => candidate.source === 'journal');
+  const counts = review.candidates.reduce(
+    (totals, candidate) => ({ ...totals, [decisions[candidate.index]]: totals[decisions[candidate.index]] + 1 }),
+    { keep: 0, skip: 0, overwrite: 0 } as Record<DuplicateDecision, number>
+  );
+
+  const setAll = (decision: DuplicateDecision) => {
+    setDecisions(Object.fromEntries(review.candidates.map(candidate => [candidate.index, decision])));
+  };
+
+  const formatTime = (datetime: string) => {
+    const date = new Date(datetime);
+    return isNaN(date.getTime()) ? datetime : format(toZonedTime(date, timeZone), 'yyyy-MM-dd HH:mm:ss');
+  };
+
+  const rowLabel = (index: number | null) => {
+    const row = index === null ? undefined : review.rows[index];
+    return row ? `Row ${row}` : 'Round trip';
+  };
+
+  const tradeCells = (trade: MatchedTrade, differing: Set<ComparedField> | null) => {
+    const highlight = (field: ComparedField) => differing?.has(field) ? 'bg-amber-50 text-amber-900 font-medium' : '';
+    return (
+      <>
+        <TableCell className={`font-mono text-xs whitespace-nowrap ${highlight('datetime')}`}>{formatTime(trade.datetime)}</TableCell>
+        <TableCell className={highlight('symbol')}>{trade.symbol}</TableCell>
+        <TableCell className={highlight('side')}>{trade.side}</TableCell>
+        <TableCell className={`text-right ${highlight('qty')}`}>{trade.qty}</TableCell>
+        <TableCell className={`text-right ${highlight('price')}`}>{money(trade.price)}</TableCell>
+        <TableCell className={`text-right ${highlight('pnl')}`}>{money(trade.pnl)}</TableCell>
+        <TableCell className={`font-mono text-xs ${highlight('fills')}`}>{fillIds(trade)}</TableCell>
+      </>
+    );
+  };
+
+  const renderCandidates = (candidates: DuplicateCandidate[]) => {
+    if (candidates.length === 0) {
+      return <p className="text-sm text-slate-500 py-4">No duplicates of this kind.</p>;
+    }
+
+    return (
+      <div className="overflow-x-auto border rounded-md">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="min-w-[110px]">Trade</TableHead>
+              <TableHead>Time</TableHead>
+              <TableHead>Symbol</TableHead>
+              <TableHead>Side</TableHead>
+              <TableHead className="text-right">Qty</TableHead>
+              <TableHead className="text-right">Price</TableHead>
+              <TableHead className="text-right">P&amp;L</TableHead>
+              <TableHead>Fill IDs</TableHead>
+              <TableHead className="min-w-[150px]">Matched on</TableHead>
+              <TableHead className="min-w-[230px]">Action</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {candidates.map(candidate => {
+              const decision = decisions[candidate.index];
+              return (
+                <Fragment key={candidate.index}>
+                  <TableRow className="border-b-0">
+                    <TableCell className="text-xs">
+                      <span className="font-medium text-slate-800">Incoming</span>
+                      <span className="block text-slate-500">{rowLabel(candidate.index)}</span>
+                    </TableCell>
+                    {tradeCells(candidate.incoming, differingFields(candidate))}
+                    <TableCell rowSpan={2} className="align-top space-y-1">
+                      <Badge variant="outline">{MATCH_TYPE_LABELS[candidate.matchType]}</Badge>
+                      {candidate.near && <Badge variant="secondary" className="block w-fit">Near match</Badge>}
+                    </TableCell>
+                    <TableCell rowSpan={2} className="align-top">
+                      <ToggleGroup
+                        type="single"
+                        size="sm"
+                        variant="outline"
+                        className="justify-start"
+                        value={decision}
+                        onValueChange={(value) => value && setDecisions(current => ({ ...current, [candidate.index]: value as DuplicateDecision }))}
+                      >
+                        <ToggleGroupItem value="keep">Keep</ToggleGroupItem>
+                        <ToggleGroupItem value="skip">Skip</ToggleGroupItem>
+                        <ToggleGroupItem value="overwrite">Overwrite</ToggleGroupItem>
+                      </ToggleGroup>
+                      <p className="text-xs text-slate-500 mt-1">{DECISION_HINTS[candidate.source][decision]}</p>
+                    </TableCell>
+                  </TableRow>
+                  <TableRow className="bg-slate-50/70">
+                    <TableCell className="text-xs">
+                      <span className="font-medium text-slate-800">Existing</span>
+                      <span className="block text-slate-500">
+                        {candidate.source === 'file' ? rowLabel(candidate.existingIndex) : 'In journal'}
+                      </span>
+                    </TableCell>
+                    {tradeCells(candidate.existing, null)}
+                  </TableRow>
+                </Fragment>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-6xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Review Possible Duplicates</DialogTitle>
+          <DialogDescription>
+            {review.candidates.length} trade{review.candidates.length === 1 ? '' : 's'} in {review.fileName} match an earlier row or a trade already in this journal.
+            Exact matches are skipped and near matches, where only the P&amp;L rounding or the seconds differ, are kept unless you choose otherwise.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <div className="flex flex-wrap gap-2">
+            <Badge variant="outline">{counts.keep} keep</Badge>
+            <Badge variant="outline">{counts.skip} skip</Badge>
+            <Badge variant="outline">{counts.overwrite} overwrite</Badge>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={() => setDecisions(defaults)}>Reset</Button>
+            <Button variant="outline" size="sm" onClick={() => setAll('skip')}>Skip all</Button>
+            <Button variant="outline" size="sm" onClick={() => setAll('keep')}>Keep all</Button>
+          </div>
+        </div>
+
+        <Tabs defaultValue={journalCandidates.length > 0 ? 'journal' : 'file'}>
+          <TabsList>
+            <TabsTrigger value="journal">Already in journal ({journalCandidates.length})</TabsTrigger>
+            <TabsTrigger value="file">Repeated in file ({fileCandidates.length})</TabsTrigger>
+          </TabsList>
+          <TabsContent value="journal">{renderCandidates(journalCandidates)}</TabsContent>
+          <TabsContent value="file">{renderCandidates(fileCandidates)}</TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel Import</Button>
+          <Button onClick={() => onConfirm(decisions)}>Continue Import</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateReviewDialog;
@@ -0,0 +1,218 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Download, RefreshCw, X } from 'lucide-react';
+import { ISSUE_KIND_LABELS, ImportIssue, ImportReport, ImportRow, countIssueRows, downloadReportCsv, issuesByRow } from '@/lib/import-issues';
+
+interface ImportIssuesDialogProps {
+  report: ImportReport;
+  isOpen: boolean;
+  /** Trades imported from the file, shown in the summary */
+  insertedTrades: number;
+  isSubmitting: boolean;
+  onClose: () => void;
+  /** Corrected rows keyed by their row number in the file */
+  onResubmit: (rows: Record<number, ImportRow>) => void;
+}
+
+/** Rows the import skipped, with the rejected ones editable so they can be fixed and imported again */
+const ImportIssuesDialog = ({ report, isOpen, insertedTrades, isSubmitting, onClose, onResubmit }: ImportIssuesDialogProps) => {
+  const grouped = useMemo(() => issuesByRow(report.issues), [report]);
+  const rejectedRows = useMemo(
+    () => Array.from(grouped.entries())
+      .filter(([, issues]) => issues.some(issue => issue.kind === 'error'))
+      .map(([row]) => row)
+      .sort((a, b) => a - b),
+    [grouped]
+  );
+  // Only the columns the mapping uses are worth editing
+  const columns = useMemo(
+    () => report.headers.filter(header => Object.values(report.mapping).includes(header)),
+    [report]
+  );
+  const [edits, setEdits] = useState<Record<number, ImportRow>>({});
+  const [removed, setRemoved] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    setEdits({});
+    setRemoved(new Set());
+  }, [report]);
+
+  const skippedIssues = report.issues.filter(issue => issue.kind !== 'error');
+  const tripIssues = report.issues.filter(issue => issue.kind === 'error' && issue.row === null);
+  const remainingRows = rejectedRows.filter(row => !removed.has(row));
+  // A subset of fills can't be re-matched on its own, so fills imports are fixed in the file instead
+  const canResubmit = report.mode === 'trades' && remainingRows.length > 0;
+
+  const valueFor = (row: number, column: string) => {
+    const value = edits[row]?.[column] ?? report.rows[row]?.[column];
+    return value === undefined || value === null ? '' : String(value);
+  };
+
+  const updateCell = (row: number, column: string, value: string) => {
+    setEdits(current => ({ ...current, [row]: { ...current[row], [column]: value } }));
+  };
+
+  const issueFor = (row: number, column: string): ImportIssue | undefined =>
+    grouped.get(row)?.find(issue => issue.kind === 'error' && issue.column === column);
+
+  const handleResubmit = () => {
+    onResubmit(Object.fromEntries(remainingRows.map(row => [row, { ...report.rows[row], ...edits[row] }])));
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Report: {report.fileName}</DialogTitle>
+          <DialogDescription>
+            {insertedTrades} trades were imported. The rows below were not, or were imported with a warning.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          <Badge variant="destructive">{countIssueRows(report.issues, 'error')} rejected</Badge>
+          <Badge variant="secondary">{countIssueRows(report.issues, 'mock')} filtered as sample data</Badge>
+          <Badge variant="outline">{countIssueRows(report.issues, 'duplicate')} duplicates</Badge>
+          {countIssueRows(report.issues, 'warning') > 0 && (
+            <Badge variant="outline">{countIssueRows(report.issues, 'warning')} imported with a warning</Badge>
+          )}
+        </div>
+
+        <Tabs defaultValue={rejectedRows.length > 0 || tripIssues.length > 0 ? 'rejected' : 'skipped'}>
+          <TabsList>
+            <TabsTrigger value="rejected">Rejected rows</TabsTrigger>
+            <TabsTrigger value="skipped">Filtered, duplicates &amp; warnings</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="rejected" className="space-y-4">
+            {rejectedRows.length === 0 && tripIssues.length === 0 ? (
+              <p className="text-sm text-slate-500 py-4">No rows were rejected.</p>
+            ) : (
+              <>
+                {report.mode === 'trades' ? (
+                  <p className="text-sm text-slate-600">
+                    Highlighted cells caused the row to be rejected. Edit them and re-import; rows you remove are left out.
+                  </p>
+                ) : (
+                  <p className="text-sm text-slate-600">
+                    Fills are matched into trades across rows, so fix these in the file and upload it again.
+                  </p>
+                )}
+                {rejectedRows.length > 0 && (
+                  <div className="overflow-x-auto border rounded-md">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead className="w-14">Row</TableHead>
+                          {columns.map(column => (
+                            <TableHead key={column} className="min-w-[120px]">{column}</TableHead>
+                          ))}
+                          <TableHead className="min-w-[200px]">Issues</TableHead>
+                          <TableHead className="w-10" />
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {remainingRows.map(row => (
+                          <TableRow key={row}>
+                            <TableCell className="font-mono text-xs">{row}</TableCell>
+                            {columns.map(column => {
+                              const issue = issueFor(row, column);
+                              return (
+                                <TableCell key={column} className="p-1">
+                                  <Input
+                                    value={valueFor(row, column)}
+                                    onChange={(e) => updateCell(row, column, e.target.value)}
+                                    title={issue?.reason}
+                                    disabled={report.mode !== 'trades'}
+                                    className={`h-8 text-xs ${issue ? 'border-red-400 bg-red-50' : ''}`}
+                                  />
+                                </TableCell>
+                              );
+                            })}
+                            <TableCell className="text-xs text-red-700">
+                              {grouped.get(row)!.filter(issue => issue.kind === 'error').map(issue => issue.reason).join('; ')}
+                            </TableCell>
+                            <TableCell className="p-1">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-7 w-7"
+                                aria-label={`Remove row ${row}`}
+                                onClick={() => setRemoved(current => new Set(current).add(row))}
+                              >
+                                <X className="h-3 w-3" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                  </div>
+                )}
+                {tripIssues.length > 0 && (
+                  <ul className="text-sm text-red-700 list-disc pl-5 space-y-1">
+                    {tripIssues.map((issue, index) => <li key={index}>{issue.reason}</li>)}
+                  </ul>
+                )}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="skipped">
+            {skippedIssues.length === 0 ? (
+              <p className="text-sm text-slate-500 py-4">No rows were filtered, skipped as duplicates or imported with a warning.</p>
+            ) : (
+              <div className="overflow-x-auto border rounded-md">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-14">Row</TableHead>
+                      <TableHead>Type</TableHead>
+                      <TableHead>Field</TableHead>
+                      <TableHead>Value</TableHead>
+                      <TableHead>Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {skippedIssues.map((issue, index) => (
+                      <TableRow key={index}>
+                        <TableCell className="font-mono text-xs">{issue.row ?? '-'}</TableCell>
+                        <TableCell>{ISSUE_KIND_LABELS[issue.kind]}</TableCell>
+                        <TableCell>{issue.column || '-'}</TableCell>
+                        <TableCell className="font-mono text-xs">{issue.value || '-'}</TableCell>
+                        <TableCell className="text-sm text-slate-600">{issue.reason}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter className="gap-2 sm:justify-between">
+          <Button variant="outline" onClick={() => downloadReportCsv(report)}>
+            <Download className="w-4 h-4 mr-2" />
+            Download CSV with errors
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Close</Button>
+            {report.mode === 'trades' && rejectedRows.length > 0 && (
+              <Button onClick={handleResubmit} disabled={!canResubmit || isSubmitting}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isSubmitting ? 'animate-spin' : ''}`} />
+                Re-import {remainingRows.length} row{remainingRows.length === 1 ? '' : 's'}
+              </Button>
+            )}
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ImportIssuesDialog;
@@ -0,0 +1,63 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { AlertTriangle, Loader2, RotateCcw, X } from 'lucide-react';
+import { isInterruptedJob, useImportJobs } from '@/hooks/useImportJobs';
+
+interface ImportJobsPanelProps {
+  journalId: string;
+}
+
+/** Progress of running imports, with cancel, retry and discard for unfinished ones */
+const ImportJobsPanel = ({ journalId }: ImportJobsPanelProps) => {
+  const { jobs, cancelJob, retryJob, isCancelling, isRetrying } = useImportJobs(journalId);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="mt-6 space-y-3">
+      {jobs.map(job => {
+        const percent = job.total_trades > 0 ? Math.round((job.staged_trades / job.total_trades) * 100) : 0;
+        const interrupted = isInterruptedJob(job);
+        const failed = job.status === 'failed';
+        const canRetry = failed && job.staged_trades >= job.total_trades;
+
+        return (
+          <div key={job.id} className="rounded-lg border border-slate-200 p-3 text-sm">
+            <div className="flex items-center justify-between gap-2 mb-2">
+              <div className="flex items-center gap-2 min-w-0">
+                {failed || interrupted ? (
+                  <AlertTriangle className="w-4 h-4 text-amber-500 flex-shrink-0" />
+                ) : (
+                  <Loader2 className="w-4 h-4 text-blue-500 animate-spin flex-shrink-0" />
+                )}
+                <span className="font-medium text-slate-700 truncate">{job.file_name || 'CSV import'}</span>
+              </div>
+              <div className="flex gap-2">
+                {canRetry && (
+                  <Button size="sm" variant="outline" onClick={() => retryJob(job.id)} disabled={isRetrying}>
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    Retry
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={() => cancelJob(job.id)} disabled={isCancelling}>
+                  <X className="w-3 h-3 mr-1" />
+                  {failed || interrupted ? 'Discard' : 'Cancel'}
+                </Button>
+              </div>
+            </div>
+            <Progress value={percent} className="h-2" />
+            <p className="mt-2 text-xs text-slate-500">
+              {failed
+                ? `Import failed, nothing was saved: ${job.error || 'unknown error'}`
+                : interrupted
+                  ? `Import was interrupted after ${job.staged_trades} of ${job.total_trades} trades. Discard it and upload the file again.`
+                  : job.stage_message || `Staged ${job.staged_trades} of ${job.total_trades} trades`}
+            </p>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default ImportJobsPanel;
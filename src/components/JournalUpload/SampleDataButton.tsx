@@ -4,17 +4,22 @@ import { Button } from '@/components/ui/button';
 interface SampleDataButtonProps {
   onClick: () => void;
   loadingMessage: string;
+  /** Sample trades are already loaded into the journal */
+  demoMode?: boolean;
 }
 
-const SampleDataButton = ({ onClick, loadingMessage }: SampleDataButtonProps) => (
+const SampleDataButton = ({ onClick, loadingMessage, demoMode }: SampleDataButtonProps) => (
   <div className="mt-6 text-center">
     <Button
       onClick={onClick}
       className="bg-blue-600 text-white hover:bg-blue-700"
-      disabled={!!loadingMessage}
+      disabled={!!loadingMessage || demoMode}
     >
-      {loadingMessage ? 'Processing...' : 'Use Sample Data for Demo'}
+      {loadingMessage ? 'Processing...' : demoMode ? 'Sample Data Loaded' : 'Use Sample Data for Demo'}
     </Button>
+    <p className="text-xs text-slate-500 mt-2">
+      Sample trades are marked as demo data and can be removed from the journal without touching your own.
+    </p>
   </div>
 );
 
@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { SheetChoice } from '@/hooks/useProcessCsv';
+
+interface SheetSelectDialogProps {
+  choice: SheetChoice;
+  onSelect: (sheetName: string) => void;
+  onCancel: () => void;
+}
+
+/** Pick the worksheet holding the trades when a workbook has more than one table */
+const SheetSelectDialog = ({ choice, onSelect, onCancel }: SheetSelectDialogProps) => {
+  const [selected, setSelected] = useState(choice.sheets[0]?.name || '');
+
+  useEffect(() => {
+    setSelected(choice.sheets[0]?.name || '');
+  }, [choice]);
+
+  return (
+    <Dialog open={true} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="sm:max-w-[480px]">
+        <DialogHeader>
+          <DialogTitle>Choose a Sheet</DialogTitle>
+          <DialogDescription>
+            {choice.fileName} has {choice.sheets.length} sheets with data. Pick the one that lists your trades.
+          </DialogDescription>
+        </DialogHeader>
+
+        <RadioGroup value={selected} onValueChange={setSelected} className="space-y-2">
+          {choice.sheets.map((sheet, index) => (
+            <div key={sheet.name} className="flex items-start gap-3 rounded-md border p-3">
+              <RadioGroupItem value={sheet.name} id={`sheet-${index}`} className="mt-1" />
+              <Label htmlFor={`sheet-${index}`} className="flex-1 cursor-pointer">
+                <span className="font-medium text-slate-800">{sheet.name}</span>
+                <span className="block text-xs text-slate-500 mt-1">
+                  {sheet.rows.length.toLocaleString()} rows • {sheet.headers.slice(0, 5).join(', ')}
+                  {sheet.headers.length > 5 ? ', ...' : ''}
+                </span>
+              </Label>
+            </div>
+          ))}
+        </RadioGroup>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel}>Cancel</Button>
+          <Button onClick={() => onSelect(selected)} disabled={!selected}>Use Sheet</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SheetSelectDialog;
@@ -1,10 +1,17 @@
+import { useEffect, useState } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Tables } from '@/integrations/supabase/types';
 import { useCreateSampleData } from '@/hooks/useCreateSampleData';
 import UploadPlaceholder from './UploadPlaceholder';
 import SampleDataButton from './SampleDataButton';
-import ColumnMappingDialog from './ColumnMappingDialog';
-import { useProcessCsv } from '@/hooks/useProcessCsv';
+import ImportJobsPanel from './ImportJobsPanel';
+import ImportIssuesDialog from './ImportIssuesDialog';
+import SheetSelectDialog from './SheetSelectDialog';
+import DuplicateReviewDialog from './DuplicateReviewDialog';
+import BatchSummaryDialog from './BatchSummaryDialog';
+import ColumnMappingDialog, { TemplateSaveChoice } from './ColumnMappingDialog';
+import { ImportOptions, ImportResult, useProcessCsv } from '@/hooks/useProcessCsv';
+import { useImportTemplates } from '@/hooks/useImportTemplates';
 
 interface UploadCardProps {
   journal: Tables<'journals'>;
@@ -14,30 +21,78 @@ interface UploadCardProps {
 const UploadCard = ({ journal, onUploadComplete }: UploadCardProps) => {
   const { createSampleData, loadingMessage: sampleDataLoadingMessage } = useCreateSampleData(journal);
   const { 
-    processCsv, 
+    processFiles, 
     loadingMessage: csvLoadingMessage, 
     columnMapping, 
     processCSVWithMapping,
     csvHeaders,
-    csvData 
+    statement,
+    detectedAdapter,
+    adapterWarning,
+    importResult,
+    resubmitRows,
+    clearImportResult,
+    sheetChoice,
+    selectSheet,
+    cancelSheetChoice,
+    duplicateReview,
+    resolveDuplicateReview,
+    progress,
+    batchFileCount
   } = useProcessCsv(journal);
+  const { saveTemplate } = useImportTemplates();
+  // A batch's per-file summary shows before its report of skipped rows, until it is closed
+  const [summaryClosedFor, setSummaryClosedFor] = useState<ImportResult | null>(null);
+  const batchSummaryOpen = !!importResult?.files && summaryClosedFor !== importResult;
 
-  const handleFileUpload = (file: File) => {
-    processCsv(file);
+  const handleFileUpload = (files: File[]) => {
+    processFiles(files);
   };
 
-  const handleSampleDataCreated = () => {
-    createSampleData();
+  const handleSampleDataCreated = async () => {
+    await createSampleData();
     if (onUploadComplete) {
       onUploadComplete();
     }
   };
 
-  const handleMappingConfirm = (finalMapping: any) => {
-    processCSVWithMapping(finalMapping);
-    if (onUploadComplete) {
+  const handleMappingConfirm = async (finalMapping: any, options: ImportOptions, template?: TemplateSaveChoice) => {
+    if (template) {
+      try {
+        await saveTemplate({
+          name: template.name,
+          headers: csvHeaders,
+          mapping: finalMapping,
+          options,
+          journalId: template.journalOnly ? journal.id : null
+        });
+      } catch (error) {
+        // The failure is already reported by the hook; carry on with the import
+        console.error('Failed to save import template:', error);
+      }
+    }
+    // Stay on the upload screen while the job runs so its progress and cancel stay visible
+    await processCSVWithMapping(finalMapping, options);
+  };
+
+  // A clean import returns to the journal; one with skipped rows or several files waits for its dialogs to be closed
+  useEffect(() => {
+    if (importResult?.completed && !importResult.report && !importResult.files && onUploadComplete) {
       onUploadComplete();
     }
+  }, [importResult, onUploadComplete]);
+
+  const handleReportClose = () => {
+    const completed = importResult?.completed;
+    clearImportResult();
+    if (completed && onUploadComplete) {
+      onUploadComplete();
+    }
+  };
+
+  const handleBatchSummaryClose = () => {
+    setSummaryClosedFor(importResult);
+    if (!importResult?.report) handleReportClose();
   };
   
   const loadingMessage = sampleDataLoadingMessage || csvLoadingMessage;
@@ -47,22 +102,61 @@ const UploadCard = ({ journal, onUploadComplete }: UploadCardProps) => {
       <Card className="w-full max-w-lg">
         <CardHeader>
           <CardTitle>Upload Trades</CardTitle>
-          <CardDescription>Upload a CSV file to analyze your trades or try sample data.</CardDescription>
+          <CardDescription>Upload a CSV, Excel, OFX/QFX or JSON statement to analyze your trades or try sample data.</CardDescription>
         </CardHeader>
         <CardContent>
-          <UploadPlaceholder onFileUpload={handleFileUpload} loadingMessage={loadingMessage} />
-          <SampleDataButton onClick={handleSampleDataCreated} loadingMessage={loadingMessage} />
+          <UploadPlaceholder onFileUpload={handleFileUpload} loadingMessage={loadingMessage} progress={sampleDataLoadingMessage ? null : progress} />
+          <SampleDataButton onClick={handleSampleDataCreated} loadingMessage={loadingMessage} demoMode={journal.demo_mode} />
+          <ImportJobsPanel journalId={journal.id} />
         </CardContent>
       </Card>
 
-      {columnMapping && csvData && (
+      {sheetChoice && (
+        <SheetSelectDialog choice={sheetChoice} onSelect={selectSheet} onCancel={cancelSheetChoice} />
+      )}
+
+      {duplicateReview && (
+        <DuplicateReviewDialog
+          review={duplicateReview}
+          timeZone={journal.timezone}
+          onConfirm={resolveDuplicateReview}
+          onCancel={() => resolveDuplicateReview(null)}
+        />
+      )}
+
+      {columnMapping && statement && (
         <ColumnMappingDialog
           isOpen={true}
           onClose={() => {}}
           onConfirm={handleMappingConfirm}
           initialMapping={columnMapping}
           csvHeaders={csvHeaders}
-          csvData={csvData}
+          previewRows={statement.preview}
+          rowCount={statement.rowCount}
+          detectedBroker={detectedAdapter?.name}
+          adapterWarning={adapterWarning}
+          initialMode={detectedAdapter?.importMode}
+          batchFileCount={batchFileCount}
+        />
+      )}
+
+      {importResult?.files && batchSummaryOpen && (
+        <BatchSummaryDialog
+          files={importResult.files}
+          insertedTrades={importResult.insertedTrades}
+          hasReport={!!importResult.report}
+          onClose={handleBatchSummaryClose}
+        />
+      )}
+
+      {importResult?.report && !batchSummaryOpen && (
+        <ImportIssuesDialog
+          isOpen={true}
+          report={importResult.report}
+          insertedTrades={importResult.insertedTrades}
+          isSubmitting={!!csvLoadingMessage}
+          onClose={handleReportClose}
+          onResubmit={resubmitRows}
         />
       )}
     </>
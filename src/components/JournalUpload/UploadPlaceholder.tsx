@@ -1,15 +1,20 @@
 import { Upload, Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { IMPORT_FILE_ACCEPT } from '@/lib/import-files';
 
 interface UploadPlaceholderProps {
   loadingMessage: string;
-  onFileUpload: (file: File) => void;
+  /** Percentage through the current step, when it can be measured */
+  progress?: number | null;
+  /** Selected files; several are imported together as one batch */
+  onFileUpload: (files: File[]) => void;
 }
 
-const UploadPlaceholder = ({ loadingMessage, onFileUpload }: UploadPlaceholderProps) => {
+const UploadPlaceholder = ({ loadingMessage, progress, onFileUpload }: UploadPlaceholderProps) => {
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (file) {
-      onFileUpload(file);
+    const files = Array.from(event.target.files || []);
+    if (files.length > 0) {
+      onFileUpload(files);
     }
     // Reset file input to allow re-uploading the same file
     if (event.target) {
@@ -29,7 +34,8 @@ const UploadPlaceholder = ({ loadingMessage, onFileUpload }: UploadPlaceholderPr
         type="file"
         onChange={handleFileChange}
         className="hidden"
-        accept=".csv, text/csv"
+        accept={IMPORT_FILE_ACCEPT}
+        multiple
         disabled={isDisabled}
       />
       {loadingMessage ? (
@@ -38,10 +44,16 @@ const UploadPlaceholder = ({ loadingMessage, onFileUpload }: UploadPlaceholderPr
         <Upload className="w-12 h-12 text-slate-400 mx-auto mb-4" />
       )}
       <p className="text-lg font-medium text-slate-700 mb-2">
-        {loadingMessage || 'Upload a CSV File'}
+        {loadingMessage || 'Upload Statement Files'}
       </p>
+      {loadingMessage && progress !== null && progress !== undefined && (
+        <div className="max-w-xs mx-auto mb-3">
+          <Progress value={progress} className="h-2" />
+          <p className="text-xs text-slate-500 mt-1">{progress}%</p>
+        </div>
+      )}
       <p className="text-sm text-slate-500">
-        Click to select your trade history file.
+        Click to select your trade history: CSV, Excel (.xlsx), OFX/QFX or JSON. Select several files to import them together.
       </p>
     </label>
   );
@@ -0,0 +1,40 @@
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { PnlBasis } from '@/lib/trade-metrics';
+
+interface PnlBasisToggleProps {
+  value: PnlBasis;
+  onChange: (basis: PnlBasis) => void;
+}
+
+const PnlBasisToggle = ({ value, onChange }: PnlBasisToggleProps) => (
+  <TooltipProvider>
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <div className="inline-flex rounded-md shadow-sm">
+          <Button
+            variant={value === 'net' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onChange('net')}
+            className="rounded-l-md rounded-r-none"
+          >
+            Net
+          </Button>
+          <Button
+            variant={value === 'gross' ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => onChange('gross')}
+            className="rounded-r-md rounded-l-none border-l-0"
+          >
+            Gross
+          </Button>
+        </div>
+      </TooltipTrigger>
+      <TooltipContent side="bottom" className="max-w-xs">
+        <p className="text-sm">Net P&L is after commissions and fees. Gross P&L adds them back.</p>
+      </TooltipContent>
+    </Tooltip>
+  </TooltipProvider>
+);
+
+export default PnlBasisToggle;
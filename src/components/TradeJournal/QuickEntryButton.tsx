@@ -13,10 +13,11 @@ import TradeEntryForm from './TradeEntryForm';
 
 interface QuickEntryButtonProps {
   journalId: string;
+  timeZone?: string;
   onTradeAdded?: () => void;
 }
 
-const QuickEntryButton = ({ journalId, onTradeAdded = () => {} }: QuickEntryButtonProps) => {
+const QuickEntryButton = ({ journalId, timeZone, onTradeAdded = () => {} }: QuickEntryButtonProps) => {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
 
   const handleTradeAdded = () => {
@@ -43,6 +44,7 @@ const QuickEntryButton = ({ journalId, onTradeAdded = () => {} }: QuickEntryButt
         </DialogHeader>
         <TradeEntryForm 
           journalId={journalId} 
+          timeZone={timeZone}
           onTradeAdded={handleTradeAdded}
           onCancel={() => setIsDialogOpen(false)}
         />
@@ -9,36 +9,51 @@ import { toast } from '@/components/ui/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/components/AuthProvider';
-import { Tables } from '@/integrations/supabase/types';
+import { TablesInsert } from '@/integrations/supabase/types';
 import { CalendarIcon, CheckCircle, Plus } from 'lucide-react';
 import { format } from 'date-fns';
 import { Calendar } from '@/components/ui/calendar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { cn } from '@/lib/utils';
+import { PnlBasis } from '@/lib/trade-metrics';
+import { priceToPnl } from '@/lib/contract-specs';
+import { optionColumns } from '@/lib/options';
+import { toZonedTime, zonedTimeToUtc } from '@/lib/timezones';
+import { recalculateSessions } from '@/hooks/useImportJobs';
 
 interface TradeEntryFormProps {
   journalId: string;
+  /** The journal's timezone; the date and times are entered on its clock */
+  timeZone?: string;
   onTradeAdded: () => void;
   onCancel: () => void;
 }
 
-const TradeEntryForm = ({ journalId, onTradeAdded, onCancel }: TradeEntryFormProps) => {
+const TradeEntryForm = ({ journalId, timeZone, onTradeAdded, onCancel }: TradeEntryFormProps) => {
   const { user } = useAuth();
   const queryClient = useQueryClient();
   const [isSubmitting, setIsSubmitting] = useState(false);
   
-  const [tradeDate, setTradeDate] = useState<Date>(new Date());
-  const [tradeTime, setTradeTime] = useState(format(new Date(), 'HH:mm'));
+  const [tradeDate, setTradeDate] = useState<Date>(() => toZonedTime(new Date(), timeZone));
+  const [tradeTime, setTradeTime] = useState(() => format(toZonedTime(new Date(), timeZone), 'HH:mm'));
+  const [entryTime, setEntryTime] = useState('');
   
   const [formData, setFormData] = useState({
     symbol: '',
     side: 'BUY',
     qty: '',
     price: '',
+    exitPrice: '',
     pnl: '',
+    commission: '',
+    fees: '',
+    plannedStop: '',
+    plannedTarget: '',
+    initialRisk: '',
     notes: '',
     strategy: '',
   });
+  const [pnlBasis, setPnlBasis] = useState<PnlBasis>('net');
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
     const { name, value } = e.target;
@@ -52,8 +67,8 @@ const TradeEntryForm = ({ journalId, onTradeAdded, onCancel }: TradeEntryFormPro
       return;
     }
 
-    // Validate required fields
-    if (!formData.symbol || !formData.qty || !formData.price || !formData.pnl) {
+    // Validate required fields; P&L can be left blank when the exit price is known
+    if (!formData.symbol || !formData.qty || !formData.price || (!formData.pnl && !formData.exitPrice)) {
       toast({ title: "Error", description: "Please fill in all required fields", variant: "destructive" });
       return;
     }
@@ -61,86 +76,76 @@ const TradeEntryForm = ({ journalId, onTradeAdded, onCancel }: TradeEntryFormPro
     try {
       setIsSubmitting(true);
       
-      // Combine date and time
-      const dateTime = new Date(tradeDate);
-      const [hours, minutes] = tradeTime.split(':').map(Number);
-      dateTime.setHours(hours, minutes, 0, 0);
+      // Combine date and time on the journal's clock; the trade's datetime is its exit
+      const atTime = (time: string, dayOffset = 0) => {
+        const [hours, minutes] = time.split(':').map(Number);
+        const wall = {
+          year: tradeDate.getFullYear(),
+          month: tradeDate.getMonth() + 1,
+          day: tradeDate.getDate() + dayOffset,
+          hour: hours,
+          minute: minutes,
+          second: 0,
+        };
+        return timeZone
+          ? zonedTimeToUtc(wall, timeZone)
+          : new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+      };
+      const dateTime = atTime(tradeTime);
 
-      // Check if we need to create a new session
-      const { data: sessions, error: sessionError } = await supabase
-        .from('trade_sessions')
-        .select('id')
-        .eq('journal_id', journalId)
-        .order('created_at', { ascending: false })
-        .limit(1);
+      // An entry time later than the exit means the position was held overnight
+      let entryDateTime: Date | null = null;
+      if (entryTime) {
+        entryDateTime = atTime(entryTime);
+        if (entryDateTime > dateTime) entryDateTime = atTime(entryTime, -1);
+      }
 
-      if (sessionError) throw sessionError;
+      const qty = parseFloat(formData.qty);
+      const entryPrice = parseFloat(formData.price);
+      const exitPrice = formData.exitPrice ? parseFloat(formData.exitPrice) : null;
+      const side = formData.side as 'BUY' | 'SELL';
 
-      let sessionId: string;
-      
-      if (sessions && sessions.length > 0) {
-        // Use the most recent session
-        sessionId = sessions[0].id;
-      } else {
-        // Create a new session
-        const { data: newSession, error: newSessionError } = await supabase
-          .from('trade_sessions')
-          .insert({
-            journal_id: journalId,
-            user_id: user.id,
-            total_trades: 1,
-            total_pnl: parseFloat(formData.pnl),
-            win_rate: parseFloat(formData.pnl) > 0 ? 100 : 0,
-          })
-          .select()
-          .single();
-
-        if (newSessionError) throw newSessionError;
-        sessionId = newSession.id;
-      }
+      // Trades store net P&L; a gross entry has the costs taken off, and a blank one is derived from the prices
+      const commission = Math.abs(parseFloat(formData.commission) || 0);
+      const fees = Math.abs(parseFloat(formData.fees) || 0);
+      const netPnl = formData.pnl
+        ? (pnlBasis === 'gross' ? parseFloat(formData.pnl) - commission - fees : parseFloat(formData.pnl))
+        : priceToPnl(side, entryPrice, exitPrice ?? entryPrice, qty, formData.symbol) - commission - fees;
 
-      // Create the trade
-      const newTrade: Partial<Tables<'trades'>> = {
-        session_id: sessionId,
+      // The database files the trade under the session for its trading day
+      const newTrade: TablesInsert<'trades'> = {
         journal_id: journalId,
         user_id: user.id,
         datetime: dateTime.toISOString(),
         symbol: formData.symbol.toUpperCase().trim(),
-        side: formData.side,
-        qty: parseFloat(formData.qty),
-        price: parseFloat(formData.price),
-        pnl: parseFloat(formData.pnl),
+        side,
+        qty,
+        price: entryPrice,
+        entry_price: entryPrice,
+        exit_price: exitPrice,
+        entry_time: entryDateTime ? entryDateTime.toISOString() : null,
+        exit_time: dateTime.toISOString(),
+        pnl: netPnl,
+        commission,
+        fees,
+        planned_stop: formData.plannedStop ? parseFloat(formData.plannedStop) : null,
+        planned_target: formData.plannedTarget ? parseFloat(formData.plannedTarget) : null,
+        initial_risk: Math.abs(parseFloat(formData.initialRisk) || 0) || null,
         notes: formData.notes || null,
         strategy: formData.strategy || null,
+        // An OCC symbol fills in the option contract fields
+        ...optionColumns(formData.symbol.toUpperCase().trim(), {}),
       };
 
-      const { error: tradeError } = await supabase
+      const { data: inserted, error: tradeError } = await supabase
         .from('trades')
-        .insert(newTrade);
+        .insert(newTrade)
+        .select('session_id')
+        .single();
 
       if (tradeError) throw tradeError;
 
-      // Update session metrics
-      const { data: sessionTrades, error: tradesError } = await supabase
-        .from('trades')
-        .select('*')
-        .eq('session_id', sessionId);
-
-      if (!tradesError && sessionTrades) {
-        const totalTrades = sessionTrades.length;
-        const totalPnl = sessionTrades.reduce((sum, trade) => sum + (trade.pnl || 0), 0);
-        const winningTrades = sessionTrades.filter(t => (t.pnl || 0) > 0).length;
-        const winRate = totalTrades > 0 ? (winningTrades / totalTrades) * 100 : 0;
-
-        await supabase
-          .from('trade_sessions')
-          .update({
-            total_trades: totalTrades,
-            total_pnl: totalPnl,
-            win_rate: winRate,
-          })
-          .eq('id', sessionId);
-      }
+      await recalculateSessions([inserted.session_id]);
 
       toast({ 
         title: "Success", 
@@ -148,12 +153,19 @@ const TradeEntryForm = ({ journalId, onTradeAdded, onCancel }: TradeEntryFormPro
       });
 
       // Reset form
+      setEntryTime('');
       setFormData({
         symbol: '',
         side: 'BUY',
         qty: '',
         price: '',
+        exitPrice: '',
         pnl: '',
+        commission: '',
+        fees: '',
+        plannedStop: '',
+        plannedTarget: '',
+        initialRisk: '',
         notes: '',
         strategy: '',
       });
@@ -204,37 +216,48 @@ const TradeEntryForm = ({ journalId, onTradeAdded, onCancel }: TradeEntryFormPro
               </div>
               
               {/* Date and Time */}
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">
+                  Date<span className="text-red-500">*</span>
+                </Label>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant={"outline"}
+                      className={cn(
+                        "w-full justify-start text-left font-normal",
+                        !tradeDate && "text-muted-foreground"
+                      )}
+                    >
+                      <CalendarIcon className="mr-2 h-4 w-4" />
+                      {tradeDate ? format(tradeDate, "PPP") : <span>Pick a date</span>}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-auto p-0">
+                    <Calendar
+                      mode="single"
+                      selected={tradeDate}
+                      onSelect={(date) => date && setTradeDate(date)}
+                      initialFocus
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label className="text-sm font-medium">
-                    Date<span className="text-red-500">*</span>
+                  <Label htmlFor="entry-time" className="text-sm font-medium">
+                    Entry Time
                   </Label>
-                  <Popover>
-                    <PopoverTrigger asChild>
-                      <Button
-                        variant={"outline"}
-                        className={cn(
-                          "w-full justify-start text-left font-normal",
-                          !tradeDate && "text-muted-foreground"
-                        )}
-                      >
-                        <CalendarIcon className="mr-2 h-4 w-4" />
-                        {tradeDate ? format(tradeDate, "PPP") : <span>Pick a date</span>}
-                      </Button>
-                    </PopoverTrigger>
-                    <PopoverContent className="w-auto p-0">
-                      <Calendar
-                        mode="single"
-                        selected={tradeDate}
-                        onSelect={(date) => date && setTradeDate(date)}
-                        initialFocus
-                      />
-                    </PopoverContent>
-                  </Popover>
+                  <Input
+                    id="entry-time"
+                    type="time"
+                    value={entryTime}
+                    onChange={(e) => setEntryTime(e.target.value)}
+                  />
                 </div>
                 <div className="space-y-2">
                   <Label htmlFor="time" className="text-sm font-medium">
-                    Time<span className="text-red-500">*</span>
+                    Exit Time<span className="text-red-500">*</span>
                   </Label>
                   <Input
                     id="time"
@@ -301,40 +324,151 @@ const TradeEntryForm = ({ journalId, onTradeAdded, onCancel }: TradeEntryFormPro
                 />
               </div>
               
-              {/* Price */}
-              <div className="space-y-2">
-                <Label htmlFor="price" className="text-sm font-medium">
-                  Price<span className="text-red-500">*</span>
-                </Label>
-                <Input
-                  id="price"
-                  name="price"
-                  type="number"
-                  step="0.01"
-                  placeholder="Execution price"
-                  value={formData.price}
-                  onChange={handleInputChange}
-                  required
-                />
+              {/* Entry and Exit Price */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="price" className="text-sm font-medium">
+                    Entry Price<span className="text-red-500">*</span>
+                  </Label>
+                  <Input
+                    id="price"
+                    name="price"
+                    type="number"
+                    step="any"
+                    placeholder="Opening price"
+                    value={formData.price}
+                    onChange={handleInputChange}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="exitPrice" className="text-sm font-medium">
+                    Exit Price
+                  </Label>
+                  <Input
+                    id="exitPrice"
+                    name="exitPrice"
+                    type="number"
+                    step="any"
+                    placeholder="Closing price"
+                    value={formData.exitPrice}
+                    onChange={handleInputChange}
+                  />
+                </div>
               </div>
               
               {/* P&L */}
               <div className="space-y-2">
                 <Label htmlFor="pnl" className="text-sm font-medium">
-                  P&L<span className="text-red-500">*</span>
+                  P&L{!formData.exitPrice && <span className="text-red-500">*</span>}
                 </Label>
                 <Input
                   id="pnl"
                   name="pnl"
                   type="number"
                   step="0.01"
-                  placeholder="Profit/Loss amount (negative for losses)"
+                  placeholder={formData.exitPrice ? 'Leave blank to calculate from prices' : 'Profit/Loss amount (negative for losses)'}
                   value={formData.pnl}
                   onChange={handleInputChange}
-                  required
+                  required={!formData.exitPrice}
                 />
+                <RadioGroup
+                  value={pnlBasis}
+                  onValueChange={(value) => setPnlBasis(value as PnlBasis)}
+                  className="flex space-x-4"
+                >
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="net" id="pnl-net" />
+                    <Label htmlFor="pnl-net" className="text-xs text-slate-600">Net of fees</Label>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <RadioGroupItem value="gross" id="pnl-gross" />
+                    <Label htmlFor="pnl-gross" className="text-xs text-slate-600">Gross (before fees)</Label>
+                  </div>
+                </RadioGroup>
+              </div>
+
+              {/* Commission and Fees */}
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="commission" className="text-sm font-medium">
+                    Commission
+                  </Label>
+                  <Input
+                    id="commission"
+                    name="commission"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="0.00"
+                    value={formData.commission}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="fees" className="text-sm font-medium">
+                    Fees
+                  </Label>
+                  <Input
+                    id="fees"
+                    name="fees"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="Exchange + NFA"
+                    value={formData.fees}
+                    onChange={handleInputChange}
+                  />
+                </div>
               </div>
               
+              {/* Risk Plan */}
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="plannedStop" className="text-sm font-medium">
+                    Planned Stop
+                  </Label>
+                  <Input
+                    id="plannedStop"
+                    name="plannedStop"
+                    type="number"
+                    step="any"
+                    placeholder="Stop price"
+                    value={formData.plannedStop}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="plannedTarget" className="text-sm font-medium">
+                    Planned Target
+                  </Label>
+                  <Input
+                    id="plannedTarget"
+                    name="plannedTarget"
+                    type="number"
+                    step="any"
+                    placeholder="Target price"
+                    value={formData.plannedTarget}
+                    onChange={handleInputChange}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="initialRisk" className="text-sm font-medium">
+                    Risk ($)
+                  </Label>
+                  <Input
+                    id="initialRisk"
+                    name="initialRisk"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="From stop"
+                    value={formData.initialRisk}
+                    onChange={handleInputChange}
+                  />
+                </div>
+              </div>
+
               {/* Notes */}
               <div className="space-y-2">
                 <Label htmlFor="notes" className="text-sm font-medium">
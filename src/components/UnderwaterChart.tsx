@@ -0,0 +1,50 @@
+import { useMemo } from 'react';
+import { format } from 'date-fns';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { DrawdownAnalysis } from '@/lib/drawdowns';
+import { formatMoney } from '@/lib/currency';
+import { toZonedTime } from '@/lib/timezones';
+
+interface UnderwaterChartProps {
+  analysis: DrawdownAnalysis;
+  currency?: string;
+  /** The journal's timezone, for the time axis */
+  timeZone?: string;
+  height?: number;
+}
+
+/** How far equity sits below its running peak after each trade; in percent when the account size is known */
+const UnderwaterChart = ({ analysis, currency, timeZone, height = 300 }: UnderwaterChartProps) => {
+  const inPercent = analysis.maxDrawdownPct !== null;
+
+  const data = useMemo(() => analysis.underwater.map(point => ({
+    label: format(toZonedTime(new Date(point.time), timeZone), 'MMM d HH:mm'),
+    value: inPercent ? point.drawdownPct : point.drawdown,
+  })), [analysis, inPercent, timeZone]);
+
+  const formatValue = (value: number) => (inPercent ? `${value.toFixed(2)}%` : formatMoney(value, currency));
+
+  if (data.length === 0) {
+    return <p className="text-sm text-slate-500 py-8 text-center">No trades to chart yet.</p>;
+  }
+
+  return (
+    <ResponsiveContainer width="100%" height={height}>
+      <AreaChart data={data}>
+        <defs>
+          <linearGradient id="underwaterGradient" x1="0" y1="0" x2="0" y2="1">
+            <stop offset="5%" stopColor="#ef4444" stopOpacity={0}/>
+            <stop offset="95%" stopColor="#ef4444" stopOpacity={0.4}/>
+          </linearGradient>
+        </defs>
+        <CartesianGrid strokeDasharray="3 3" />
+        <XAxis dataKey="label" minTickGap={40} />
+        <YAxis tickFormatter={(value: number) => (inPercent ? `${value}%` : formatMoney(value, currency, 0))} domain={['dataMin', 0]} />
+        <Tooltip formatter={(value: number) => [formatValue(value), 'Drawdown']} />
+        <Area type="stepAfter" dataKey="value" stroke="#ef4444" fill="url(#underwaterGradient)" />
+      </AreaChart>
+    </ResponsiveContainer>
+  );
+};
+
+export default UnderwaterChart;
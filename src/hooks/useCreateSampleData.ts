@@ -1,69 +1,76 @@
-
 import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAuth } from '@/components/AuthProvider';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
 import { Tables } from '@/integrations/supabase/types';
+import { recalculateSessions } from '@/hooks/useImportJobs';
+import { parseDateTimeInZone } from '@/lib/timezones';
 
+/**
+ * Load sample trades into a journal. The rows carry `is_sample` and the journal is put in demo
+ * mode, so removing them later (`clear_sample_data`) never touches real trades.
+ */
 export const useCreateSampleData = (journal: Tables<'journals'>) => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [loadingMessage, setLoadingMessage] = useState('');
 
+  const invalidateJournal = () => {
+    queryClient.invalidateQueries({ queryKey: ['journalWithSessions', journal.id] });
+    queryClient.invalidateQueries({ queryKey: ['journal', journal.id] });
+    queryClient.invalidateQueries({ queryKey: ['journals'] });
+  };
+
   const createSampleData = async () => {
     console.log('Using sample data...');
-    // Use clearly identifiable mock symbols
     const sampleTrades = [
-        { datetime: '2024-01-15 09:30:00', symbol: 'AAPL', side: 'BUY', qty: 100, price: 150.25, pnl: 45.00, notes: 'Mock trade - Breakout' },
-        { datetime: '2024-01-15 10:15:00', symbol: 'TSLA', side: 'SELL', qty: 50, price: 245.80, pnl: -30.00, notes: 'Mock trade - Stop loss hit' },
-        { datetime: '2024-01-15 11:00:00', symbol: 'GOOG', side: 'BUY', qty: 20, price: 140.00, pnl: 55.00, notes: 'Mock trade' },
+        { datetime: '2024-01-15 09:30:00', symbol: 'AAPL', side: 'BUY', qty: 100, price: 150.25, pnl: 45.00, notes: 'Sample trade - Breakout' },
+        { datetime: '2024-01-15 10:15:00', symbol: 'TSLA', side: 'SELL', qty: 50, price: 245.80, pnl: -30.00, notes: 'Sample trade - Stop loss hit' },
+        { datetime: '2024-01-15 11:00:00', symbol: 'GOOG', side: 'BUY', qty: 20, price: 140.00, pnl: 55.00, notes: 'Sample trade' },
     ];
-    
+
     if (!user || !journal.id) {
       toast({ title: "Error", description: "Authentication or journal issue.", variant: "destructive" });
       return;
     }
 
-    console.log('Creating session with sample data...');
-    try {
-      setLoadingMessage('Creating sample session...');
-      
-      const sessionData = {
-        user_id: user.id,
-        journal_id: journal.id,
-        total_trades: sampleTrades.length,
-        total_pnl: sampleTrades.reduce((sum, t) => sum + t.pnl, 0),
-        win_rate: 0.67,
-        profit_factor: 2.3,
-        max_drawdown: -30,
-        avg_win: 50,
-        avg_loss: -30
-      };
-
-      const { data: newSession, error: sessionError } = await supabase
-        .from('trade_sessions')
-        .insert(sessionData)
-        .select()
-        .single();
+    if (journal.demo_mode) {
+      toast({ title: "Demo mode is on", description: "This journal already has sample trades loaded." });
+      return;
+    }
 
-      if (sessionError) throw sessionError;
-      console.log('Session created:', newSession);
+    console.log('Creating sample trades...');
+    try {
+      setLoadingMessage('Creating sample trades...');
 
       const tradesData = sampleTrades.map(trade => ({
         ...trade,
-        session_id: newSession.id,
         user_id: user.id,
         journal_id: journal.id,
-        datetime: new Date(trade.datetime).toISOString()
+        is_sample: true,
+        datetime: parseDateTimeInZone(trade.datetime, journal.timezone).toISOString()
       }));
 
-      const { error: tradesError } = await supabase.from('trades').insert(tradesData);
+      // Sample trades are filed under sample sessions for their trading days, apart from real ones
+      const { data: inserted, error: tradesError } = await supabase
+        .from('trades')
+        .insert(tradesData)
+        .select('session_id');
       if (tradesError) throw tradesError;
 
+      await recalculateSessions((inserted || []).map(trade => trade.session_id));
+
+      const { error: journalError } = await supabase
+        .from('journals')
+        .update({ demo_mode: true })
+        .eq('id', journal.id);
+      if (journalError) throw journalError;
+
       console.log('Sample data created successfully');
-      toast({ title: "Success!", description: "Sample trades created." });
+      toast({ title: "Demo mode on", description: "Sample trades were added. Remove them any time from the journal dashboard." });
       setLoadingMessage('');
-      
-      window.location.reload();
+      invalidateJournal();
     } catch (error: any) {
       console.error('Error creating sample data:', error);
       toast({ title: "Error", description: error.message, variant: "destructive" });
@@ -0,0 +1,67 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/components/AuthProvider';
+import { EquityEvent } from '@/lib/equity-series';
+
+const CAUTION_LABELS: Record<string, string> = {
+  green: 'All systems go',
+  yellow: 'Trade with caution',
+  red: 'Size down',
+};
+
+/**
+ * Events to annotate equity curves with: the user's bias checks and, for a journal, its
+ * completed imports
+ */
+export const useEquityEvents = (journalId?: string | null) => {
+  const { user } = useAuth();
+
+  const { data: biasChecks } = useQuery({
+    queryKey: ['biasChecks', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('bias_checks')
+        .select('check_date, caution_level, recommended_risk')
+        .eq('user_id', user.id)
+        .order('check_date', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+
+  const { data: imports } = useQuery({
+    queryKey: ['importEvents', journalId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_jobs')
+        .select('created_at, file_name, inserted_trades')
+        .eq('journal_id', journalId!)
+        .eq('status', 'completed')
+        .is('rolled_back_at', null)
+        .order('created_at', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!journalId,
+  });
+
+  const events = useMemo<EquityEvent[]>(() => [
+    ...(biasChecks || []).map(check => ({
+      at: check.check_date,
+      kind: 'bias-check' as const,
+      label: `Bias check: ${CAUTION_LABELS[check.caution_level] || check.caution_level}${check.recommended_risk ? `, ${check.recommended_risk} risk` : ''}`,
+      tone: (check.caution_level in CAUTION_LABELS ? check.caution_level : 'neutral') as EquityEvent['tone'],
+    })),
+    ...(imports || []).map(job => ({
+      at: job.created_at,
+      kind: 'import' as const,
+      label: `Imported ${job.file_name || 'a file'} (${job.inserted_trades} trades)`,
+      tone: 'neutral' as const,
+    })),
+  ], [biasChecks, imports]);
+
+  return { events };
+};
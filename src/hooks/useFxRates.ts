@@ -0,0 +1,94 @@
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { useAuth } from '@/components/AuthProvider';
+import { FxRate, createFxConverter, parseFxRatesCsv } from '@/lib/currency';
+
+// Keeps each upsert request well under the API's payload limit
+const UPSERT_BATCH_SIZE = 500;
+
+/** The user's imported FX rates, a converter over them, and importing from a local file */
+export const useFxRates = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['fxRates', user?.id];
+
+  const { data: rates, isLoading } = useQuery<FxRate[]>({
+    queryKey,
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('fx_rates')
+        .select('rate_date, base_currency, quote_currency, rate')
+        .eq('user_id', user.id)
+        .order('rate_date', { ascending: true });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+
+  const fx = useMemo(() => createFxConverter(rates || []), [rates]);
+
+  /** Read a rate file and save its rows, replacing rates already stored for the same pair and day */
+  const importRatesMutation = useMutation({
+    mutationFn: async (file: File) => {
+      if (!user) throw new Error('You must be logged in to import FX rates.');
+
+      const { rates: parsed, skipped } = parseFxRatesCsv(await file.text());
+      if (parsed.length === 0) {
+        throw new Error('No rates found. The file needs date, base, quote and rate columns (or a pair column like EUR/USD).');
+      }
+
+      for (let start = 0; start < parsed.length; start += UPSERT_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('fx_rates')
+          .upsert(
+            parsed.slice(start, start + UPSERT_BATCH_SIZE).map(rate => ({ ...rate, user_id: user.id })),
+            { onConflict: 'user_id,base_currency,quote_currency,rate_date' }
+          );
+        if (error) throw error;
+      }
+
+      return { imported: parsed.length, skipped };
+    },
+    onSuccess: ({ imported, skipped }) => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['journals'] });
+      toast({
+        title: 'FX rates imported',
+        description: `${imported} rate${imported === 1 ? '' : 's'} saved${skipped > 0 ? `, ${skipped} row${skipped === 1 ? '' : 's'} skipped` : ''}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const clearRatesMutation = useMutation({
+    mutationFn: async () => {
+      if (!user) return;
+      const { error } = await supabase.from('fx_rates').delete().eq('user_id', user.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      queryClient.invalidateQueries({ queryKey: ['journals'] });
+      toast({ title: 'FX rates removed', description: 'Amounts in other currencies can no longer be converted.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    rates: rates || [],
+    fx,
+    isLoading,
+    importRates: importRatesMutation.mutate,
+    clearRates: clearRatesMutation.mutate,
+    isImporting: importRatesMutation.isPending,
+    isClearing: clearRatesMutation.isPending,
+  };
+};
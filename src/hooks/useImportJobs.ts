@@ -0,0 +1,193 @@
+import { QueryClient, useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { calculateMetrics } from '@/lib/trade-metrics';
+
+export type ImportJob = Tables<'import_jobs'>;
+
+/** Jobs still waiting on the user or the server; completed and cancelled jobs are history */
+const OPEN_STATUSES = ['staging', 'failed'];
+
+/** A staging job with no progress for this long was abandoned, e.g. the tab was closed mid-upload */
+const INTERRUPTED_AFTER_MS = 2 * 60 * 1000;
+
+export const isInterruptedJob = (job: ImportJob) =>
+  job.status === 'staging' && Date.now() - new Date(job.updated_at).getTime() > INTERRUPTED_AFTER_MS;
+
+/** Journal trades the job overwrote; rolling it back restores them */
+export const replacedTradeCount = (job: ImportJob) =>
+  Array.isArray(job.replaced_trades) ? job.replaced_trades.length : 0;
+
+export const importJobsQueryKey = (journalId: string) => ['importJobs', journalId];
+
+export const importHistoryQueryKey = (journalId: string) => ['importHistory', journalId];
+
+/** Caches that change once an import job commits or is rolled back */
+export const invalidateImportCaches = (queryClient: QueryClient, journalId: string) => {
+  queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journalId) });
+  queryClient.invalidateQueries({ queryKey: importHistoryQueryKey(journalId) });
+  queryClient.invalidateQueries({ queryKey: ['journalWithSessions', journalId] });
+  queryClient.invalidateQueries({ queryKey: ['journals'] });
+};
+
+/**
+ * Recalculate the stored metrics of trading-day sessions after trades were added to or removed
+ * from them. The database files trades under their day but leaves the metrics to the client.
+ * The sessions' journal supplies the timezone and account size; sessions that no longer exist
+ * are skipped.
+ */
+export const recalculateSessions = async (sessionIds: string[]) => {
+  const ids = [...new Set(sessionIds)];
+  if (ids.length === 0) return;
+
+  const { data: session, error: sessionError } = await supabase
+    .from('trade_sessions')
+    .select('journal_id')
+    .in('id', ids)
+    .limit(1)
+    .maybeSingle();
+  if (sessionError) throw sessionError;
+  if (!session?.journal_id) return;
+
+  const { data: journal, error: journalError } = await supabase
+    .from('journals')
+    .select('timezone, account_size')
+    .eq('id', session.journal_id)
+    .single();
+  if (journalError) throw journalError;
+
+  for (const sessionId of ids) {
+    const { data: trades, error } = await supabase
+      .from('trades')
+      .select('*')
+      .eq('session_id', sessionId);
+    if (error) throw error;
+    if (!trades || trades.length === 0) continue;
+
+    const { error: updateError } = await supabase
+      .from('trade_sessions')
+      .update(calculateMetrics(trades, { timeZone: journal.timezone, accountSize: journal.account_size }))
+      .eq('id', sessionId);
+    if (updateError) throw updateError;
+  }
+};
+
+/** Open import jobs for a journal, polled while one is in progress */
+export const useImportJobs = (journalId: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: jobs } = useQuery<ImportJob[]>({
+    queryKey: importJobsQueryKey(journalId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .eq('journal_id', journalId)
+        .in('status', OPEN_STATUSES)
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && !!journalId,
+    refetchInterval: (query) =>
+      query.state.data?.some(job => job.status === 'staging' && !isInterruptedJob(job)) ? 1000 : false,
+  });
+
+  const cancelJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const { data, error } = await supabase.rpc('cancel_import_job', { p_job_id: jobId });
+      if (error) throw error;
+      if (!data) throw new Error('This import has already finished and can no longer be cancelled.');
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journalId) });
+      toast({ title: 'Import cancelled', description: 'No trades from this file were added to the journal.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  /** Retry the commit of a job whose trades are all staged */
+  const retryJobMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const { data, error } = await supabase.rpc('commit_import_job', { p_job_id: jobId });
+      if (error) throw error;
+      if (data.status !== 'completed') throw new Error(data.error || 'The import could not be committed.');
+      await recalculateSessions(data.session_ids);
+      return data;
+    },
+    onSuccess: (job) => {
+      invalidateImportCaches(queryClient, journalId);
+      toast({ title: 'Import complete', description: `Imported ${job.inserted_trades} trades.` });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journalId) });
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    jobs: jobs || [],
+    cancelJob: cancelJobMutation.mutate,
+    retryJob: retryJobMutation.mutate,
+    isCancelling: cancelJobMutation.isPending,
+    isRetrying: retryJobMutation.isPending,
+  };
+};
+
+/** Completed and rolled back imports for a journal, newest first */
+export const useImportHistory = (journalId: string) => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const { data: imports, isLoading } = useQuery<ImportJob[]>({
+    queryKey: importHistoryQueryKey(journalId),
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('import_jobs')
+        .select('*')
+        .eq('journal_id', journalId)
+        .in('status', ['completed', 'rolled_back'])
+        .order('created_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user && !!journalId,
+  });
+
+  /** Remove the trades an import inserted and restore those it overwrote, then recalculate the days touched */
+  const rollbackMutation = useMutation({
+    mutationFn: async (jobId: string) => {
+      const { data: job, error } = await supabase.rpc('rollback_import_job', { p_job_id: jobId });
+      if (error) throw error;
+
+      await recalculateSessions(job.session_ids);
+      job.session_ids.forEach(sessionId => queryClient.invalidateQueries({ queryKey: ['session', sessionId] }));
+
+      return job;
+    },
+    onSuccess: (job) => {
+      invalidateImportCaches(queryClient, journalId);
+      const restored = replacedTradeCount(job);
+      toast({
+        title: 'Import rolled back',
+        description: `Removed ${job.rolled_back_trades ?? 0} trades imported from ${job.file_name || 'this file'}.`
+          + (restored > 0 ? ` Restored ${restored} trades it had overwritten.` : ''),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    imports: imports || [],
+    isLoading,
+    rollbackImport: rollbackMutation.mutate,
+    isRollingBack: rollbackMutation.isPending,
+  };
+};
@@ -0,0 +1,126 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import { TablesUpdate } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { ImportTemplate, headerFingerprint } from '@/lib/import-templates';
+import type { ImportOptions } from '@/hooks/useProcessCsv';
+
+export interface SaveTemplateInput {
+  name: string;
+  headers: string[];
+  mapping: Record<string, string>;
+  options: ImportOptions;
+  /** Scope the template to one journal; omit to apply it to every journal */
+  journalId?: string | null;
+}
+
+export const useImportTemplates = () => {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const queryKey = ['importTemplates', user?.id];
+
+  const { data: templates, isLoading } = useQuery<ImportTemplate[]>({
+    queryKey,
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('import_templates')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('updated_at', { ascending: false });
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+
+  /** Create a template, or overwrite the one already saved for this header layout and scope */
+  const saveTemplateMutation = useMutation({
+    mutationFn: async ({ name, headers, mapping, options, journalId = null }: SaveTemplateInput) => {
+      if (!user) throw new Error('You must be logged in to save an import template.');
+
+      const fingerprint = headerFingerprint(headers);
+      const values = {
+        name,
+        headers,
+        mapping,
+        import_mode: options.mode,
+        matching_method: options.matchingMethod,
+        pnl_basis: options.pnlBasis,
+        updated_at: new Date().toISOString(),
+      };
+
+      let existingQuery = supabase
+        .from('import_templates')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('header_fingerprint', fingerprint);
+      existingQuery = journalId ? existingQuery.eq('journal_id', journalId) : existingQuery.is('journal_id', null);
+
+      const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+      if (existingError) throw existingError;
+
+      if (existing) {
+        const { error } = await supabase.from('import_templates').update(values).eq('id', existing.id);
+        if (error) throw error;
+        return;
+      }
+
+      const { error } = await supabase.from('import_templates').insert({
+        ...values,
+        user_id: user.id,
+        journal_id: journalId,
+        header_fingerprint: fingerprint,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { name }) => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Template saved', description: `Future uploads with these columns will use "${name}".` });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateTemplateMutation = useMutation({
+    mutationFn: async ({ id, updates }: { id: string; updates: TablesUpdate<'import_templates'> }) => {
+      const { error } = await supabase
+        .from('import_templates')
+        .update({ ...updates, updated_at: new Date().toISOString() })
+        .eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Success!', description: 'Import template updated.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteTemplateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from('import_templates').delete().eq('id', id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey });
+      toast({ title: 'Success!', description: 'Import template deleted.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  return {
+    templates: templates || [],
+    isLoading,
+    saveTemplate: saveTemplateMutation.mutateAsync,
+    updateTemplate: updateTemplateMutation.mutate,
+    deleteTemplate: deleteTemplateMutation.mutate,
+    isSaving: saveTemplateMutation.isPending || updateTemplateMutation.isPending,
+  };
+};
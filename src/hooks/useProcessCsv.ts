@@ -1,11 +1,38 @@
-import { useState } from 'react';
-import Papa from 'papaparse';
+import { useRef, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
 import { Tables, TablesInsert } from '@/integrations/supabase/types';
 import { useAuth } from '@/components/AuthProvider';
-import { calculateMetrics } from '@/lib/trade-metrics';
+import { importJobsQueryKey, invalidateImportCaches, recalculateSessions } from '@/hooks/useImportJobs';
+import { PnlBasis } from '@/lib/trade-metrics';
 import { parseNumber, inferSide, normalizeSymbol, parseTags, validateDateTime } from '@/utils/normalise';
+import { getPointValue, priceToPnl } from '@/lib/contract-specs';
+import { groupOptionLegs, optionColumns, optionContract } from '@/lib/options';
+import { detectCurrency, parseCurrencyCode } from '@/lib/currency';
+import { BrokerAdapter, buildAdapterMapping, findAdapterForBroker, missingSignatureColumns, resolveBrokerAdapter } from '@/lib/broker-adapters';
+import { Fill, ImportMode, MatchingMethod, matchFills } from '@/lib/fill-matching';
+import {
+  ImportTemplate,
+  headerFingerprint,
+  pickTemplate,
+  templateImportMode,
+  templateMapping,
+  templateMatchingMethod,
+  templatePnlBasis
+} from '@/lib/import-templates';
+import { ImportIssue, ImportIssueKind, ImportReport, ImportRow, countIssueRows, rowIssue } from '@/lib/import-issues';
+import { StatementSource, WorkbookSheet, detectStatementFormat, parseStatementFile, parseXlsxWorkbook, tableSource } from '@/lib/import-files';
+import { BatchFile, BatchFileResult, combineBatch, summariseBatch } from '@/lib/import-batch';
+import {
+  DuplicateCandidate,
+  DuplicateDecisions,
+  DuplicateMatchType,
+  DuplicateReview,
+  MatchedTrade,
+  defaultDecision,
+  fileDuplicateIndex
+} from '@/lib/duplicate-review';
 
 type Trade = Tables<'trades'>;
 type Journal = Tables<'journals'>;
@@ -29,138 +56,149 @@ interface ColumnMapping {
   [key: string]: string;
 }
 
-/** Check if data appears to be mock/demo data */
-const isMockData = (trade: any): boolean => {
-  const mockSymbols = ['AAPL', 'TSLA', 'GOOG', 'GOOGL', 'META', 'NVDA', 'AMZN', 'MSFT', 'DEMO', 'TEST', 'SAMPLE'];
-  const symbol = (trade.symbol || '').toString().toUpperCase().trim();
-  
-  if (mockSymbols.includes(symbol)) return true;
-  if (symbol.includes('TEST') || symbol.includes('DEMO') || symbol.includes('SAMPLE')) return true;
-  if (trade.notes && trade.notes.includes('Mock trade')) return true;
-  
-  return false;
+/** A valid trade and its position among the import's valid trades, which is also its staged row index */
+interface StagedTrade {
+  index: number;
+  trade: TablesInsert<'trades'>;
+}
+
+export interface ImportOptions {
+  mode: ImportMode;
+  matchingMethod: MatchingMethod;
+  /** Whether the file's P&L column is already net of commission and fees */
+  pnlBasis: PnlBasis;
+}
+
+/** A workbook with several data sheets, waiting for the user to pick one */
+export interface SheetChoice {
+  fileName: string;
+  sheets: WorkbookSheet[];
+}
+
+/** Outcome of an import, with the report of rows it skipped when there were any */
+export interface ImportResult {
+  completed: boolean;
+  insertedTrades: number;
+  report: ImportReport | null;
+  options: ImportOptions;
+  /** Per-file breakdown when several files were imported together */
+  files?: BatchFileResult[];
+}
+
+const DEFAULT_IMPORT_OPTIONS: ImportOptions = { mode: 'trades', matchingMethod: 'fifo', pnlBasis: 'net' };
+
+/** Most recent trading days of an import that get AI insights, keeping a month of history to a few calls */
+const AI_INSIGHT_DAYS = 5;
+
+/** Trades sent to the import job per request while staging */
+const STAGE_BATCH_SIZE = 500;
+
+/** Trades sent per duplicate lookup, keeping each request a manageable size on large files */
+const DUPLICATE_CHECK_BATCH_SIZE = 1000;
+
+/** How often an open duplicate review refreshes its job, well inside the two minutes after which a job counts as interrupted */
+const JOB_HEARTBEAT_MS = 30 * 1000;
+
+/** Rows normalised between yields to the browser, so the page stays responsive on large files */
+const ROW_CHUNK_SIZE = 2000;
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+/** Commission and fee columns are sometimes signed negative; store them as positive costs */
+const parseCost = (raw: unknown): number => {
+  const value = parseNumber(raw as string | number | undefined);
+  return isNaN(value) ? 0 : Math.abs(value);
+};
+
+/** Treat blank, zero and null-ish fill identifiers as missing */
+const cleanFillId = (raw: unknown): string | null => {
+  if (raw === null || raw === undefined || raw === '') return null;
+  const id = raw.toString().trim();
+  if (id === '' || id === '0' || id === 'null' || id === 'undefined') return null;
+  return id;
 };
 
-/** Validate trade data with detailed error reporting */
-const validateTradeData = (trade: any, rowIndex: number): { isValid: boolean; errors: string[] } => {
-  const errors: string[] = [];
+/** Exports of a demo journal keep the `is_sample` column; those rows are sample data, whatever their symbol */
+const SAMPLE_MARKER_COLUMN = /^is[\s_]?sample$/i;
+
+const findSampleMarkerColumn = (headers: string[]): string | undefined =>
+  headers.find(header => SAMPLE_MARKER_COLUMN.test(header.trim()));
+
+const isSampleMarked = (value: unknown): boolean => /^(true|t|1|yes)$/i.test(String(value ?? '').trim());
+
+/** Validate trade data, reporting each problem against the import field it came from */
+const validateTradeData = (trade: any): { isValid: boolean; errors: Array<{ field: string; reason: string }> } => {
+  const errors: Array<{ field: string; reason: string }> = [];
   
   if (!trade.datetime) {
-    errors.push(`Row ${rowIndex}: Missing datetime`);
+    errors.push({ field: 'datetime', reason: 'Missing datetime' });
   }
   
   if (!trade.symbol || trade.symbol.toString().trim().length === 0) {
-    errors.push(`Row ${rowIndex}: Missing or empty symbol`);
+    errors.push({ field: 'symbol', reason: 'Missing or empty symbol' });
   }
   
   if (!trade.side || !['BUY', 'SELL'].includes(trade.side)) {
-    errors.push(`Row ${rowIndex}: Invalid or missing side (must be BUY or SELL)`);
+    errors.push({ field: 'side', reason: 'Invalid or missing side (must be BUY or SELL)' });
   }
   
   if (!trade.qty || isNaN(trade.qty) || Math.abs(trade.qty) <= 0) {
-    errors.push(`Row ${rowIndex}: Invalid quantity (must be positive number)`);
+    errors.push({ field: 'qty', reason: 'Invalid quantity (must be positive number)' });
   }
   
   if (!trade.price || isNaN(trade.price) || trade.price <= 0) {
-    errors.push(`Row ${rowIndex}: Invalid price (must be positive number)`);
+    errors.push({ field: 'price', reason: 'Invalid price (must be positive number)' });
   }
   
   if (trade.pnl === undefined || trade.pnl === null || isNaN(trade.pnl)) {
-    errors.push(`Row ${rowIndex}: Missing or invalid P&L value`);
+    errors.push({ field: 'pnl', reason: 'Missing or invalid P&L value' });
   }
   
   return { isValid: errors.length === 0, errors };
 };
 
-/** Enhanced duplicate detection with multiple strategies */
-const removeCsvDuplicates = (trades: any[]): { unique: any[], duplicates: any[] } => {
-  const seen = new Set<string>();
-  const unique: any[] = [];
-  const duplicates: any[] = [];
-  
-  console.log(`🔍 Starting CSV duplicate detection for ${trades.length} trades`);
-  
-  for (let i = 0; i < trades.length; i++) {
-    const trade = trades[i];
-    let keys: string[] = [];
-    let strategy = 'none';
-    
-    // Strategy 1: Both fill IDs present (highest precision)
-    if (trade.buy_fill_id && trade.sell_fill_id) {
-      keys.push(`both_fills:${trade.buy_fill_id}:${trade.sell_fill_id}`);
-      strategy = 'both_fills';
-    }
-    
-    // Strategy 2: Individual fill IDs (medium precision)
-    if (trade.buy_fill_id) {
-      keys.push(`buy_fill:${trade.buy_fill_id}:${trade.datetime}:${trade.symbol}`);
-      if (strategy === 'none') strategy = 'buy_fill';
-    }
-    if (trade.sell_fill_id) {
-      keys.push(`sell_fill:${trade.sell_fill_id}:${trade.datetime}:${trade.symbol}`);
-      if (strategy === 'none') strategy = 'sell_fill';
-    }
-    
-    // Strategy 3: Strict composite key (lower precision)
-    const strictComposite = [
-      'strict',
-      trade.journal_id,
-      trade.datetime,
-      (trade.symbol || '').toString().toUpperCase().trim(),
-      (trade.side || '').toString().toUpperCase().trim(),
-      Number(trade.qty || 0).toString(),
-      Number(trade.price || 0).toFixed(4), // More precision for prices
-      Number(trade.pnl || 0).toFixed(4)    // More precision for PnL
-    ].join('|');
-    keys.push(strictComposite);
-    if (strategy === 'none') strategy = 'strict_composite';
-    
-    // Check if any of the keys have been seen before
-    let isDuplicate = false;
-    let matchedKey = '';
-    
-    for (const key of keys) {
-      if (seen.has(key)) {
-        isDuplicate = true;
-        matchedKey = key;
-        break;
-      }
-    }
-    
-    if (isDuplicate) {
-      duplicates.push(trade);
-      console.log(`🔍 CSV Duplicate found (${strategy}):`, {
-        symbol: trade.symbol,
-        datetime: trade.datetime,
-        pnl: trade.pnl,
-        buyFillId: trade.buy_fill_id,
-        sellFillId: trade.sell_fill_id,
-        matchedKey: matchedKey.substring(0, 100) + '...'
-      });
-    } else {
-      // Add all keys to seen set
-      keys.forEach(key => seen.add(key));
-      unique.push(trade);
-      console.log(`✅ Unique trade (${strategy}):`, {
-        symbol: trade.symbol,
-        datetime: trade.datetime,
-        pnl: trade.pnl,
-        fillIds: `${trade.buy_fill_id || 'none'}/${trade.sell_fill_id || 'none'}`
-      });
-    }
-  }
-  
-  console.log(`📊 CSV Deduplication complete: ${trades.length} → ${unique.length} (removed ${duplicates.length})`);
-  return { unique, duplicates };
-};
-
 export const useProcessCsv = (journal: Journal) => {
   const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [loadingMessage, setLoadingMessage] = useState('');
+  // Percentage through the current long-running step, when it can be measured
+  const [progress, setProgress] = useState<number | null>(null);
   const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
-  const [csvData, setCsvData] = useState<CsvRow[] | null>(null);
+  // The statement waiting on its mapping: headers, first rows and a way to read the rest
+  const [statement, setStatement] = useState<StatementSource | null>(null);
   const [csvHeaders, setCsvHeaders] = useState<string[]>([]);
   const [fileName, setFileName] = useState<string>('');
+  const [detectedAdapter, setDetectedAdapter] = useState<BrokerAdapter | null>(null);
+  // Set when the file does not look like an export of the journal's broker
+  const [adapterWarning, setAdapterWarning] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [sheetChoice, setSheetChoice] = useState<SheetChoice | null>(null);
+  const [duplicateReview, setDuplicateReview] = useState<DuplicateReview | null>(null);
+  // Resumes the import paused on the duplicate review
+  const duplicateReviewResolver = useRef<((decisions: DuplicateDecisions | null) => void) | null>(null);
+  // Files read by `processFiles`, imported together once the first one's mapping is settled
+  const pendingBatch = useRef<BatchFile[] | null>(null);
+  const [batchFileCount, setBatchFileCount] = useState(0);
+
+  /** Show a read statement in the mapping flow; `formatAdapter` is the format's own mapping, if it has one */
+  const loadStatement = async (name: string, source: StatementSource, formatAdapter: BrokerAdapter | null) => {
+    setProgress(null);
+    setFileName(name);
+    setStatement(source);
+    setCsvHeaders(source.headers);
+
+    try {
+      await validateAndMapColumns(source, name, formatAdapter);
+    } catch (error) {
+      console.error('❌ Error in validateAndMapColumns:', error);
+      toast({ 
+        title: 'Processing Error', 
+        description: (error as Error).message, 
+        variant: 'destructive' 
+      });
+      setLoadingMessage('');
+    }
+  };
 
   const processCsv = async (file: File) => {
     if (!user || !journal.id) {
@@ -172,79 +210,184 @@ export const useProcessCsv = (journal: Journal) => {
       return;
     }
 
-    console.log(`🚀 Processing CSV: ${file.name} (${file.size} bytes)`);
-    setLoadingMessage('Reading and parsing CSV file...');
+    pendingBatch.current = null;
+    setBatchFileCount(0);
+    const format = detectStatementFormat(file.name);
+    setLoadingMessage(`Reading and parsing ${format.toUpperCase()} file...`);
     setFileName(file.name);
     
     try {
-      const text = await file.text();
-      console.log(`📄 File content length: ${text.length} characters`);
-
-      Papa.parse<CsvRow>(text, {
-        header: true,
-        skipEmptyLines: true,
-        transformHeader: (header) => header.trim(),
-        complete: async (results) => {
-          console.log(`📊 CSV Parse Results:`);
-          console.log(`  - Rows parsed: ${results.data.length}`);
-          console.log(`  - Headers: [${results.meta?.fields?.join(', ')}]`);
-          console.log(`  - Parse errors: ${results.errors.length}`);
-          
-          if (results.errors.length > 0) {
-            console.log(`❌ Parse errors:`, results.errors.slice(0, 5));
-          }
-
-          if (results.data.length === 0) {
-            throw new Error('The CSV file appears to be empty or has no valid data rows.');
-          }
-
-          setCsvData(results.data);
-          setCsvHeaders(results.meta?.fields || []);
-
-          try {
-            await validateAndMapColumns(results, file.name);
-          } catch (error) {
-            console.error('❌ Error in validateAndMapColumns:', error);
-            toast({ 
-              title: 'Processing Error', 
-              description: (error as Error).message, 
-              variant: 'destructive' 
-            });
-            setLoadingMessage('');
-          }
-        },
-        error: (error) => {
-          console.error('❌ CSV parsing failed:', error);
-          toast({ 
-            title: 'CSV Parsing Error', 
-            description: `Failed to parse CSV: ${error.message}`, 
-            variant: 'destructive' 
-          });
+      if (format === 'xlsx') {
+        const sheets = await parseXlsxWorkbook(file);
+        // A workbook with several tables waits for the user to pick the one holding the trades
+        if (sheets.length > 1) {
+          setSheetChoice({ fileName: file.name, sheets });
           setLoadingMessage('');
+          return;
         }
-      });
+        await loadStatement(file.name, tableSource(sheets[0]), null);
+        return;
+      }
+
+      setProgress(0);
+      const statement = await parseStatementFile(file, format, fraction => setProgress(Math.round(fraction * 100)));
+      await loadStatement(file.name, statement, statement.adapter);
     } catch (error) {
       console.error('❌ File reading failed:', error);
+      setProgress(null);
       toast({ 
         title: 'File Error', 
-        description: 'Could not read the CSV file. Please check the file format and try again.', 
+        description: (error as Error).message || 'Could not read the file. Please check the file format and try again.', 
         variant: 'destructive' 
       });
       setLoadingMessage('');
     }
   };
 
-  const validateAndMapColumns = async (results: Papa.ParseResult<CsvRow>, fileName: string) => {
-    const csvHeaders = results.meta?.fields || [];
-    const csvData = results.data;
+  /** Read one file of a batch; a workbook must hold a single table since there is no sheet to pick */
+  const readBatchFile = async (file: File): Promise<BatchFile> => {
+    const format = detectStatementFormat(file.name);
+    if (format === 'xlsx') {
+      const sheets = await parseXlsxWorkbook(file);
+      if (sheets.length > 1) {
+        throw new Error(`The workbook has ${sheets.length} sheets. Upload it on its own to choose the one holding the trades.`);
+      }
+      return { name: file.name, source: tableSource(sheets[0]), adapter: null };
+    }
+    const { adapter, ...source } = await parseStatementFile(file, format);
+    return { name: file.name, source, adapter };
+  };
+
+  /**
+   * Import several statement files as one batch, e.g. a month of daily exports. The first
+   * readable file goes through the usual template, adapter or mapping step; the confirmed
+   * mapping is then applied to every file it fits, and their trades are checked for duplicates
+   * and committed together.
+   */
+  const processFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    if (files.length === 1) return processCsv(files[0]);
+
+    if (!user || !journal.id) {
+      toast({
+        title: 'Error',
+        description: 'You must be logged in and have a journal selected.',
+        variant: 'destructive'
+      });
+      return;
+    }
+
+    const batch: BatchFile[] = [];
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      setLoadingMessage(`Reading file ${index + 1} of ${files.length}: ${file.name}...`);
+      setProgress(Math.round((index / files.length) * 100));
+      try {
+        batch.push(await readBatchFile(file));
+      } catch (error) {
+        console.error(`❌ Reading ${file.name} failed:`, error);
+        batch.push({ name: file.name, source: null, error: (error as Error).message || 'Could not read the file.' });
+      }
+    }
+    setProgress(null);
+
+    const lead = batch.find(file => file.source);
+    if (!lead?.source) {
+      toast({
+        title: 'File Error',
+        description: 'None of the selected files could be read. Please check their format and try again.',
+        variant: 'destructive'
+      });
+      setLoadingMessage('');
+      return;
+    }
+
+    pendingBatch.current = batch;
+    setBatchFileCount(batch.length);
+    await loadStatement(lead.name, lead.source, lead.adapter ?? null);
+  };
+
+  /** Continue importing a workbook with the sheet the user picked */
+  const selectSheet = async (sheetName: string) => {
+    const sheet = sheetChoice?.sheets.find(candidate => candidate.name === sheetName);
+    if (!sheetChoice || !sheet) return;
+    setSheetChoice(null);
+    setLoadingMessage(`Reading sheet "${sheet.name}"...`);
+    await loadStatement(`${sheetChoice.fileName} (${sheet.name})`, tableSource(sheet), null);
+  };
+
+  const cancelSheetChoice = () => setSheetChoice(null);
+
+  /** Look up the user's saved template for this exact header layout, if any */
+  const findImportTemplate = async (headers: string[]): Promise<ImportTemplate | null> => {
+    if (!user) return null;
+
+    const { data, error } = await supabase
+      .from('import_templates')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('header_fingerprint', headerFingerprint(headers))
+      .or(`journal_id.eq.${journal.id},journal_id.is.null`);
+
+    if (error) {
+      console.warn('⚠️ Import template lookup failed, continuing without a template:', error);
+      return null;
+    }
 
-    console.log(`🔍 Processing ${csvData.length} rows with headers:`, csvHeaders);
+    return pickTemplate(data || [], journal.id);
+  };
+
+  const validateAndMapColumns = async (
+    source: StatementSource,
+    fileName: string,
+    formatAdapter: BrokerAdapter | null
+  ) => {
+    const csvHeaders = source.headers;
+
+    /* ------------ Step 0a: A saved template for this header layout skips mapping entirely ------------ */
+    const template = await findImportTemplate(csvHeaders);
+
+    if (template) {
+      setLoadingMessage(`Importing with saved template "${template.name}"...`);
+      await supabase
+        .from('import_templates')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', template.id);
+      await runImport(source, fileName, templateMapping(template), {
+        mode: templateImportMode(template),
+        matchingMethod: templateMatchingMethod(template),
+        pnlBasis: templatePnlBasis(template)
+      });
+      return;
+    }
+
+    /* ------------ Step 0b: Known broker and file formats map deterministically ------------ */
+    // The journal's broker is used even when the headers differ, with a warning naming what is missing
+    const chosen = formatAdapter ? null : findAdapterForBroker(journal.broker);
+    const adapter = formatAdapter || resolveBrokerAdapter(csvHeaders, journal.broker) || chosen;
+    setDetectedAdapter(adapter);
+    setAdapterWarning(null);
+
+    if (chosen && adapter !== chosen) {
+      setAdapterWarning(`This file looks like a ${adapter!.name} export, not ${chosen.name} as set on the journal, so it was mapped as ${adapter!.name}.`);
+    } else if (chosen) {
+      const missing = missingSignatureColumns(chosen, csvHeaders);
+      if (missing.length > 0) {
+        setAdapterWarning(`This file does not look like a ${chosen.name} export. Missing columns: ${missing.join(', ')}. Check the mapping below.`);
+      }
+    }
+
+    if (adapter) {
+      const adapterMapping = buildAdapterMapping(adapter, csvHeaders);
+      setColumnMapping(adapterMapping);
+      setLoadingMessage('');
+      return;
+    }
 
     /* ------------ Step 1: Validate this is trading data ------------ */
     setLoadingMessage('Validating CSV content...');
     
-    const sampleData = csvData.slice(0, Math.min(5, csvData.length));
-    console.log(`📋 Sample data for validation:`, sampleData);
+    const sampleData = source.preview;
 
     try {
       const { data: validationData, error: validationError } = await supabase.functions.invoke<
@@ -259,8 +402,6 @@ export const useProcessCsv = (journal: Journal) => {
       if (!validationData?.is_trading_related) {
         throw new Error('This CSV does not appear to contain trading data. Please ensure your file has columns like symbol, date/time, side, quantity, price, and P&L.');
       }
-
-      console.log('✅ CSV validated as trading data');
     } catch (error) {
       console.warn('⚠️ Validation service failed, proceeding with basic validation');
       // Continue with basic validation instead of failing
@@ -291,7 +432,6 @@ export const useProcessCsv = (journal: Journal) => {
       }
       
       headerMapping = mappingData?.mapping || {};
-      console.log('🗺️ Column mapping result:', headerMapping);
     } catch (error) {
       console.warn('⚠️ AI mapping failed, using fallback logic');
       // Use fallback mapping logic
@@ -302,9 +442,104 @@ export const useProcessCsv = (journal: Journal) => {
     setLoadingMessage('');
   };
 
-  const processCSVWithMapping = async (finalMapping: ColumnMapping) => {
-    if (!csvData || !user || !journal.id) return;
+  /** Run an import, reporting failures instead of throwing them at the caller */
+  const runImport = async (
+    source: StatementSource,
+    name: string,
+    finalMapping: ColumnMapping,
+    options: ImportOptions,
+    rowNumbers?: number[]
+  ) => {
+    setImportResult(null);
+    // A pending batch imports every file the confirmed mapping fits, not just the first
+    const batch = pendingBatch.current;
+    pendingBatch.current = null;
+    setBatchFileCount(0);
+    try {
+      if (batch) {
+        const combined = combineBatch(batch, finalMapping);
+        await importRows(combined.source, combined.name, finalMapping, options, undefined, combined.results);
+      } else {
+        await importRows(source, name, finalMapping, options, rowNumbers);
+      }
+    } catch (error) {
+      console.error('❌ Import failed:', error);
+      toast({
+        title: 'Import Failed',
+        description: (error as Error).message,
+        variant: 'destructive'
+      });
+      setLoadingMessage('');
+      queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journal.id) });
+    } finally {
+      setProgress(null);
+    }
+  };
 
+  /** Confirm the mapping from the dialog and import the statement read by `processCsv` */
+  const processCSVWithMapping = async (finalMapping: ColumnMapping, options: ImportOptions = DEFAULT_IMPORT_OPTIONS) => {
+    if (!statement) return;
+    await runImport(statement, fileName, finalMapping, options);
+  };
+
+  /**
+   * Import rows corrected in the issue report, keyed by their row number in the original file,
+   * with the same mapping and options as the original upload
+   */
+  const resubmitRows = async (rows: Record<number, ImportRow>) => {
+    const report = importResult?.report;
+    const rowNumbers = Object.keys(rows).map(Number).sort((a, b) => a - b);
+    if (!report || rowNumbers.length === 0) return;
+    await runImport(
+      tableSource({ headers: report.headers, rows: rowNumbers.map(row => rows[row]) }),
+      report.fileName,
+      report.mapping,
+      importResult.options,
+      rowNumbers
+    );
+  };
+
+  const clearImportResult = () => setImportResult(null);
+
+  /** Pause the import until the user has decided what to do with each duplicate */
+  const requestDuplicateReview = (review: DuplicateReview) =>
+    new Promise<DuplicateDecisions | null>(resolve => {
+      duplicateReviewResolver.current = resolve;
+      setDuplicateReview(review);
+    });
+
+  /** Continue the paused import with a decision per duplicate; null cancels the import */
+  const resolveDuplicateReview = (decisions: DuplicateDecisions | null) => {
+    const resolve = duplicateReviewResolver.current;
+    duplicateReviewResolver.current = null;
+    setDuplicateReview(null);
+    resolve?.(decisions);
+  };
+
+  /**
+   * Import a statement with a final mapping. Takes the statement explicitly so it can run
+   * straight from `validateAndMapColumns` before React state has caught up.
+   * Rows are read a chunk at a time, and each chunk is mapped, normalised, checked for
+   * duplicates and staged on an import job before the next is read. Only the rows the report
+   * or the duplicate review may show are kept. Fills and option legs are the exception: a
+   * position can close many chunks after it opened and a spread's legs can straddle a chunk
+   * boundary, so they are matched and grouped once the whole file is read.
+   * The job is committed in one transaction, so a failure leaves nothing behind in the journal.
+   * Resolves to false if nothing was imported.
+   * `rowNumbers` gives each row's number in the original file when re-importing a subset.
+   * `batchFiles` are the files a batch's rows came from, for the per-file breakdown.
+   */
+  const importRows = async (
+    source: StatementSource,
+    fileName: string,
+    finalMapping: ColumnMapping,
+    options: ImportOptions,
+    rowNumbers?: number[],
+    batchFiles?: BatchFileResult[]
+  ): Promise<boolean> => {
+    if (!user || !journal.id) return false;
+
+    const csvHeaders = source.headers;
     setLoadingMessage('Processing trades with confirmed mapping...');
 
     const getVal = (row: CsvRow, key: string): any => {
@@ -315,11 +550,34 @@ export const useProcessCsv = (journal: Journal) => {
       return undefined;
     };
 
-    /* ------------ Step 3: Parse and validate all trades ------------ */
-    setLoadingMessage(`Processing ${csvData.length} rows of trade data...`);
-    
+    /* ------------ Step 3: Parse, check and stage the rows a chunk at a time ------------ */
+    // Trades are staged as the file is read; a file with nothing to import cancels the job again
+    const { data: job, error: jobError } = await supabase
+      .from('import_jobs')
+      .insert({
+        user_id: user.id,
+        journal_id: journal.id,
+        file_name: fileName,
+        stage_message: 'Reading the file...'
+      })
+      .select()
+      .single();
+
+    if (jobError) {
+      console.error('❌ Import job creation failed:', jobError);
+      throw jobError;
+    }
+
+    queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journal.id) });
+
+    const discardJob = async () => {
+      const { error } = await supabase.rpc('cancel_import_job', { p_job_id: job.id });
+      if (error) console.warn('⚠️ Could not cancel the import job:', error);
+      queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journal.id) });
+    };
+
     const summary: ProcessingSummary = {
-      totalRows: csvData.length,
+      totalRows: 0,
       validTrades: 0,
       mockDataFiltered: 0,
       duplicatesSkipped: 0,
@@ -329,25 +587,244 @@ export const useProcessCsv = (journal: Journal) => {
       fileName
     };
 
-    const validTrades: Array<TablesInsert<'trades'>> = [];
-    const parseErrors: string[] = [];
+    const issues: ImportIssue[] = [];
+    // Rows of the chunk being read, and earlier rows kept for the report or the duplicate review
+    let chunkRows = new Map<number, CsvRow>();
+    const keptRows = new Map<number, CsvRow>();
+    const keepRow = (rowNum: number | undefined) => {
+      if (rowNum === undefined) return undefined;
+      const row = chunkRows.get(rowNum) ?? keptRows.get(rowNum);
+      if (row) keptRows.set(rowNum, row);
+      return row;
+    };
+    // File row of each valid trade, by its position among the import's valid trades
+    const tradeRows = new Map<number, number>();
+    // Row of the fill that opened each round trip, for attributing it to a batch file
+    const roundTripRows = new Map<number, number>();
+    // Staged trades by position, with their row and whether they carry fill ids
+    const staged = new Map<number, { row: number | null; hasFillIds: boolean }>();
+    const reportIssue = (kind: ImportIssueKind, rowNum: number, field: string | null, reason: string) =>
+      issues.push(rowIssue(kind, rowNum, keepRow(rowNum), finalMapping, field, reason));
+    const reportDuplicate = (index: number, trade: MatchedTrade, reason: string) => {
+      const rowNum = tradeRows.get(index);
+      issues.push(rowNum
+        ? rowIssue('duplicate', rowNum, keepRow(rowNum), finalMapping, null, reason)
+        : { row: null, kind: 'duplicate', field: null, column: null, value: '', reason: `${trade.symbol} trade closed ${trade.datetime}: ${reason}` });
+    };
+
+    /** Publish the outcome and the report of skipped rows for the UI */
+    const finishImport = (completed: boolean, insertedTrades = 0) => {
+      const report: ImportReport | null = issues.length > 0
+        ? {
+            fileName,
+            headers: csvHeaders,
+            mapping: finalMapping,
+            mode: options.mode,
+            rows: Object.fromEntries(
+              issues.filter(issue => issue.row !== null && keptRows.has(issue.row)).map(issue => [issue.row, keptRows.get(issue.row!)!])
+            ),
+            issues
+          }
+        : null;
+      const insertedRows = [...staged.values()].map(entry => entry.row).filter((row): row is number => row !== null);
+      setImportResult({
+        completed,
+        insertedTrades,
+        report,
+        options,
+        files: batchFiles && summariseBatch(batchFiles, issues, insertedRows)
+      });
+      return completed;
+    };
+
+    const stopCancelled = () => {
+      setProgress(null);
+      setLoadingMessage('');
+      setStatement(null);
+      queryClient.invalidateQueries({ queryKey: importJobsQueryKey(journal.id) });
+      return false;
+    };
+
+    const fills: Fill[] = [];
+    const fillNotes = new Map<number, Pick<TablesInsert<'trades'>, 'notes' | 'strategy' | 'tags'>>();
+    // Option contract columns by fill symbol; a contract's fields are the same on every fill
+    const fillContracts = new Map<string, ReturnType<typeof optionColumns>>();
+    const fillCurrencies = new Map<string, string>();
     let emptyRowsSkipped = 0;
+    let openPositionCount = 0;
+    let rowsRead = 0;
+    let validCount = 0;
+
+    const fileDuplicates = fileDuplicateIndex({ roundTrips: options.mode === 'fills' });
+    const candidates: DuplicateCandidate[] = [];
+    // Trades the older check flagged when the candidate lookup is unavailable; those are skipped unreviewed
+    let autoSkippedCount = 0;
+
+    /** Record staging progress; only a job that is still staging accepts it, so a cancel from the UI stops the import */
+    const touchJob = async () => {
+      const { data: progressed, error: progressError } = await supabase
+        .from('import_jobs')
+        .update({
+          staged_trades: staged.size,
+          stage_message: `Read ${rowsRead.toLocaleString()} of ${source.rowCount.toLocaleString()} rows, staged ${staged.size.toLocaleString()} trades`,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', job.id)
+        .eq('status', 'staging')
+        .select('id');
+
+      if (progressError) throw progressError;
+      return !!progressed && progressed.length > 0;
+    };
+
+    /** Stage trades on the job in batches; resolves to false once the job was cancelled */
+    const stageTrades = async (entries: StagedTrade[], replacedTrades = new Map<number, string>()) => {
+      if (entries.length === 0) return touchJob();
+
+      for (let start = 0; start < entries.length; start += STAGE_BATCH_SIZE) {
+        const batch = entries.slice(start, start + STAGE_BATCH_SIZE);
+        const { error: stageError } = await supabase
+          .from('import_job_rows')
+          .insert(batch.map(({ index, trade }) => ({
+            job_id: job.id,
+            row_index: index,
+            user_id: user.id,
+            trade,
+            replaces_trade_id: replacedTrades.get(index) ?? null
+          })));
+
+        if (stageError) {
+          console.error('❌ Staging trades failed:', stageError);
+          throw stageError;
+        }
 
-    console.log(`🔄 Processing ${csvData.length} CSV rows...`);
+        batch.forEach(({ index, trade }) => staged.set(index, {
+          row: tradeRows.get(index) ?? roundTripRows.get(index) ?? null,
+          hasFillIds: !!(trade.buy_fill_id || trade.sell_fill_id)
+        }));
+        if (!(await touchJob())) return false;
+      }
+      return true;
+    };
 
-    for (let index = 0; index < csvData.length; index++) {
-      const row = csvData[index];
-      const rowNum = index + 1;
-      
+    /** Journal trades matching a batch of first copies; the matched trades are held for the review or skipped */
+    const findJournalDuplicates = async (batch: StagedTrade[]): Promise<Set<number>> => {
+      const flagged = new Set<number>();
+      const tradesForCheck = batch.map(({ trade }) => ({
+        datetime: trade.datetime,
+        symbol: trade.symbol,
+        side: trade.side,
+        qty: trade.qty,
+        price: trade.price,
+        pnl: trade.pnl,
+        buy_fill_id: trade.buy_fill_id,
+        sell_fill_id: trade.sell_fill_id
+      }));
+
+      try {
+        const { data: candidateResults, error: candidateError } = await supabase
+          .rpc('find_duplicate_candidates', {
+            p_journal_id: journal.id,
+            p_trades: tradesForCheck
+          });
+
+        if (!candidateError && candidateResults) {
+          candidateResults.forEach(result => {
+            const { index, trade } = batch[result.trade_index];
+            flagged.add(index);
+            keepRow(tradeRows.get(index));
+            candidates.push({
+              index,
+              source: 'journal',
+              matchType: result.match_type as DuplicateMatchType,
+              near: result.near_match,
+              incoming: trade,
+              existing: result.existing_trade as unknown as Trade,
+              existingIndex: null
+            });
+          });
+          return flagged;
+        }
+
+        console.warn('⚠️ Duplicate candidate lookup failed, using enhanced duplicate check:', candidateError);
+
+        const { data: duplicateResults, error: duplicateError } = await supabase
+          .rpc('get_duplicate_trades_enhanced', {
+            p_journal_id: journal.id,
+            p_trades: tradesForCheck
+          });
+
+        if (!duplicateError && duplicateResults) {
+          duplicateResults.forEach(result => {
+            if (!result.is_duplicate) return;
+            const { index, trade } = batch[result.trade_index];
+            flagged.add(index);
+            autoSkippedCount++;
+            reportDuplicate(index, trade, `Already in this journal (${result.match_type} match)`);
+          });
+        } else {
+          console.warn('⚠️ Fallback database check also failed, proceeding with this batch', duplicateError);
+        }
+      } catch (error) {
+        console.warn('⚠️ Database duplicate check failed:', error);
+      }
+      return flagged;
+    };
+
+    /**
+     * Check newly read trades for duplicates, earlier in the file and already in the journal, and
+     * stage the rest. Journal matches are only looked up for the first copy of each trade in the
+     * file. Suspected duplicates wait for the review with their rows.
+     */
+    const checkAndStage = async (entries: StagedTrade[]) => {
+      const firstCopies = entries.filter(({ index, trade }) => {
+        const candidate = fileDuplicates.check(trade, index);
+        if (!candidate) return true;
+        candidates.push(candidate);
+        keepRow(tradeRows.get(index));
+        // The earlier copy's row is only still at hand when it was read in the same chunk
+        keepRow(tradeRows.get(candidate.existingIndex!));
+        return false;
+      });
+
+      const unflagged: StagedTrade[] = [];
+      for (let start = 0; start < firstCopies.length; start += DUPLICATE_CHECK_BATCH_SIZE) {
+        const batch = firstCopies.slice(start, start + DUPLICATE_CHECK_BATCH_SIZE);
+        const flagged = await findJournalDuplicates(batch);
+        batch.forEach(entry => {
+          if (!flagged.has(entry.index)) unflagged.push(entry);
+        });
+      }
+
+      return stageTrades(unflagged);
+    };
+
+    const sampleMarkerColumn = findSampleMarkerColumn(csvHeaders);
+
+    /** Map and validate one row; fills are collected for matching and give no trade yet */
+    const normaliseRow = (row: CsvRow, rowNum: number): TablesInsert<'trades'> | null => {
       // Skip completely empty rows
       const hasAnyData = Object.values(row).some(val => 
         val !== null && val !== undefined && val !== ''
       );
       
       if (!hasAnyData) {
-        console.log(`⏭️ Row ${rowNum}: Skipping empty row`);
         emptyRowsSkipped++;
-        continue;
+        return null;
+      }
+
+      if (sampleMarkerColumn && isSampleMarked(row[sampleMarkerColumn])) {
+        summary.mockDataFiltered++;
+        keepRow(rowNum);
+        issues.push({
+          row: rowNum,
+          kind: 'mock',
+          field: null,
+          column: sampleMarkerColumn,
+          value: String(row[sampleMarkerColumn]),
+          reason: 'Marked as sample data'
+        });
+        return null;
       }
       
       try {
@@ -364,50 +841,91 @@ export const useProcessCsv = (journal: Journal) => {
         const strategyRaw = getVal(row, 'strategy') || '';
         const tagsRaw = getVal(row, 'tags') || '';
         
-        // Extract fill IDs with enhanced logging
+        // Extract fill IDs
         const buyFillIdRaw = getVal(row, 'buyFillId');
         const sellFillIdRaw = getVal(row, 'sellFillId');
 
-        console.log(`📊 Row ${rowNum} raw data:`, {
-          datetime: datetimeRaw,
-          symbol: symbolRaw,
-          side: sideRaw,
-          qty: qtyRaw,
-          price: priceRaw,
-          pnl: pnlRaw,
-          buyFillId: buyFillIdRaw,
-          sellFillId: sellFillIdRaw
-        });
-
-        // Parse and validate datetime - prefer soldTimestamp, then boughtTimestamp, then datetime
-        let datetime = validateDateTime(datetimeRaw as string);
+        // Round trips with a time on each leg (Tradovate): the earlier leg opened the position,
+        // so a sell before the buy is a short that closed when it was bought back
+        const boughtAt = validateDateTime(getVal(row, 'boughtTimestamp') as string, journal.timezone);
+        const soldAt = validateDateTime(getVal(row, 'soldTimestamp') as string, journal.timezone);
+        const legSide = boughtAt && soldAt ? (soldAt < boughtAt ? 'SELL' : 'BUY') : null;
+        const legCloseTime = legSide === 'SELL' ? boughtAt : legSide === 'BUY' ? soldAt : null;
+
+        // Parse and validate datetime - prefer datetime, then exitTime, the closing leg, soldTimestamp, boughtTimestamp.
+        // A date column that is one of the legs gives way to the closing leg.
+        const datetimeIsLeg = !!finalMapping.datetime
+          && (finalMapping.datetime === finalMapping.boughtTimestamp || finalMapping.datetime === finalMapping.soldTimestamp);
+        let datetime = legCloseTime && datetimeIsLeg ? legCloseTime : validateDateTime(datetimeRaw as string, journal.timezone);
         if (!datetime) {
-          // Try alternative datetime fields
-          const soldTimestamp = getVal(row, 'soldTimestamp');
-          const boughtTimestamp = getVal(row, 'boughtTimestamp');
-          
-          if (soldTimestamp) {
-            datetime = validateDateTime(soldTimestamp as string);
-          } else if (boughtTimestamp) {
-            datetime = validateDateTime(boughtTimestamp as string);
-          }
+          datetime = validateDateTime(getVal(row, 'exitTime') as string, journal.timezone) || legCloseTime || soldAt || boughtAt;
         }
         
         if (!datetime) {
-          parseErrors.push(`Row ${rowNum}: Invalid datetime "${datetimeRaw}"`);
-          continue;
+          reportIssue('error', rowNum, 'datetime', datetimeRaw ? 'Unrecognised date/time, or one before 2000 or in the future' : 'Missing date/time');
+          return null;
         }
 
         // Parse and validate symbol
         const symbol = normalizeSymbol(symbolRaw as string);
         if (!symbol) {
-          parseErrors.push(`Row ${rowNum}: Invalid symbol "${symbolRaw}"`);
-          continue;
+          reportIssue('error', rowNum, 'symbol', 'Missing or invalid symbol');
+          return null;
         }
 
         // Parse numeric values
         const qty = parseNumber(qtyRaw);
         const price = parseNumber(priceRaw);
+
+        // Option contract fields, from their own columns or the OCC symbol
+        const contract = optionColumns(symbol, {
+          underlying: getVal(row, 'underlying'),
+          expiry: getVal(row, 'expiry'),
+          strike: parseNumber(getVal(row, 'strike')),
+          optionType: getVal(row, 'optionType'),
+          multiplier: parseNumber(getVal(row, 'multiplier'))
+        });
+
+        // A currency column, else a symbol or code written on the amounts; unmarked rows are in the journal's
+        const currency = parseCurrencyCode(getVal(row, 'currency')) || detectCurrency(pnlRaw) || detectCurrency(priceRaw);
+
+        // Execution rows are collected here and matched into round trips after the loop
+        if (options.mode === 'fills') {
+          const fillSide = inferSide(sideRaw as string, qty);
+          if (!fillSide) {
+            reportIssue('error', rowNum, 'side', 'Invalid or missing side (must be BUY or SELL)');
+            return null;
+          }
+          if (isNaN(qty) || qty === 0) {
+            reportIssue('error', rowNum, 'qty', 'Invalid quantity (must be a non-zero number)');
+            return null;
+          }
+          if (isNaN(price) || price <= 0) {
+            reportIssue('error', rowNum, 'price', 'Invalid price (must be positive number)');
+            return null;
+          }
+
+          fills.push({
+            id: cleanFillId(getVal(row, 'fillId')),
+            datetime,
+            symbol,
+            side: fillSide,
+            qty: Math.abs(qty),
+            price,
+            commission: parseCost(getVal(row, 'commission')),
+            fees: parseCost(getVal(row, 'fees')),
+            rowNumber: rowNum
+          });
+          fillNotes.set(rowNum, {
+            notes: notesRaw ? notesRaw.toString().trim() : null,
+            strategy: strategyRaw ? strategyRaw.toString().trim() : null,
+            tags: parseTags(tagsRaw as string)
+          });
+          if (!fillContracts.has(symbol)) fillContracts.set(symbol, contract);
+          if (currency && !fillCurrencies.has(symbol)) fillCurrencies.set(symbol, currency);
+          return null;
+        }
+
         const buyPrice = parseNumber(buyPriceRaw);
         const sellPrice = parseNumber(sellPriceRaw);
         const pnl = parseNumber(pnlRaw);
@@ -417,32 +935,46 @@ export const useProcessCsv = (journal: Journal) => {
         if (isNaN(finalPrice) && !isNaN(buyPrice)) finalPrice = buyPrice;
         if (isNaN(finalPrice) && !isNaN(sellPrice)) finalPrice = sellPrice;
 
-        // Infer side
+        // Infer side; a side column wins over the order of the legs
         const side = inferSide(
-          sideRaw as string,
+          (sideRaw as string) || legSide,
           qty,
           !isNaN(buyPrice) ? buyPrice : undefined,
           !isNaN(sellPrice) ? sellPrice : undefined
         );
 
-        // Clean and validate fill IDs with enhanced processing
-        let buyFillId: string | null = null;
-        let sellFillId: string | null = null;
-        
-        if (buyFillIdRaw !== null && buyFillIdRaw !== undefined && buyFillIdRaw !== '') {
-          buyFillId = buyFillIdRaw.toString().trim();
-          if (buyFillId === '0' || buyFillId === 'null' || buyFillId === 'undefined') {
-            buyFillId = null;
-          }
+        // Clean and validate fill IDs
+        const buyFillId = cleanFillId(buyFillIdRaw);
+        const sellFillId = cleanFillId(sellFillIdRaw);
+
+        // Stored P&L is always net; a gross P&L column has the costs taken off here
+        const commission = parseCost(getVal(row, 'commission'));
+        const fees = parseCost(getVal(row, 'fees'));
+        let netPnl = options.pnlBasis === 'gross' ? pnl - commission - fees : pnl;
+
+        // Entry/exit legs: explicit columns win, otherwise the buy and sell legs are assigned by direction
+        const isLong = side !== 'SELL';
+        const exitPriceValue = parseNumber(getVal(row, 'exitPrice'));
+        const entryPrice = !isNaN(price) ? price : isLong ? buyPrice : sellPrice;
+        const exitPrice = !isNaN(exitPriceValue) ? exitPriceValue : isLong ? sellPrice : buyPrice;
+        let entryTime = validateDateTime(getVal(row, 'entryTime') as string, journal.timezone) || (isLong ? boughtAt : soldAt);
+        let exitTime = validateDateTime(getVal(row, 'exitTime') as string, journal.timezone) || (isLong ? soldAt : boughtAt);
+        if (entryTime && exitTime && exitTime < entryTime) {
+          reportIssue('warning', rowNum, 'exitTime', 'Exit time is before entry time; the trade was imported without either');
+          entryTime = null;
+          exitTime = null;
         }
-        
-        if (sellFillIdRaw !== null && sellFillIdRaw !== undefined && sellFillIdRaw !== '') {
-          sellFillId = sellFillIdRaw.toString().trim();
-          if (sellFillId === '0' || sellFillId === 'null' || sellFillId === 'undefined') {
-            sellFillId = null;
-          }
+
+        // No P&L column value: derive gross P&L from the prices and the contract's point value
+        if (isNaN(pnl) && side && !isNaN(entryPrice) && !isNaN(exitPrice) && !isNaN(qty) && qty !== 0) {
+          netPnl = priceToPnl(side, entryPrice, exitPrice, qty, symbol, contract.multiplier) - commission - fees;
         }
 
+        // Planned risk, when the export records it
+        const plannedStop = parseNumber(getVal(row, 'plannedStop'));
+        const plannedTarget = parseNumber(getVal(row, 'plannedTarget'));
+        const initialRisk = Math.abs(parseNumber(getVal(row, 'initialRisk')));
+
         // Build normalized trade
         const trade = {
           datetime: datetime.toISOString(),
@@ -450,222 +982,295 @@ export const useProcessCsv = (journal: Journal) => {
           side,
           qty: Math.abs(qty),
           price: finalPrice,
-          pnl,
+          entry_price: !isNaN(entryPrice) ? entryPrice : null,
+          exit_price: !isNaN(exitPrice) ? exitPrice : null,
+          entry_time: entryTime ? entryTime.toISOString() : null,
+          exit_time: exitTime ? exitTime.toISOString() : null,
+          pnl: netPnl,
+          commission,
+          fees,
+          planned_stop: !isNaN(plannedStop) ? plannedStop : null,
+          planned_target: !isNaN(plannedTarget) ? plannedTarget : null,
+          initial_risk: initialRisk > 0 ? initialRisk : null,
           notes: notesRaw ? notesRaw.toString().trim() : null,
           strategy: strategyRaw ? strategyRaw.toString().trim() : null,
           tags: parseTags(tagsRaw as string),
+          ...contract,
+          currency,
           image_url: null,
           buy_fill_id: buyFillId,
           sell_fill_id: sellFillId,
-          session_id: '', // Will be set later
           user_id: user.id,
           journal_id: journal.id
         };
 
-        console.log(`📊 Row ${rowNum} processed trade:`, {
-          symbol: trade.symbol,
-          datetime: trade.datetime,
-          pnl: trade.pnl,
-          buyFillId: trade.buy_fill_id,
-          sellFillId: trade.sell_fill_id,
-          hasFillIds: !!(trade.buy_fill_id || trade.sell_fill_id)
-        });
-
         // Validate the trade
-        const validation = validateTradeData(trade, rowNum);
+        const validation = validateTradeData(trade);
         if (!validation.isValid) {
-          parseErrors.push(...validation.errors);
-          continue;
+          validation.errors.forEach(({ field, reason }) => reportIssue('error', rowNum, field, reason));
+          return null;
         }
 
-        // Check for mock data and count it
-        if (isMockData(trade)) {
-          console.warn(`⚠️ Row ${rowNum}: Skipping mock data for symbol ${symbol}`);
-          summary.mockDataFiltered++;
-          continue;
-        }
+        return trade;
+      } catch (error) {
+        reportIssue('error', rowNum, null, (error as Error).message);
+      }
+      return null;
+    };
 
-        validTrades.push(trade);
-        console.log(`✅ Row ${rowNum}: Valid trade added`, { 
-          symbol, 
-          datetime: datetime.toISOString(), 
-          pnl,
-          fillIds: `${trade.buy_fill_id || 'none'}/${trade.sell_fill_id || 'none'}`
-        });
+    setLoadingMessage(`Processing ${source.rowCount.toLocaleString()} rows of trade data...`);
+    let cancelled = false;
+    // Option legs wait for the whole file, as the legs of a spread can straddle a chunk boundary
+    const heldLegs: { trade: TablesInsert<'trades'>; rowNum: number; row: CsvRow }[] = [];
 
-      } catch (error) {
-        console.error(`❌ Row ${rowNum} parsing error:`, error);
-        parseErrors.push(`Row ${rowNum}: ${(error as Error).message}`);
+    await source.readRows(async (rows, fraction) => {
+      chunkRows = new Map();
+      const chunkTrades: TablesInsert<'trades'>[] = [];
+      const chunkTradeRows: number[] = [];
+
+      for (const row of rows) {
+        const rowNum = rowNumbers?.[rowsRead] ?? rowsRead + 1;
+        rowsRead++;
+        chunkRows.set(rowNum, row);
+
+        if (rowsRead % ROW_CHUNK_SIZE === 0) {
+          setLoadingMessage(`Processing rows (${rowsRead.toLocaleString()}/${source.rowCount.toLocaleString()})...`);
+          await yieldToBrowser();
+        }
+
+        const trade = normaliseRow(row, rowNum);
+        if (trade && !trade.position_group && optionContract(trade)) {
+          heldLegs.push({ trade, rowNum, row });
+        } else if (trade) {
+          chunkTrades.push(trade);
+          chunkTradeRows.push(rowNum);
+        }
       }
-    }
 
-    summary.validTrades = validTrades.length;
-    summary.parseErrors = parseErrors.length;
+      const entries = chunkTrades.map((trade, position) => {
+        const index = validCount++;
+        tradeRows.set(index, chunkTradeRows[position]);
+        return { index, trade };
+      });
 
-    console.log(`📊 Detailed Processing Summary:`);
-    console.log(`  - Total CSV rows: ${summary.totalRows}`);
-    console.log(`  - Empty rows skipped: ${emptyRowsSkipped}`);
-    console.log(`  - Parse errors: ${summary.parseErrors}`);
-    console.log(`  - Mock data filtered: ${summary.mockDataFiltered}`);
-    console.log(`  - Valid trades: ${summary.validTrades}`);
-    console.log(`  - Trades with fill IDs: ${validTrades.filter(t => t.buy_fill_id || t.sell_fill_id).length}`);
+      const proceed = await checkAndStage(entries);
+      chunkRows = new Map();
+      setProgress(Math.round(fraction * 100));
+      if (!proceed) cancelled = true;
+      return proceed;
+    });
 
-    if (parseErrors.length > 0) {
-      console.log(`❌ Parse errors details:`, parseErrors.slice(0, 10));
-    }
+    setProgress(null);
+    if (cancelled) return stopCancelled();
+    summary.totalRows = rowsRead;
+
+    /* ------------ Step 3a: Group option legs filled together into spreads ------------ */
+    if (heldLegs.length > 0) {
+      // The held rows stand in for the chunk, so duplicates among them keep their values
+      chunkRows = new Map(heldLegs.map(({ rowNum, row }) => [rowNum, row]));
+      const entries = groupOptionLegs(heldLegs.map(({ trade }) => trade)).map((trade, position) => {
+        const index = validCount++;
+        tradeRows.set(index, heldLegs[position].rowNum);
+        return { index, trade };
+      });
 
-    if (validTrades.length === 0) {
-      const errorDetails = parseErrors.length > 0 
-        ? `\n\nErrors found:\n${parseErrors.slice(0, 10).join('\n')}`
-        : '';
-      
-      throw new Error(`No valid trades found in your CSV file.${errorDetails}\n\nPlease ensure your CSV contains proper trading data with columns for date/time, symbol, side (BUY/SELL), quantity, price, and P&L.`);
+      setLoadingMessage(`Checking and staging ${entries.length} option legs...`);
+      const proceed = await checkAndStage(entries);
+      chunkRows = new Map();
+      if (!proceed) return stopCancelled();
     }
 
-    /* ------------ Step 4: Remove CSV-level duplicates with enhanced logic ------------ */
-    setLoadingMessage('Removing CSV duplicates with enhanced detection...');
-    
-    const { unique: csvUniqueTrades, duplicates: csvDuplicates } = removeCsvDuplicates(validTrades);
-    summary.duplicatesSkipped = csvDuplicates.length;
+    /* ------------ Step 3b: Rebuild round trips from executions ------------ */
+    if (options.mode === 'fills' && fills.length > 0) {
+      setLoadingMessage(`Matching ${fills.length} fills into round-trip trades...`);
+
+      const { roundTrips, openPositions } = matchFills(fills, {
+        method: options.matchingMethod,
+        multiplier: symbol => fillContracts.get(symbol)?.multiplier || getPointValue(symbol)
+      });
+      openPositionCount = openPositions.length;
+
+      const roundTripTrades: TablesInsert<'trades'>[] = [];
+      const openingRows: number[] = [];
+      roundTrips.forEach((roundTrip, index) => {
+        // Notes, strategy and tags come from the opening fill's row, whether or not it has an id
+        const extras = fillNotes.get(roundTrip.openRowNumber) || { notes: null, strategy: null, tags: [] };
+
+        const trade = {
+          datetime: roundTrip.exitTime.toISOString(),
+          symbol: roundTrip.symbol,
+          side: roundTrip.side,
+          qty: roundTrip.qty,
+          price: roundTrip.entryPrice,
+          entry_price: roundTrip.entryPrice,
+          exit_price: roundTrip.exitPrice,
+          entry_time: roundTrip.entryTime.toISOString(),
+          exit_time: roundTrip.exitTime.toISOString(),
+          pnl: roundTrip.pnl,
+          commission: roundTrip.commission,
+          fees: roundTrip.fees,
+          ...extras,
+          ...(fillContracts.get(roundTrip.symbol) || optionColumns(roundTrip.symbol, {})),
+          currency: fillCurrencies.get(roundTrip.symbol) || null,
+          image_url: null,
+          buy_fill_id: roundTrip.buyFillId,
+          sell_fill_id: roundTrip.sellFillId,
+          user_id: user.id,
+          journal_id: journal.id
+        };
+
+        const validation = validateTradeData(trade);
+        if (!validation.isValid) {
+          validation.errors.forEach(({ field, reason }) => issues.push({
+            row: null,
+            roundTrip: index + 1,
+            kind: 'error',
+            field,
+            column: null,
+            value: String(trade[field as keyof typeof trade] ?? ''),
+            reason: `Round trip ${index + 1} (${trade.symbol}): ${reason}`
+          }));
+          return;
+        }
+
+        roundTripTrades.push(trade);
+        openingRows.push(roundTrip.openRowNumber);
+      });
 
-    console.log(`🔄 Enhanced CSV Duplicate Check:`);
-    console.log(`  - Original valid trades: ${validTrades.length}`);
-    console.log(`  - After removing CSV duplicates: ${csvUniqueTrades.length}`);
-    console.log(`  - CSV duplicates removed: ${csvDuplicates.length}`);
+      /* ------------ Step 3c: Group option legs filled together into spreads ------------ */
+      const entries = groupOptionLegs(roundTripTrades).map((trade, position) => {
+        const index = validCount++;
+        roundTripRows.set(index, openingRows[position]);
+        return { index, trade };
+      });
 
-    if (csvUniqueTrades.length === 0) {
-      // Clear loading state and show graceful message
+      setLoadingMessage(`Checking and staging ${entries.length} round-trip trades...`);
+      if (!(await checkAndStage(entries))) return stopCancelled();
+    }
+
+    summary.validTrades = validCount;
+    summary.parseErrors = countIssueRows(issues, 'error');
+
+    if (validCount === 0) {
+      await discardJob();
       setLoadingMessage('');
       setColumnMapping(null);
-      setCsvData(null);
-      
+      setStatement(null);
+
       toast({
-        title: '📋 All CSV Trades are Duplicates',
-        description: `All ${validTrades.length} trades in your CSV file are duplicates of each other. This usually means the same data was exported multiple times.`,
-        variant: 'default'
+        title: 'No Valid Trades Found',
+        description: issues.length > 0
+          ? `None of the ${summary.totalRows} rows could be imported. Review the ${summary.parseErrors} rejected rows to fix them.`
+          : 'Please ensure your CSV contains proper trading data with columns for date/time, symbol, side (BUY/SELL), quantity, price, and P&L.',
+        variant: 'destructive'
       });
-      
-      setTimeout(() => {
-        toast({
-          title: 'ℹ️ Duplicate Detection Working Perfectly',
-          description: 'Our enhanced duplicate detection prevented importing duplicate trades within your CSV file.',
-          variant: 'default'
-        });
-      }, 2000);
-      
-      return; // Exit gracefully
-    }
 
-    /* ------------ Step 5: Check database duplicates using enhanced flexible approach ------------ */
-    setLoadingMessage('Checking database for existing trades with enhanced matching...');
-    
-    let finalTrades = csvUniqueTrades;
-    let databaseDuplicateCount = 0;
+      return finishImport(false);
+    }
 
-    if (csvUniqueTrades.length > 0) {
-      try {
-        // Prepare trades data for enhanced database duplicate checking
-        const tradesForCheck = csvUniqueTrades.map(trade => ({
-          datetime: trade.datetime,
-          symbol: trade.symbol,
-          side: trade.side,
-          qty: trade.qty,
-          price: trade.price,
-          pnl: trade.pnl,
-          buy_fill_id: trade.buy_fill_id,
-          sell_fill_id: trade.sell_fill_id
-        }));
+    /* ------------ Step 4: Let the user keep, skip or overwrite each duplicate ------------ */
+    candidates.sort((a, b) => a.index - b.index);
+    let decisions: DuplicateDecisions = {};
 
-        console.log(`🔍 Sending ${tradesForCheck.length} trades for database duplicate check`);
-        console.log(`📋 Sample trade for DB check:`, tradesForCheck[0]);
+    if (candidates.length > 0) {
+      setColumnMapping(null);
+      setLoadingMessage(`Waiting for review of ${candidates.length} possible duplicate${candidates.length === 1 ? '' : 's'}...`);
 
-        // Use the enhanced flexible database function
-        const { data: duplicateResults, error: duplicateError } = await supabase
-          .rpc('get_duplicate_trades_enhanced', {
-            p_journal_id: journal.id,
-            p_trades: tradesForCheck
-          });
+      const rows: Record<number, number> = {};
+      candidates.forEach(candidate => {
+        [candidate.index, candidate.existingIndex].forEach(index => {
+          const rowNum = index === null ? undefined : tradeRows.get(index);
+          if (index !== null && rowNum) rows[index] = rowNum;
+        });
+      });
 
-        if (!duplicateError && duplicateResults) {
-          console.log(`🔍 Database duplicate check results:`, duplicateResults);
-          
-          // Filter out duplicates with detailed logging
-          finalTrades = csvUniqueTrades.filter((trade, index) => {
-            const result = duplicateResults.find(r => r.trade_index === index);
-            const isDuplicate = result?.is_duplicate || false;
-            
-            if (isDuplicate) {
-              databaseDuplicateCount++;
-              console.log(`📋 Database duplicate found (${result.match_type}):`, {
-                symbol: trade.symbol,
-                datetime: trade.datetime,
-                pnl: trade.pnl,
-                buyFillId: trade.buy_fill_id,
-                sellFillId: trade.sell_fill_id
-              });
-            } else {
-              console.log(`✅ Database unique trade:`, {
-                symbol: trade.symbol,
-                datetime: trade.datetime,
-                pnl: trade.pnl,
-                fillIds: `${trade.buy_fill_id || 'none'}/${trade.sell_fill_id || 'none'}`
-              });
-            }
-            
-            return !isDuplicate;
-          });
+      // The open review keeps the job from being taken for an abandoned upload
+      const heartbeat = setInterval(() => {
+        touchJob().catch(error => console.warn('⚠️ Import job heartbeat failed:', error));
+      }, JOB_HEARTBEAT_MS);
+      const reviewed = await requestDuplicateReview({ fileName, candidates, rows }).finally(() => clearInterval(heartbeat));
+      if (!reviewed) {
+        await discardJob();
+        setLoadingMessage('');
+        setStatement(null);
+        toast({ title: 'Import Cancelled', description: 'Nothing was imported.' });
+        return false;
+      }
+      decisions = reviewed;
+    }
 
-          console.log(`📊 Enhanced Database Duplicate Summary:`);
-          console.log(`  - Checked trades: ${csvUniqueTrades.length}`);
-          console.log(`  - Database duplicates found: ${databaseDuplicateCount}`);
-          console.log(`  - Final unique trades: ${finalTrades.length}`);
+    const skipped = new Set<number>();
+    // Journal trade each overwriting trade replaces when the job commits
+    const replacedTrades = new Map<number, string>();
+    let databaseDuplicateCount = autoSkippedCount;
+    let duplicatesKept = 0;
+
+    candidates.forEach(candidate => {
+      const decision = decisions[candidate.index] ?? defaultDecision(candidate);
+      const match = `${candidate.near ? 'near ' : ''}${candidate.matchType} match`;
+
+      if (decision === 'skip') {
+        skipped.add(candidate.index);
+        if (candidate.source === 'file') {
+          summary.duplicatesSkipped++;
+          reportDuplicate(candidate.index, candidate.incoming, `Duplicate of an earlier row in this file (${match})`);
         } else {
-          console.warn('⚠️ Enhanced database duplicate check failed, using fallback method');
-          if (duplicateError) {
-            console.error('Database duplicate check error:', duplicateError);
-          }
-          
-          // Fallback: use the simpler database duplicate check
-          try {
-            const { data: fallbackResults, error: fallbackError } = await supabase
-              .rpc('get_duplicate_trades_flexible', {
-                p_journal_id: journal.id,
-                p_trades: tradesForCheck
-              });
-              
-            if (!fallbackError && fallbackResults) {
-              finalTrades = csvUniqueTrades.filter((_, index) => {
-                const result = fallbackResults.find(r => r.trade_index === index);
-                const isDuplicate = result?.is_duplicate || false;
-                if (isDuplicate) databaseDuplicateCount++;
-                return !isDuplicate;
-              });
-              console.log(`📊 Fallback Database Check: ${databaseDuplicateCount} duplicates found`);
-            }
-          } catch (fallbackErr) {
-            console.warn('⚠️ Fallback database check also failed, proceeding with all trades');
-          }
+          databaseDuplicateCount++;
+          reportDuplicate(candidate.index, candidate.incoming, `Already in this journal (${match})`);
         }
-      } catch (error) {
-        console.warn('⚠️ Database duplicate check failed:', error);
+      } else if (decision === 'overwrite') {
+        if (candidate.source === 'file' && candidate.existingIndex !== null) {
+          // The later row replaces the earlier one within this import
+          skipped.add(candidate.existingIndex);
+          summary.duplicatesSkipped++;
+          reportDuplicate(candidate.existingIndex, candidate.existing, `Replaced by a later row in this file (${match})`);
+        } else if (candidate.existing.id) {
+          replacedTrades.set(candidate.index, candidate.existing.id);
+        }
+      } else {
+        duplicatesKept++;
       }
+    });
+
+    /* ------------ Step 5: Stage the duplicates the user kept ------------ */
+    // Earlier copies replaced by a later row come out of the staged trades
+    const replacedCopies = [...skipped].filter(index => staged.has(index));
+    if (replacedCopies.length > 0) {
+      const { error: removeError } = await supabase
+        .from('import_job_rows')
+        .delete()
+        .eq('job_id', job.id)
+        .in('row_index', replacedCopies);
+      if (removeError) throw removeError;
+      replacedCopies.forEach(index => staged.delete(index));
     }
 
-    if (finalTrades.length === 0) {
-      const totalDuplicates = summary.duplicatesSkipped + databaseDuplicateCount;
-      
+    const keptCandidates = new Map(
+      candidates
+        .filter(candidate => !skipped.has(candidate.index))
+        .map(candidate => [candidate.index, candidate.incoming])
+    );
+    const held = [...keptCandidates].map(([index, trade]) => ({ index, trade }));
+    if (!(await stageTrades(held, replacedTrades))) return stopCancelled();
+
+    const finalCount = staged.size;
+    const tradesWithFillIds = [...staged.values()].filter(entry => entry.hasFillIds).length;
+
+    if (finalCount === 0) {
+      await discardJob();
+
       // Clear loading state
       setLoadingMessage('');
       setColumnMapping(null);
-      setCsvData(null);
-      
+      setStatement(null);
+
       // Show user-friendly toast notification instead of throwing error
       toast({
         title: '📋 All Trades Already Exist in Database',
-        description: `No new trades were imported because all ${validTrades.length} trades in your CSV file already exist in this journal. ${summary.duplicatesSkipped} were CSV duplicates, and ${databaseDuplicateCount} already exist in your database.`,
+        description: `No new trades were imported because all ${validCount} trades in your CSV file already exist in this journal. ${summary.duplicatesSkipped} were CSV duplicates, and ${databaseDuplicateCount} already exist in your database.`,
         variant: 'default'
       });
-      
+
       // Show additional helpful message
       setTimeout(() => {
         toast({
@@ -675,171 +1280,124 @@ export const useProcessCsv = (journal: Journal) => {
         });
       }, 2000);
 
-      console.log(`📊 Complete Enhanced Duplicate Summary:`, {
-        totalCsvRows: summary.totalRows,
-        validTrades: validTrades.length,
-        csvDuplicates: summary.duplicatesSkipped,
-        databaseDuplicates: databaseDuplicateCount,
-        finalResult: 'All trades were duplicates - no import needed'
-      });
-
-      return; // Exit gracefully without reloading page
+      return finishImport(true); // Exit gracefully without reloading page
     }
 
-    /* ------------ Step 6: Store raw data ------------ */
-    setLoadingMessage('Storing raw data...');
-    
-    const { data: rawData, error: rawError } = await supabase
-      .from('raw_trade_data')
-      .insert({
-        user_id: user.id,
-        file_name: fileName,
-        headers: csvHeaders,
-        data: { 
-          mapping: finalMapping, 
-          totalRows: csvData.length,
-          emptyRowsSkipped,
-          validTrades: finalTrades.length,
-          parseErrors: parseErrors.length,
-          mockDataFiltered: summary.mockDataFiltered,
-          csvDuplicates: summary.duplicatesSkipped,
-          databaseDuplicates: databaseDuplicateCount,
-          tradesWithFillIds: finalTrades.filter(t => t.buy_fill_id || t.sell_fill_id).length,
-          enhancedDuplicateDetection: true
-        }
-      })
-      .select()
-      .single();
-    
-    if (rawError) {
-      console.error('❌ Raw data storage failed:', rawError);
-      throw rawError;
-    }
-
-    console.log('✅ Raw data stored with ID:', rawData.id);
-
-    /* ------------ Step 7: Calculate preliminary metrics ------------ */
-    const preliminaryMetrics = calculateMetrics(finalTrades as Trade[]);
-    console.log('📊 Preliminary metrics:', preliminaryMetrics);
-
-    /* ------------ Step 8: Create session ------------ */
-    setLoadingMessage('Creating trade session...');
-    
-    const { data: newSession, error: sessionError } = await supabase
-      .from('trade_sessions')
-      .insert({
-        journal_id: journal.id,
-        user_id: user.id,
-        raw_data_id: rawData.id,
-        ...preliminaryMetrics
+    /* ------------ Step 6: Record the job's totals ------------ */
+    // From here on the server owns the import; the mapping dialog can close
+    setColumnMapping(null);
+    setLoadingMessage('Finishing the import job...');
+
+    const { data: recorded, error: recordError } = await supabase
+      .from('import_jobs')
+      .update({
+        total_trades: finalCount,
+        staged_trades: finalCount,
+        stage_message: `Staged ${finalCount} of ${finalCount} trades`,
+        raw_data: {
+          headers: csvHeaders,
+          data: {
+            mapping: finalMapping,
+            totalRows: summary.totalRows,
+            emptyRowsSkipped,
+            validTrades: finalCount,
+            parseErrors: summary.parseErrors,
+            mockDataFiltered: summary.mockDataFiltered,
+            csvDuplicates: summary.duplicatesSkipped,
+            databaseDuplicates: databaseDuplicateCount,
+            duplicatesKept,
+            duplicatesOverwritten: replacedTrades.size,
+            tradesWithFillIds,
+            enhancedDuplicateDetection: true,
+            importMode: options.mode,
+            pnlBasis: options.pnlBasis,
+            ...(options.mode === 'fills' && {
+              matchingMethod: options.matchingMethod,
+              fills: fills.length,
+              openPositions: openPositionCount
+            })
+          }
+        },
+        updated_at: new Date().toISOString()
       })
-      .select()
-      .single();
-    
-    if (sessionError) {
-      console.error('❌ Session creation failed:', sessionError);
-      throw sessionError;
-    }
-
-    console.log('✅ Session created with ID:', newSession.id);
+      .eq('id', job.id)
+      .eq('status', 'staging')
+      .select('id');
 
-    /* ------------ Step 9: Insert trades ------------ */
-    setLoadingMessage(`Inserting ${finalTrades.length} trades...`);
-    
-    // Set session_id for all trades
-    const tradesWithSession = finalTrades.map(trade => ({
-      ...trade,
-      session_id: newSession.id
-    }));
+    if (recordError) throw recordError;
+    if (!recorded || recorded.length === 0) return stopCancelled();
 
-    let insertedCount = 0;
+    /* ------------ Step 7: Commit the job in one transaction ------------ */
+    setLoadingMessage(`Saving ${finalCount} trades...`);
 
-    if (tradesWithSession.length > 0) {
-      try {
-        // Use simple insert since we've already handled duplicates
-        const { data: insertedTrades, error: insertError } = await supabase
-          .from('trades')
-          .insert(tradesWithSession)
-          .select('id');
-
-        if (insertError) {
-          console.error('❌ Insert failed:', insertError);
-          throw insertError;
-        }
+    const { data: committed, error: commitError } = await supabase
+      .rpc('commit_import_job', { p_job_id: job.id });
 
-        insertedCount = insertedTrades?.length || 0;
-
-        console.log(`✅ Insert completed:`);
-        console.log(`  - Successfully inserted: ${insertedCount}`);
+    if (commitError) {
+      console.error('❌ Import commit failed:', commitError);
+      throw commitError;
+    }
 
-      } catch (error) {
-        console.error('❌ Trade insertion failed:', error);
-        throw error;
-      }
+    if (committed.status !== 'completed') {
+      console.error('❌ Import job did not complete:', committed);
+      throw new Error(`The import failed and no trades were saved: ${committed.error || committed.status}. You can retry it from the upload screen.`);
     }
 
+    // Trades are filed under the session for their trading day, so one import can fill several
+    const sessionIds = committed.session_ids;
+    const insertedCount = committed.inserted_trades;
+
     summary.insertedTrades = insertedCount;
-    summary.skippedDuplicates = databaseDuplicateCount;
+    summary.skippedDuplicates = databaseDuplicateCount + (finalCount - insertedCount);
 
-    /* ------------ Step 10: Update session with actual metrics ------------ */
+    /* ------------ Step 8: Recalculate the metrics of every day the import added to ------------ */
     if (insertedCount > 0) {
-      setLoadingMessage('Calculating final metrics...');
-      
-      // Get the actually inserted trades for accurate metrics
-      const { data: actualTrades, error: actualTradesError } = await supabase
-        .from('trades')
-        .select('*')
-        .eq('session_id', newSession.id);
-      
-      if (!actualTradesError && actualTrades && actualTrades.length > 0) {
-        const actualMetrics = calculateMetrics(actualTrades);
-        console.log(`📊 Final metrics based on ${actualTrades.length} actual trades:`, actualMetrics);
-        
-        const { error: updateError } = await supabase
-          .from('trade_sessions')
-          .update(actualMetrics)
-          .eq('id', newSession.id);
-        
-        if (updateError) {
-          console.error('❌ Session metrics update failed:', updateError);
-        } else {
-          console.log('✅ Session metrics updated successfully');
-        }
+      setLoadingMessage(`Calculating metrics for ${sessionIds.length} trading day${sessionIds.length === 1 ? '' : 's'}...`);
+      try {
+        await recalculateSessions(sessionIds);
+      } catch (error) {
+        console.error('❌ Session metrics update failed:', error);
       }
-    } else {
-      console.log('⚠️ No trades were inserted, session will show zero metrics');
     }
 
-    /* ------------ Step 11: Generate AI insights ------------ */
+    /* ------------ Step 9: Generate AI insights for the latest days ------------ */
     if (insertedCount > 0) {
-      try {
-        setLoadingMessage('Generating AI insights...');
-        const { data: insights, error: insightsError } = await supabase.functions.invoke<
-          Partial<Tables<'trade_sessions'>>
-        >('analyze-trades', { body: { trades: tradesWithSession.slice(0, 100) } });
-        
-        if (!insightsError && insights) {
-          await supabase.from('trade_sessions').update(insights).eq('id', newSession.id);
-          console.log('✅ AI insights generated successfully');
+      setLoadingMessage('Generating AI insights...');
+      for (const sessionId of sessionIds.slice(-AI_INSIGHT_DAYS)) {
+        try {
+          const { data: dayTrades } = await supabase
+            .from('trades')
+            .select('*')
+            .eq('session_id', sessionId)
+            .limit(100);
+          if (!dayTrades || dayTrades.length === 0) continue;
+
+          const { data: insights, error: insightsError } = await supabase.functions.invoke<
+            Partial<Tables<'trade_sessions'>>
+          >('analyze-trades', { body: { trades: dayTrades, timeZone: journal.timezone } });
+
+          if (!insightsError && insights) {
+            await supabase.from('trade_sessions').update(insights).eq('id', sessionId);
+          }
+        } catch (err) {
+          console.warn('⚠️ AI insights generation failed:', err);
         }
-      } catch (err) {
-        console.warn('⚠️ AI insights generation failed:', err);
       }
     }
 
-    /* ------------ Step 12: Show comprehensive results ------------ */
+    /* ------------ Step 10: Show comprehensive results ------------ */
     const totalDuplicates = summary.duplicatesSkipped + summary.skippedDuplicates;
     
     // Enhanced success notification with detailed breakdown
     const skippedBreakdown = [];
     if (summary.parseErrors > 0) skippedBreakdown.push(`${summary.parseErrors} parse errors`);
-    if (summary.mockDataFiltered > 0) skippedBreakdown.push(`${summary.mockDataFiltered} mock data`);
+    if (summary.mockDataFiltered > 0) skippedBreakdown.push(`${summary.mockDataFiltered} sample rows`);
     if (totalDuplicates > 0) skippedBreakdown.push(`${totalDuplicates} duplicates`);
     if (emptyRowsSkipped > 0) skippedBreakdown.push(`${emptyRowsSkipped} empty rows`);
     
     const skippedDetails = skippedBreakdown.length > 0 ? ` (Skipped: ${skippedBreakdown.join(', ')})` : '';
-    const fillIdInfo = finalTrades.filter(t => t.buy_fill_id || t.sell_fill_id).length > 0 
-      ? ` Enhanced duplicate detection used fill IDs for ${finalTrades.filter(t => t.buy_fill_id || t.sell_fill_id).length} trades.` 
+    const fillIdInfo = tradesWithFillIds > 0
+      ? ` Enhanced duplicate detection used fill IDs for ${tradesWithFillIds} trades.`
       : '';
     
     toast({
@@ -851,33 +1409,28 @@ export const useProcessCsv = (journal: Journal) => {
       setTimeout(() => {
         toast({
           title: '⚠️ Some Rows Had Issues',
-          description: `${summary.parseErrors} rows had formatting issues and were skipped. Check the browser console for details.`,
+          description: `${summary.parseErrors} rows had formatting issues and were skipped. Fix them in the import report to add them.`,
           variant: 'default'
         });
       }, 2000);
     }
 
-    console.log(`🎯 Final Enhanced Summary:`, {
-      ...summary,
-      emptyRowsSkipped,
-      enhancedDuplicateDetection: true,
-      finalAccountingCheck: {
-        totalRows: summary.totalRows,
-        processed: emptyRowsSkipped + summary.parseErrors + summary.mockDataFiltered + summary.validTrades,
-        matches: summary.totalRows === (emptyRowsSkipped + summary.parseErrors + summary.mockDataFiltered + summary.validTrades)
-      }
-    });
+    if (openPositionCount > 0) {
+      setTimeout(() => {
+        toast({
+          title: 'ℹ️ Open Positions Not Imported',
+          description: `${openPositionCount} symbol${openPositionCount === 1 ? ' is' : 's are'} still holding an open position at the end of the file. Export a range that includes both the opening and closing fills to import those trades.`,
+          variant: 'default'
+        });
+      }, 3000);
+    }
 
     setLoadingMessage('');
-    
-    // Clear the mapping state
-    setColumnMapping(null);
-    setCsvData(null);
-    
-    // Refresh the page to show the new data
-    setTimeout(() => {
-      window.location.reload();
-    }, 1500);
+    setStatement(null);
+
+    // Only the journal's views changed; refetch them rather than reloading the page
+    invalidateImportCaches(queryClient, journal.id);
+    return finishImport(true, insertedCount);
   };
 
   // Enhanced fallback mapping function with fill IDs
@@ -889,11 +1442,26 @@ export const useProcessCsv = (journal: Journal) => {
       symbol: /^(symbol|ticker|instrument|contract)$/i,
       side: /^(side|action|type|direction|buy.*sell)$/i,
       qty: /^(qty|quantity|size|amount|volume|shares|contracts)$/i,
-      price: /^(price|exec.*price|execution.*price|fill.*price|avg.*price)$/i,
-      buyPrice: /^(buy.*price|entry.*price|open.*price)$/i,
-      sellPrice: /^(sell.*price|exit.*price|close.*price)$/i,
+      price: /^(price|exec.*price|execution.*price|fill.*price|avg.*price|entry.*price|open.*price)$/i,
+      exitPrice: /^(exit.*price|close.*price)$/i,
+      buyPrice: /^(buy.*price|bought.*price)$/i,
+      sellPrice: /^(sell.*price|sold.*price)$/i,
+      entryTime: /^(entry.*time|open.*time|opened)$/i,
+      exitTime: /^(exit.*time|close.*time|closed)$/i,
+      plannedStop: /^(stop|stop.*loss|planned.*stop|sl)$/i,
+      plannedTarget: /^(target|take.*profit|planned.*target|tp)$/i,
+      initialRisk: /^(risk|initial.*risk|risk.*\$|risk.*amount)$/i,
       buyFillId: /^(buy.*fill.*id|buy.*order.*id|entry.*fill.*id|open.*fill.*id)$/i,
       sellFillId: /^(sell.*fill.*id|sell.*order.*id|exit.*fill.*id|close.*fill.*id)$/i,
+      fillId: /^(fill.*id|exec.*id|execution.*id|trade.*id|order.*(id|#|number))$/i,
+      commission: /^(commission|commissions|comm|ib.*commission)$/i,
+      fees: /^(fees?|exchange.*fees?|reg.*fees?|nfa.*fees?|clearing.*fees?|total.*fees?)$/i,
+      underlying: /^(underlying|underlying.*symbol|root)$/i,
+      expiry: /^(expiry|expiration|exp|expiration.*date|expiry.*date)$/i,
+      strike: /^(strike|strike.*price)$/i,
+      optionType: /^(put.?call|call.?put|option.*type|right|c.?p)$/i,
+      multiplier: /^(multiplier|mult|contract.*multiplier)$/i,
+      currency: /^(currency|ccy|curr)$/i,
       pnl: /^(p.?l|profit|loss|realized|net.*p.?l|pnl)$/i,
       notes: /^(notes|description|comment|memo)$/i,
       strategy: /^(strategy|setup|plan|method)$/i,
@@ -909,16 +1477,28 @@ export const useProcessCsv = (journal: Journal) => {
       }
     }
     
-    console.log('🗺️ Fallback mapping created:', mapping);
     return mapping;
   };
 
   return { 
     processCsv, 
+    processFiles, 
     loadingMessage, 
     columnMapping, 
     processCSVWithMapping,
     csvHeaders,
-    csvData 
+    statement,
+    detectedAdapter,
+    adapterWarning,
+    importResult,
+    resubmitRows,
+    clearImportResult,
+    sheetChoice,
+    selectSheet,
+    cancelSheetChoice,
+    duplicateReview,
+    resolveDuplicateReview,
+    progress,
+    batchFileCount
   };
 };
\ No newline at end of file
@@ -0,0 +1,40 @@
+import { useMemo, useState } from 'react';
+import { useFxRates } from '@/hooks/useFxRates';
+import { CurrencyConversion, DEFAULT_CURRENCY } from '@/lib/currency';
+
+const STORAGE_KEY = 'traderInsight_reportingCurrency';
+
+const readStored = (): string | null => {
+  try {
+    return localStorage.getItem(STORAGE_KEY);
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The currency dashboards report P&L in, remembered across pages so journals in different
+ * currencies are compared on one scale. Until one is picked, a journal reports in its own.
+ * `conversion` is what `calculateMetrics` and `applyCurrency` take.
+ */
+export const useReportingCurrency = (journalCurrency: string = DEFAULT_CURRENCY) => {
+  const { fx } = useFxRates();
+  const [stored, setStored] = useState<string | null>(readStored);
+  const reportingCurrency = stored || journalCurrency;
+
+  const setReportingCurrency = (currency: string) => {
+    setStored(currency);
+    try {
+      localStorage.setItem(STORAGE_KEY, currency);
+    } catch (error) {
+      console.error('Error saving reporting currency to localStorage:', error);
+    }
+  };
+
+  const conversion = useMemo<CurrencyConversion>(
+    () => ({ to: reportingCurrency, from: journalCurrency, fx }),
+    [reportingCurrency, journalCurrency, fx]
+  );
+
+  return { reportingCurrency, setReportingCurrency, conversion };
+};
@@ -9,35 +9,305 @@ export type Json =
 export type Database = {
   public: {
     Tables: {
+      bias_checks: {
+        Row: {
+          caution_level: string
+          check_date: string
+          created_at: string
+          id: string
+          mantra: string | null
+          mood: string
+          news_impact: string
+          recommended_risk: string | null
+          sleep_hours: number
+          user_id: string
+          yesterday_pnl: number | null
+        }
+        Insert: {
+          caution_level: string
+          check_date?: string
+          created_at?: string
+          id?: string
+          mantra?: string | null
+          mood: string
+          news_impact: string
+          recommended_risk?: string | null
+          sleep_hours: number
+          user_id: string
+          yesterday_pnl?: number | null
+        }
+        Update: {
+          caution_level?: string
+          check_date?: string
+          created_at?: string
+          id?: string
+          mantra?: string | null
+          mood?: string
+          news_impact?: string
+          recommended_risk?: string | null
+          sleep_hours?: number
+          user_id?: string
+          yesterday_pnl?: number | null
+        }
+        Relationships: []
+      }
+      fx_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          id: string
+          quote_currency: string
+          rate: number
+          rate_date: string
+          user_id: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          id?: string
+          quote_currency: string
+          rate: number
+          rate_date: string
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          rate_date?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      import_job_rows: {
+        Row: {
+          job_id: string
+          replaces_trade_id: string | null
+          row_index: number
+          trade: Json
+          user_id: string
+        }
+        Insert: {
+          job_id: string
+          replaces_trade_id?: string | null
+          row_index: number
+          trade: Json
+          user_id: string
+        }
+        Update: {
+          job_id?: string
+          replaces_trade_id?: string | null
+          row_index?: number
+          trade?: Json
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_job_rows_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_job_rows_replaces_trade_id_fkey"
+            columns: ["replaces_trade_id"]
+            isOneToOne: false
+            referencedRelation: "trades"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_jobs: {
+        Row: {
+          can_roll_back: boolean
+          created_at: string
+          error: string | null
+          file_name: string | null
+          id: string
+          inserted_trades: number
+          journal_id: string
+          raw_data: Json
+          raw_data_id: string | null
+          replaced_trades: Json
+          rolled_back_at: string | null
+          rolled_back_trades: number | null
+          session_id: string | null
+          session_ids: string[]
+          session_metrics: Json
+          stage_message: string | null
+          staged_trades: number
+          status: string
+          total_trades: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          can_roll_back?: boolean
+          created_at?: string
+          error?: string | null
+          file_name?: string | null
+          id?: string
+          inserted_trades?: number
+          journal_id: string
+          raw_data?: Json
+          raw_data_id?: string | null
+          replaced_trades?: Json
+          rolled_back_at?: string | null
+          rolled_back_trades?: number | null
+          session_id?: string | null
+          session_ids?: string[]
+          session_metrics?: Json
+          stage_message?: string | null
+          staged_trades?: number
+          status?: string
+          total_trades?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          can_roll_back?: boolean
+          created_at?: string
+          error?: string | null
+          file_name?: string | null
+          id?: string
+          inserted_trades?: number
+          journal_id?: string
+          raw_data?: Json
+          raw_data_id?: string | null
+          replaced_trades?: Json
+          rolled_back_at?: string | null
+          rolled_back_trades?: number | null
+          session_id?: string | null
+          session_ids?: string[]
+          session_metrics?: Json
+          stage_message?: string | null
+          staged_trades?: number
+          status?: string
+          total_trades?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_jobs_journal_id_fkey"
+            columns: ["journal_id"]
+            isOneToOne: false
+            referencedRelation: "journals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_jobs_raw_data_id_fkey"
+            columns: ["raw_data_id"]
+            isOneToOne: false
+            referencedRelation: "raw_trade_data"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "import_jobs_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "trade_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      import_templates: {
+        Row: {
+          created_at: string
+          header_fingerprint: string
+          headers: string[]
+          id: string
+          import_mode: string
+          journal_id: string | null
+          last_used_at: string | null
+          mapping: Json
+          matching_method: string
+          name: string
+          pnl_basis: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          header_fingerprint: string
+          headers?: string[]
+          id?: string
+          import_mode?: string
+          journal_id?: string | null
+          last_used_at?: string | null
+          mapping?: Json
+          matching_method?: string
+          name: string
+          pnl_basis?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          header_fingerprint?: string
+          headers?: string[]
+          id?: string
+          import_mode?: string
+          journal_id?: string | null
+          last_used_at?: string | null
+          mapping?: Json
+          matching_method?: string
+          name?: string
+          pnl_basis?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "import_templates_journal_id_fkey"
+            columns: ["journal_id"]
+            isOneToOne: false
+            referencedRelation: "journals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       journals: {
         Row: {
           account_size: number | null
           broker: string | null
           created_at: string
+          currency: string
+          demo_mode: boolean
           description: string | null
           id: string
           name: string
           prop_firm: string | null
+          timezone: string
           user_id: string
         }
         Insert: {
           account_size?: number | null
           broker?: string | null
           created_at?: string
+          currency?: string
+          demo_mode?: boolean
           description?: string | null
           id?: string
           name: string
           prop_firm?: string | null
+          timezone?: string
           user_id: string
         }
         Update: {
           account_size?: number | null
           broker?: string | null
           created_at?: string
+          currency?: string
+          demo_mode?: boolean
           description?: string | null
           id?: string
           name?: string
           prop_firm?: string | null
+          timezone?: string
           user_id?: string
         }
         Relationships: []
@@ -75,84 +345,162 @@ export type Database = {
           ai_key_insight: string | null
           ai_mistakes: string[] | null
           ai_strengths: string[] | null
+          avg_daily_pnl: number | null
           avg_loss: number | null
+          avg_r_multiple: number | null
           avg_win: number | null
+          best_day: Json | null
+          calmar_ratio: number | null
           created_at: string
+          daily_pnl: Json | null
+          daily_pnl_std_dev: number | null
           equity_curve: Json | null
           expectancy: number | null
+          green_day_rate: number | null
+          gross_pnl: number | null
           id: string
+          is_sample: boolean
           journal_id: string | null
+          kelly_fraction: number | null
           largest_loss: number | null
           largest_win: number | null
           max_drawdown: number | null
+          max_green_day_streak: number | null
           max_loss_streak: number | null
+          max_red_day_streak: number | null
           max_win_streak: number | null
+          median_daily_pnl: number | null
           profit_factor: number | null
+          r_distribution: Json | null
+          r_equity_curve: Json | null
+          r_expectancy: number | null
           raw_data_id: string | null
           reward_risk_ratio: number | null
+          sharpe_ratio: number | null
+          sortino_ratio: number | null
+          sqn: number | null
           time_data: Json | null
+          total_commissions: number | null
+          total_fees: number | null
           total_pnl: number | null
           total_trades: number | null
+          trade_date: string | null
           trades_by_day: Json | null
           trades_by_symbol: Json | null
+          trades_with_risk: number | null
+          trading_days: number | null
+          ulcer_index: number | null
           user_id: string
           win_rate: number | null
+          worst_day: Json | null
         }
         Insert: {
           ai_fixes?: string[] | null
           ai_key_insight?: string | null
           ai_mistakes?: string[] | null
           ai_strengths?: string[] | null
+          avg_daily_pnl?: number | null
           avg_loss?: number | null
+          avg_r_multiple?: number | null
           avg_win?: number | null
+          best_day?: Json | null
+          calmar_ratio?: number | null
           created_at?: string
+          daily_pnl?: Json | null
+          daily_pnl_std_dev?: number | null
           equity_curve?: Json | null
           expectancy?: number | null
+          green_day_rate?: number | null
+          gross_pnl?: number | null
           id?: string
+          is_sample?: boolean
           journal_id?: string | null
+          kelly_fraction?: number | null
           largest_loss?: number | null
           largest_win?: number | null
           max_drawdown?: number | null
+          max_green_day_streak?: number | null
           max_loss_streak?: number | null
+          max_red_day_streak?: number | null
           max_win_streak?: number | null
+          median_daily_pnl?: number | null
           profit_factor?: number | null
+          r_distribution?: Json | null
+          r_equity_curve?: Json | null
+          r_expectancy?: number | null
           raw_data_id?: string | null
           reward_risk_ratio?: number | null
+          sharpe_ratio?: number | null
+          sortino_ratio?: number | null
+          sqn?: number | null
           time_data?: Json | null
+          total_commissions?: number | null
+          total_fees?: number | null
           total_pnl?: number | null
           total_trades?: number | null
+          trade_date?: string | null
           trades_by_day?: Json | null
           trades_by_symbol?: Json | null
+          trades_with_risk?: number | null
+          trading_days?: number | null
+          ulcer_index?: number | null
           user_id: string
           win_rate?: number | null
+          worst_day?: Json | null
         }
         Update: {
           ai_fixes?: string[] | null
           ai_key_insight?: string | null
           ai_mistakes?: string[] | null
           ai_strengths?: string[] | null
+          avg_daily_pnl?: number | null
           avg_loss?: number | null
+          avg_r_multiple?: number | null
           avg_win?: number | null
+          best_day?: Json | null
+          calmar_ratio?: number | null
           created_at?: string
+          daily_pnl?: Json | null
+          daily_pnl_std_dev?: number | null
           equity_curve?: Json | null
           expectancy?: number | null
+          green_day_rate?: number | null
+          gross_pnl?: number | null
           id?: string
+          is_sample?: boolean
           journal_id?: string | null
+          kelly_fraction?: number | null
           largest_loss?: number | null
           largest_win?: number | null
           max_drawdown?: number | null
+          max_green_day_streak?: number | null
           max_loss_streak?: number | null
+          max_red_day_streak?: number | null
           max_win_streak?: number | null
+          median_daily_pnl?: number | null
           profit_factor?: number | null
+          r_distribution?: Json | null
+          r_equity_curve?: Json | null
+          r_expectancy?: number | null
           raw_data_id?: string | null
           reward_risk_ratio?: number | null
+          sharpe_ratio?: number | null
+          sortino_ratio?: number | null
+          sqn?: number | null
           time_data?: Json | null
+          total_commissions?: number | null
+          total_fees?: number | null
           total_pnl?: number | null
           total_trades?: number | null
+          trade_date?: string | null
           trades_by_day?: Json | null
           trades_by_symbol?: Json | null
+          trades_with_risk?: number | null
+          trading_days?: number | null
+          ulcer_index?: number | null
           user_id?: string
           win_rate?: number | null
+          worst_day?: Json | null
         }
         Relationships: [
           {
@@ -174,62 +522,132 @@ export type Database = {
       trades: {
         Row: {
           buy_fill_id: string | null
+          commission: number
           created_at: string
+          currency: string | null
           datetime: string
+          entry_price: number | null
+          entry_time: string | null
+          exit_price: number | null
+          exit_time: string | null
+          expiry: string | null
+          fees: number
           id: string
           image_url: string | null
+          import_job_id: string | null
+          initial_risk: number | null
+          is_sample: boolean
           journal_id: string | null
+          mae: number | null
+          mfe: number | null
+          multiplier: number | null
           notes: string | null
+          option_type: string | null
+          planned_stop: number | null
+          planned_target: number | null
+          playbook_id: string | null
           pnl: number | null
+          position_group: string | null
           price: number | null
           qty: number | null
           sell_fill_id: string | null
           session_id: string
           side: string | null
           strategy: string | null
+          strike: number | null
           symbol: string | null
           tags: string[] | null
+          underlying: string | null
           user_id: string
         }
         Insert: {
           buy_fill_id?: string | null
+          commission?: number
           created_at?: string
+          currency?: string | null
           datetime: string
+          entry_price?: number | null
+          entry_time?: string | null
+          exit_price?: number | null
+          exit_time?: string | null
+          expiry?: string | null
+          fees?: number
           id?: string
           image_url?: string | null
+          import_job_id?: string | null
+          initial_risk?: number | null
+          is_sample?: boolean
           journal_id?: string | null
+          mae?: number | null
+          mfe?: number | null
+          multiplier?: number | null
           notes?: string | null
+          option_type?: string | null
+          planned_stop?: number | null
+          planned_target?: number | null
+          playbook_id?: string | null
           pnl?: number | null
+          position_group?: string | null
           price?: number | null
           qty?: number | null
           sell_fill_id?: string | null
-          session_id: string
+          session_id?: string
           side?: string | null
           strategy?: string | null
+          strike?: number | null
           symbol?: string | null
           tags?: string[] | null
+          underlying?: string | null
           user_id: string
         }
         Update: {
           buy_fill_id?: string | null
+          commission?: number
           created_at?: string
+          currency?: string | null
           datetime?: string
+          entry_price?: number | null
+          entry_time?: string | null
+          exit_price?: number | null
+          exit_time?: string | null
+          expiry?: string | null
+          fees?: number
           id?: string
           image_url?: string | null
+          import_job_id?: string | null
+          initial_risk?: number | null
+          is_sample?: boolean
           journal_id?: string | null
+          mae?: number | null
+          mfe?: number | null
+          multiplier?: number | null
           notes?: string | null
+          option_type?: string | null
+          planned_stop?: number | null
+          planned_target?: number | null
+          playbook_id?: string | null
           pnl?: number | null
+          position_group?: string | null
           price?: number | null
           qty?: number | null
           sell_fill_id?: string | null
           session_id?: string
           side?: string | null
           strategy?: string | null
+          strike?: number | null
           symbol?: string | null
           tags?: string[] | null
+          underlying?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "trades_import_job_id_fkey"
+            columns: ["import_job_id"]
+            isOneToOne: false
+            referencedRelation: "import_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "trades_journal_id_fkey"
             columns: ["journal_id"]
@@ -237,6 +655,13 @@ export type Database = {
             referencedRelation: "journals"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "trades_playbook_id_fkey"
+            columns: ["playbook_id"]
+            isOneToOne: false
+            referencedRelation: "trading_playbooks"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "trades_session_id_fkey"
             columns: ["session_id"]
@@ -246,12 +671,117 @@ export type Database = {
           },
         ]
       }
+      trading_playbooks: {
+        Row: {
+          ai_generated_insights: string | null
+          created_at: string | null
+          description: string | null
+          detailed_content: string | null
+          entry_criteria: Json | null
+          exit_criteria: Json | null
+          id: string
+          is_active: boolean | null
+          market_conditions: string | null
+          name: string
+          psychology_notes: string | null
+          risk_management: Json | null
+          strategy_type: string | null
+          tags: string[] | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ai_generated_insights?: string | null
+          created_at?: string | null
+          description?: string | null
+          detailed_content?: string | null
+          entry_criteria?: Json | null
+          exit_criteria?: Json | null
+          id?: string
+          is_active?: boolean | null
+          market_conditions?: string | null
+          name: string
+          psychology_notes?: string | null
+          risk_management?: Json | null
+          strategy_type?: string | null
+          tags?: string[] | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ai_generated_insights?: string | null
+          created_at?: string | null
+          description?: string | null
+          detailed_content?: string | null
+          entry_criteria?: Json | null
+          exit_criteria?: Json | null
+          id?: string
+          is_active?: boolean | null
+          market_conditions?: string | null
+          name?: string
+          psychology_notes?: string | null
+          risk_management?: Json | null
+          strategy_type?: string | null
+          tags?: string[] | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      cancel_import_job: {
+        Args: { p_job_id: string }
+        Returns: boolean
+      }
+      clear_sample_data: {
+        Args: { p_journal_id: string }
+        Returns: number
+      }
+      commit_import_job: {
+        Args: { p_job_id: string }
+        Returns: Database["public"]["Tables"]["import_jobs"]["Row"]
+      }
+      find_duplicate_candidates: {
+        Args: { p_journal_id: string; p_trades: Json }
+        Returns: {
+          trade_index: number
+          match_type: string
+          near_match: boolean
+          existing_trade: Json
+        }[]
+      }
+      get_duplicate_trades_enhanced: {
+        Args: { p_journal_id: string; p_trades: Json }
+        Returns: {
+          trade_index: number
+          is_duplicate: boolean
+          match_type: string
+        }[]
+      }
+      get_journal_summary: {
+        Args: { p_journal_id: string; p_currency?: string }
+        Returns: {
+          total_pnl: number
+          win_rate: number
+          total_trades: number
+          currency: string
+          unconverted_trades: number
+          sharpe_ratio: number | null
+          sortino_ratio: number | null
+          calmar_ratio: number | null
+          sqn: number | null
+          kelly_fraction: number | null
+          ulcer_index: number | null
+        }[]
+      }
+      rollback_import_job: {
+        Args: { p_job_id: string }
+        Returns: Database["public"]["Tables"]["import_jobs"]["Row"]
+      }
     }
     Enums: {
       [_ in never]: never
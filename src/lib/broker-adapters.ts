@@ -0,0 +1,183 @@
+import { ImportMode } from './fill-matching';
+
+/**
+ * Deterministic broker CSV adapters
+ * Each adapter recognises an export by its header signature and maps it exactly,
+ * so known formats never depend on the AI mapper or the regex fallback.
+ */
+
+export interface BrokerAdapter {
+  id: string;
+  name: string;
+  /** Names a user might type into `journals.broker` for this adapter */
+  aliases: string[];
+  /** Headers that must all be present for the file to match */
+  signature: string[];
+  /** Canonical trade field -> broker CSV header */
+  mapping: Record<string, string>;
+  /** Execution exports list one row per fill and need round-trip matching */
+  importMode: ImportMode;
+}
+
+export const BROKER_ADAPTERS: BrokerAdapter[] = [
+  {
+    id: 'tradovate',
+    name: 'Tradovate',
+    aliases: ['tradovate', 'apex', 'topstep', 'ninjatrader brokerage'],
+    signature: ['symbol', 'buyFillId', 'sellFillId', 'buyPrice', 'sellPrice', 'pnl', 'boughtTimestamp', 'soldTimestamp'],
+    // No side column: the earlier of the two timestamps opened the trade, and the later one is its date
+    mapping: {
+      datetime: 'soldTimestamp',
+      symbol: 'symbol',
+      qty: 'qty',
+      buyPrice: 'buyPrice',
+      sellPrice: 'sellPrice',
+      pnl: 'pnl',
+      buyFillId: 'buyFillId',
+      sellFillId: 'sellFillId',
+      boughtTimestamp: 'boughtTimestamp',
+      soldTimestamp: 'soldTimestamp',
+    },
+    importMode: 'trades',
+  },
+  {
+    id: 'ninjatrader',
+    name: 'NinjaTrader',
+    aliases: ['ninjatrader', 'ninja trader', 'nt8'],
+    signature: ['Trade number', 'Instrument', 'Market pos.', 'Qty', 'Entry price', 'Exit price', 'Exit time', 'Profit'],
+    mapping: {
+      datetime: 'Exit time',
+      symbol: 'Instrument',
+      side: 'Market pos.',
+      qty: 'Qty',
+      price: 'Entry price',
+      exitPrice: 'Exit price',
+      pnl: 'Profit',
+      strategy: 'Strategy',
+      entryTime: 'Entry time',
+      exitTime: 'Exit time',
+    },
+    importMode: 'trades',
+  },
+  {
+    id: 'ibkr_flex',
+    name: 'Interactive Brokers (Flex Query)',
+    aliases: ['interactive brokers', 'ibkr', 'ib', 'ibkr flex'],
+    signature: ['Symbol', 'DateTime', 'Quantity', 'TradePrice', 'FifoPnlRealized', 'Buy/Sell'],
+    mapping: {
+      datetime: 'DateTime',
+      symbol: 'Symbol',
+      side: 'Buy/Sell',
+      qty: 'Quantity',
+      price: 'TradePrice',
+      commission: 'IBCommission',
+      fillId: 'TradeID',
+      notes: 'Description',
+    },
+    importMode: 'fills',
+  },
+  {
+    id: 'thinkorswim',
+    name: 'TD Ameritrade / Schwab thinkorswim',
+    aliases: ['thinkorswim', 'tos', 'td ameritrade', 'schwab', 'charles schwab'],
+    signature: ['Exec Time', 'Spread', 'Side', 'Qty', 'Pos Effect', 'Symbol', 'Price'],
+    mapping: {
+      datetime: 'Exec Time',
+      symbol: 'Symbol',
+      side: 'Side',
+      qty: 'Qty',
+      price: 'Price',
+      strategy: 'Spread',
+    },
+    importMode: 'fills',
+  },
+  {
+    id: 'webull',
+    name: 'Webull',
+    aliases: ['webull'],
+    signature: ['Name', 'Symbol', 'Side', 'Status', 'Filled', 'Avg Price', 'Filled Time'],
+    mapping: {
+      datetime: 'Filled Time',
+      symbol: 'Symbol',
+      side: 'Side',
+      qty: 'Filled',
+      price: 'Avg Price',
+    },
+    importMode: 'fills',
+  },
+  {
+    id: 'tradestation',
+    name: 'TradeStation',
+    aliases: ['tradestation', 'trade station'],
+    signature: ['Order #', 'Symbol', 'Type', 'Filled', 'Fill Price', 'Status', 'Filled Time'],
+    mapping: {
+      datetime: 'Filled Time',
+      symbol: 'Symbol',
+      side: 'Type',
+      qty: 'Filled',
+      price: 'Fill Price',
+      commission: 'Commission',
+      fillId: 'Order #',
+    },
+    importMode: 'fills',
+  },
+];
+
+const normaliseHeader = (header: string): string => header.trim().toLowerCase();
+
+/** Find the actual CSV header matching a signature/mapping header, ignoring case and padding */
+const findHeader = (headers: string[], wanted: string): string | undefined => {
+  const target = normaliseHeader(wanted);
+  return headers.find(header => normaliseHeader(header) === target);
+};
+
+/** Check whether every signature header of the adapter is present in the file */
+export const matchesAdapter = (adapter: BrokerAdapter, headers: string[]): boolean =>
+  adapter.signature.every(header => findHeader(headers, header) !== undefined);
+
+/** Signature headers of the adapter that the file lacks */
+export const missingSignatureColumns = (adapter: BrokerAdapter, headers: string[]): string[] =>
+  adapter.signature.filter(header => findHeader(headers, header) === undefined);
+
+/** Recognise a broker export by its header signature */
+export const detectBrokerAdapter = (headers: string[]): BrokerAdapter | null =>
+  BROKER_ADAPTERS.find(adapter => matchesAdapter(adapter, headers)) || null;
+
+/** Resolve the adapter configured for a journal from its free-text `broker` field */
+export const findAdapterForBroker = (broker: string | null | undefined): BrokerAdapter | null => {
+  if (!broker) return null;
+  const name = broker.trim().toLowerCase();
+  if (!name) return null;
+
+  return BROKER_ADAPTERS.find(adapter =>
+    adapter.id === name || adapter.aliases.some(alias => alias === name)
+  ) || BROKER_ADAPTERS.find(adapter =>
+    adapter.aliases.some(alias => name.includes(alias) && alias.length > 2)
+  ) || null;
+};
+
+/**
+ * Build the column mapping for a file using the adapter, keyed to the file's actual header spelling.
+ * Optional columns missing from the file are simply left unmapped.
+ */
+export const buildAdapterMapping = (adapter: BrokerAdapter, headers: string[]): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  for (const [field, wanted] of Object.entries(adapter.mapping)) {
+    const header = findHeader(headers, wanted);
+    if (header) mapping[field] = header;
+  }
+  return mapping;
+};
+
+/**
+ * Pick the adapter for an upload: the journal's broker wins when the file matches its signature,
+ * otherwise any adapter whose signature matches. Returns null for unknown formats.
+ */
+export const resolveBrokerAdapter = (
+  headers: string[],
+  broker?: string | null
+): BrokerAdapter | null => {
+  const preferred = findAdapterForBroker(broker);
+  if (preferred && matchesAdapter(preferred, headers)) return preferred;
+  return detectBrokerAdapter(headers);
+};
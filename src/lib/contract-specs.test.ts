@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { getPointValue, parseContract, priceToPnl, rootSymbol } from '@/lib/contract-specs';
+
+const decade = Math.floor(new Date().getFullYear() / 10) * 10;
+
+describe('parseContract', () => {
+  it('reads exchange-style codes with one to four digit years', () => {
+    expect(parseContract('NQZ4')).toMatchObject({ spec: { root: 'NQ' }, monthCode: 'Z', year: decade + 4 });
+    expect(parseContract('MNQH25')).toMatchObject({ spec: { root: 'MNQ' }, monthCode: 'H', year: 2025 });
+    expect(parseContract('ESU2024')).toMatchObject({ spec: { root: 'ES' }, monthCode: 'U', year: 2024 });
+  });
+
+  it('prefers the longest root, so micros are not read as their full-size contract', () => {
+    expect(parseContract('MESM5')?.spec.root).toBe('MES');
+    expect(parseContract('MGCZ24')?.spec.root).toBe('MGC');
+  });
+
+  it('strips broker decoration', () => {
+    expect(parseContract('/ESZ24')).toMatchObject({ spec: { root: 'ES' }, monthCode: 'Z', year: 2024 });
+    expect(parseContract('NQZ4:XCME')?.spec.root).toBe('NQ');
+    expect(parseContract(' clz24 ')?.spec.root).toBe('CL');
+  });
+
+  it('reads NinjaTrader month-year codes', () => {
+    expect(parseContract('ES 12-24')).toMatchObject({ spec: { root: 'ES' }, monthCode: 'Z', year: 2024 });
+    expect(parseContract('ES 13-24')).toBeNull();
+  });
+
+  it('is null for stocks and unknown codes', () => {
+    expect(parseContract('AAPL')).toBeNull();
+    expect(parseContract('XYZZ4')).toBeNull();
+    expect(parseContract(null)).toBeNull();
+  });
+
+  it('reads tickers that share a futures root as stocks unless they carry an expiry or the futures slash', () => {
+    for (const ticker of ['CL', 'ES', 'SI', 'NG', 'GC', 'ZS']) {
+      expect(parseContract(ticker)).toBeNull();
+      expect(getPointValue(ticker)).toBe(1);
+    }
+    expect(parseContract('/ES')).toMatchObject({ spec: { root: 'ES' }, monthCode: null, year: null });
+    expect(parseContract('ESZ4')?.spec.root).toBe('ES');
+  });
+});
+
+describe('rootSymbol', () => {
+  it('rolls contract months up to their root and leaves other symbols alone', () => {
+    expect(rootSymbol('NQZ4')).toBe('NQ');
+    expect(rootSymbol('NQH5')).toBe('NQ');
+    expect(rootSymbol(' aapl ')).toBe('AAPL');
+  });
+});
+
+describe('getPointValue and priceToPnl', () => {
+  it('uses the contract point value for futures and 1 for stocks', () => {
+    expect(getPointValue('ESZ4')).toBe(50);
+    expect(getPointValue('MNQH5')).toBe(2);
+    expect(getPointValue('CLZ4')).toBe(1000);
+    expect(getPointValue('AAPL')).toBe(1);
+  });
+
+  it('turns a price move into P&L on either side', () => {
+    expect(priceToPnl('BUY', 5000, 5010, 2, 'ESZ4')).toBe(1000);
+    expect(priceToPnl('SELL', 5000, 5010, 2, 'ESZ4')).toBe(-1000);
+    expect(priceToPnl('SELL', 180, 175, -100, 'AAPL')).toBe(500);
+  });
+});
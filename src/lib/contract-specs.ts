@@ -0,0 +1,216 @@
+/**
+ * Futures contract specifications
+ * Resolves broker contract codes (NQZ4, MNQH5, /ESZ24, "ES 12-24") to a root symbol so stats
+ * roll up across expiries, and supplies the point value needed to turn prices into P&L.
+ * OCC option symbols resolve to their underlying and the standard 100 share multiplier.
+ */
+
+import { parseOccSymbol } from '@/utils/normalise';
+
+export interface SessionHours {
+  /** Local exchange time the trading day opens, HH:mm (may be the previous calendar day) */
+  open: string;
+  /** Local exchange time the trading day closes, HH:mm */
+  close: string;
+  /** IANA timezone of the exchange */
+  timezone: string;
+}
+
+export interface ContractSpec {
+  root: string;
+  name: string;
+  exchange: string;
+  tickSize: number;
+  tickValue: number;
+  /** Currency value of a one point move for one contract */
+  pointValue: number;
+  currency: string;
+  sessionHours: SessionHours;
+}
+
+export interface ParsedContract {
+  spec: ContractSpec;
+  /** Futures month code (F, G, H ... Z), when the symbol carries an expiry */
+  monthCode: string | null;
+  /** Four digit expiry year, when the symbol carries an expiry */
+  year: number | null;
+}
+
+const CME_GLOBEX: SessionHours = { open: '17:00', close: '16:00', timezone: 'America/Chicago' };
+const CBOT_GRAINS: SessionHours = { open: '19:00', close: '13:20', timezone: 'America/Chicago' };
+const EUREX: SessionHours = { open: '01:10', close: '22:00', timezone: 'Europe/Berlin' };
+
+const spec = (
+  root: string,
+  name: string,
+  exchange: string,
+  tickSize: number,
+  tickValue: number,
+  sessionHours: SessionHours = CME_GLOBEX,
+  currency = 'USD'
+): ContractSpec => ({
+  root,
+  name,
+  exchange,
+  tickSize,
+  tickValue,
+  pointValue: tickValue / tickSize,
+  currency,
+  sessionHours,
+});
+
+export const CONTRACT_SPECS: ContractSpec[] = [
+  // Equity index
+  spec('ES', 'E-mini S&P 500', 'CME', 0.25, 12.5),
+  spec('MES', 'Micro E-mini S&P 500', 'CME', 0.25, 1.25),
+  spec('NQ', 'E-mini Nasdaq-100', 'CME', 0.25, 5),
+  spec('MNQ', 'Micro E-mini Nasdaq-100', 'CME', 0.25, 0.5),
+  spec('YM', 'E-mini Dow', 'CBOT', 1, 5),
+  spec('MYM', 'Micro E-mini Dow', 'CBOT', 1, 0.5),
+  spec('RTY', 'E-mini Russell 2000', 'CME', 0.1, 5),
+  spec('M2K', 'Micro E-mini Russell 2000', 'CME', 0.1, 0.5),
+  // Energy
+  spec('CL', 'Crude Oil', 'NYMEX', 0.01, 10),
+  spec('MCL', 'Micro WTI Crude Oil', 'NYMEX', 0.01, 1),
+  spec('QM', 'E-mini Crude Oil', 'NYMEX', 0.025, 12.5),
+  spec('NG', 'Natural Gas', 'NYMEX', 0.001, 10),
+  spec('RB', 'RBOB Gasoline', 'NYMEX', 0.0001, 4.2),
+  spec('HO', 'Heating Oil', 'NYMEX', 0.0001, 4.2),
+  // Metals
+  spec('GC', 'Gold', 'COMEX', 0.1, 10),
+  spec('MGC', 'Micro Gold', 'COMEX', 0.1, 1),
+  spec('SI', 'Silver', 'COMEX', 0.005, 25),
+  spec('SIL', 'Micro Silver', 'COMEX', 0.005, 5),
+  spec('HG', 'Copper', 'COMEX', 0.0005, 12.5),
+  // Interest rates
+  spec('ZB', '30-Year T-Bond', 'CBOT', 1 / 32, 31.25),
+  spec('ZN', '10-Year T-Note', 'CBOT', 1 / 64, 15.625),
+  spec('ZF', '5-Year T-Note', 'CBOT', 1 / 128, 7.8125),
+  spec('ZT', '2-Year T-Note', 'CBOT', 1 / 256, 7.8125),
+  // Currencies
+  spec('6E', 'Euro FX', 'CME', 0.00005, 6.25),
+  spec('M6E', 'Micro Euro FX', 'CME', 0.0001, 1.25),
+  spec('6B', 'British Pound', 'CME', 0.0001, 6.25),
+  spec('6J', 'Japanese Yen', 'CME', 0.0000005, 6.25),
+  spec('6A', 'Australian Dollar', 'CME', 0.00005, 5),
+  spec('6C', 'Canadian Dollar', 'CME', 0.00005, 5),
+  // Grains (quoted in cents per bushel)
+  spec('ZC', 'Corn', 'CBOT', 0.25, 12.5, CBOT_GRAINS),
+  spec('ZS', 'Soybeans', 'CBOT', 0.25, 12.5, CBOT_GRAINS),
+  spec('ZW', 'Chicago SRW Wheat', 'CBOT', 0.25, 12.5, CBOT_GRAINS),
+  // Eurex
+  spec('FDAX', 'DAX', 'EUREX', 0.5, 12.5, EUREX, 'EUR'),
+  spec('FDXM', 'Mini-DAX', 'EUREX', 1, 5, EUREX, 'EUR'),
+  spec('FESX', 'Euro STOXX 50', 'EUREX', 1, 10, EUREX, 'EUR'),
+];
+
+const SPECS_BY_ROOT = new Map(CONTRACT_SPECS.map(contract => [contract.root, contract]));
+
+// Longest roots first so MNQ is not read as an NQ with a stray prefix, or MES as ME + S
+const ROOTS_BY_LENGTH = [...SPECS_BY_ROOT.keys()].sort((a, b) => b.length - a.length);
+
+const MONTH_CODES = 'FGHJKMNQUVXZ';
+
+/** Turn a one to four digit year suffix into a full year, assuming the nearest decade */
+const expandYear = (digits: string): number => {
+  if (digits.length === 4) return Number(digits);
+  if (digits.length === 2) return 2000 + Number(digits);
+  const decade = Math.floor(new Date().getFullYear() / 10) * 10;
+  return decade + Number(digits.slice(-1));
+};
+
+/** Strip broker decoration: thinkorswim's leading slash and exchange suffixes like `:XCME` */
+const cleanContractCode = (symbol: string): string =>
+  symbol.trim().toUpperCase().replace(/^\//, '').replace(/:[A-Z]+$/, '').replace(/\s+\([A-Z]+\)$/, '');
+
+/**
+ * Resolve a futures symbol to its contract spec and expiry. Returns null for non-futures symbols.
+ * A bare root only counts with thinkorswim's futures slash (/ES): tickers like CL, ES or GC are
+ * also stocks and ETFs, so without an expiry they are read as equities.
+ */
+export const parseContract = (symbol: string | null | undefined): ParsedContract | null => {
+  if (!symbol) return null;
+  const code = cleanContractCode(symbol);
+
+  const exact = SPECS_BY_ROOT.get(code);
+  if (exact) return symbol.trim().startsWith('/') ? { spec: exact, monthCode: null, year: null } : null;
+
+  // NinjaTrader style: "ES 12-24"
+  const ninja = code.match(/^([A-Z0-9]+)\s+(\d{2})-(\d{2})$/);
+  if (ninja && SPECS_BY_ROOT.has(ninja[1])) {
+    const month = Number(ninja[2]);
+    if (month >= 1 && month <= 12) {
+      return { spec: SPECS_BY_ROOT.get(ninja[1])!, monthCode: MONTH_CODES[month - 1], year: expandYear(ninja[3]) };
+    }
+  }
+
+  // Exchange style: root + month code + year, e.g. NQZ4, MNQH25, ESU2024
+  for (const root of ROOTS_BY_LENGTH) {
+    if (!code.startsWith(root)) continue;
+    const expiry = code.slice(root.length).match(/^([FGHJKMNQUVXZ])(\d{1,4})$/);
+    if (expiry) {
+      return { spec: SPECS_BY_ROOT.get(root)!, monthCode: expiry[1], year: expandYear(expiry[2]) };
+    }
+  }
+
+  return null;
+};
+
+/** Shares per equity and index option contract */
+export const OPTION_MULTIPLIER = 100;
+
+// Weekly and PM-settled series trade under their own OCC root
+const OPTION_ROOT_UNDERLYINGS: Record<string, string> = {
+  SPXW: 'SPX',
+  NDXP: 'NDX',
+  RUTW: 'RUT',
+  VIXW: 'VIX',
+};
+
+/** Underlying of an OCC option symbol, e.g. SPX for SPXW240119C04800000; null for other symbols */
+export const optionUnderlying = (symbol: string | null | undefined): string | null => {
+  const option = parseOccSymbol(symbol);
+  if (!option) return null;
+  return OPTION_ROOT_UNDERLYINGS[option.root] || option.root;
+};
+
+export const getContractSpec = (symbol: string | null | undefined): ContractSpec | null =>
+  parseContract(symbol)?.spec || null;
+
+/**
+ * Root symbol for grouping: NQZ4 and NQH5 both become NQ, and options group under their underlying.
+ * Other symbols are returned unchanged.
+ */
+export const rootSymbol = (symbol: string | null | undefined): string => {
+  const contract = parseContract(symbol);
+  if (contract) return contract.spec.root;
+  const underlying = optionUnderlying(symbol);
+  if (underlying) return underlying;
+  return (symbol || '').toString().trim().toUpperCase();
+};
+
+/**
+ * Currency value of a one point move per unit of quantity; the option multiplier for OCC symbols
+ * and 1 for equities and unknown symbols
+ */
+export const getPointValue = (symbol: string | null | undefined): number => {
+  const futures = getContractSpec(symbol);
+  if (futures) return futures.pointValue;
+  return parseOccSymbol(symbol) ? OPTION_MULTIPLIER : 1;
+};
+
+/**
+ * Gross P&L of a round trip from its prices, scaled by the contract's point value. A multiplier
+ * from the trade itself (non-standard or adjusted options) takes precedence.
+ */
+export const priceToPnl = (
+  side: 'BUY' | 'SELL',
+  entryPrice: number,
+  exitPrice: number,
+  qty: number,
+  symbol: string | null | undefined,
+  multiplier?: number | null
+): number => {
+  const direction = side === 'BUY' ? 1 : -1;
+  return (exitPrice - entryPrice) * Math.abs(qty) * (multiplier || getPointValue(symbol)) * direction;
+};
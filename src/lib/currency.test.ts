@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { FxRate, createFxConverter, detectCurrency, parseCurrencyCode, parseFxRatesCsv } from '@/lib/currency';
+
+const rate = (rate_date: string, base_currency: string, quote_currency: string, value: number): FxRate =>
+  ({ rate_date, base_currency, quote_currency, rate: value });
+
+describe('createFxConverter', () => {
+  const fx = createFxConverter([
+    rate('2024-01-02', 'EUR', 'USD', 1.1),
+    rate('2024-01-05', 'EUR', 'USD', 1.2),
+    rate('2024-01-03', 'USD', 'JPY', 150),
+  ]);
+
+  it('uses the latest rate on or before the date, else the earliest after it', () => {
+    expect(fx.rate('EUR', 'USD', '2024-01-04')).toBe(1.1);
+    expect(fx.rate('EUR', 'USD', '2024-01-05')).toBe(1.2);
+    expect(fx.rate('EUR', 'USD', '2024-02-01')).toBe(1.2);
+    expect(fx.rate('EUR', 'USD', '2023-12-01')).toBe(1.1);
+  });
+
+  it('inverts a pair imported the other way round', () => {
+    expect(fx.rate('USD', 'EUR', '2024-01-02')).toBeCloseTo(1 / 1.1);
+    expect(fx.rate('JPY', 'USD', '2024-01-03')).toBeCloseTo(1 / 150);
+  });
+
+  it('crosses through USD when two currencies have no pair of their own', () => {
+    expect(fx.rate('EUR', 'JPY', '2024-01-04')).toBeCloseTo(165);
+    expect(fx.rate('JPY', 'EUR', '2024-01-05')).toBeCloseTo(1 / 180);
+  });
+
+  it('returns 1 for the same currency and null when nothing connects two', () => {
+    expect(fx.rate('GBP', 'GBP', '2024-01-04')).toBe(1);
+    expect(fx.rate('GBP', 'USD', '2024-01-04')).toBeNull();
+    expect(fx.rate('GBP', 'EUR', '2024-01-04')).toBeNull();
+  });
+
+  it('prefers the imported direction when both are on the same date', () => {
+    const both = createFxConverter([rate('2024-01-02', 'EUR', 'USD', 1.1), rate('2024-01-02', 'USD', 'EUR', 0.95)]);
+    expect(both.rate('EUR', 'USD', '2024-01-02')).toBe(1.1);
+    expect(both.rate('USD', 'EUR', '2024-01-02')).toBe(0.95);
+  });
+});
+
+describe('parseCurrencyCode and detectCurrency', () => {
+  it('reads codes and unambiguous symbols', () => {
+    expect(parseCurrencyCode(' eur ')).toBe('EUR');
+    expect(parseCurrencyCode('£')).toBe('GBP');
+    expect(parseCurrencyCode('$')).toBeNull();
+    expect(parseCurrencyCode('euro')).toBeNull();
+  });
+
+  it('finds the currency written on an amount', () => {
+    expect(detectCurrency('€1.234,50')).toBe('EUR');
+    expect(detectCurrency('-12.50 GBP')).toBe('GBP');
+    expect(detectCurrency('HK$ 1,000')).toBe('HKD');
+    expect(detectCurrency('CHF (25.00)')).toBe('CHF');
+    expect(detectCurrency('$25.00')).toBeNull();
+    expect(detectCurrency('25.00')).toBeNull();
+  });
+});
+
+describe('parseFxRatesCsv', () => {
+  it('reads base and quote columns or a pair, and skips rows it cannot use', () => {
+    const { rates, skipped } = parseFxRatesCsv([
+      'Date,Pair,Rate',
+      '2024-01-02,EUR/USD,1.1',
+      '2024-01-03,USDJPY,"150.25"',
+      '2024-01-04,EUR/EUR,1',
+      'not a date,GBP/USD,1.27',
+      '2024-01-05,GBP/USD,0',
+    ].join('\n'));
+
+    expect(rates).toEqual([
+      rate('2024-01-02', 'EUR', 'USD', 1.1),
+      rate('2024-01-03', 'USD', 'JPY', 150.25),
+    ]);
+    expect(skipped).toBe(3);
+
+    expect(parseFxRatesCsv('date,base,quote,close\n2024-01-02,gbp,usd,1.27').rates).toEqual([rate('2024-01-02', 'GBP', 'USD', 1.27)]);
+  });
+});
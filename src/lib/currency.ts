@@ -0,0 +1,203 @@
+import Papa from 'papaparse';
+import { Tables } from '@/integrations/supabase/types';
+import { parseDateOnly } from '@/utils/normalise';
+
+/**
+ * Currencies and FX conversion
+ * Journals hold an account currency and trades may carry their own. Rates are imported by the
+ * user into `fx_rates`, and P&L is converted to a reporting currency with the rate on the
+ * trade's date so accounts in different currencies can be compared.
+ */
+
+type Trade = Partial<Tables<'trades'>>;
+
+export type FxRate = Pick<Tables<'fx_rates'>, 'rate_date' | 'base_currency' | 'quote_currency' | 'rate'>;
+
+export const DEFAULT_CURRENCY = 'USD';
+
+export const CURRENCY_OPTIONS: { value: string; label: string }[] = [
+  { value: 'USD', label: 'USD - US Dollar' },
+  { value: 'EUR', label: 'EUR - Euro' },
+  { value: 'GBP', label: 'GBP - British Pound' },
+  { value: 'JPY', label: 'JPY - Japanese Yen' },
+  { value: 'CHF', label: 'CHF - Swiss Franc' },
+  { value: 'CAD', label: 'CAD - Canadian Dollar' },
+  { value: 'AUD', label: 'AUD - Australian Dollar' },
+  { value: 'HKD', label: 'HKD - Hong Kong Dollar' },
+  { value: 'SGD', label: 'SGD - Singapore Dollar' },
+  { value: 'INR', label: 'INR - Indian Rupee' },
+  { value: 'BRL', label: 'BRL - Brazilian Real' },
+];
+
+/** Symbols that name one currency; `$` is left out since it could be any dollar */
+export const CURRENCY_SYMBOLS: Record<string, string> = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '₹': 'INR',
+  '₣': 'CHF',
+  'R$': 'BRL',
+  'C$': 'CAD',
+  'A$': 'AUD',
+  'HK$': 'HKD',
+  'S$': 'SGD',
+  'US$': 'USD',
+};
+
+const ISO_CODE = /^[A-Z]{3}$/;
+
+/** An ISO 4217 code from a currency column or code, e.g. `eur` or ` GBP `; null otherwise */
+export const parseCurrencyCode = (raw: unknown): string | null => {
+  const value = (raw ?? '').toString().trim().toUpperCase();
+  if (ISO_CODE.test(value)) return value;
+  return CURRENCY_SYMBOLS[value] || null;
+};
+
+const formatters = new Map<string, Intl.NumberFormat>();
+
+/** Format an amount in a currency, e.g. `€1,234.50`; unknown codes fall back to the code itself */
+export const formatMoney = (value: number, currency: string = DEFAULT_CURRENCY, fractionDigits = 2): string => {
+  const key = `${currency}:${fractionDigits}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    try {
+      formatter = new Intl.NumberFormat('en-US', {
+        style: 'currency',
+        currency,
+        minimumFractionDigits: fractionDigits,
+        maximumFractionDigits: fractionDigits
+      });
+    } catch {
+      return `${value.toFixed(fractionDigits)} ${currency}`;
+    }
+    formatters.set(key, formatter);
+  }
+  return formatter.format(value);
+};
+
+/**
+ * The currency a raw amount is written in, e.g. EUR for `€1.234,50` or `-12.50 GBP`. Null for
+ * plain numbers and bare `$`, which leave the choice to the journal.
+ */
+export const detectCurrency = (raw: unknown): string | null => {
+  const value = (raw ?? '').toString().trim().toUpperCase();
+  if (!value) return null;
+
+  // Longest first, so HK$ is not read as a bare dollar
+  const symbol = Object.keys(CURRENCY_SYMBOLS)
+    .sort((a, b) => b.length - a.length)
+    .find(candidate => value.includes(candidate));
+  if (symbol) return CURRENCY_SYMBOLS[symbol];
+
+  const code = value.match(/^([A-Z]{3})\s*[-+(]?[\d.,]/) || value.match(/[\d.,)]\s*([A-Z]{3})$/);
+  return code ? code[1] : null;
+};
+
+/** The currency a trade's P&L is in: its own, otherwise its journal's */
+export const tradeCurrency = (trade: Trade, journalCurrency: string = DEFAULT_CURRENCY): string =>
+  trade.currency || journalCurrency;
+
+export interface FxConverter {
+  /** Units of `to` per unit of `from` on a date (yyyy-MM-dd), or null when no rate connects them */
+  rate: (from: string, to: string, date: string) => number | null;
+}
+
+/** Calendar date of a stored timestamp, the day a trade's rate is looked up on */
+export const dateOf = (value: string | null | undefined): string => (value || '').slice(0, 10);
+
+/**
+ * Look rates up the way `fx_rate` does in the database: the latest on or before the date, else
+ * the earliest after it; the inverse pair when only that was imported; and a cross through USD
+ * when the two currencies have no pair of their own.
+ */
+export const createFxConverter = (rates: FxRate[]): FxConverter => {
+  // Rates by pair, sorted by date, with inverse pairs derived from the imported ones
+  const pairs = new Map<string, Array<{ date: string; rate: number; inverse: boolean }>>();
+  const add = (from: string, to: string, date: string, rate: number, inverse: boolean) => {
+    const key = `${from}/${to}`;
+    pairs.set(key, [...(pairs.get(key) || []), { date, rate, inverse }]);
+  };
+  rates.forEach(({ base_currency, quote_currency, rate_date, rate }) => {
+    if (!(Number(rate) > 0)) return;
+    add(base_currency, quote_currency, dateOf(rate_date), Number(rate), false);
+    add(quote_currency, base_currency, dateOf(rate_date), 1 / Number(rate), true);
+  });
+  pairs.forEach(list => list.sort((a, b) => a.date.localeCompare(b.date) || Number(a.inverse) - Number(b.inverse)));
+
+  const direct = (from: string, to: string, date: string): number | null => {
+    const list = pairs.get(`${from}/${to}`);
+    if (!list || list.length === 0) return null;
+    // The imported direction wins when both directions share a date
+    const onOrBefore = list.filter(entry => entry.date <= date);
+    if (onOrBefore.length > 0) {
+      const latest = onOrBefore[onOrBefore.length - 1].date;
+      return (onOrBefore.find(entry => entry.date === latest && !entry.inverse) || onOrBefore[onOrBefore.length - 1]).rate;
+    }
+    const earliest = list[0].date;
+    return (list.find(entry => entry.date === earliest && !entry.inverse) || list[0]).rate;
+  };
+
+  const rate = (from: string, to: string, date: string): number | null => {
+    if (from === to) return 1;
+    const found = direct(from, to, date);
+    if (found !== null || from === DEFAULT_CURRENCY || to === DEFAULT_CURRENCY) return found;
+    const viaUsd = direct(from, DEFAULT_CURRENCY, date);
+    const fromUsd = direct(DEFAULT_CURRENCY, to, date);
+    return viaUsd !== null && fromUsd !== null ? viaUsd * fromUsd : null;
+  };
+
+  return { rate };
+};
+
+/** How trade amounts are brought into one currency before they are added up */
+export interface CurrencyConversion {
+  /** Currency figures are reported in */
+  to: string;
+  /** Currency of trades that do not record their own, normally the journal's */
+  from: string;
+  fx: FxConverter;
+}
+
+/** An amount in the journal's currency in the reporting one on a date, or null when no rate connects them */
+export const convertAmount = (amount: number, conversion: CurrencyConversion, date: string): number | null => {
+  if (conversion.from === conversion.to) return amount;
+  const rate = conversion.fx.rate(conversion.from, conversion.to, date);
+  return rate === null ? null : amount * rate;
+};
+
+/**
+ * Read an FX rate file. Each row needs a date, a base and quote currency and a rate; a `pair`
+ * column such as `EUR/USD` or `EURUSD` can stand in for the two currencies.
+ */
+export const parseFxRatesCsv = (text: string): { rates: FxRate[]; skipped: number } => {
+  const { data } = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: header => header.trim().toLowerCase().replace(/[\s-]+/g, '_'),
+  });
+
+  const rates: FxRate[] = [];
+  let skipped = 0;
+
+  data.forEach(row => {
+    const pair = (row.pair || row.symbol || '').toUpperCase().replace(/[^A-Z]/g, '');
+    const base = parseCurrencyCode(row.base || row.base_currency || row.from || row.currency || pair.slice(0, 3));
+    const quote = parseCurrencyCode(row.quote || row.quote_currency || row.to || row.counter || pair.slice(3, 6));
+    const rate = Number((row.rate || row.close || row.price || '').replace(/,/g, ''));
+    const date = parseDateOnly(row.date || row.rate_date || row.day);
+
+    if (!base || !quote || base === quote || !(rate > 0) || !date) {
+      skipped++;
+      return;
+    }
+
+    rates.push({
+      rate_date: date,
+      base_currency: base,
+      quote_currency: quote,
+      rate,
+    });
+  });
+
+  return { rates, skipped };
+};
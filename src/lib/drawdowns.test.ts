@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeDrawdowns } from '@/lib/drawdowns';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const trade = (day: number, pnl: number) => ({ datetime: new Date(Date.UTC(2024, 0, day, 15)).toISOString(), pnl });
+
+describe('analyzeDrawdowns', () => {
+  const trades = [
+    trade(1, 1000),
+    trade(2, -500),
+    trade(3, -500),
+    trade(4, 1500),
+    trade(5, -200),
+  ];
+
+  it('tracks equity below the running peak', () => {
+    const { underwater } = analyzeDrawdowns(trades, 10000);
+    expect(underwater.map(point => [point.equity, point.drawdown, point.drawdownPct])).toEqual([
+      [11000, 0, 0],
+      [10500, -500, -4.55],
+      [10000, -1000, -9.09],
+      [11500, 0, 0],
+      [11300, -200, -1.74],
+    ]);
+  });
+
+  it('records each fall from a peak with its trough, recovery and durations', () => {
+    const analysis = analyzeDrawdowns(trades, 10000);
+
+    expect(analysis.periods).toHaveLength(2);
+    expect(analysis.periods[0]).toMatchObject({
+      start: trade(1, 0).datetime,
+      trough: trade(3, 0).datetime,
+      recovery: trade(4, 0).datetime,
+      depth: 1000,
+      depthPct: 9.09,
+      durationMs: 3 * DAY,
+      recoveryMs: DAY,
+      trades: 2,
+    });
+    expect(analysis.current).toMatchObject({ start: trade(4, 0).datetime, recovery: null, depth: 200, durationMs: DAY, recoveryMs: null });
+    expect(analysis.maxDrawdown).toBe(1000);
+    expect(analysis.maxDrawdownPct).toBe(9.09);
+    expect(analysis.avgRecoveryMs).toBe(DAY);
+    expect(analysis.longestDurationMs).toBe(3 * DAY);
+  });
+
+  it('measures the first fall from the account size, not from the first trade', () => {
+    const analysis = analyzeDrawdowns([trade(1, -300), trade(2, 500)], 1000);
+    expect(analysis.periods[0]).toMatchObject({ depth: 300, depthPct: 30, recovery: trade(2, 0).datetime });
+  });
+
+  it('reports dollars only without an account size', () => {
+    const analysis = analyzeDrawdowns(trades);
+    expect(analysis.maxDrawdown).toBe(1000);
+    expect(analysis.maxDrawdownPct).toBeNull();
+    expect(analysis.underwater[2]).toMatchObject({ equity: 0, drawdown: -1000, drawdownPct: null });
+  });
+
+  it('nets trades closing at the same time into one step', () => {
+    const analysis = analyzeDrawdowns([trade(1, 500), trade(2, -800), trade(2, 900)], 10000);
+    expect(analysis.underwater.map(point => point.equity)).toEqual([10500, 10600]);
+    expect(analysis.periods).toEqual([]);
+    expect(analysis.current).toBeNull();
+  });
+});
@@ -0,0 +1,148 @@
+import { Tables } from '@/integrations/supabase/types';
+import { CurrencyConversion, convertAmount, dateOf } from '@/lib/currency';
+
+type Trade = Partial<Tables<'trades'>>;
+
+/**
+ * Drawdowns measured on account equity: the journal's account size plus cumulative P&L.
+ * Without an account size equity starts at zero and only the dollar figures are known.
+ */
+
+/** Distance below the running equity peak after a trade, as negative amounts */
+export interface UnderwaterPoint {
+  time: string;
+  equity: number;
+  drawdown: number;
+  /** Percentage of the peak equity, null without an account size */
+  drawdownPct: number | null;
+}
+
+/** One fall from an equity peak and, when it happened, the climb back to it */
+export interface DrawdownPeriod {
+  /** Time of the peak the drawdown fell from */
+  start: string;
+  trough: string;
+  /** First trade back at the peak, null while still under water */
+  recovery: string | null;
+  depth: number;
+  depthPct: number | null;
+  /** Peak to recovery, or to the latest trade while still under water */
+  durationMs: number;
+  /** Trough to recovery */
+  recoveryMs: number | null;
+  trades: number;
+}
+
+export interface DrawdownAnalysis {
+  underwater: UnderwaterPoint[];
+  /** Oldest first */
+  periods: DrawdownPeriod[];
+  maxDrawdown: number;
+  maxDrawdownPct: number | null;
+  /** The period still under water at the latest trade */
+  current: DrawdownPeriod | null;
+  avgRecoveryMs: number | null;
+  longestRecoveryMs: number | null;
+  longestDurationMs: number | null;
+}
+
+/**
+ * Starting equity in the reporting currency: the account size converted at the rate on the first
+ * trade's date, or null when there is no account size or no rate
+ */
+export const startingEquity = (accountSize: number | null | undefined, trades: Trade[], conversion?: CurrencyConversion): number | null => {
+  if (!accountSize || accountSize <= 0) return null;
+  if (!conversion) return accountSize;
+  const first = trades.map(trade => trade.datetime).filter(Boolean).sort()[0];
+  return convertAmount(accountSize, conversion, dateOf(first));
+};
+
+const pctOf = (amount: number, peak: number, hasAccount: boolean) =>
+  hasAccount && peak > 0 ? Number(((amount / peak) * 100).toFixed(2)) : null;
+
+/**
+ * Underwater curve and drawdown periods from trades already on the wanted P&L basis and
+ * currency. Trades closing at the same time are netted into one equity step.
+ */
+export const analyzeDrawdowns = (trades: Trade[], accountSize?: number | null): DrawdownAnalysis => {
+  const hasAccount = !!accountSize && accountSize > 0;
+  const steps: Array<{ time: string; pnl: number; trades: number }> = [];
+  trades
+    .filter(trade => trade.datetime && !isNaN(new Date(trade.datetime).getTime()))
+    .map(trade => ({ time: new Date(trade.datetime!).toISOString(), pnl: Number(trade.pnl) || 0 }))
+    .sort((a, b) => a.time.localeCompare(b.time))
+    .forEach(({ time, pnl }) => {
+      const last = steps[steps.length - 1];
+      if (last && last.time === time) {
+        last.pnl += pnl;
+        last.trades += 1;
+      } else {
+        steps.push({ time, pnl, trades: 1 });
+      }
+    });
+
+  const underwater: UnderwaterPoint[] = [];
+  const periods: DrawdownPeriod[] = [];
+  let equity = hasAccount ? accountSize! : 0;
+  let peak = equity;
+  let peakTime = steps[0]?.time;
+  let open: DrawdownPeriod | null = null;
+  let troughEquity = equity;
+
+  const close = (period: DrawdownPeriod, recovery: string | null, until: string) => {
+    periods.push({
+      ...period,
+      recovery,
+      durationMs: new Date(until).getTime() - new Date(period.start).getTime(),
+      recoveryMs: recovery ? new Date(recovery).getTime() - new Date(period.trough).getTime() : null,
+    });
+  };
+
+  for (const step of steps) {
+    equity += step.pnl;
+    if (equity >= peak) {
+      if (open) close(open, step.time, step.time);
+      open = null;
+      peak = equity;
+      peakTime = step.time;
+    } else {
+      if (!open) {
+        open = { start: peakTime, trough: step.time, recovery: null, depth: 0, depthPct: null, durationMs: 0, recoveryMs: null, trades: 0 };
+        troughEquity = equity;
+      }
+      open.trades += step.trades;
+      if (equity <= troughEquity) {
+        troughEquity = equity;
+        open.trough = step.time;
+        open.depth = Number((peak - equity).toFixed(2));
+        open.depthPct = pctOf(peak - equity, peak, hasAccount);
+      }
+    }
+
+    const pct = pctOf(peak - equity, peak, hasAccount);
+    underwater.push({
+      time: step.time,
+      equity: Number(equity.toFixed(2)),
+      drawdown: Number((equity - peak).toFixed(2)),
+      drawdownPct: pct === null ? null : -pct || 0,
+    });
+  }
+
+  const lastTime = steps[steps.length - 1]?.time;
+  const current = open;
+  if (current) close(current, null, lastTime);
+
+  const recovered = periods.filter(period => period.recoveryMs !== null).map(period => period.recoveryMs!);
+  const deepest = periods.reduce<DrawdownPeriod | null>((max, period) => (!max || period.depth > max.depth ? period : max), null);
+
+  return {
+    underwater,
+    periods,
+    maxDrawdown: deepest?.depth || 0,
+    maxDrawdownPct: hasAccount ? Math.max(0, ...periods.map(period => period.depthPct || 0)) : null,
+    current: current ? periods[periods.length - 1] : null,
+    avgRecoveryMs: recovered.length > 0 ? recovered.reduce((a, b) => a + b, 0) / recovered.length : null,
+    longestRecoveryMs: recovered.length > 0 ? Math.max(...recovered) : null,
+    longestDurationMs: periods.length > 0 ? Math.max(...periods.map(period => period.durationMs)) : null,
+  };
+};
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { Fill, RoundTrip, matchFills } from '@/lib/fill-matching';
+import { findFileDuplicates } from '@/lib/duplicate-review';
+
+const fill = (id: string | null, side: 'BUY' | 'SELL', qty: number, price: number, minute: number, rowNumber: number): Fill => ({
+  id,
+  datetime: new Date(Date.UTC(2025, 0, 2, 14, minute)),
+  symbol: 'ES',
+  side,
+  qty,
+  price,
+  commission: 0,
+  fees: 0,
+  rowNumber,
+});
+
+// The fields the import builds from a round trip that duplicate checks read
+const toTrade = (roundTrip: RoundTrip) => ({
+  datetime: roundTrip.exitTime.toISOString(),
+  symbol: roundTrip.symbol,
+  side: roundTrip.side,
+  qty: roundTrip.qty,
+  price: roundTrip.entryPrice,
+  pnl: roundTrip.pnl,
+  buy_fill_id: roundTrip.buyFillId,
+  sell_fill_id: roundTrip.sellFillId,
+  user_id: 'user',
+  journal_id: 'journal',
+});
+
+describe('findFileDuplicates on round trips rebuilt from fills', () => {
+  it('keeps every lot of a scale-in closed by one fill', () => {
+    const { roundTrips } = matchFills([
+      fill('b1', 'BUY', 1, 100, 0, 1),
+      fill('b2', 'BUY', 1, 100, 1, 2),
+      fill('s1', 'SELL', 2, 110, 2, 3),
+    ]);
+
+    expect(roundTrips.map(trip => [trip.buyFillId, trip.sellFillId])).toEqual([['b1', 's1'], ['b2', 's1']]);
+    expect(findFileDuplicates(roundTrips.map(toTrade), { roundTrips: true })).toEqual([]);
+  });
+
+  it('keeps a split close whose fills have no ids', () => {
+    const { roundTrips } = matchFills([
+      fill(null, 'BUY', 1, 100, 0, 1),
+      fill(null, 'BUY', 1, 100, 1, 2),
+      fill(null, 'SELL', 2, 110, 2, 3),
+    ]);
+
+    expect(roundTrips).toHaveLength(2);
+    expect(roundTrips.map(trip => trip.openRowNumber)).toEqual([1, 2]);
+    expect(findFileDuplicates(roundTrips.map(toTrade), { roundTrips: true })).toEqual([]);
+  });
+
+  it('still flags a fill pair that appears twice', () => {
+    const { roundTrips } = matchFills([
+      fill('b1', 'BUY', 1, 100, 0, 1),
+      fill('s1', 'SELL', 1, 110, 2, 2),
+      fill('b1', 'BUY', 1, 100, 0, 3),
+      fill('s1', 'SELL', 1, 110, 2, 4),
+    ]);
+
+    const candidates = findFileDuplicates(roundTrips.map(toTrade), { roundTrips: true });
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0]).toMatchObject({ index: 1, existingIndex: 0, matchType: 'both_fills' });
+  });
+});
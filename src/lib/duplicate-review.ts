@@ -0,0 +1,155 @@
+import { TablesInsert } from '@/integrations/supabase/types';
+
+/**
+ * Duplicates found before an import is committed. Each candidate pairs an incoming trade with
+ * the earlier row in the same file or the journal trade it matches, so the user decides whether
+ * to keep, skip or overwrite it instead of having it dropped silently.
+ */
+
+export type DuplicateSource = 'file' | 'journal';
+
+/** Strategy that matched, strongest first; mirrors `find_duplicate_candidates` */
+export type DuplicateMatchType = 'both_fills' | 'single_fill' | 'composite';
+
+export type DuplicateDecision = 'keep' | 'skip' | 'overwrite';
+
+type IncomingTrade = TablesInsert<'trades'>;
+
+/** The matched trade as shown next to the incoming one; journal trades carry their id */
+export type MatchedTrade = Pick<
+  IncomingTrade,
+  'datetime' | 'symbol' | 'side' | 'qty' | 'price' | 'pnl' | 'buy_fill_id' | 'sell_fill_id'
+> & { id?: string };
+
+export interface DuplicateCandidate {
+  /** Position of the incoming trade among the import's valid trades */
+  index: number;
+  source: DuplicateSource;
+  matchType: DuplicateMatchType;
+  /** Only the P&L rounding or the seconds differ */
+  near: boolean;
+  incoming: IncomingTrade;
+  existing: MatchedTrade;
+  /** Position of the earlier trade among the import's valid trades, for file duplicates */
+  existingIndex: number | null;
+}
+
+/** Candidates waiting on the user, with the file row each valid trade came from */
+export interface DuplicateReview {
+  fileName: string;
+  candidates: DuplicateCandidate[];
+  /** File row number by valid trade index; missing for round trips built from several fills */
+  rows: Record<number, number>;
+}
+
+/** The user's decision by incoming trade index */
+export type DuplicateDecisions = Record<number, DuplicateDecision>;
+
+export const MATCH_TYPE_LABELS: Record<DuplicateMatchType, string> = {
+  both_fills: 'Both fill IDs',
+  single_fill: 'Single fill ID',
+  composite: 'Time, symbol, side, size and price',
+};
+
+/** P&L differences below this count as rounding in a near match */
+export const NEAR_PNL_TOLERANCE = 0.5;
+
+/** Exact duplicates are skipped unless the user says otherwise; near ones are kept */
+export const defaultDecision = (candidate: DuplicateCandidate): DuplicateDecision =>
+  candidate.near ? 'keep' : 'skip';
+
+const normalise = (value: unknown): string => (value ?? '').toString().toUpperCase().trim();
+
+// Near matches ignore the seconds
+const minuteOf = (datetime: string): string => {
+  const date = new Date(datetime);
+  return isNaN(date.getTime()) ? datetime : date.toISOString().slice(0, 16);
+};
+
+/** The fields of a file's earlier trade a duplicate is compared with and shown against */
+const matchedTrade = (trade: IncomingTrade): MatchedTrade => ({
+  datetime: trade.datetime,
+  symbol: trade.symbol,
+  side: trade.side,
+  qty: trade.qty,
+  price: trade.price,
+  pnl: trade.pnl,
+  buy_fill_id: trade.buy_fill_id,
+  sell_fill_id: trade.sell_fill_id,
+});
+
+/**
+ * Duplicates within a file, found one trade at a time as the file is read. Each candidate is
+ * matched against the first trade it repeats; only those first copies are remembered, reduced to
+ * the fields compared. Exact matches use the same keys as before the review existed; near matches
+ * share fills or size and price within the same minute, with the P&L off by rounding.
+ *
+ * Round trips rebuilt from fills are only compared by both fill ids. One closing fill that closes
+ * several lots yields round trips sharing that fill, its time and often its size and price, and
+ * those are separate trades rather than repeats.
+ */
+export const fileDuplicateIndex = (options: { roundTrips?: boolean } = {}) => {
+  const exactSeen = new Map<string, { index: number; trade: MatchedTrade }>();
+  const nearSeen = new Map<string, { index: number; trade: MatchedTrade }>();
+
+  const candidate = (
+    index: number,
+    trade: IncomingTrade,
+    earlier: { index: number; trade: MatchedTrade },
+    matchType: DuplicateMatchType,
+    near: boolean
+  ): DuplicateCandidate => ({ index, source: 'file', matchType, near, incoming: trade, existing: earlier.trade, existingIndex: earlier.index });
+
+  /** The candidate for a trade repeating an earlier one, or null once it is remembered as a first copy */
+  const check = (trade: IncomingTrade, index: number): DuplicateCandidate | null => {
+    const symbol = normalise(trade.symbol);
+    const minute = minuteOf(trade.datetime);
+    const exactKeys: Array<[string, DuplicateMatchType]> = [];
+    const nearKeys: Array<[string, DuplicateMatchType]> = [];
+
+    if (trade.buy_fill_id && trade.sell_fill_id) {
+      exactKeys.push([`both_fills:${trade.buy_fill_id}:${trade.sell_fill_id}`, 'both_fills']);
+    }
+    if (!options.roundTrips) {
+      if (trade.buy_fill_id) {
+        exactKeys.push([`buy_fill:${trade.buy_fill_id}:${trade.datetime}:${trade.symbol}`, 'single_fill']);
+        nearKeys.push([`buy_fill:${trade.buy_fill_id}:${minute}:${symbol}`, 'single_fill']);
+      }
+      if (trade.sell_fill_id) {
+        exactKeys.push([`sell_fill:${trade.sell_fill_id}:${trade.datetime}:${trade.symbol}`, 'single_fill']);
+        nearKeys.push([`sell_fill:${trade.sell_fill_id}:${minute}:${symbol}`, 'single_fill']);
+      }
+
+      const size = [symbol, normalise(trade.side), Number(trade.qty || 0).toString()];
+      exactKeys.push([
+        ['strict', trade.journal_id, trade.datetime, ...size, Number(trade.price || 0).toFixed(4), Number(trade.pnl || 0).toFixed(4)].join('|'),
+        'composite'
+      ]);
+      nearKeys.push([['near', minute, ...size, Number(trade.price || 0).toFixed(2)].join('|'), 'composite']);
+    }
+
+    const exactHit = exactKeys.find(([key]) => exactSeen.has(key));
+    if (exactHit) return candidate(index, trade, exactSeen.get(exactHit[0])!, exactHit[1], false);
+
+    const nearHit = nearKeys.find(([key]) => {
+      const earlier = nearSeen.get(key);
+      return earlier !== undefined && Math.abs(Number(earlier.trade.pnl) - Number(trade.pnl)) < NEAR_PNL_TOLERANCE;
+    });
+    if (nearHit) return candidate(index, trade, nearSeen.get(nearHit[0])!, nearHit[1], true);
+
+    const first = { index, trade: matchedTrade(trade) };
+    exactKeys.forEach(([key]) => exactSeen.set(key, first));
+    nearKeys.forEach(([key]) => nearSeen.set(key, first));
+    return null;
+  };
+
+  return { check };
+};
+
+/** Duplicates among trades already in memory; see `fileDuplicateIndex` */
+export const findFileDuplicates = (trades: IncomingTrade[], options: { roundTrips?: boolean } = {}): DuplicateCandidate[] => {
+  const index = fileDuplicateIndex(options);
+  return trades
+    .map((trade, position) => index.check(trade, position))
+    .filter((candidate): candidate is DuplicateCandidate => candidate !== null);
+};
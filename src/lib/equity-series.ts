@@ -0,0 +1,167 @@
+import { format, startOfWeek } from 'date-fns';
+import { Tables } from '@/integrations/supabase/types';
+import { dayToDate, toZonedTime, tradingDay } from '@/lib/timezones';
+
+type Trade = Partial<Tables<'trades'>>;
+
+/**
+ * Equity series keyed by time rather than trade number, so gaps between trading days show and
+ * curves from different sessions, journals, tags or playbooks line up on one axis.
+ *
+ * Axis times are wall-clock times in the journal's timezone, read as local dates (as
+ * `toZonedTime` and `dayToDate` return them), so they format directly with date-fns.
+ */
+
+export type EquityInterval = 'trade' | 'day' | 'week' | 'month';
+
+export const EQUITY_INTERVALS: Array<{ value: EquityInterval; label: string }> = [
+  { value: 'trade', label: 'Every trade' },
+  { value: 'day', label: 'Daily' },
+  { value: 'week', label: 'Weekly' },
+  { value: 'month', label: 'Monthly' },
+];
+
+/** Closing equity after a trade, or at the end of a day, week or month */
+export interface EquityPoint {
+  /** Axis time: the trade's close, or the first day of the period */
+  time: number;
+  /** The trade's ISO time, or the period's first trading day (yyyy-MM-dd) */
+  period: string;
+  pnl: number;
+  trades: number;
+  equity: number;
+}
+
+/** One curve to draw, e.g. a journal, tag or playbook */
+export interface EquitySeries {
+  key: string;
+  label: string;
+  points: EquityPoint[];
+}
+
+export type EquityOverlay = 'none' | 'journal' | 'tag' | 'playbook';
+
+export const EQUITY_OVERLAYS: Array<{ value: EquityOverlay; label: string }> = [
+  { value: 'none', label: 'No overlay' },
+  { value: 'journal', label: 'Journals' },
+  { value: 'tag', label: 'Tags' },
+  { value: 'playbook', label: 'Playbooks' },
+];
+
+// More curves than this are unreadable; the groups with the most trades are kept
+export const MAX_OVERLAY_SERIES = 8;
+
+/** Something that happened on the curve's timeline, drawn as a marker */
+export interface EquityEvent {
+  /** ISO time, or a trading day (yyyy-MM-dd) for events without a time of day */
+  at: string;
+  kind: 'bias-check' | 'import';
+  label: string;
+  tone: 'green' | 'yellow' | 'red' | 'neutral';
+}
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/** First trading day of the period a day falls in; weeks start on Monday */
+const periodOfDay = (day: string, interval: Exclude<EquityInterval, 'trade'>): string => {
+  if (interval === 'day') return day;
+  if (interval === 'week') return format(startOfWeek(dayToDate(day), { weekStartsOn: 1 }), 'yyyy-MM-dd');
+  return `${day.slice(0, 7)}-01`;
+};
+
+/** Axis time of a moment, or of a trading day, at the given interval */
+export const axisTime = (at: string | Date, interval: EquityInterval, timeZone?: string): number => {
+  if (typeof at === 'string' && DAY_PATTERN.test(at)) {
+    return dayToDate(interval === 'trade' ? at : periodOfDay(at, interval)).getTime();
+  }
+  const date = new Date(at);
+  if (interval === 'trade') return toZonedTime(date, timeZone).getTime();
+  return dayToDate(periodOfDay(tradingDay(date, timeZone), interval)).getTime();
+};
+
+/** Date format for axis times at an interval */
+export const axisFormat = (interval: EquityInterval): string =>
+  interval === 'trade' ? 'MMM d HH:mm' : interval === 'month' ? 'MMM yyyy' : 'MMM d, yyyy';
+
+/**
+ * Equity after each trade or period, from trades already on the wanted P&L basis and currency.
+ * Trades closing at the same time are netted into one point. Starts from `startingEquity`, or
+ * zero for cumulative P&L.
+ */
+export const equitySeries = (
+  trades: Trade[],
+  options: { interval: EquityInterval; timeZone?: string; startingEquity?: number | null }
+): EquityPoint[] => {
+  const { interval, timeZone } = options;
+  const points: EquityPoint[] = [];
+  let equity = options.startingEquity || 0;
+
+  trades
+    .filter(trade => trade.datetime && !isNaN(new Date(trade.datetime).getTime()))
+    .map(trade => ({ date: new Date(trade.datetime!), pnl: Number(trade.pnl) || 0 }))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+    .forEach(({ date, pnl }) => {
+      const period = interval === 'trade' ? date.toISOString() : periodOfDay(tradingDay(date, timeZone), interval);
+      equity += pnl;
+      const last = points[points.length - 1];
+      if (last && last.period === period) {
+        last.pnl += pnl;
+        last.trades += 1;
+        last.equity = equity;
+      } else {
+        points.push({ time: axisTime(period, interval, timeZone), period, pnl, trades: 1, equity });
+      }
+    });
+
+  return points.map(point => ({ ...point, pnl: round(point.pnl), equity: round(point.equity) }));
+};
+
+/**
+ * Split trades into one group per journal, tag or playbook, largest first. A trade with several
+ * tags is in each of their groups; trades with none form their own group.
+ */
+export const groupTrades = <T extends Trade>(
+  trades: T[],
+  overlay: Exclude<EquityOverlay, 'none'>,
+  labels: Record<string, string> = {}
+): Array<{ key: string; label: string; trades: T[] }> => {
+  const groups = new Map<string, T[]>();
+  const add = (key: string, trade: T) => {
+    const group = groups.get(key);
+    if (group) group.push(trade);
+    else groups.set(key, [trade]);
+  };
+
+  trades.forEach(trade => {
+    if (overlay === 'tag') {
+      const tags = (trade.tags || []).map(tag => tag.trim()).filter(Boolean);
+      if (tags.length === 0) add('', trade);
+      new Set(tags).forEach(tag => add(tag, trade));
+    } else {
+      add((overlay === 'journal' ? trade.journal_id : trade.playbook_id) || '', trade);
+    }
+  });
+
+  const fallback = overlay === 'tag' ? 'Untagged' : overlay === 'playbook' ? 'No playbook' : 'No journal';
+  return [...groups.entries()]
+    .map(([key, groupTrades]) => ({ key, label: key ? labels[key] || key : fallback, trades: groupTrades }))
+    .sort((a, b) => b.trades.length - a.trades.length);
+};
+
+/**
+ * Chart rows with one column per series (`s0`, `s1`, …) keyed by axis time. A series without a
+ * point at a time leaves its column empty; the chart connects across the gap.
+ */
+export const mergeSeries = (series: EquitySeries[]): Array<{ time: number } & Record<string, number>> => {
+  const rows = new Map<number, { time: number } & Record<string, number>>();
+  series.forEach((line, index) => {
+    line.points.forEach(point => {
+      const row = rows.get(point.time) || ({ time: point.time } as { time: number } & Record<string, number>);
+      row[`s${index}`] = point.equity;
+      rows.set(point.time, row);
+    });
+  });
+  return [...rows.values()].sort((a, b) => a.time - b.time);
+};
@@ -0,0 +1,94 @@
+import { Tables } from '@/integrations/supabase/types';
+import { getPointValue } from '@/lib/contract-specs';
+import { PriceBar } from '@/lib/price-bars';
+
+type Trade = Partial<Tables<'trades'>>;
+
+/**
+ * Maximum adverse and favorable excursion (MAE/MFE) of a trade, in dollars.
+ * Both are reported as positive amounts: how far price went against the position and
+ * how far it went in its favour between entry and exit.
+ */
+export interface Excursion {
+  mae: number;
+  mfe: number;
+  /** Number of bars the trade spanned */
+  bars: number;
+}
+
+/** Dollars per point of price for the whole position */
+const pointScale = (trade: Trade): number => Math.abs(Number(trade.qty) || 0) * getPointValue(trade.symbol);
+
+/** Index of the last bar opening at or before `time`, or -1 when every bar opens later */
+const barIndexAt = (bars: PriceBar[], time: number): number => {
+  let low = 0;
+  let high = bars.length - 1;
+  let found = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (bars[mid].time.getTime() <= time) {
+      found = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return found;
+};
+
+/**
+ * Excursion of one trade against time-sorted bars. Trades without entry/exit times fall back
+ * to `datetime`, which limits the window to the bar the trade closed in.
+ * Returns null when the trade has no entry price or falls outside the bars.
+ */
+export const calculateExcursion = (trade: Trade, bars: PriceBar[]): Excursion | null => {
+  const entryPrice = trade.entry_price ?? trade.price;
+  const start = trade.entry_time || trade.datetime;
+  const end = trade.exit_time || trade.datetime;
+  if (entryPrice === null || entryPrice === undefined || !start || !end || bars.length === 0) return null;
+
+  const startTime = new Date(start).getTime();
+  const endTime = new Date(end).getTime();
+  if (isNaN(startTime) || isNaN(endTime)) return null;
+
+  // Outside the loaded range: before the first bar, or long after the last one closed
+  const lastBar = bars[bars.length - 1];
+  const barLength = bars.length > 1 ? lastBar.time.getTime() - bars[bars.length - 2].time.getTime() : 0;
+  if (endTime < bars[0].time.getTime() || startTime > lastBar.time.getTime() + barLength) return null;
+
+  const first = Math.max(barIndexAt(bars, startTime), 0);
+  const last = Math.max(barIndexAt(bars, endTime), first);
+
+  let highest = -Infinity;
+  let lowest = Infinity;
+  for (let index = first; index <= last; index++) {
+    highest = Math.max(highest, bars[index].high);
+    lowest = Math.min(lowest, bars[index].low);
+  }
+
+  const isLong = trade.side !== 'SELL';
+  const adverse = isLong ? entryPrice - lowest : highest - entryPrice;
+  const favorable = isLong ? highest - entryPrice : entryPrice - lowest;
+  const scale = pointScale(trade);
+
+  return {
+    mae: Number((Math.max(adverse, 0) * scale).toFixed(2)),
+    mfe: Number((Math.max(favorable, 0) * scale).toFixed(2)),
+    bars: last - first + 1,
+  };
+};
+
+/**
+ * Share of the best available move that the trade actually kept, as a percentage. Both sides are
+ * gross price moves on the same scale, so fees and commission do not count against the capture.
+ * Null without an exit price.
+ */
+export const mfeCapture = (trade: Trade): number | null => {
+  const entryPrice = trade.entry_price ?? trade.price;
+  if (!trade.mfe || trade.mfe <= 0 || entryPrice === null || entryPrice === undefined) return null;
+  if (trade.exit_price === null || trade.exit_price === undefined) return null;
+
+  const direction = trade.side === 'SELL' ? -1 : 1;
+  const grossPnl = (trade.exit_price - entryPrice) * direction * pointScale(trade);
+  return (grossPnl / trade.mfe) * 100;
+};
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { Fill, matchFills } from '@/lib/fill-matching';
+
+let row = 0;
+
+const fill = (side: 'BUY' | 'SELL', qty: number, price: number, minute: number, costs: Partial<Fill> = {}): Fill => ({
+  id: null,
+  datetime: new Date(Date.UTC(2025, 0, 2, 14, minute)),
+  symbol: 'AAPL',
+  side,
+  qty,
+  price,
+  commission: 0,
+  fees: 0,
+  rowNumber: ++row,
+  ...costs,
+});
+
+describe('matchFills with FIFO', () => {
+  it('turns each partial exit into its own round trip', () => {
+    const { roundTrips, openPositions } = matchFills([
+      fill('BUY', 3, 100, 0),
+      fill('SELL', 1, 105, 1),
+      fill('SELL', 2, 110, 2),
+    ]);
+
+    expect(roundTrips.map(trip => [trip.side, trip.qty, trip.entryPrice, trip.exitPrice, trip.pnl])).toEqual([
+      ['BUY', 1, 100, 105, 5],
+      ['BUY', 2, 100, 110, 20],
+    ]);
+    expect(openPositions).toEqual([]);
+  });
+
+  it('closes the oldest lots first', () => {
+    const { roundTrips } = matchFills([
+      fill('BUY', 1, 100, 0),
+      fill('BUY', 1, 102, 1),
+      fill('SELL', 2, 105, 2),
+    ]);
+
+    expect(roundTrips.map(trip => [trip.entryPrice, trip.pnl])).toEqual([[100, 5], [102, 3]]);
+  });
+
+  it('closes the old position and opens the remainder on a flip', () => {
+    const { roundTrips, openPositions } = matchFills([
+      fill('BUY', 1, 100, 0),
+      fill('SELL', 3, 110, 1),
+      fill('BUY', 1, 105, 2),
+    ]);
+
+    expect(roundTrips.map(trip => [trip.side, trip.qty, trip.pnl])).toEqual([
+      ['BUY', 1, 10],
+      ['SELL', 1, 5],
+    ]);
+    expect(openPositions).toEqual([{ symbol: 'AAPL', side: 'SELL', qty: 1, avgPrice: 110 }]);
+  });
+
+  it('splits commission and fees by quantity across the pieces of a fill', () => {
+    const { roundTrips } = matchFills([
+      fill('BUY', 2, 100, 0, { commission: 4, fees: 1 }),
+      fill('SELL', 1, 101, 1, { commission: 2 }),
+      fill('SELL', 1, 102, 2, { commission: 2 }),
+    ]);
+
+    expect(roundTrips.map(trip => [trip.grossPnl, trip.commission, trip.fees, trip.pnl])).toEqual([
+      [1, 4, 0.5, -3.5],
+      [2, 4, 0.5, -2.5],
+    ]);
+  });
+
+  it('matches each symbol on its own and scales P&L by the multiplier', () => {
+    const { roundTrips } = matchFills([
+      fill('SELL', 1, 5000, 0, { symbol: 'ESH5' }),
+      fill('BUY', 1, 4990, 1, { symbol: 'ESM5' }),
+      fill('BUY', 1, 4995, 2, { symbol: 'ESH5' }),
+      fill('SELL', 1, 4991, 3, { symbol: 'ESM5' }),
+    ], { multiplier: 50 });
+
+    expect(roundTrips.map(trip => [trip.symbol, trip.side, trip.pnl])).toEqual([['ESH5', 'SELL', 250], ['ESM5', 'BUY', 50]]);
+  });
+});
+
+describe('matchFills with average cost', () => {
+  it('exits at the running average of the entries', () => {
+    const { roundTrips, openPositions } = matchFills([
+      fill('BUY', 1, 100, 0),
+      fill('BUY', 1, 110, 1),
+      fill('SELL', 1, 120, 2),
+    ], { method: 'average' });
+
+    expect(roundTrips.map(trip => [trip.qty, trip.entryPrice, trip.pnl])).toEqual([[1, 105, 15]]);
+    expect(openPositions).toEqual([{ symbol: 'AAPL', side: 'BUY', qty: 1, avgPrice: 105 }]);
+  });
+
+  it('keeps the first entry as the opening fill of a scaled-in position', () => {
+    const { roundTrips } = matchFills([
+      fill('SELL', 2, 50, 0, { id: 's1' }),
+      fill('SELL', 2, 48, 1, { id: 's2' }),
+      fill('BUY', 4, 45, 2, { id: 'b1' }),
+    ], { method: 'average' });
+
+    expect(roundTrips).toHaveLength(1);
+    expect(roundTrips[0]).toMatchObject({ side: 'SELL', qty: 4, entryPrice: 49, pnl: 16, sellFillId: 's1', buyFillId: 'b1' });
+    expect(roundTrips[0].entryTime).toEqual(new Date(Date.UTC(2025, 0, 2, 14, 0)));
+  });
+});
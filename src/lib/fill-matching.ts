@@ -0,0 +1,258 @@
+/**
+ * Fill-level import: rebuild round-trip trades from raw executions.
+ * Fills are matched per symbol in time order, either FIFO (lot by lot) or against
+ * a running average cost. Scale-ins, partial exits and position flips are supported.
+ */
+
+/** Whether each CSV row is a closed trade or a single execution */
+export type ImportMode = 'trades' | 'fills';
+
+export type MatchingMethod = 'fifo' | 'average';
+
+export interface Fill {
+  id: string | null;
+  datetime: Date;
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  qty: number;
+  price: number;
+  /** Commission charged on this fill, as a positive number */
+  commission: number;
+  /** Exchange and regulatory fees charged on this fill, as a positive number */
+  fees: number;
+  /** 1-based CSV row the fill came from, for error reporting */
+  rowNumber: number;
+}
+
+export interface RoundTrip {
+  symbol: string;
+  /** Side of the opening fill: BUY for a long, SELL for a short */
+  side: 'BUY' | 'SELL';
+  qty: number;
+  entryPrice: number;
+  exitPrice: number;
+  entryTime: Date;
+  exitTime: Date;
+  grossPnl: number;
+  commission: number;
+  fees: number;
+  /** Net of commission and fees */
+  pnl: number;
+  buyFillId: string | null;
+  sellFillId: string | null;
+  /** CSV rows of the opening and closing fills, so fills without ids can still be traced */
+  openRowNumber: number;
+  closeRowNumber: number;
+}
+
+export interface OpenPosition {
+  symbol: string;
+  side: 'BUY' | 'SELL';
+  qty: number;
+  avgPrice: number;
+}
+
+export interface MatchResult {
+  roundTrips: RoundTrip[];
+  /** Positions still open at the end of the file; these are not imported */
+  openPositions: OpenPosition[];
+}
+
+interface MatchOptions {
+  method?: MatchingMethod;
+  /** Currency value of a one point move per unit of quantity, fixed or looked up per symbol */
+  multiplier?: number | ((symbol: string) => number);
+}
+
+interface Lot {
+  fillId: string | null;
+  side: 'BUY' | 'SELL';
+  qty: number;
+  price: number;
+  datetime: Date;
+  commission: number;
+  fees: number;
+  rowNumber: number;
+}
+
+interface Costs {
+  commission: number;
+  fees: number;
+}
+
+const QTY_EPSILON = 1e-9;
+
+const round = (value: number, decimals: number): number => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+/** Take `qty` units out of a lot or fill remainder, returning the share of costs that goes with them */
+const takeCosts = (source: Costs & { qty: number }, qty: number): Costs => {
+  const share = source.qty > 0 ? qty / source.qty : 0;
+  const costs = { commission: source.commission * share, fees: source.fees * share };
+  source.qty -= qty;
+  source.commission -= costs.commission;
+  source.fees -= costs.fees;
+  return costs;
+};
+
+const buildRoundTrip = (
+  symbol: string,
+  open: Pick<Lot, 'fillId' | 'side' | 'price' | 'datetime' | 'rowNumber'>,
+  close: Fill,
+  qty: number,
+  openCosts: Costs,
+  closeCosts: Costs,
+  multiplier: number
+): RoundTrip => {
+  const direction = open.side === 'BUY' ? 1 : -1;
+  const grossPnl = (close.price - open.price) * qty * multiplier * direction;
+  const commission = openCosts.commission + closeCosts.commission;
+  const fees = openCosts.fees + closeCosts.fees;
+
+  return {
+    symbol,
+    side: open.side,
+    qty: round(qty, 8),
+    entryPrice: round(open.price, 8),
+    exitPrice: close.price,
+    entryTime: open.datetime,
+    exitTime: close.datetime,
+    grossPnl: round(grossPnl, 2),
+    commission: round(commission, 2),
+    fees: round(fees, 2),
+    pnl: round(grossPnl - commission - fees, 2),
+    buyFillId: open.side === 'BUY' ? open.fillId : close.id,
+    sellFillId: open.side === 'BUY' ? close.id : open.fillId,
+    openRowNumber: open.rowNumber,
+    closeRowNumber: close.rowNumber,
+  };
+};
+
+/** FIFO: every closing fill consumes the oldest open lots first */
+const matchFifo = (symbol: string, fills: Fill[], multiplier: number): MatchResult => {
+  const lots: Lot[] = [];
+  const roundTrips: RoundTrip[] = [];
+
+  for (const fill of fills) {
+    const rest = { qty: fill.qty, commission: fill.commission, fees: fill.fees };
+
+    while (rest.qty > QTY_EPSILON && lots.length > 0 && lots[0].side !== fill.side) {
+      const lot = lots[0];
+      const matched = Math.min(rest.qty, lot.qty);
+      const openCosts = takeCosts(lot, matched);
+      const closeCosts = takeCosts(rest, matched);
+
+      roundTrips.push(buildRoundTrip(symbol, lot, fill, matched, openCosts, closeCosts, multiplier));
+
+      if (lot.qty <= QTY_EPSILON) lots.shift();
+    }
+
+    // Scale-in, fresh entry, or the remainder of a flip opens a new lot
+    if (rest.qty > QTY_EPSILON) {
+      lots.push({
+        fillId: fill.id,
+        side: fill.side,
+        price: fill.price,
+        datetime: fill.datetime,
+        rowNumber: fill.rowNumber,
+        ...rest,
+      });
+    }
+  }
+
+  const openPositions: OpenPosition[] = [];
+  if (lots.length > 0) {
+    const qty = lots.reduce((sum, lot) => sum + lot.qty, 0);
+    const avgPrice = lots.reduce((sum, lot) => sum + lot.price * lot.qty, 0) / qty;
+    openPositions.push({ symbol, side: lots[0].side, qty: round(qty, 8), avgPrice: round(avgPrice, 8) });
+  }
+
+  return { roundTrips, openPositions };
+};
+
+/** Average cost: entries blend into one position, each closing fill exits at the running average */
+const matchAverage = (symbol: string, fills: Fill[], multiplier: number): MatchResult => {
+  let position: Lot | null = null;
+  const roundTrips: RoundTrip[] = [];
+
+  for (const fill of fills) {
+    const rest = { qty: fill.qty, commission: fill.commission, fees: fill.fees };
+
+    if (position && position.side !== fill.side) {
+      const matched = Math.min(rest.qty, position.qty);
+      const openCosts = takeCosts(position, matched);
+      const closeCosts = takeCosts(rest, matched);
+
+      roundTrips.push(buildRoundTrip(symbol, position, fill, matched, openCosts, closeCosts, multiplier));
+
+      if (position.qty <= QTY_EPSILON) position = null;
+    }
+
+    if (rest.qty <= QTY_EPSILON) continue;
+
+    if (position) {
+      // Scale-in: blend into the average, keep the first entry's fill id, time and row
+      const qty = position.qty + rest.qty;
+      position.price = (position.price * position.qty + fill.price * rest.qty) / qty;
+      position.qty = qty;
+      position.commission += rest.commission;
+      position.fees += rest.fees;
+    } else {
+      position = {
+        fillId: fill.id,
+        side: fill.side,
+        price: fill.price,
+        datetime: fill.datetime,
+        rowNumber: fill.rowNumber,
+        ...rest,
+      };
+    }
+  }
+
+  const openPositions: OpenPosition[] = position
+    ? [{ symbol, side: position.side, qty: round(position.qty, 8), avgPrice: round(position.price, 8) }]
+    : [];
+
+  return { roundTrips, openPositions };
+};
+
+/**
+ * Rebuild round-trip trades from fills.
+ * Each matched piece becomes one trade, so a partial exit yields one trade per exit fill
+ * and a flip closes the old position before opening the new one.
+ */
+export const matchFills = (fills: Fill[], options: MatchOptions = {}): MatchResult => {
+  const method = options.method || 'fifo';
+  const multiplierFor = (symbol: string) =>
+    typeof options.multiplier === 'function' ? options.multiplier(symbol) : options.multiplier ?? 1;
+
+  const bySymbol = new Map<string, Fill[]>();
+  for (const fill of fills) {
+    const list = bySymbol.get(fill.symbol) || [];
+    list.push(fill);
+    bySymbol.set(fill.symbol, list);
+  }
+
+  const roundTrips: RoundTrip[] = [];
+  const openPositions: OpenPosition[] = [];
+
+  for (const [symbol, symbolFills] of bySymbol) {
+    // Time order, keeping file order for fills that share a timestamp
+    const ordered = [...symbolFills].sort((a, b) =>
+      a.datetime.getTime() - b.datetime.getTime() || a.rowNumber - b.rowNumber
+    );
+
+    const multiplier = multiplierFor(symbol);
+    const result = method === 'average'
+      ? matchAverage(symbol, ordered, multiplier)
+      : matchFifo(symbol, ordered, multiplier);
+
+    roundTrips.push(...result.roundTrips);
+    openPositions.push(...result.openPositions);
+  }
+
+  roundTrips.sort((a, b) => a.exitTime.getTime() - b.exitTime.getTime());
+  return { roundTrips, openPositions };
+};
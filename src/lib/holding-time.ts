@@ -0,0 +1,102 @@
+import { Tables } from '@/integrations/supabase/types';
+
+type Trade = Partial<Tables<'trades'>>;
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+/** Holding time buckets used for duration analytics, upper bound exclusive */
+export const HOLD_TIME_BUCKETS: Array<{ label: string; maxMs: number }> = [
+  { label: '< 1m', maxMs: MINUTE },
+  { label: '1-5m', maxMs: 5 * MINUTE },
+  { label: '5-15m', maxMs: 15 * MINUTE },
+  { label: '15-60m', maxMs: HOUR },
+  { label: '1-4h', maxMs: 4 * HOUR },
+  { label: '4h-1d', maxMs: DAY },
+  { label: '> 1d', maxMs: Infinity },
+];
+
+export interface HoldTimeBucket {
+  label: string;
+  trades: number;
+  pnl: number;
+  avgPnl: number;
+  winRate: number;
+}
+
+export interface WinnerLoserHoldTime {
+  /** Average holding time of winning trades, null when none have entry and exit times */
+  winnersMs: number | null;
+  losersMs: number | null;
+  winners: number;
+  losers: number;
+}
+
+/** Milliseconds between entry and exit, or null when either timestamp is missing */
+export const holdingTimeMs = (trade: Trade): number | null => {
+  if (!trade.entry_time || !trade.exit_time) return null;
+  const duration = new Date(trade.exit_time).getTime() - new Date(trade.entry_time).getTime();
+  return isNaN(duration) || duration < 0 ? null : duration;
+};
+
+/** Compact duration label, e.g. 45s, 12m, 1h 05m, 2d 3h */
+export const formatHoldingTime = (ms: number | null): string => {
+  if (ms === null) return '-';
+  if (ms < MINUTE) return `${Math.round(ms / 1000)}s`;
+  if (ms < HOUR) return `${Math.round(ms / MINUTE)}m`;
+  if (ms < DAY) {
+    const hours = Math.floor(ms / HOUR);
+    const minutes = Math.round((ms % HOUR) / MINUTE);
+    return `${hours}h ${minutes.toString().padStart(2, '0')}m`;
+  }
+  const days = Math.floor(ms / DAY);
+  return `${days}d ${Math.round((ms % DAY) / HOUR)}h`;
+};
+
+/** P&L, trade count and win rate per holding time bucket; trades without both timestamps are skipped */
+export const pnlByHoldTime = (trades: Trade[]): HoldTimeBucket[] => {
+  const buckets = HOLD_TIME_BUCKETS.map(({ label }) => ({ label, trades: 0, pnl: 0, wins: 0 }));
+
+  trades.forEach(trade => {
+    const duration = holdingTimeMs(trade);
+    if (duration === null) return;
+    const index = HOLD_TIME_BUCKETS.findIndex(bucket => duration < bucket.maxMs);
+    const bucket = buckets[index];
+    const pnl = trade.pnl || 0;
+    bucket.trades += 1;
+    bucket.pnl += pnl;
+    if (pnl > 0) bucket.wins += 1;
+  });
+
+  return buckets.map(({ label, trades: count, pnl, wins }) => ({
+    label,
+    trades: count,
+    pnl,
+    avgPnl: count > 0 ? pnl / count : 0,
+    winRate: count > 0 ? (wins / count) * 100 : 0,
+  }));
+};
+
+/** Average holding time of winners versus losers */
+export const winnerLoserHoldTime = (trades: Trade[]): WinnerLoserHoldTime => {
+  const winners: number[] = [];
+  const losers: number[] = [];
+
+  trades.forEach(trade => {
+    const duration = holdingTimeMs(trade);
+    if (duration === null) return;
+    if ((trade.pnl || 0) > 0) winners.push(duration);
+    else if ((trade.pnl || 0) < 0) losers.push(duration);
+  });
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return {
+    winnersMs: average(winners),
+    losersMs: average(losers),
+    winners: winners.length,
+    losers: losers.length,
+  };
+};
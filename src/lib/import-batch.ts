@@ -0,0 +1,110 @@
+import { BrokerAdapter } from './broker-adapters';
+import { StatementSource } from './import-files';
+import { ImportIssue, countIssueRows } from './import-issues';
+
+/**
+ * Importing several statement files in one run. The first readable file's mapping is confirmed
+ * once and reused for every file whose columns it covers; their rows are read one file after
+ * another in a single import so duplicates are caught across files, and the outcome is broken
+ * down per file.
+ */
+
+/** A statement file read for a batch, or the reason it could not be */
+export interface BatchFile {
+  name: string;
+  /** Missing when the file could not be read */
+  source: StatementSource | null;
+  /** Exact mapping supplied by the file's format (OFX, JSON) */
+  adapter?: BrokerAdapter | null;
+  error?: string;
+}
+
+export type BatchFileStatus = 'imported' | 'incompatible' | 'unreadable';
+
+/** Per-file outcome of a batch import */
+export interface BatchFileResult {
+  name: string;
+  status: BatchFileStatus;
+  /** Data rows read from the file */
+  rows: number;
+  /** Batch row numbers the file's rows were given, when it was imported */
+  firstRow: number | null;
+  lastRow: number | null;
+  inserted: number;
+  duplicates: number;
+  errors: number;
+  /** Why the file was left out, for incompatible and unreadable files */
+  message: string | null;
+}
+
+/** Every column a mapping reads is present in the file */
+export const isMappingCompatible = (mapping: Record<string, string>, headers: string[]): boolean => {
+  const available = new Set(headers);
+  return Object.values(mapping).filter(Boolean).every(header => available.has(header));
+};
+
+/** A single label for the batch, used as the import job's file name */
+export const batchName = (files: BatchFile[]): string =>
+  files.length === 1 ? files[0].name : `${files[0].name} + ${files.length - 1} more file${files.length === 2 ? '' : 's'}`;
+
+/**
+ * Join a batch into one source whose rows are numbered consecutively across files, and give each
+ * file its placeholder result. Files the mapping does not cover are reported instead of imported.
+ */
+export const combineBatch = (files: BatchFile[], mapping: Record<string, string>) => {
+  const sources: StatementSource[] = [];
+  const headers = new Set<string>();
+  const importedFiles: BatchFile[] = [];
+  let rowCount = 0;
+
+  const results = files.map((file): BatchFileResult => {
+    const base = { name: file.name, rows: file.source?.rowCount ?? 0, firstRow: null, lastRow: null, inserted: 0, duplicates: 0, errors: 0 };
+    if (!file.source) return { ...base, status: 'unreadable', message: file.error || 'The file could not be read.' };
+    const fileHeaders = file.source.headers;
+    if (!isMappingCompatible(mapping, fileHeaders)) {
+      const missing = Object.values(mapping).filter(header => header && !fileHeaders.includes(header));
+      return { ...base, status: 'incompatible', message: `Missing mapped column${missing.length === 1 ? '' : 's'}: ${missing.join(', ')}` };
+    }
+
+    const firstRow = rowCount + 1;
+    rowCount += file.source.rowCount;
+    fileHeaders.forEach(header => headers.add(header));
+    sources.push(file.source);
+    importedFiles.push(file);
+    return { ...base, status: 'imported', firstRow, lastRow: rowCount, message: null };
+  });
+
+  const source: StatementSource = {
+    headers: [...headers],
+    preview: sources[0]?.preview ?? [],
+    rowCount,
+    readRows: async (onChunk) => {
+      let read = 0;
+      for (const part of sources) {
+        let stopped = false;
+        await part.readRows(async (rows, progress) => {
+          stopped = await onChunk(rows, (read + progress * part.rowCount) / (rowCount || 1)) === false;
+          return !stopped;
+        });
+        if (stopped) return;
+        read += part.rowCount;
+      }
+    },
+  };
+
+  return { source, name: batchName(importedFiles.length > 0 ? importedFiles : files), results };
+};
+
+/** Fill in each imported file's counts from the import's issues and the rows it saved */
+export const summariseBatch = (results: BatchFileResult[], issues: ImportIssue[], insertedRows: number[]): BatchFileResult[] =>
+  results.map(result => {
+    if (result.status !== 'imported' || result.firstRow === null || result.lastRow === null) return result;
+    const inFile = (row: number | null) => row !== null && row >= result.firstRow! && row <= result.lastRow!;
+    const fileIssues = issues.filter(issue => inFile(issue.row));
+    return {
+      ...result,
+      inserted: insertedRows.filter(inFile).length,
+      duplicates: countIssueRows(fileIssues, 'duplicate'),
+      errors: countIssueRows(fileIssues, 'error'),
+    };
+  });
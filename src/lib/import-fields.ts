@@ -0,0 +1,82 @@
+import { ImportMode } from './fill-matching';
+
+/** A canonical trade field the CSV importer can map a column onto */
+export interface ImportField {
+  key: string;
+  label: string;
+  description: string;
+}
+
+export const REQUIRED_FIELDS: ImportField[] = [
+  { key: 'datetime', label: 'Date/Time', description: 'When the trade was executed' },
+  { key: 'symbol', label: 'Symbol', description: 'Stock ticker or instrument' },
+  { key: 'qty', label: 'Quantity', description: 'Number of shares/contracts' },
+  { key: 'pnl', label: 'P&L', description: 'Profit or Loss amount (or map entry and exit prices to derive it)' }
+];
+
+export const OPTIONAL_FIELDS: ImportField[] = [
+  { key: 'side', label: 'Side', description: 'BUY or SELL' },
+  { key: 'price', label: 'Entry Price', description: 'Price the position was opened at' },
+  { key: 'exitPrice', label: 'Exit Price', description: 'Price the position was closed at' },
+  { key: 'buyPrice', label: 'Buy Price', description: 'Price of the buy leg (entry for longs, exit for shorts)' },
+  { key: 'sellPrice', label: 'Sell Price', description: 'Price of the sell leg (exit for longs, entry for shorts)' },
+  { key: 'entryTime', label: 'Entry Time', description: 'When the position was opened' },
+  { key: 'exitTime', label: 'Exit Time', description: 'When the position was closed' },
+  { key: 'boughtTimestamp', label: 'Buy Time', description: 'Time of the buy leg (entry for longs, exit for shorts)' },
+  { key: 'soldTimestamp', label: 'Sell Time', description: 'Time of the sell leg (exit for longs, entry for shorts)' },
+  { key: 'buyFillId', label: 'Buy Fill ID', description: 'Unique identifier for buy execution (helps prevent duplicates)' },
+  { key: 'sellFillId', label: 'Sell Fill ID', description: 'Unique identifier for sell execution (helps prevent duplicates)' },
+  { key: 'plannedStop', label: 'Planned Stop', description: 'Stop-loss price planned at entry' },
+  { key: 'plannedTarget', label: 'Planned Target', description: 'Profit target price planned at entry' },
+  { key: 'initialRisk', label: 'Initial Risk', description: 'Dollars at risk at entry' },
+  { key: 'commission', label: 'Commission', description: 'Broker commission for the trade' },
+  { key: 'fees', label: 'Fees', description: 'Exchange, clearing and NFA fees for the trade' },
+  { key: 'underlying', label: 'Underlying', description: 'Underlying symbol of an option contract' },
+  { key: 'expiry', label: 'Expiry', description: 'Option expiration date' },
+  { key: 'strike', label: 'Strike', description: 'Option strike price' },
+  { key: 'optionType', label: 'Call/Put', description: 'Option type: CALL or PUT (C or P)' },
+  { key: 'multiplier', label: 'Multiplier', description: 'Contract multiplier (100 for standard options)' },
+  { key: 'currency', label: 'Currency', description: "Currency the amounts are in (defaults to the journal's)" },
+  { key: 'notes', label: 'Notes', description: 'Trade notes or comments' },
+  { key: 'strategy', label: 'Strategy', description: 'Trading strategy used' },
+  { key: 'tags', label: 'Tags', description: 'Trade categories or labels' }
+];
+
+export const FILL_REQUIRED_FIELDS: ImportField[] = [
+  { key: 'datetime', label: 'Date/Time', description: 'When the fill was executed' },
+  { key: 'symbol', label: 'Symbol', description: 'Stock ticker or instrument' },
+  { key: 'side', label: 'Side', description: 'BUY or SELL (or a signed quantity)' },
+  { key: 'qty', label: 'Quantity', description: 'Number of shares/contracts filled' },
+  { key: 'price', label: 'Price', description: 'Fill price' }
+];
+
+export const FILL_OPTIONAL_FIELDS: ImportField[] = [
+  { key: 'commission', label: 'Commission', description: 'Broker commission charged on the fill' },
+  { key: 'fees', label: 'Fees', description: 'Exchange, clearing and NFA fees charged on the fill' },
+  { key: 'fillId', label: 'Fill ID', description: 'Unique identifier for the execution (helps prevent duplicates)' },
+  { key: 'underlying', label: 'Underlying', description: 'Underlying symbol of an option contract' },
+  { key: 'expiry', label: 'Expiry', description: 'Option expiration date' },
+  { key: 'strike', label: 'Strike', description: 'Option strike price' },
+  { key: 'optionType', label: 'Call/Put', description: 'Option type: CALL or PUT (C or P)' },
+  { key: 'multiplier', label: 'Multiplier', description: 'Contract multiplier (100 for standard options)' },
+  { key: 'currency', label: 'Currency', description: "Currency the amounts are in (defaults to the journal's)" },
+  { key: 'notes', label: 'Notes', description: 'Trade notes or comments' },
+  { key: 'strategy', label: 'Strategy', description: 'Trading strategy used' },
+  { key: 'tags', label: 'Tags', description: 'Trade categories or labels' }
+];
+
+/** Required and optional fields for an import mode */
+export const getImportFields = (mode: ImportMode): { required: ImportField[]; optional: ImportField[] } =>
+  mode === 'fills'
+    ? { required: FILL_REQUIRED_FIELDS, optional: FILL_OPTIONAL_FIELDS }
+    : { required: REQUIRED_FIELDS, optional: OPTIONAL_FIELDS };
+
+/**
+ * Whether a required field is covered by the mapping. A trade's P&L can instead be derived
+ * from its entry and exit (or buy and sell) prices and the contract's point value.
+ */
+export const isRequiredFieldMapped = (key: string, mapping: Record<string, string>, mode: ImportMode): boolean => {
+  if (mapping[key]) return true;
+  if (mode !== 'trades' || key !== 'pnl') return false;
+  return (!!mapping.buyPrice && !!mapping.sellPrice) || (!!mapping.price && !!mapping.exitPrice);
+};
@@ -0,0 +1,494 @@
+import Papa from 'papaparse';
+import readXlsxFile from 'read-excel-file/browser';
+import { BrokerAdapter } from './broker-adapters';
+import { ImportMode } from './fill-matching';
+import { getImportFields } from './import-fields';
+import { ImportRow } from './import-issues';
+
+/**
+ * Statement file readers
+ * CSV, Excel, OFX/QFX and JSON statements are all reduced to the same header + row table the
+ * importer maps, so every format goes through the same mapping, normalisation and dedup path.
+ *
+ * JSON trade format: an array of trade objects, or `{ "mode": "trades" | "fills", "trades": [...] }`
+ * (`"fills": [...]` implies fills mode). Keys are the importer's field names (`datetime`, `symbol`,
+ * `side`, `qty`, `price`, `exitPrice`, `pnl`, `commission`, `fees`, `fillId`, `notes`, `tags`, ...),
+ * values are strings or numbers and `tags` may be an array. Naive datetimes are read in the
+ * journal's timezone; ISO strings with an offset keep it. Unknown keys are kept as extra columns.
+ *
+ *   { "mode": "trades", "trades": [
+ *     { "datetime": "2024-12-02T09:45:00-05:00", "symbol": "ESZ4", "side": "BUY", "qty": 2,
+ *       "price": 6050.25, "exitPrice": 6056.5, "commission": 4.2, "tags": ["breakout", "A+"] }
+ *   ] }
+ */
+
+export type StatementFormat = 'csv' | 'xlsx' | 'ofx' | 'json';
+
+/** File input `accept` list for every supported statement format */
+export const IMPORT_FILE_ACCEPT = '.csv,text/csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,.ofx,.qfx,.json,application/json';
+
+export interface StatementTable {
+  headers: string[];
+  rows: ImportRow[];
+}
+
+/** Receives a statement's rows a chunk at a time with the fraction read so far; returning false stops reading */
+export type RowChunkHandler = (rows: ImportRow[], progress: number) => Promise<boolean | void> | boolean | void;
+
+/**
+ * A statement ready to map: its headers, its first rows and a way to read every row again a
+ * chunk at a time. Each chunk is handled before the next is read, so an import never needs the
+ * whole file in memory.
+ */
+export interface StatementSource {
+  headers: string[];
+  /** The first rows, for content validation and the mapping preview */
+  preview: ImportRow[];
+  rowCount: number;
+  readRows: (onChunk: RowChunkHandler) => Promise<void>;
+}
+
+export interface ParsedStatement extends StatementSource {
+  format: StatementFormat;
+  /** Exact mapping supplied by the format itself (OFX, JSON), used like a broker adapter */
+  adapter: BrokerAdapter | null;
+}
+
+/** A worksheet of an Excel workbook, already reduced to a table */
+export interface WorkbookSheet extends StatementTable {
+  name: string;
+}
+
+/** Recognise a statement by its file extension; anything unknown is treated as CSV */
+export const detectStatementFormat = (fileName: string): StatementFormat => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xlsx') return 'xlsx';
+  if (extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (extension === 'json') return 'json';
+  return 'csv';
+};
+
+const EMPTY_FILE_MESSAGE = 'The file appears to be empty or has no valid data rows.';
+
+/** Rows shown before the mapping is confirmed */
+export const PREVIEW_ROW_COUNT = 5;
+
+/** Rows handed over at a time by statements already read into memory */
+const TABLE_CHUNK_SIZE = 2000;
+
+/** A statement read into memory (Excel, OFX, JSON), handed over in chunks like a streamed CSV */
+export const tableSource = (table: StatementTable): StatementSource => ({
+  headers: table.headers,
+  preview: table.rows.slice(0, PREVIEW_ROW_COUNT),
+  rowCount: table.rows.length,
+  readRows: async (onChunk) => {
+    for (let start = 0; start < table.rows.length; start += TABLE_CHUNK_SIZE) {
+      const end = Math.min(table.rows.length, start + TABLE_CHUNK_SIZE);
+      if (await onChunk(table.rows.slice(start, end), end / table.rows.length) === false) return;
+    }
+  },
+});
+
+/* ------------ CSV ------------ */
+
+const CSV_CHUNK_SIZE = 1024 * 1024;
+
+/** Request sent to the CSV stream worker: start reading a file, or read the chunk after the one just handled */
+export type CsvStreamRequest =
+  | { type: 'start'; file: File }
+  | { type: 'next' };
+
+/** Messages from the CSV stream worker: a parsed chunk, the end of the file or a read failure */
+export type CsvStreamMessage =
+  | { type: 'rows'; headers: string[]; rows: ImportRow[]; progress: number }
+  | { type: 'done'; headers: string[]; rowCount: number; errorCount: number }
+  | { type: 'error'; message: string };
+
+type CsvStreamSummary = Omit<Extract<CsvStreamMessage, { type: 'done' }>, 'type'>;
+
+/** Parse on the main thread where workers are unavailable, still a chunk at a time */
+const streamCsvOnMainThread = (file: File, onChunk: RowChunkHandler): Promise<CsvStreamSummary> =>
+  new Promise((resolve, reject) => {
+    let headers: string[] = [];
+    let rowCount = 0;
+    let errorCount = 0;
+
+    Papa.parse<ImportRow>(file, {
+      header: true,
+      skipEmptyLines: true,
+      chunkSize: CSV_CHUNK_SIZE,
+      transformHeader: (header) => header.trim(),
+      chunk: (results, parser) => {
+        headers = results.meta.fields || headers;
+        rowCount += results.data.length;
+        errorCount += results.errors.length;
+        parser.pause();
+        Promise.resolve(onChunk(results.data, Math.min(1, results.meta.cursor / (file.size || 1))))
+          .then(proceed => {
+            if (proceed === false) {
+              parser.abort();
+              resolve({ headers, rowCount, errorCount });
+            } else {
+              parser.resume();
+            }
+          })
+          .catch(error => {
+            parser.abort();
+            reject(error);
+          });
+      },
+      complete: () => resolve({ headers, rowCount, errorCount }),
+      error: (error) => reject(new Error(`Could not read the CSV file: ${error.message}`)),
+    });
+  });
+
+/**
+ * Read a CSV file in a worker, a chunk at a time, so a large export neither blocks the page nor
+ * is held in memory. The worker waits for each chunk to be handled before parsing the next.
+ * Falls back to parsing on the main thread where workers are unavailable.
+ */
+export const streamCsvFile = (file: File, onChunk: RowChunkHandler): Promise<CsvStreamSummary> => {
+  if (typeof Worker === 'undefined') return streamCsvOnMainThread(file, onChunk);
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/csv-stream.worker.ts', import.meta.url), { type: 'module' });
+    let headers: string[] = [];
+    let rowCount = 0;
+
+    const fail = (error: Error) => {
+      worker.terminate();
+      reject(error);
+    };
+
+    worker.onmessage = (event: MessageEvent<CsvStreamMessage>) => {
+      const message = event.data;
+      if (message.type === 'rows') {
+        headers = message.headers;
+        rowCount += message.rows.length;
+        Promise.resolve(onChunk(message.rows, message.progress))
+          .then(proceed => {
+            if (proceed === false) {
+              worker.terminate();
+              resolve({ headers, rowCount, errorCount: 0 });
+            } else {
+              worker.postMessage({ type: 'next' } satisfies CsvStreamRequest);
+            }
+          })
+          .catch(fail);
+        return;
+      }
+
+      worker.terminate();
+      if (message.type === 'error') {
+        reject(new Error(`Could not read the CSV file: ${message.message}`));
+        return;
+      }
+      resolve({ headers: message.headers, rowCount: message.rowCount, errorCount: message.errorCount });
+    };
+
+    worker.onerror = (event) => fail(new Error(event.message || 'Could not read the CSV file.'));
+
+    worker.postMessage({ type: 'start', file } satisfies CsvStreamRequest);
+  });
+};
+
+/**
+ * Read a CSV file through once for its headers, first rows and row count, keeping nothing else.
+ * Its rows are streamed again when the import runs. `onProgress` receives the fraction read.
+ */
+export const parseCsvFile = async (file: File, onProgress?: (fraction: number) => void): Promise<StatementSource> => {
+  const preview: ImportRow[] = [];
+  const { headers, rowCount, errorCount } = await streamCsvFile(file, (rows, progress) => {
+    preview.push(...rows.slice(0, PREVIEW_ROW_COUNT - preview.length));
+    onProgress?.(progress);
+  });
+
+  console.log(`📊 CSV Parse Results: ${rowCount} rows, headers [${headers.join(', ')}], ${errorCount} parse errors`);
+  if (rowCount === 0) throw new Error(EMPTY_FILE_MESSAGE);
+
+  return {
+    headers,
+    preview,
+    rowCount,
+    readRows: async (onChunk) => {
+      await streamCsvFile(file, onChunk);
+    },
+  };
+};
+
+/* ------------ Excel ------------ */
+
+type Cell = string | number | boolean | Date | null;
+
+const pad = (value: number) => value.toString().padStart(2, '0');
+
+/** Excel stores wall clock times without a zone; keep them naive so the journal's timezone applies */
+const excelCellValue = (cell: Cell): string | number | undefined => {
+  if (cell === null || cell === undefined) return undefined;
+  if (cell instanceof Date) {
+    const date = `${cell.getUTCFullYear()}-${pad(cell.getUTCMonth() + 1)}-${pad(cell.getUTCDate())}`;
+    const time = `${pad(cell.getUTCHours())}:${pad(cell.getUTCMinutes())}:${pad(cell.getUTCSeconds())}`;
+    return time === '00:00:00' ? date : `${date} ${time}`;
+  }
+  if (typeof cell === 'boolean') return cell ? 'TRUE' : 'FALSE';
+  return typeof cell === 'string' ? cell.trim() : cell;
+};
+
+const filledCells = (row: Cell[]) => row.filter(cell => cell !== null && cell !== '').length;
+
+/**
+ * Statements often open with a title block, so the header is taken to be the first of the
+ * opening rows that is as wide as the widest of them
+ */
+const sheetToTable = (data: Cell[][]): StatementTable => {
+  const opening = data.slice(0, 20);
+  const width = Math.max(0, ...opening.map(filledCells));
+  const headerIndex = opening.findIndex(row => filledCells(row) === width);
+  if (width === 0 || headerIndex === -1) return { headers: [], rows: [] };
+
+  const seen = new Map<string, number>();
+  const columns = data[headerIndex].map((cell, index) => {
+    const base = cell === null || cell === '' ? `Column ${index + 1}` : String(excelCellValue(cell));
+    const count = (seen.get(base) || 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base} (${count})`;
+  });
+
+  const rows = data.slice(headerIndex + 1)
+    .filter(row => filledCells(row) > 0)
+    .map(row => Object.fromEntries(columns.map((column, index) => [column, excelCellValue(row[index] ?? null)])) as ImportRow);
+
+  return { headers: columns, rows };
+};
+
+/** Every worksheet that holds a table with at least one data row */
+export const parseXlsxWorkbook = async (file: File): Promise<WorkbookSheet[]> => {
+  const sheets = await readXlsxFile(file);
+  const tables = sheets
+    .map(sheet => ({ name: sheet.sheet, ...sheetToTable(sheet.data as unknown as Cell[][]) }))
+    .filter(sheet => sheet.rows.length > 0);
+
+  if (tables.length === 0) throw new Error('None of the worksheets in this workbook contain data rows.');
+  return tables;
+};
+
+/* ------------ OFX / QFX ------------ */
+
+interface OfxNode {
+  name: string;
+  value: string;
+  children: OfxNode[];
+}
+
+/**
+ * Parse OFX 1.x SGML (leaf tags left unclosed) and OFX 2.x XML into one tree. A tag followed
+ * by text is a leaf; a tag followed directly by another tag opens an aggregate.
+ */
+const parseOfxTree = (text: string): OfxNode => {
+  const root: OfxNode = { name: 'ROOT', value: '', children: [] };
+  const stack: OfxNode[] = [root];
+  let lastLeaf: string | null = null;
+  const body = text.slice(Math.max(0, text.toUpperCase().indexOf('<OFX>')));
+
+  for (const match of body.matchAll(/<(\/?)([A-Za-z0-9._]+)>([^<]*)/g)) {
+    const [, closing, tag, rawValue] = match;
+    const name = tag.toUpperCase();
+    const value = rawValue.trim();
+
+    if (closing) {
+      // XML closes leaves too; SGML only closes aggregates
+      if (name === lastLeaf) {
+        lastLeaf = null;
+        continue;
+      }
+      const index = stack.map(node => node.name).lastIndexOf(name);
+      if (index > 0) stack.length = index;
+      lastLeaf = null;
+      continue;
+    }
+
+    const node: OfxNode = { name, value, children: [] };
+    stack[stack.length - 1].children.push(node);
+    if (value) {
+      lastLeaf = name;
+    } else {
+      stack.push(node);
+      lastLeaf = null;
+    }
+  }
+
+  return root;
+};
+
+const findAll = (node: OfxNode, name: string): OfxNode[] =>
+  node.children.flatMap(child => (child.name === name ? [child] : findAll(child, name)));
+
+const find = (node: OfxNode | undefined, name: string): OfxNode | undefined =>
+  node ? findAll(node, name)[0] : undefined;
+
+const leaf = (node: OfxNode | undefined, name: string): string => find(node, name)?.value || '';
+
+/**
+ * OFX dates are `YYYYMMDD[HHMMSS[.XXX]][[offset:TZ]]`. The spec makes a time without a zone GMT;
+ * a bare date stays naive so it lands on that day in the journal's timezone.
+ */
+export const ofxDateTime = (raw: string): string => {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})(?:(\d{2})(\d{2})(\d{2})?(?:\.\d+)?)?(?:\[([+-]?\d+(?:\.\d+)?)(?::[A-Za-z]+)?\])?/);
+  if (!match) return raw;
+  const [, year, month, day, hour, minute, second, offset] = match;
+  const date = `${year}-${month}-${day}`;
+  if (!hour) return date;
+
+  const time = `${date}T${hour}:${minute}:${second || '00'}`;
+  if (offset === undefined) return `${time}Z`;
+
+  const hours = Number(offset);
+  const sign = hours < 0 ? '-' : '+';
+  const whole = Math.floor(Math.abs(hours));
+  const minutes = Math.round((Math.abs(hours) - whole) * 60);
+  return `${time}${sign}${pad(whole)}:${pad(minutes)}`;
+};
+
+const OFX_COLUMNS = ['FITID', 'Trade Date', 'Symbol', 'Security', 'Action', 'Units', 'Unit Price', 'Commission', 'Fees', 'Total', 'Memo'];
+
+/** OFX investment transactions are executions, so they are matched into round trips like any fills export */
+export const OFX_ADAPTER: BrokerAdapter = {
+  id: 'ofx',
+  name: 'OFX/QFX statement',
+  aliases: [],
+  signature: OFX_COLUMNS,
+  mapping: {
+    datetime: 'Trade Date',
+    symbol: 'Symbol',
+    side: 'Action',
+    qty: 'Units',
+    price: 'Unit Price',
+    commission: 'Commission',
+    fees: 'Fees',
+    fillId: 'FITID',
+    notes: 'Memo',
+  },
+  importMode: 'fills',
+};
+
+/** Buy and sell transactions of an OFX/QFX investment statement, one row per execution */
+export const parseOfxStatement = (text: string): StatementTable => {
+  const tree = parseOfxTree(text);
+
+  // Transactions reference securities by CUSIP/ISIN; the security list carries the ticker
+  const securities = new Map<string, { ticker: string; name: string }>();
+  findAll(tree, 'SECINFO').forEach(info => {
+    const id = leaf(find(info, 'SECID'), 'UNIQUEID');
+    if (id) securities.set(id, { ticker: leaf(info, 'TICKER'), name: leaf(info, 'SECNAME') });
+  });
+
+  const rows: ImportRow[] = [];
+  findAll(tree, 'INVTRANLIST').forEach(list => {
+    list.children
+      .filter(transaction => /^(BUY|SELL)/.test(transaction.name))
+      .forEach(transaction => {
+        const detail = find(transaction, 'INVBUY') || find(transaction, 'INVSELL');
+        if (!detail) return;
+        const tran = find(detail, 'INVTRAN');
+        const securityId = leaf(find(detail, 'SECID'), 'UNIQUEID');
+        const security = securities.get(securityId);
+        const units = Math.abs(parseFloat(leaf(detail, 'UNITS')) || 0);
+
+        rows.push({
+          'FITID': leaf(tran, 'FITID'),
+          'Trade Date': ofxDateTime(leaf(tran, 'DTTRADE')),
+          'Symbol': security?.ticker || security?.name || securityId,
+          'Security': security?.name || '',
+          'Action': transaction.name.startsWith('BUY') ? 'BUY' : 'SELL',
+          'Units': units,
+          'Unit Price': parseFloat(leaf(detail, 'UNITPRICE')) || 0,
+          'Commission': Math.abs(parseFloat(leaf(detail, 'COMMISSION')) || 0),
+          'Fees': Math.abs(parseFloat(leaf(detail, 'FEES')) || 0),
+          'Total': parseFloat(leaf(detail, 'TOTAL')) || 0,
+          'Memo': leaf(tran, 'MEMO'),
+        });
+      });
+  });
+
+  if (rows.length === 0) {
+    throw new Error('No buy or sell transactions were found. Only investment statements (not bank or card statements) can be imported.');
+  }
+  return { headers: OFX_COLUMNS, rows };
+};
+
+/* ------------ JSON ------------ */
+
+const jsonCellValue = (value: unknown): string | number | undefined => {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (Array.isArray(value)) return value.join(', ');
+  return JSON.stringify(value);
+};
+
+/** Parse the documented JSON trade format; its keys are field names, so it maps itself */
+export const parseJsonStatement = (text: string): StatementTable & { adapter: BrokerAdapter } => {
+  let document: unknown;
+  try {
+    document = JSON.parse(text);
+  } catch {
+    throw new Error('The JSON file could not be parsed. Check that it is valid JSON.');
+  }
+
+  const wrapper = !Array.isArray(document) && typeof document === 'object' && document !== null
+    ? document as { mode?: string; trades?: unknown; fills?: unknown }
+    : null;
+  const records = Array.isArray(document) ? document : wrapper?.trades ?? wrapper?.fills;
+  const mode: ImportMode = wrapper?.mode === 'fills' || (wrapper?.mode === undefined && wrapper?.fills !== undefined && wrapper?.trades === undefined)
+    ? 'fills'
+    : 'trades';
+
+  if (!Array.isArray(records) || records.some(record => typeof record !== 'object' || record === null || Array.isArray(record))) {
+    throw new Error('JSON imports must be an array of trade objects, or an object with a "trades" or "fills" array.');
+  }
+  if (records.length === 0) throw new Error(EMPTY_FILE_MESSAGE);
+
+  const headers: string[] = [];
+  const rows = (records as Record<string, unknown>[]).map(record => {
+    Object.keys(record).forEach(key => {
+      if (!headers.includes(key)) headers.push(key);
+    });
+    return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, jsonCellValue(value)])) as ImportRow;
+  });
+
+  const { required, optional } = getImportFields(mode);
+  const fieldKeys = [...required, ...optional].map(field => field.key);
+  const mapping = Object.fromEntries(headers.filter(header => fieldKeys.includes(header)).map(header => [header, header]));
+
+  return {
+    headers,
+    rows,
+    adapter: {
+      id: 'json',
+      name: 'JSON trade file',
+      aliases: [],
+      signature: [],
+      mapping,
+      importMode: mode,
+    },
+  };
+};
+
+/**
+ * Read a statement other than a workbook. Excel files can hold several sheets and go
+ * through `parseXlsxWorkbook` so the user can pick one.
+ */
+export const parseStatementFile = async (
+  file: File,
+  format: Exclude<StatementFormat, 'xlsx'>,
+  onProgress?: (fraction: number) => void
+): Promise<ParsedStatement> => {
+  if (format === 'csv') return { format, ...(await parseCsvFile(file, onProgress)), adapter: null };
+
+  const text = await file.text();
+  console.log(`📄 File content length: ${text.length} characters`);
+
+  if (format === 'ofx') return { format, ...tableSource(parseOfxStatement(text)), adapter: OFX_ADAPTER };
+  const { adapter, ...table } = parseJsonStatement(text);
+  return { format, ...tableSource(table), adapter };
+};
@@ -0,0 +1,108 @@
+import Papa from 'papaparse';
+import { ImportMode } from './fill-matching';
+
+/**
+ * Structured report of the rows an import did not insert, so they can be reviewed,
+ * corrected in place and re-submitted, or downloaded with the reasons alongside.
+ * Rows imported with a value left out carry a warning.
+ */
+
+export type ImportIssueKind = 'error' | 'mock' | 'duplicate' | 'warning';
+
+export type ImportRow = Record<string, string | number | undefined>;
+
+export interface ImportIssue {
+  /** 1-based data row in the file; null for issues on round trips built from several fills */
+  row: number | null;
+  /** 1-based round trip number for fills-mode issues */
+  roundTrip?: number;
+  kind: ImportIssueKind;
+  /** Canonical import field, e.g. `qty`, when the issue is tied to one */
+  field: string | null;
+  /** CSV header mapped to `field`, if any */
+  column: string | null;
+  value: string;
+  reason: string;
+}
+
+export interface ImportReport {
+  fileName: string;
+  headers: string[];
+  mapping: Record<string, string>;
+  mode: ImportMode;
+  /** Original values of every row with an issue, keyed by row number */
+  rows: Record<number, ImportRow>;
+  issues: ImportIssue[];
+}
+
+export const ISSUE_KIND_LABELS: Record<ImportIssueKind, string> = {
+  error: 'Rejected',
+  mock: 'Filtered as sample data',
+  duplicate: 'Duplicate',
+  warning: 'Imported with a warning',
+};
+
+/** Build an issue for a row, looking up the mapped column and its raw value */
+export const rowIssue = (
+  kind: ImportIssueKind,
+  rowNumber: number | null,
+  row: ImportRow | undefined,
+  mapping: Record<string, string>,
+  field: string | null,
+  reason: string
+): ImportIssue => {
+  const column = field ? mapping[field] || null : null;
+  const raw = column && row ? row[column] : undefined;
+  return {
+    row: rowNumber,
+    kind,
+    field,
+    column,
+    value: raw === undefined || raw === null ? '' : String(raw),
+    reason,
+  };
+};
+
+/** Number of distinct rows with at least one issue of the given kind */
+export const countIssueRows = (issues: ImportIssue[], kind: ImportIssueKind): number =>
+  new Set(issues.filter(issue => issue.kind === kind).map(issue => issue.row ?? `trip:${issue.roundTrip}`)).size;
+
+/** Issues grouped by row number; round-trip issues without a row are left out */
+export const issuesByRow = (issues: ImportIssue[]): Map<number, ImportIssue[]> => {
+  const grouped = new Map<number, ImportIssue[]>();
+  issues.forEach(issue => {
+    if (issue.row === null) return;
+    grouped.set(issue.row, [...(grouped.get(issue.row) || []), issue]);
+  });
+  return grouped;
+};
+
+/** The affected rows in their original columns, with an `Import Error` column explaining each */
+export const reportToCsv = (report: ImportReport): string => {
+  const grouped = issuesByRow(report.issues);
+  const rowNumbers = Array.from(grouped.keys()).sort((a, b) => a - b);
+
+  return Papa.unparse({
+    fields: ['Row', ...report.headers, 'Import Error'],
+    data: rowNumbers.map(rowNumber => {
+      const values = report.rows[rowNumber] || {};
+      const reasons = grouped.get(rowNumber)!.map(issue =>
+        issue.column ? `${issue.column}: ${issue.reason}` : issue.reason
+      );
+      return [rowNumber, ...report.headers.map(header => values[header] ?? ''), reasons.join('; ')];
+    }),
+  });
+};
+
+/** Save a report next to the uploaded file's name, e.g. `trades_errors.csv` */
+export const downloadReportCsv = (report: ImportReport) => {
+  const blob = new Blob([reportToCsv(report)], { type: 'text/csv' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = `${report.fileName.replace(/\.[^.]+$/, '') || 'import'}_errors.csv`;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
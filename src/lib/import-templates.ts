@@ -0,0 +1,45 @@
+import { Tables } from '@/integrations/supabase/types';
+import { ImportMode, MatchingMethod } from './fill-matching';
+import { PnlBasis } from './trade-metrics';
+
+export type ImportTemplate = Tables<'import_templates'>;
+
+/**
+ * Stable key for a CSV header layout: trimmed, lower-cased and sorted,
+ * so column order and stray padding don't change the fingerprint.
+ */
+export const headerFingerprint = (headers: string[]): string =>
+  headers
+    .map(header => header.trim().toLowerCase())
+    .filter(header => header.length > 0)
+    .sort()
+    .join('|');
+
+/** Prefer a template scoped to the journal over one that applies to all journals */
+export const pickTemplate = (
+  templates: ImportTemplate[],
+  journalId: string
+): ImportTemplate | null =>
+  templates.find(template => template.journal_id === journalId) ||
+  templates.find(template => template.journal_id === null) ||
+  null;
+
+/** Read a template's stored mapping back into a plain header map */
+export const templateMapping = (template: ImportTemplate): Record<string, string> => {
+  const mapping: Record<string, string> = {};
+  if (template.mapping && typeof template.mapping === 'object' && !Array.isArray(template.mapping)) {
+    for (const [field, header] of Object.entries(template.mapping)) {
+      if (typeof header === 'string' && header) mapping[field] = header;
+    }
+  }
+  return mapping;
+};
+
+export const templateImportMode = (template: ImportTemplate): ImportMode =>
+  template.import_mode === 'fills' ? 'fills' : 'trades';
+
+export const templateMatchingMethod = (template: ImportTemplate): MatchingMethod =>
+  template.matching_method === 'average' ? 'average' : 'fifo';
+
+export const templatePnlBasis = (template: ImportTemplate): PnlBasis =>
+  template.pnl_basis === 'gross' ? 'gross' : 'net';
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { MonteCarloRequest, runMonteCarlo, tradeSamples } from '@/lib/monte-carlo';
+
+const request = (overrides: Partial<MonteCarloRequest>): MonteCarloRequest => ({
+  samples: [10],
+  horizon: 5,
+  runs: 200,
+  sizing: 1,
+  startingEquity: 1000,
+  ruinDrawdown: 500,
+  lossLimit: null,
+  trailingLossLimit: false,
+  profitTarget: null,
+  seed: 42,
+  ...overrides,
+});
+
+describe('runMonteCarlo', () => {
+  it('walks every path by the drawn P&L, scaled by the sizing', () => {
+    const result = runMonteCarlo(request({ sizing: 0.5 }));
+    expect(result.cone[0]).toEqual({ step: 0, p5: 1000, p25: 1000, p50: 1000, p75: 1000, p95: 1000 });
+    expect(result.cone[result.cone.length - 1]).toEqual({ step: 5, p5: 1025, p25: 1025, p50: 1025, p75: 1025, p95: 1025 });
+    expect(result.finalEquity).toEqual({ p5: 1025, p50: 1025, p95: 1025 });
+    expect(result.ruinProbability).toBe(0);
+    expect(result.maxDrawdown).toEqual({ p50: 0, p95: 0 });
+  });
+
+  it('counts paths reaching the profit target and when they got there', () => {
+    const result = runMonteCarlo(request({ profitTarget: 30 }));
+    expect(result.targetProbability).toBe(100);
+    expect(result.medianStepsToTarget).toBe(3);
+    expect(result.lossLimitProbability).toBeNull();
+  });
+
+  it('counts ruin and a breached loss limit', () => {
+    const result = runMonteCarlo(request({ samples: [-100], ruinDrawdown: 250, lossLimit: 300 }));
+    expect(result.ruinProbability).toBe(100);
+    expect(result.lossLimitProbability).toBe(100);
+    expect(result.maxDrawdown).toEqual({ p50: 500, p95: 500 });
+    expect(runMonteCarlo(request({ samples: [-100], ruinDrawdown: 600, lossLimit: 600 })).ruinProbability).toBe(0);
+  });
+
+  it('measures a trailing loss limit from the running peak', () => {
+    const samples = [100, 100, -150];
+    const fixed = runMonteCarlo(request({ samples, horizon: 20, lossLimit: 140 }));
+    const trailing = runMonteCarlo(request({ samples, horizon: 20, lossLimit: 140, trailingLossLimit: true }));
+    expect(trailing.lossLimitProbability!).toBeGreaterThan(fixed.lossLimitProbability!);
+  });
+
+  it('repeats a run with the same seed and spreads outcomes across paths', () => {
+    const mixed = request({ samples: [-50, 20, 80], horizon: 50 });
+    const result = runMonteCarlo(mixed);
+    expect(runMonteCarlo(mixed)).toEqual(result);
+
+    const final = result.cone[result.cone.length - 1];
+    expect(final.step).toBe(50);
+    expect(final.p5).toBeLessThan(final.p50);
+    expect(final.p50).toBeLessThan(final.p95);
+  });
+
+  it('keeps the cone to about a hundred points on long horizons', () => {
+    const { cone } = runMonteCarlo(request({ horizon: 1000, runs: 10 }));
+    expect(cone.length).toBeLessThanOrEqual(102);
+    expect(cone[cone.length - 1].step).toBe(1000);
+  });
+
+  it('refuses to run without P&L to draw from', () => {
+    expect(() => runMonteCarlo(request({ samples: [] }))).toThrow();
+  });
+});
+
+describe('tradeSamples', () => {
+  it('draws one sample per position, with spread legs summed', () => {
+    expect(tradeSamples([
+      { id: 'a', pnl: 50 },
+      { id: 'b', pnl: 120, position_group: 'g' },
+      { id: 'c', pnl: -20, position_group: 'g' },
+      { id: 'd', pnl: null },
+    ])).toEqual([50, 100]);
+  });
+});
@@ -0,0 +1,197 @@
+import { Tables } from '@/integrations/supabase/types';
+import { toPositions } from '@/lib/options';
+
+type Trade = Partial<Tables<'trades'>>;
+
+/**
+ * Monte Carlo simulation of future equity
+ * Paths are built by drawing historical trade or daily P&L at random, with replacement, so the
+ * spread of outcomes reflects the journal's own distribution rather than an assumed one.
+ */
+
+export type SimulationBasis = 'trades' | 'days';
+
+export interface MonteCarloRequest {
+  /** Historical P&L to draw from, one value per trade or per trading day */
+  samples: number[];
+  /** Draws per path */
+  horizon: number;
+  runs: number;
+  /** Multiplier on every draw, e.g. 0.5 for half size */
+  sizing: number;
+  /** Equity paths start from; 0 when the account size is unknown */
+  startingEquity: number;
+  /** Drawdown from the running peak, in money, that counts as ruin */
+  ruinDrawdown: number;
+  /** Prop-firm loss limit in money: from the starting equity, or from the peak when trailing */
+  lossLimit: number | null;
+  trailingLossLimit: boolean;
+  /** Profit over the starting equity to reach */
+  profitTarget: number | null;
+  /** Fixed seed for repeatable runs */
+  seed?: number;
+}
+
+/** Equity percentiles across all paths after a number of draws */
+export interface ConePoint {
+  step: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+}
+
+export interface MonteCarloResult {
+  cone: ConePoint[];
+  /** Percentage of paths whose drawdown reached the ruin threshold */
+  ruinProbability: number;
+  lossLimitProbability: number | null;
+  targetProbability: number | null;
+  /** Median draws to the target among paths that reached it */
+  medianStepsToTarget: number | null;
+  /** Percentiles of each path's deepest drawdown, in money */
+  maxDrawdown: { p50: number; p95: number };
+  finalEquity: { p5: number; p50: number; p95: number };
+}
+
+/** Messages from the Monte Carlo worker: the summary, or why the run failed */
+export type MonteCarloMessage =
+  | { type: 'result'; result: MonteCarloResult }
+  | { type: 'error'; message: string };
+
+export const DEFAULT_RUNS = 5000;
+export const MAX_HORIZON = 2000;
+// Percentiles are kept at no more than this many points along the horizon
+const CONE_POINTS = 100;
+
+/** P&L of each position, spread legs summed, as `calculateMetrics` counts trades */
+export const tradeSamples = (trades: Trade[]): number[] =>
+  toPositions(trades)
+    .map(position => position.trade.pnl)
+    .filter((pnl): pnl is number => pnl !== null && pnl !== undefined && !isNaN(Number(pnl)))
+    .map(Number);
+
+/** mulberry32: small, fast and good enough for resampling */
+const seededRandom = (seed: number) => () => {
+  seed |= 0;
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Value at a percentile (0-100) of an ascending array */
+const percentile = (sorted: ArrayLike<number>, pct: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.round((pct / 100) * (sorted.length - 1))));
+  return sorted[index];
+};
+
+const round = (value: number) => Number(value.toFixed(2));
+
+/** Run the simulation; heavy enough to belong in the worker, but pure so it runs anywhere */
+export const runMonteCarlo = (request: MonteCarloRequest): MonteCarloResult => {
+  const { samples, runs, sizing, startingEquity, ruinDrawdown, lossLimit, trailingLossLimit, profitTarget } = request;
+  const horizon = Math.min(Math.max(1, Math.floor(request.horizon)), MAX_HORIZON);
+  if (samples.length === 0) throw new Error('There is no P&L to draw from.');
+
+  const random = seededRandom(request.seed ?? Date.now());
+  const stride = Math.max(1, Math.ceil(horizon / CONE_POINTS));
+  const steps: number[] = [];
+  for (let step = stride; step < horizon; step += stride) steps.push(step);
+  steps.push(horizon);
+
+  // Equity of every path at each cone step, one row per step
+  const equityAt = steps.map(() => new Float64Array(runs));
+  const maxDrawdowns = new Float64Array(runs);
+  const stepsToTarget: number[] = [];
+  let ruined = 0;
+  let limitHit = 0;
+
+  for (let run = 0; run < runs; run++) {
+    let equity = startingEquity;
+    let peak = startingEquity;
+    let deepest = 0;
+    let isRuined = false;
+    let hitLimit = false;
+    let reached = false;
+    let next = 0;
+
+    for (let step = 1; step <= horizon; step++) {
+      equity += samples[Math.floor(random() * samples.length)] * sizing;
+      if (equity > peak) peak = equity;
+      const drawdown = peak - equity;
+      if (drawdown > deepest) deepest = drawdown;
+
+      if (!isRuined && drawdown >= ruinDrawdown) isRuined = true;
+      if (lossLimit !== null && !hitLimit && equity <= (trailingLossLimit ? peak : startingEquity) - lossLimit) hitLimit = true;
+      if (profitTarget !== null && !reached && equity - startingEquity >= profitTarget) {
+        reached = true;
+        stepsToTarget.push(step);
+      }
+
+      if (step === steps[next]) equityAt[next++][run] = equity;
+    }
+
+    maxDrawdowns[run] = deepest;
+    if (isRuined) ruined++;
+    if (hitLimit) limitHit++;
+  }
+
+  const cone = steps.map((step, index) => {
+    const sorted = equityAt[index].sort();
+    return {
+      step,
+      p5: round(percentile(sorted, 5)),
+      p25: round(percentile(sorted, 25)),
+      p50: round(percentile(sorted, 50)),
+      p75: round(percentile(sorted, 75)),
+      p95: round(percentile(sorted, 95)),
+    };
+  });
+  const finals = equityAt[equityAt.length - 1];
+  maxDrawdowns.sort();
+  stepsToTarget.sort((a, b) => a - b);
+
+  return {
+    cone: [{ step: 0, p5: startingEquity, p25: startingEquity, p50: startingEquity, p75: startingEquity, p95: startingEquity }, ...cone],
+    ruinProbability: Number(((ruined / runs) * 100).toFixed(1)),
+    lossLimitProbability: lossLimit !== null ? Number(((limitHit / runs) * 100).toFixed(1)) : null,
+    targetProbability: profitTarget !== null ? Number(((stepsToTarget.length / runs) * 100).toFixed(1)) : null,
+    medianStepsToTarget: stepsToTarget.length > 0 ? percentile(stepsToTarget, 50) : null,
+    maxDrawdown: { p50: round(percentile(maxDrawdowns, 50)), p95: round(percentile(maxDrawdowns, 95)) },
+    finalEquity: { p5: round(percentile(finals, 5)), p50: round(percentile(finals, 50)), p95: round(percentile(finals, 95)) },
+  };
+};
+
+/**
+ * Run the simulation in a worker so thousands of paths do not block the page. Falls back to the
+ * main thread where workers are unavailable.
+ */
+export const simulateInWorker = (request: MonteCarloRequest): Promise<MonteCarloResult> => {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve().then(() => runMonteCarlo(request));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/monte-carlo.worker.ts', import.meta.url), { type: 'module' });
+
+    worker.onmessage = (event: MessageEvent<MonteCarloMessage>) => {
+      worker.terminate();
+      const message = event.data;
+      if (message.type === 'error') {
+        reject(new Error(message.message));
+        return;
+      }
+      resolve(message.result);
+    };
+
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'The simulation failed.'));
+    };
+
+    worker.postMessage(request);
+  });
+};
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { Tables } from '@/integrations/supabase/types';
+import { classifyOptionStrategy, groupOptionLegs, optionColumns, optionContract, rollUpLegs, toPositions } from '@/lib/options';
+import { normalizeSymbol, parseOccSymbol } from '@/utils/normalise';
+
+type Trade = Partial<Tables<'trades'>>;
+
+const leg = (symbol: string, side: 'BUY' | 'SELL', fields: Trade = {}): Trade => ({
+  symbol,
+  side,
+  qty: 1,
+  pnl: 0,
+  datetime: '2024-01-10T15:00:00.000Z',
+  entry_time: '2024-01-10T14:30:00.000Z',
+  ...fields,
+});
+
+describe('parseOccSymbol', () => {
+  it('reads padded, compact and prefixed OCC symbols', () => {
+    const contract = { root: 'SPXW', expiry: '2024-01-19', optionType: 'CALL', strike: 4800 };
+    expect(parseOccSymbol('SPXW  240119C04800000')).toEqual(contract);
+    expect(parseOccSymbol('SPXW240119C04800000')).toEqual(contract);
+    expect(parseOccSymbol('O:SPXW240119C04800000')).toEqual(contract);
+    expect(parseOccSymbol('aapl240621p00187500')).toEqual({ root: 'AAPL', expiry: '2024-06-21', optionType: 'PUT', strike: 187.5 });
+  });
+
+  it('rejects stocks, futures and impossible dates', () => {
+    expect(parseOccSymbol('AAPL')).toBeNull();
+    expect(parseOccSymbol('ESZ24')).toBeNull();
+    expect(parseOccSymbol('AAPL241321C00100000')).toBeNull();
+  });
+
+  it('is what imports store option symbols as', () => {
+    expect(normalizeSymbol('SPXW  240119C04800000')).toBe('SPXW240119C04800000');
+  });
+});
+
+describe('optionContract', () => {
+  it('takes the contract from the OCC symbol, with weekly roots under their index', () => {
+    expect(optionContract({ symbol: 'SPXW240119C04800000' })).toEqual({
+      underlying: 'SPX',
+      expiry: '2024-01-19',
+      strike: 4800,
+      optionType: 'CALL',
+      multiplier: 100,
+    });
+  });
+
+  it('prefers the trade\'s own columns', () => {
+    expect(optionContract({ symbol: 'XYZ', underlying: 'XYZ', option_type: 'P', strike: 15, expiry: '2024-03-15', multiplier: 10 }))
+      .toEqual({ underlying: 'XYZ', expiry: '2024-03-15', strike: 15, optionType: 'PUT', multiplier: 10 });
+  });
+
+  it('is null for stocks', () => {
+    expect(optionContract({ symbol: 'AAPL' })).toBeNull();
+  });
+});
+
+describe('optionColumns', () => {
+  it('fills the option columns from the symbol', () => {
+    expect(optionColumns('AAPL240621P00187500', {})).toEqual({
+      underlying: 'AAPL',
+      expiry: '2024-06-21',
+      strike: 187.5,
+      option_type: 'PUT',
+      multiplier: 100,
+    });
+  });
+
+  it('leaves stocks and futures without option fields', () => {
+    expect(optionColumns('AAPL', {})).toEqual({ underlying: null, expiry: null, strike: null, option_type: null, multiplier: null });
+  });
+});
+
+describe('classifyOptionStrategy', () => {
+  it('names single legs and two-leg spreads', () => {
+    expect(classifyOptionStrategy([leg('SPY240119C00470000', 'BUY')])).toBe('Long Call');
+    expect(classifyOptionStrategy([leg('SPY240119C00470000', 'BUY'), leg('SPY240119C00475000', 'SELL')])).toBe('Call Vertical');
+    expect(classifyOptionStrategy([leg('SPY240119P00470000', 'SELL'), leg('SPY240216P00470000', 'BUY')])).toBe('Put Calendar');
+    expect(classifyOptionStrategy([leg('SPY240119P00465000', 'SELL'), leg('SPY240216P00460000', 'BUY')])).toBe('Put Diagonal');
+    expect(classifyOptionStrategy([leg('SPY240119C00470000', 'BUY'), leg('SPY240119P00470000', 'BUY')])).toBe('Long Straddle');
+    expect(classifyOptionStrategy([leg('SPY240119C00480000', 'SELL'), leg('SPY240119P00460000', 'SELL')])).toBe('Short Strangle');
+  });
+
+  it('names butterflies, condors and iron spreads', () => {
+    expect(classifyOptionStrategy([
+      leg('SPY240119C00465000', 'BUY'),
+      leg('SPY240119C00470000', 'SELL', { qty: 2 }),
+      leg('SPY240119C00475000', 'BUY'),
+    ])).toBe('Call Butterfly');
+    expect(classifyOptionStrategy([
+      leg('SPY240119P00450000', 'BUY'),
+      leg('SPY240119P00460000', 'SELL'),
+      leg('SPY240119C00480000', 'SELL'),
+      leg('SPY240119C00490000', 'BUY'),
+    ])).toBe('Iron Condor');
+    expect(classifyOptionStrategy([
+      leg('SPY240119P00460000', 'BUY'),
+      leg('SPY240119P00470000', 'SELL'),
+      leg('SPY240119C00470000', 'SELL'),
+      leg('SPY240119C00480000', 'BUY'),
+    ])).toBe('Iron Butterfly');
+    expect(classifyOptionStrategy([
+      leg('SPY240119C00460000', 'BUY'),
+      leg('SPY240119C00465000', 'SELL'),
+      leg('SPY240119C00475000', 'SELL'),
+      leg('SPY240119C00480000', 'BUY'),
+    ])).toBe('Call Condor');
+  });
+
+  it('falls back to a leg count, and gives up on anything that is not an option', () => {
+    expect(classifyOptionStrategy([
+      leg('SPY240119C00460000', 'BUY'),
+      leg('SPY240119C00465000', 'BUY'),
+      leg('SPY240119C00475000', 'SELL'),
+    ])).toBe('3-Leg Spread');
+    expect(classifyOptionStrategy([leg('SPY240119C00470000', 'BUY'), leg('SPY', 'SELL')])).toBeNull();
+  });
+});
+
+describe('groupOptionLegs', () => {
+  it('groups legs on one underlying entered in the same second', () => {
+    const grouped = groupOptionLegs([
+      leg('SPY240119C00470000', 'BUY'),
+      leg('SPY240119C00475000', 'SELL', { entry_time: '2024-01-10T14:30:00.400Z' }),
+      leg('QQQ240119C00400000', 'BUY'),
+      leg('SPY240119P00460000', 'BUY', { entry_time: '2024-01-10T14:31:00.000Z' }),
+      leg('AAPL', 'BUY'),
+    ]);
+
+    expect(grouped[0].position_group).toBeTruthy();
+    expect(grouped[1].position_group).toBe(grouped[0].position_group);
+    expect(grouped.slice(2).map(trade => trade.position_group)).toEqual([undefined, undefined, undefined]);
+  });
+
+  it('leaves one contract filled in pieces ungrouped', () => {
+    const grouped = groupOptionLegs([leg('SPY240119C00470000', 'BUY'), leg('SPY240119C00470000', 'BUY')]);
+    expect(grouped.map(trade => trade.position_group)).toEqual([undefined, undefined]);
+  });
+});
+
+describe('rollUpLegs and toPositions', () => {
+  const spread = [
+    leg('SPY240119C00470000', 'BUY', { id: 'a', position_group: 'g', pnl: 300, commission: 1, exit_time: '2024-01-12T15:00:00.000Z' }),
+    leg('SPY240119C00475000', 'SELL', { id: 'b', position_group: 'g', pnl: -120, commission: 1, exit_time: '2024-01-12T15:05:00.000Z' }),
+  ];
+
+  it('sums a spread\'s P&L and costs under its underlying', () => {
+    expect(rollUpLegs(spread)).toMatchObject({
+      symbol: 'SPY',
+      pnl: 180,
+      commission: 2,
+      exit_time: '2024-01-12T15:05:00.000Z',
+      strategy: 'Call Vertical',
+    });
+  });
+
+  it('treats each position group as one position, in first-leg order', () => {
+    const positions = toPositions([leg('AAPL', 'BUY', { id: 's', pnl: 50 }), ...spread]);
+    expect(positions.map(position => [position.key, position.legs.length, position.trade.pnl, position.strategy])).toEqual([
+      ['s', 1, 50, null],
+      ['g', 2, 180, 'Call Vertical'],
+    ]);
+  });
+});
@@ -0,0 +1,252 @@
+import { Tables } from '@/integrations/supabase/types';
+import { OPTION_MULTIPLIER, optionUnderlying } from '@/lib/contract-specs';
+import { parseDateOnly, parseOccSymbol } from '@/utils/normalise';
+
+/**
+ * Option contracts and multi-leg positions
+ * Legs of a spread filled together share a `position_group`, and stats treat each group as one
+ * position whose P&L is the sum of its legs.
+ */
+
+type Trade = Partial<Tables<'trades'>>;
+
+export type OptionType = 'CALL' | 'PUT';
+
+export interface OptionContract {
+  underlying: string;
+  /** Expiry date, yyyy-MM-dd */
+  expiry: string | null;
+  strike: number | null;
+  optionType: OptionType;
+  multiplier: number;
+}
+
+/** A strategy-level position: a single trade, or the legs sharing a position group */
+export interface Position<T extends Trade = Trade> {
+  /** Position group, or the trade's id for single trades */
+  key: string;
+  legs: T[];
+  /** The legs rolled up into one trade; the trade itself for single trades */
+  trade: Trade;
+  /** Strategy name for option positions, e.g. Iron Condor; null for stocks and futures */
+  strategy: string | null;
+}
+
+/** Read a call/put column: C, CALL, Calls, P, PUT ... */
+export const parseOptionType = (raw: string | null | undefined): OptionType | null => {
+  const value = (raw || '').toString().trim().toUpperCase();
+  if (['C', 'CALL', 'CALLS'].includes(value)) return 'CALL';
+  if (['P', 'PUT', 'PUTS'].includes(value)) return 'PUT';
+  return null;
+};
+
+/** The trade's option contract from its own fields, falling back to its OCC symbol */
+export const optionContract = (trade: Trade): OptionContract | null => {
+  const occ = parseOccSymbol(trade.symbol);
+  const optionType = parseOptionType(trade.option_type) || occ?.optionType || null;
+  if (!optionType) return null;
+
+  return {
+    underlying: trade.underlying || optionUnderlying(trade.symbol) || (trade.symbol || '').toUpperCase(),
+    expiry: trade.expiry || occ?.expiry || null,
+    strike: trade.strike ?? occ?.strike ?? null,
+    optionType,
+    multiplier: Number(trade.multiplier) || OPTION_MULTIPLIER,
+  };
+};
+
+/** Currency value of a one point move per contract: the trade's multiplier, or 100 for options */
+export const tradeMultiplier = (trade: Trade): number | null => {
+  if (trade.multiplier) return Number(trade.multiplier);
+  return optionContract(trade) ? OPTION_MULTIPLIER : null;
+};
+
+/** Short contract description, e.g. `SPX 2024-01-19 4800 C` */
+export const describeContract = (trade: Trade): string => {
+  const contract = optionContract(trade);
+  if (!contract) return trade.symbol || '';
+  return [contract.underlying, contract.expiry, contract.strike, contract.optionType[0]].filter(value => value !== null).join(' ');
+};
+
+const isLong = (trade: Trade) => (trade.side || '').toUpperCase() === 'BUY';
+
+/** Name the strategy a set of option legs forms, or null when any leg is not an option */
+export const classifyOptionStrategy = (legs: Trade[]): string | null => {
+  const contracts = legs.map(optionContract);
+  if (legs.length === 0 || contracts.some(contract => !contract)) return null;
+
+  const options = legs
+    .map((leg, index) => ({ ...contracts[index]!, long: isLong(leg), qty: Math.abs(Number(leg.qty) || 0) }))
+    .sort((a, b) => (a.strike ?? 0) - (b.strike ?? 0));
+  const calls = options.filter(option => option.optionType === 'CALL');
+  const puts = options.filter(option => option.optionType === 'PUT');
+  const sameExpiry = new Set(options.map(option => option.expiry)).size === 1;
+  const strikes = new Set(options.map(option => option.strike)).size;
+
+  if (options.length === 1) {
+    const [option] = options;
+    return `${option.long ? 'Long' : 'Short'} ${option.optionType === 'CALL' ? 'Call' : 'Put'}`;
+  }
+
+  if (options.length === 2) {
+    const [low, high] = options;
+    if (low.optionType === high.optionType && low.long !== high.long) {
+      const type = low.optionType === 'CALL' ? 'Call' : 'Put';
+      if (sameExpiry) return `${type} Vertical`;
+      return strikes === 1 ? `${type} Calendar` : `${type} Diagonal`;
+    }
+    if (calls.length === 1 && low.long === high.long && sameExpiry) {
+      return `${low.long ? 'Long' : 'Short'} ${strikes === 1 ? 'Straddle' : 'Strangle'}`;
+    }
+  }
+
+  if (options.length === 3 && sameExpiry && strikes === 3 && (calls.length === 3 || puts.length === 3)) {
+    const [low, middle, high] = options;
+    if (low.long === high.long && middle.long !== low.long && middle.qty === low.qty + high.qty) {
+      return `${calls.length === 3 ? 'Call' : 'Put'} Butterfly`;
+    }
+  }
+
+  if (options.length === 4 && sameExpiry) {
+    if (calls.length === 2 && puts.length === 2 && calls[0].long !== calls[1].long && puts[0].long !== puts[1].long) {
+      const shortCall = calls.find(option => !option.long)!;
+      const shortPut = puts.find(option => !option.long)!;
+      return shortCall.strike === shortPut.strike ? 'Iron Butterfly' : 'Iron Condor';
+    }
+    if ((calls.length === 4 || puts.length === 4) && strikes === 4) {
+      return `${calls.length === 4 ? 'Call' : 'Put'} Condor`;
+    }
+  }
+
+  return `${options.length}-Leg Spread`;
+};
+
+/** Option columns as mapped from an import row, before they are checked against the symbol */
+export interface RawOptionFields {
+  underlying?: unknown;
+  expiry?: unknown;
+  strike?: unknown;
+  optionType?: unknown;
+  multiplier?: unknown;
+}
+
+/**
+ * The `trades` option columns for an imported row. Mapped columns win and an OCC symbol fills
+ * in the rest; everything stays null for stocks and futures unless a multiplier was mapped.
+ */
+export const optionColumns = (symbol: string, raw: RawOptionFields) => {
+  const occ = parseOccSymbol(symbol);
+  const optionType = parseOptionType(raw.optionType as string) || occ?.optionType || null;
+  const strike = Number(raw.strike);
+  const multiplier = Number(raw.multiplier);
+
+  return {
+    underlying: optionType
+      ? (raw.underlying ? raw.underlying.toString().trim().toUpperCase() : null) || optionUnderlying(symbol) || symbol
+      : null,
+    expiry: optionType ? parseDateOnly(raw.expiry as string) || occ?.expiry || null : null,
+    strike: optionType ? (strike > 0 ? strike : occ?.strike ?? null) : null,
+    option_type: optionType,
+    multiplier: multiplier > 0 ? multiplier : optionType ? OPTION_MULTIPLIER : null,
+  };
+};
+
+// Legs of a spread are filled together, so they share an entry time to the second
+const entrySecond = (trade: Trade): string | null => {
+  const date = new Date(trade.entry_time || trade.datetime || '');
+  return isNaN(date.getTime()) ? null : date.toISOString().slice(0, 19);
+};
+
+/**
+ * Give option legs on the same underlying entered in the same second a shared `position_group`.
+ * Legs that already carry a group, and trades that are not options, are left as they are.
+ */
+export const groupOptionLegs = <T extends Trade>(trades: T[]): T[] => {
+  const candidates = new Map<string, number[]>();
+
+  trades.forEach((trade, index) => {
+    if (trade.position_group) return;
+    const contract = optionContract(trade);
+    const second = entrySecond(trade);
+    if (!contract || !second) return;
+
+    const key = `${contract.underlying}|${second}`;
+    candidates.set(key, [...(candidates.get(key) || []), index]);
+  });
+
+  const grouped = [...trades];
+  candidates.forEach(indexes => {
+    // One contract traded in pieces is several fills of a single leg, not a spread
+    if (new Set(indexes.map(index => trades[index].symbol)).size < 2) return;
+
+    const group = crypto.randomUUID();
+    indexes.forEach(index => {
+      grouped[index] = { ...trades[index], position_group: group };
+    });
+  });
+
+  return grouped;
+};
+
+/** Roll a spread's legs up into one trade: summed P&L and costs, timed at the last leg's close */
+export const rollUpLegs = (legs: Trade[]): Trade => {
+  if (legs.length === 1) return legs[0];
+
+  const sum = (field: 'pnl' | 'commission' | 'fees') =>
+    legs.some(leg => leg[field] !== null && leg[field] !== undefined)
+      ? legs.reduce((total, leg) => total + (Number(leg[field]) || 0), 0)
+      : null;
+  const latest = (field: 'datetime' | 'exit_time') =>
+    legs.map(leg => leg[field]).filter(Boolean).sort().pop() || null;
+  const risks = legs.map(leg => Number(leg.initial_risk) || 0);
+  const [first] = legs;
+  const contract = optionContract(first);
+
+  return {
+    ...first,
+    symbol: contract?.underlying || first.symbol,
+    datetime: latest('datetime') || first.datetime,
+    entry_time: legs.map(leg => leg.entry_time).filter(Boolean).sort()[0] || null,
+    exit_time: latest('exit_time'),
+    pnl: sum('pnl'),
+    commission: sum('commission'),
+    fees: sum('fees'),
+    // A spread's risk is the position's, not its legs'; only a recorded figure is kept
+    initial_risk: risks.some(risk => risk > 0) ? risks.reduce((a, b) => a + b, 0) : null,
+    planned_stop: null,
+    entry_price: null,
+    exit_price: null,
+    strategy: first.strategy || classifyOptionStrategy(legs),
+  };
+};
+
+/** Trades as positions, with each position group's legs collapsed into one, in first-leg order */
+export const toPositions = <T extends Trade>(trades: T[]): Position<T>[] => {
+  const groups = new Map<string, T[]>();
+  const order: Array<T | string> = [];
+
+  trades.forEach(trade => {
+    const group = trade.position_group;
+    if (!group) {
+      order.push(trade);
+    } else if (groups.has(group)) {
+      groups.get(group)!.push(trade);
+    } else {
+      groups.set(group, [trade]);
+      order.push(group);
+    }
+  });
+
+  return order.map((entry, index) => {
+    if (typeof entry !== 'string') {
+      return {
+        key: entry.id || `trade-${index}`,
+        legs: [entry],
+        trade: entry,
+        strategy: optionContract(entry) ? classifyOptionStrategy([entry]) : null,
+      };
+    }
+    const legs = groups.get(entry)!;
+    return { key: entry, legs, trade: rollUpLegs(legs), strategy: classifyOptionStrategy(legs) };
+  });
+};
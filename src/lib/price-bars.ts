@@ -0,0 +1,114 @@
+import Papa from 'papaparse';
+import { parquetReadObjects } from 'hyparquet';
+import { parseDateTimeInZone } from './timezones';
+
+/**
+ * OHLC price bars loaded from a local CSV or Parquet file, used for excursion analysis.
+ * Column names are detected loosely so exports from most charting platforms load as-is.
+ */
+
+export interface PriceBar {
+  /** Bar open time */
+  time: Date;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+type BarRow = Record<string, unknown>;
+
+const COLUMN_PATTERNS = {
+  datetime: /^(datetime|date[\s_]?time|timestamp|ts|time[\s_]?stamp|bar[\s_]?time|time)$/i,
+  date: /^(date|day)$/i,
+  open: /^(open|o|open[\s_]?price)$/i,
+  high: /^(high|h|high[\s_]?price)$/i,
+  low: /^(low|l|low[\s_]?price)$/i,
+  close: /^(close|c|close[\s_]?price|last)$/i,
+};
+
+const findColumn = (columns: string[], pattern: RegExp): string | undefined =>
+  columns.find(column => pattern.test(column.trim()));
+
+/**
+ * Epoch numbers in seconds, milliseconds, microseconds or nanoseconds, or anything `Date` can parse.
+ * Text without an offset is read in `timeZone` when given.
+ */
+const toDate = (value: unknown, timeZone?: string): Date | null => {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+
+  if (typeof value === 'number' || typeof value === 'bigint' || /^\d{9,}$/.test(String(value).trim())) {
+    const epoch = Number(value);
+    const ms = epoch > 1e17 ? epoch / 1e6 : epoch > 1e14 ? epoch / 1e3 : epoch > 1e11 ? epoch : epoch * 1000;
+    const date = new Date(ms);
+    return isNaN(date.getTime()) ? null : date;
+  }
+
+  const text = String(value).trim();
+  const date = timeZone ? parseDateTimeInZone(text, timeZone) : new Date(text);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'bigint') return Number(value);
+  return parseFloat(String(value ?? '').replace(/[$,\s]/g, ''));
+};
+
+/** Map raw rows onto bars, dropping rows without a time or a full set of prices, sorted by time */
+export const rowsToBars = (rows: BarRow[], timeZone?: string): PriceBar[] => {
+  if (rows.length === 0) return [];
+
+  const columns = Object.keys(rows[0]);
+  const datetimeColumn = findColumn(columns, COLUMN_PATTERNS.datetime);
+  const dateColumn = findColumn(columns, COLUMN_PATTERNS.date);
+  const open = findColumn(columns, COLUMN_PATTERNS.open);
+  const high = findColumn(columns, COLUMN_PATTERNS.high);
+  const low = findColumn(columns, COLUMN_PATTERNS.low);
+  const close = findColumn(columns, COLUMN_PATTERNS.close);
+
+  if ((!datetimeColumn && !dateColumn) || !open || !high || !low || !close) {
+    throw new Error('Price bar file needs a time column and open, high, low and close columns.');
+  }
+
+  // Separate Date and Time columns (e.g. "2024-12-02" and "09:30:00") are joined
+  const splitDateTime = !!dateColumn && !!datetimeColumn && /^time$/i.test(datetimeColumn.trim());
+
+  const bars: PriceBar[] = [];
+  rows.forEach(row => {
+    const time = splitDateTime
+      ? toDate(`${row[dateColumn!]} ${row[datetimeColumn!]}`, timeZone)
+      : toDate(row[datetimeColumn || dateColumn!], timeZone);
+    const bar = {
+      time,
+      open: toNumber(row[open]),
+      high: toNumber(row[high]),
+      low: toNumber(row[low]),
+      close: toNumber(row[close]),
+    };
+    if (bar.time && [bar.open, bar.high, bar.low, bar.close].every(price => !isNaN(price))) {
+      bars.push(bar as PriceBar);
+    }
+  });
+
+  return bars.sort((a, b) => a.time.getTime() - b.time.getTime());
+};
+
+export const parseBarsCsv = (text: string, timeZone?: string): PriceBar[] => {
+  const { data } = Papa.parse<BarRow>(text, { header: true, skipEmptyLines: true, dynamicTyping: false });
+  return rowsToBars(data, timeZone);
+};
+
+export const parseBarsParquet = async (buffer: ArrayBuffer, timeZone?: string): Promise<PriceBar[]> => {
+  const rows = await parquetReadObjects({ file: buffer, rowFormat: 'object' });
+  return rowsToBars(rows, timeZone);
+};
+
+/** Load bars from a user-selected `.csv` or `.parquet` file, reading naive times in `timeZone` */
+export const loadPriceBarsFile = async (file: File, timeZone?: string): Promise<PriceBar[]> => {
+  if (/\.parquet$/i.test(file.name)) {
+    return parseBarsParquet(await file.arrayBuffer(), timeZone);
+  }
+  return parseBarsCsv(await file.text(), timeZone);
+};
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseDateTimeInZone, zonedParts, zonedTimeToUtc } from '@/lib/timezones';
+
+const wall = (year: number, month: number, day: number, hour: number, minute = 0) => ({ year, month, day, hour, minute, second: 0 });
+
+describe('zonedParts', () => {
+  it('reads an instant on the wall clock of a zone, summer time included', () => {
+    expect(zonedParts(new Date('2024-01-15T15:30:00Z'), 'America/New_York')).toMatchObject({ day: 15, hour: 10, minute: 30, weekday: 'Monday' });
+    expect(zonedParts(new Date('2024-07-15T15:30:00Z'), 'America/New_York')).toMatchObject({ hour: 11 });
+    expect(zonedParts(new Date('2024-07-15T23:30:00Z'), 'Asia/Tokyo')).toMatchObject({ day: 16, hour: 8, weekday: 'Tuesday' });
+  });
+
+  it('reports midnight as hour 0', () => {
+    expect(zonedParts(new Date('2024-01-15T05:00:00Z'), 'America/New_York').hour).toBe(0);
+  });
+});
+
+describe('zonedTimeToUtc', () => {
+  it('converts ordinary wall clock times with the offset in force', () => {
+    expect(zonedTimeToUtc(wall(2024, 1, 15, 9, 30), 'America/New_York').toISOString()).toBe('2024-01-15T14:30:00.000Z');
+    expect(zonedTimeToUtc(wall(2024, 7, 15, 9, 30), 'America/New_York').toISOString()).toBe('2024-07-15T13:30:00.000Z');
+    expect(zonedTimeToUtc(wall(2024, 7, 15, 9, 30), 'Europe/London').toISOString()).toBe('2024-07-15T08:30:00.000Z');
+  });
+
+  it('moves a time skipped by the spring change forward by the gap', () => {
+    // 02:30 never happens in New York on 10 March 2024; the clocks go from 02:00 to 03:00
+    expect(zonedTimeToUtc(wall(2024, 3, 10, 2, 30), 'America/New_York').toISOString()).toBe('2024-03-10T07:30:00.000Z');
+    expect(zonedTimeToUtc(wall(2024, 3, 10, 3, 0), 'America/New_York').toISOString()).toBe('2024-03-10T07:00:00.000Z');
+    // and from 02:00 to 03:00 in Berlin on 31 March 2024, an hour ahead of UTC
+    expect(zonedTimeToUtc(wall(2024, 3, 31, 2, 30), 'Europe/Berlin').toISOString()).toBe('2024-03-31T01:30:00.000Z');
+  });
+
+  it('resolves a time repeated by the autumn change to its first occurrence', () => {
+    // 01:30 happens twice in New York on 3 November 2024, first in EDT
+    expect(zonedTimeToUtc(wall(2024, 11, 3, 1, 30), 'America/New_York').toISOString()).toBe('2024-11-03T05:30:00.000Z');
+    expect(zonedTimeToUtc(wall(2024, 11, 3, 2, 0), 'America/New_York').toISOString()).toBe('2024-11-03T07:00:00.000Z');
+    // 02:30 happens twice in Berlin on 27 October 2024, first in CEST
+    expect(zonedTimeToUtc(wall(2024, 10, 27, 2, 30), 'Europe/Berlin').toISOString()).toBe('2024-10-27T00:30:00.000Z');
+  });
+});
+
+describe('parseDateTimeInZone', () => {
+  it('reads naive timestamps in the given zone', () => {
+    expect(parseDateTimeInZone('2024-07-15 09:30:00', 'America/Chicago').toISOString()).toBe('2024-07-15T14:30:00.000Z');
+    expect(parseDateTimeInZone('01/15/2024 09:30', 'America/New_York').toISOString()).toBe('2024-01-15T14:30:00.000Z');
+  });
+
+  it('reads a date without a time as midnight in the zone', () => {
+    expect(parseDateTimeInZone('2024-07-15', 'Asia/Tokyo').toISOString()).toBe('2024-07-14T15:00:00.000Z');
+  });
+
+  it('keeps timestamps that name their own zone', () => {
+    expect(parseDateTimeInZone('2024-07-15T09:30:00Z', 'Asia/Tokyo').toISOString()).toBe('2024-07-15T09:30:00.000Z');
+    expect(parseDateTimeInZone('2024-07-15T09:30:00-05:00', 'Asia/Tokyo').toISOString()).toBe('2024-07-15T14:30:00.000Z');
+  });
+
+  it('returns an invalid date for text that is not a time', () => {
+    expect(isNaN(parseDateTimeInZone('not a date', 'UTC').getTime())).toBe(true);
+  });
+});
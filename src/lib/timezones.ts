@@ -0,0 +1,166 @@
+/**
+ * Journal timezone handling
+ * Broker exports usually carry naive timestamps in the exchange's or the account's local time.
+ * These helpers read them in the journal's IANA zone (DST included) and bucket stored UTC
+ * instants back into that zone, so every machine sees the same hours and weekdays.
+ * Edge functions carry their own copy of `zonedParts` in `supabase/functions/_shared/timezones.ts`.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+export const TIMEZONE_OPTIONS: { value: string; label: string }[] = [
+  { value: 'America/New_York', label: 'New York (NYSE, Nasdaq)' },
+  { value: 'America/Chicago', label: 'Chicago (CME, CBOT)' },
+  { value: 'America/Denver', label: 'Denver' },
+  { value: 'America/Los_Angeles', label: 'Los Angeles' },
+  { value: 'America/Sao_Paulo', label: 'São Paulo (B3)' },
+  { value: 'Europe/London', label: 'London (LSE, ICE Europe)' },
+  { value: 'Europe/Berlin', label: 'Frankfurt (Eurex, Xetra)' },
+  { value: 'Asia/Dubai', label: 'Dubai' },
+  { value: 'Asia/Kolkata', label: 'Mumbai (NSE, BSE)' },
+  { value: 'Asia/Singapore', label: 'Singapore (SGX)' },
+  { value: 'Asia/Hong_Kong', label: 'Hong Kong (HKEX)' },
+  { value: 'Asia/Tokyo', label: 'Tokyo (JPX)' },
+  { value: 'Australia/Sydney', label: 'Sydney (ASX)' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+export const timezoneLabel = (timeZone: string): string =>
+  TIMEZONE_OPTIONS.find(option => option.value === timeZone)?.label || timeZone;
+
+/** Wall clock reading of an instant in a timezone; month is 1-based */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** English weekday name, e.g. `Monday` */
+  weekday: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Building a formatter is slow next to using one, and imports read thousands of timestamps
+const formatterFor = (timeZone: string | undefined): Intl.DateTimeFormat => {
+  const key = timeZone || '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'long',
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+/** Read an instant on the wall clock of `timeZone`; the browser's zone when none is given */
+export const zonedParts = (date: Date, timeZone?: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  formatterFor(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: parts.weekday,
+  };
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Milliseconds the zone's wall clock is ahead of UTC at an instant */
+const zoneOffset = (time: number, timeZone: string): number => {
+  const parts = zonedParts(new Date(time), timeZone);
+  const wall = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+  return wall - (time - (((time % 1000) + 1000) % 1000));
+};
+
+/**
+ * The instant a wall clock time in `timeZone` refers to. A time skipped by a DST change
+ * moves forward by the gap; a time repeated by one resolves to its first occurrence.
+ */
+export const zonedTimeToUtc = (
+  wall: Omit<ZonedParts, 'weekday'> & { millisecond?: number },
+  timeZone: string
+): Date => {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, wall.millisecond || 0);
+
+  // Try the offsets in force a day either side; a guess is right when its own offset matches.
+  // Both match in a repeated hour (take the earlier) and neither in a skipped one.
+  const offsetBefore = zoneOffset(asUtc - DAY_MS, timeZone);
+  const offsetAfter = zoneOffset(asUtc + DAY_MS, timeZone);
+  const matches = [asUtc - offsetBefore, asUtc - offsetAfter].filter(time => zoneOffset(time, timeZone) === asUtc - time);
+  if (matches.length > 0) return new Date(Math.min(...matches));
+
+  // Reading a skipped time with the offset from before the change lands after the gap
+  return new Date(asUtc - offsetBefore);
+};
+
+// Timestamps that name their own zone are already unambiguous
+const EXPLICIT_ZONE = /:\d{2}(\.\d+)?\s*(Z|[+-]\d{2}:?\d{2})$|\b(UTC|GMT)\b/i;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Parse a broker timestamp. Naive values (no offset) are read as wall clock time in
+ * `timeZone`; values with `Z`, an offset or a UTC/GMT marker keep their own zone.
+ */
+export const parseDateTimeInZone = (raw: string, timeZone: string): Date => {
+  const value = raw.trim();
+  if (EXPLICIT_ZONE.test(value)) return new Date(value);
+
+  const parsed = new Date(value);
+  if (isNaN(parsed.getTime())) return parsed;
+
+  // ISO dates without a time are parsed as UTC midnight, everything else as browser-local
+  const utc = DATE_ONLY.test(value);
+  return zonedTimeToUtc({
+    year: utc ? parsed.getUTCFullYear() : parsed.getFullYear(),
+    month: (utc ? parsed.getUTCMonth() : parsed.getMonth()) + 1,
+    day: utc ? parsed.getUTCDate() : parsed.getDate(),
+    hour: utc ? 0 : parsed.getHours(),
+    minute: utc ? 0 : parsed.getMinutes(),
+    second: utc ? 0 : parsed.getSeconds(),
+    millisecond: utc ? 0 : parsed.getMilliseconds(),
+  }, timeZone);
+};
+
+/**
+ * A Date whose local fields show the wall clock of `timeZone`, for handing to date-fns
+ * `format`. Only use the result for display; its instant is shifted.
+ */
+export const toZonedTime = (date: Date, timeZone?: string): Date => {
+  const parts = zonedParts(date, timeZone);
+  return new Date(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second, date.getMilliseconds());
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** The trading day (`yyyy-MM-dd`) an instant falls on, on the journal's clock */
+export const tradingDay = (date: Date, timeZone?: string): string => {
+  const parts = zonedParts(date, timeZone);
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+};
+
+/** The day a session covers: its trading day, or the day it was created for undated sessions */
+export const sessionDay = (session: { trade_date?: string | null; created_at: string }, timeZone?: string): string =>
+  session.trade_date || tradingDay(new Date(session.created_at), timeZone);
+
+/** A `yyyy-MM-dd` day as local midnight, for date-fns formatting and calendar cells */
+export const dayToDate = (day: string): Date => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
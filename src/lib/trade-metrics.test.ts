@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { calculateMetrics, formatRiskRatio } from '@/lib/trade-metrics';
+
+const trade = (day: number, pnl: number) => ({
+  datetime: new Date(Date.UTC(2024, 0, day, 15)).toISOString(),
+  symbol: 'AAPL',
+  side: 'BUY',
+  qty: 1,
+  pnl,
+});
+
+describe('calculateMetrics risk ratios', () => {
+  // Daily returns on 10,000 starting equity: +1%, -50 on 10,100 and +200 on 10,050
+  const trades = [trade(2, 100), trade(3, -50), trade(4, 200)];
+
+  it('annualises daily returns on account equity', () => {
+    const metrics = calculateMetrics(trades, { accountSize: 10000, timeZone: 'UTC' });
+    expect(metrics.sharpe_ratio).toBe(10.55);
+    expect(metrics.sortino_ratio).toBe(46.19);
+    expect(metrics.calmar_ratio).toBe(423.35);
+    expect(metrics.ulcer_index).toBe(0.29);
+  });
+
+  it('derives SQN and Kelly from trade P&L', () => {
+    const metrics = calculateMetrics(trades, { accountSize: 10000, timeZone: 'UTC' });
+    expect(metrics.sqn).toBe(1.15);
+    // Two thirds of trades win, at three times the average loss
+    expect(metrics.kelly_fraction).toBe(0.5556);
+  });
+
+  it('leaves the return ratios out without an account size', () => {
+    const metrics = calculateMetrics(trades, { timeZone: 'UTC' });
+    expect(metrics.sharpe_ratio).toBeNull();
+    expect(metrics.sortino_ratio).toBeNull();
+    expect(metrics.calmar_ratio).toBeNull();
+    expect(metrics.ulcer_index).toBeNull();
+    expect(metrics.sqn).toBe(1.15);
+  });
+
+  it('needs two trading days for Sharpe and a losing day for Sortino', () => {
+    expect(calculateMetrics([trade(2, 100)], { accountSize: 10000, timeZone: 'UTC' }).sharpe_ratio).toBeNull();
+    const allGreen = calculateMetrics([trade(2, 100), trade(3, 200)], { accountSize: 10000, timeZone: 'UTC' });
+    expect(allGreen.sharpe_ratio).not.toBeNull();
+    expect(allGreen.sortino_ratio).toBeNull();
+    expect(allGreen.calmar_ratio).toBeNull();
+    expect(allGreen.kelly_fraction).toBeNull();
+  });
+
+  it('adds trades closed on the same day into one daily return', () => {
+    const metrics = calculateMetrics([trade(2, 60), trade(2, 40), trade(3, -50), trade(4, 200)], { accountSize: 10000, timeZone: 'UTC' });
+    expect(metrics.sharpe_ratio).toBe(10.55);
+  });
+});
+
+describe('formatRiskRatio', () => {
+  it('shows Kelly as a percentage and a dash when unknown', () => {
+    expect(formatRiskRatio('kelly_fraction', 0.5556)).toBe('55.6%');
+    expect(formatRiskRatio('sharpe_ratio', 1.234)).toBe('1.23');
+    expect(formatRiskRatio('sqn', null)).toBe('—');
+  });
+});
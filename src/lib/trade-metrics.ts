@@ -1,7 +1,154 @@
 import { Tables } from '@/integrations/supabase/types';
+import { getPointValue, rootSymbol } from '@/lib/contract-specs';
+import { toPositions } from '@/lib/options';
+import { CurrencyConversion, dateOf, tradeCurrency } from '@/lib/currency';
+import { tradingDay, zonedParts } from '@/lib/timezones';
+import { startingEquity } from '@/lib/drawdowns';
 
 type Trade = Partial<Tables<'trades'>>;
 
+/** Net P&L is after commission and fees (what `trades.pnl` stores); gross is before them */
+export type PnlBasis = 'net' | 'gross';
+
+export interface MetricsOptions {
+  basis?: PnlBasis;
+  /** IANA zone the time-of-day and weekday buckets are read in, normally the journal's */
+  timeZone?: string;
+  /** Convert every trade to one reporting currency first; trades without a rate are left out */
+  currency?: CurrencyConversion;
+  /** Starting equity in the journal's currency; daily returns, and the ratios built on them, need it */
+  accountSize?: number | null;
+}
+
+/** Trading days in a year, for annualising daily figures */
+export const TRADING_DAYS_PER_YEAR = 252;
+
+export type RiskRatio = 'sharpe_ratio' | 'sortino_ratio' | 'calmar_ratio' | 'sqn' | 'kelly_fraction' | 'ulcer_index';
+
+/** Label and plain-language explanation of each risk-adjusted ratio, for tooltips */
+export const RISK_RATIOS: Array<{ key: RiskRatio; label: string; explanation: string }> = [
+  {
+    key: 'sharpe_ratio',
+    label: 'Sharpe Ratio',
+    explanation: 'Average daily return on account equity divided by how much daily returns swing, annualised. Above 1 is good, above 2 is excellent. Needs an account size and two trading days.',
+  },
+  {
+    key: 'sortino_ratio',
+    label: 'Sortino Ratio',
+    explanation: 'Like Sharpe, but only losing days count as risk, so big winning days are not penalised. Above 2 is good.',
+  },
+  {
+    key: 'calmar_ratio',
+    label: 'Calmar Ratio',
+    explanation: 'Annualised return divided by the deepest drawdown of daily closing equity. Above 1 means a year of returns outweighs the worst drawdown.',
+  },
+  {
+    key: 'sqn',
+    label: 'SQN',
+    explanation: 'System Quality Number: average trade P&L over its standard deviation, times the square root of the trade count (capped at 100). Above 2 is good, above 3 excellent.',
+  },
+  {
+    key: 'kelly_fraction',
+    label: 'Kelly Fraction',
+    explanation: 'Share of equity your win rate and payoff ratio say to risk per trade. Most traders risk a quarter to a half of it; zero or below means no edge.',
+  },
+  {
+    key: 'ulcer_index',
+    label: 'Ulcer Index',
+    explanation: 'How deep and how long drawdowns of daily closing equity are, as a percentage. Lower is calmer; under 5 is comfortable.',
+  },
+];
+
+/** A risk ratio for display: Kelly as a percentage, the rest to two places, a dash when unknown */
+export const formatRiskRatio = (key: RiskRatio, value: number | null | undefined): string => {
+  if (value === null || value === undefined) return '—';
+  return key === 'kelly_fraction' ? `${(value * 100).toFixed(1)}%` : value.toFixed(2);
+};
+
+/** Total commission and fees charged on a trade */
+export const tradeCosts = (trade: Trade): number =>
+  Math.abs(Number(trade.commission) || 0) + Math.abs(Number(trade.fees) || 0);
+
+/** A trade's P&L on the requested basis */
+export const tradePnl = (trade: Trade, basis: PnlBasis = 'net'): number => {
+  const net = Number(trade.pnl) || 0;
+  return basis === 'gross' ? net + tradeCosts(trade) : net;
+};
+
+/**
+ * Dollars at risk when the trade was opened: the recorded initial risk, otherwise the
+ * distance from entry to the planned stop scaled by quantity and the trade's multiplier or
+ * the contract's point value
+ */
+export const tradeInitialRisk = (trade: Trade): number | null => {
+  const recorded = Math.abs(Number(trade.initial_risk) || 0);
+  if (recorded > 0) return recorded;
+
+  const entry = trade.entry_price ?? trade.price;
+  if (trade.planned_stop === null || trade.planned_stop === undefined || entry === null || entry === undefined || !trade.qty) {
+    return null;
+  }
+  const risk = Math.abs(Number(entry) - Number(trade.planned_stop)) * Math.abs(Number(trade.qty)) * (Number(trade.multiplier) || getPointValue(trade.symbol));
+  return risk > 0 ? risk : null;
+};
+
+/** P&L expressed in multiples of initial risk, or null when the trade has no planned risk */
+export const tradeRMultiple = (trade: Trade, basis: PnlBasis = 'net'): number | null => {
+  const risk = tradeInitialRisk(trade);
+  return risk ? tradePnl(trade, basis) / risk : null;
+};
+
+/** R-multiple histogram bins, lower bound inclusive */
+export const R_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: '< -2R', min: -Infinity, max: -2 },
+  { label: '-2R to -1R', min: -2, max: -1 },
+  { label: '-1R to 0R', min: -1, max: 0 },
+  { label: '0R to 1R', min: 0, max: 1 },
+  { label: '1R to 2R', min: 1, max: 2 },
+  { label: '2R to 3R', min: 2, max: 3 },
+  { label: '>= 3R', min: 3, max: Infinity },
+];
+
+/** Copy trades with `pnl` restated on the requested basis, for views that read `pnl` directly */
+export const applyPnlBasis = <T extends Trade>(trades: T[], basis: PnlBasis): T[] =>
+  basis === 'net'
+    ? trades
+    : trades.map(trade => (trade.pnl === null || trade.pnl === undefined ? trade : { ...trade, pnl: tradePnl(trade, basis) }));
+
+/**
+ * Copy trades with P&L, costs and initial risk converted to the reporting currency at the rate on
+ * the trade's date. Trades no rate can convert are left out and counted in `unconverted`.
+ */
+export const applyCurrency = <T extends Trade>(trades: T[], conversion: CurrencyConversion): { trades: T[]; unconverted: number } => {
+  let unconverted = 0;
+  const converted: T[] = [];
+
+  trades.forEach(trade => {
+    const from = tradeCurrency(trade, conversion.from);
+    if (from === conversion.to) {
+      converted.push(trade);
+      return;
+    }
+    const rate = conversion.fx.rate(from, conversion.to, dateOf(trade.datetime));
+    if (rate === null) {
+      unconverted++;
+      return;
+    }
+    const scale = (value: number | null | undefined) => (value === null || value === undefined ? value : Number(value) * rate);
+    converted.push({
+      ...trade,
+      pnl: scale(trade.pnl),
+      commission: scale(trade.commission),
+      fees: scale(trade.fees),
+      // Risk from a planned stop is in the trade's own currency, so it is fixed before converting
+      initial_risk: scale(tradeInitialRisk(trade)) ?? null,
+      currency: conversion.to,
+    });
+  });
+
+  return { trades: converted, unconverted };
+};
+
 interface CalculatedMetrics {
   total_pnl: number;
   total_trades: number;
@@ -9,7 +156,8 @@ interface CalculatedMetrics {
   avg_win: number;
   avg_loss: number;
   max_drawdown: number;
-  equity_curve: Array<{ trade: number; cumulative: number }>;
+  /** Cumulative P&L after each trade, with the trade's close time so curves can share a time axis */
+  equity_curve: Array<{ trade: number; time: string; cumulative: number }>;
   time_data: Array<{ time: string; trades: number; pnl: number }>;
   profit_factor: number;
   trades_by_day: Array<{ day: string; trades: number; pnl: number }>;
@@ -20,36 +168,187 @@ interface CalculatedMetrics {
   max_loss_streak: number;
   expectancy: number;
   reward_risk_ratio: number;
+  gross_pnl: number;
+  total_commissions: number;
+  total_fees: number;
+  /** Trades with a planned stop or initial risk; the R-based figures below cover only these */
+  trades_with_risk: number;
+  avg_r_multiple: number;
+  r_expectancy: number;
+  r_distribution: Array<{ bucket: string; trades: number }>;
+  r_equity_curve: Array<{ trade: number; cumulative: number }>;
+  /** P&L of each trading day (`yyyy-MM-dd` in the journal's timezone), oldest first */
+  daily_pnl: Array<{ date: string; trades: number; pnl: number }>;
+  trading_days: number;
+  /** Share of trading days that closed positive */
+  green_day_rate: number;
+  avg_daily_pnl: number;
+  median_daily_pnl: number;
+  best_day: { date: string; pnl: number } | null;
+  worst_day: { date: string; pnl: number } | null;
+  /** Sample standard deviation of daily P&L */
+  daily_pnl_std_dev: number;
+  max_green_day_streak: number;
+  max_red_day_streak: number;
+  /** See `RISK_RATIOS`; null when there is too little data or no account size */
+  sharpe_ratio: number | null;
+  sortino_ratio: number | null;
+  calmar_ratio: number | null;
+  sqn: number | null;
+  kelly_fraction: number | null;
+  ulcer_index: number | null;
 }
 
-export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
+const emptyMetrics = (): CalculatedMetrics => ({
+  total_pnl: 0,
+  total_trades: 0,
+  win_rate: 0,
+  avg_win: 0,
+  avg_loss: 0,
+  max_drawdown: 0,
+  equity_curve: [],
+  time_data: [],
+  profit_factor: 0,
+  trades_by_day: [],
+  trades_by_symbol: [],
+  largest_win: 0,
+  largest_loss: 0,
+  max_win_streak: 0,
+  max_loss_streak: 0,
+  expectancy: 0,
+  reward_risk_ratio: 0,
+  gross_pnl: 0,
+  total_commissions: 0,
+  total_fees: 0,
+  trades_with_risk: 0,
+  avg_r_multiple: 0,
+  r_expectancy: 0,
+  r_distribution: [],
+  r_equity_curve: [],
+  daily_pnl: [],
+  trading_days: 0,
+  green_day_rate: 0,
+  avg_daily_pnl: 0,
+  median_daily_pnl: 0,
+  best_day: null,
+  worst_day: null,
+  daily_pnl_std_dev: 0,
+  max_green_day_streak: 0,
+  max_red_day_streak: 0,
+  sharpe_ratio: null,
+  sortino_ratio: null,
+  calmar_ratio: null,
+  sqn: null,
+  kelly_fraction: null,
+  ulcer_index: null,
+});
+
+/**
+ * Day-level figures from daily P&L in date order. A flat day ends both streaks, and the
+ * standard deviation needs at least two days.
+ */
+const dailyStats = (days: Array<{ date: string; pnl: number }>) => {
+  const pnls = days.map(day => day.pnl);
+  const count = pnls.length;
+  const mean = count > 0 ? pnls.reduce((a, b) => a + b, 0) / count : 0;
+  const sorted = [...pnls].sort((a, b) => a - b);
+  const median = count === 0 ? 0 : count % 2 ? sorted[(count - 1) / 2] : (sorted[count / 2 - 1] + sorted[count / 2]) / 2;
+  const variance = count > 1 ? pnls.reduce((sum, pnl) => sum + (pnl - mean) ** 2, 0) / (count - 1) : 0;
+
+  let green = 0;
+  let red = 0;
+  let max_green = 0;
+  let max_red = 0;
+  pnls.forEach(pnl => {
+    green = pnl > 0 ? green + 1 : 0;
+    red = pnl < 0 ? red + 1 : 0;
+    max_green = Math.max(max_green, green);
+    max_red = Math.max(max_red, red);
+  });
+
+  const best = days.reduce<{ date: string; pnl: number } | null>((top, day) => (!top || day.pnl > top.pnl ? day : top), null);
+  const worst = days.reduce<{ date: string; pnl: number } | null>((low, day) => (!low || day.pnl < low.pnl ? day : low), null);
+
+  return {
+    trading_days: count,
+    green_day_rate: count > 0 ? Number(((pnls.filter(pnl => pnl > 0).length / count) * 100).toFixed(2)) : 0,
+    avg_daily_pnl: Number(mean.toFixed(2)),
+    median_daily_pnl: Number(median.toFixed(2)),
+    best_day: best && { date: best.date, pnl: best.pnl },
+    worst_day: worst && { date: worst.date, pnl: worst.pnl },
+    daily_pnl_std_dev: Number(Math.sqrt(variance).toFixed(2)),
+    max_green_day_streak: max_green,
+    max_red_day_streak: max_red,
+  };
+};
+
+const round = (value: number | null, digits = 2) => (value === null || !isFinite(value) ? null : Number(value.toFixed(digits)));
+
+/**
+ * Return ratios from daily P&L as a return on the equity the day started with, and trade
+ * ratios from trade P&L. Days without trades are not counted. Mirrored by
+ * `get_journal_summary` in the database.
+ */
+const riskRatios = (days: Array<{ pnl: number }>, tradePnls: number[], equity: number | null) => {
+  // Daily returns and drawdowns of closing equity
+  const returns: number[] = [];
+  const drawdowns: number[] = [];
+  if (equity !== null && equity > 0) {
+    let peak = equity;
+    for (const day of days) {
+      if (equity <= 0) break;
+      returns.push(day.pnl / equity);
+      equity += day.pnl;
+      peak = Math.max(peak, equity);
+      drawdowns.push(((peak - equity) / peak) * 100);
+    }
+  }
+
+  const mean = returns.length > 0 ? returns.reduce((a, b) => a + b, 0) / returns.length : 0;
+  const std = returns.length > 1 ? Math.sqrt(returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / (returns.length - 1)) : 0;
+  const downside = returns.length > 0 ? Math.sqrt(returns.reduce((sum, r) => sum + Math.min(r, 0) ** 2, 0) / returns.length) : 0;
+  const maxDrawdownPct = Math.max(0, ...drawdowns);
+  const annualise = Math.sqrt(TRADING_DAYS_PER_YEAR);
+
+  // Trade ratios
+  const count = tradePnls.length;
+  const tradeMean = count > 0 ? tradePnls.reduce((a, b) => a + b, 0) / count : 0;
+  const tradeStd = count > 1 ? Math.sqrt(tradePnls.reduce((sum, pnl) => sum + (pnl - tradeMean) ** 2, 0) / (count - 1)) : 0;
+  const wins = tradePnls.filter(pnl => pnl > 0);
+  const losses = tradePnls.filter(pnl => pnl < 0);
+  const payoff = wins.length > 0 && losses.length > 0
+    ? (wins.reduce((a, b) => a + b, 0) / wins.length) / Math.abs(losses.reduce((a, b) => a + b, 0) / losses.length)
+    : null;
+
+  return {
+    sharpe_ratio: returns.length > 1 && std > 0 ? round((mean / std) * annualise) : null,
+    sortino_ratio: returns.length > 1 && downside > 0 ? round((mean / downside) * annualise) : null,
+    calmar_ratio: returns.length > 0 && maxDrawdownPct > 0 ? round((mean * TRADING_DAYS_PER_YEAR * 100) / maxDrawdownPct) : null,
+    sqn: tradeStd > 0 ? round((tradeMean / tradeStd) * Math.sqrt(Math.min(count, 100))) : null,
+    kelly_fraction: payoff !== null ? round(wins.length / count - (1 - wins.length / count) / payoff, 4) : null,
+    ulcer_index: drawdowns.length > 0 ? round(Math.sqrt(drawdowns.reduce((sum, dd) => sum + dd ** 2, 0) / drawdowns.length)) : null,
+  };
+};
+
+/**
+ * Calculate session/journal metrics. P&L-based figures use `options.basis` (net by default);
+ * `gross_pnl`, `total_commissions` and `total_fees` are always reported as-is.
+ * Spread legs sharing a `position_group` count as one position with their P&L summed, and
+ * `options.currency` converts each trade to the reporting currency before anything is added up.
+ */
+export const calculateMetrics = (legs: Trade[], options: MetricsOptions = {}): CalculatedMetrics => {
+  const reported = Array.isArray(legs) && options.currency ? applyCurrency(legs, options.currency).trades : legs;
+  const trades = Array.isArray(reported) ? toPositions(reported).map(position => position.trade) : reported;
+
   // Handle empty or invalid input
   if (!trades || !Array.isArray(trades) || trades.length === 0) {
-    return {
-      total_pnl: 0,
-      total_trades: 0,
-      win_rate: 0,
-      avg_win: 0,
-      avg_loss: 0,
-      max_drawdown: 0,
-      equity_curve: [],
-      time_data: [],
-      profit_factor: 0,
-      trades_by_day: [],
-      trades_by_symbol: [],
-      largest_win: 0,
-      largest_loss: 0,
-      max_win_streak: 0,
-      max_loss_streak: 0,
-      expectancy: 0,
-      reward_risk_ratio: 0,
-    };
+    return emptyMetrics();
   }
 
   const total_trades = trades.length;
   
   // Filter out trades with invalid data
-  const validTrades = trades.filter(trade => 
+  const validTrades = applyPnlBasis(trades, options.basis || 'net').filter(trade => 
     trade.datetime && 
     trade.pnl !== null && 
     trade.pnl !== undefined && 
@@ -57,25 +356,7 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
   );
 
   if (validTrades.length === 0) {
-    return {
-      total_pnl: 0,
-      total_trades: 0,
-      win_rate: 0,
-      avg_win: 0,
-      avg_loss: 0,
-      max_drawdown: 0,
-      equity_curve: [],
-      time_data: [],
-      profit_factor: 0,
-      trades_by_day: [],
-      trades_by_symbol: [],
-      largest_win: 0,
-      largest_loss: 0,
-      max_win_streak: 0,
-      max_loss_streak: 0,
-      expectancy: 0,
-      reward_risk_ratio: 0,
-    };
+    return emptyMetrics();
   }
 
   // Sort trades by datetime for proper equity curve calculation
@@ -88,7 +369,7 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
   let total_pnl = 0;
   const winning_trades_pnl: number[] = [];
   const losing_trades_pnl: number[] = [];
-  const equity_curve_data: Array<{ trade: number; cumulative: number }> = [];
+  const equity_curve_data: Array<{ trade: number; time: string; cumulative: number }> = [];
   let cumulative_pnl = 0;
   let peak_equity = 0;
   let max_drawdown = 0;
@@ -104,9 +385,21 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
   const trades_by_time: Record<string, { time: string; trades: number; pnl: number }> = {};
   const trades_by_day: Record<string, { day: string; trades: number; pnl: number }> = {};
   const trades_by_symbol: Record<string, { symbol: string; trades: number; pnl: number }> = {};
+  const trades_by_date: Record<string, { date: string; trades: number; pnl: number }> = {};
+
+  let total_commissions = 0;
+  let total_fees = 0;
+
+  // R-multiples, for trades that recorded their planned risk
+  const r_multiples: number[] = [];
+  const r_equity_curve: Array<{ trade: number; cumulative: number }> = [];
+  const r_counts = R_BUCKETS.map(() => 0);
+  let cumulative_r = 0;
 
   sortedTrades.forEach((trade, index) => {
     const pnl = Number(trade.pnl) || 0;
+    total_commissions += Math.abs(Number(trade.commission) || 0);
+    total_fees += Math.abs(Number(trade.fees) || 0);
     total_pnl += pnl;
     cumulative_pnl += pnl;
 
@@ -130,8 +423,18 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
     if (current_win_streak > max_win_streak) max_win_streak = current_win_streak;
     if (current_loss_streak > max_loss_streak) max_loss_streak = current_loss_streak;
 
+    // R-multiple, measured on the same P&L basis as everything else
+    const risk = tradeInitialRisk(trade);
+    if (risk) {
+      const r = pnl / risk;
+      r_multiples.push(r);
+      cumulative_r += r;
+      r_equity_curve.push({ trade: r_multiples.length, cumulative: Number(cumulative_r.toFixed(2)) });
+      r_counts[R_BUCKETS.findIndex(bucket => r >= bucket.min && r < bucket.max)] += 1;
+    }
+
     // Equity curve
-    equity_curve_data.push({ trade: index + 1, cumulative: Number(cumulative_pnl.toFixed(2)) });
+    equity_curve_data.push({ trade: index + 1, time: trade.datetime!, cumulative: Number(cumulative_pnl.toFixed(2)) });
 
     // Drawdown calculation
     if (cumulative_pnl > peak_equity) {
@@ -149,8 +452,10 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
 
         // Validate date
         if (!isNaN(date.getTime())) {
+          const wall = zonedParts(date, options.timeZone);
+
           // Time data (hour:minute)
-          const time_key = `${date.getHours().toString().padStart(2, '0')}:${date.getMinutes().toString().padStart(2, '0')}`;
+          const time_key = `${wall.hour.toString().padStart(2, '0')}:${wall.minute.toString().padStart(2, '0')}`;
           if (!trades_by_time[time_key]) {
             trades_by_time[time_key] = { time: time_key, trades: 0, pnl: 0 };
           }
@@ -158,12 +463,20 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
           trades_by_time[time_key].pnl += pnl;
 
           // Day of week data
-          const day_key = date.toLocaleString('en-US', { weekday: 'long' });
+          const day_key = wall.weekday;
           if (!trades_by_day[day_key]) {
             trades_by_day[day_key] = { day: day_key, trades: 0, pnl: 0 };
           }
           trades_by_day[day_key].trades += 1;
           trades_by_day[day_key].pnl += pnl;
+
+          // Trading day
+          const date_key = tradingDay(date, options.timeZone);
+          if (!trades_by_date[date_key]) {
+            trades_by_date[date_key] = { date: date_key, trades: 0, pnl: 0 };
+          }
+          trades_by_date[date_key].trades += 1;
+          trades_by_date[date_key].pnl += pnl;
         }
       } catch (error) {
         console.warn('Invalid datetime for trade:', trade.datetime);
@@ -171,7 +484,7 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
     }
     
     // Symbol data
-    const symbol_key = trade.symbol || 'UNKNOWN';
+    const symbol_key = trade.symbol ? rootSymbol(trade.symbol) : 'UNKNOWN';
     if (!trades_by_symbol[symbol_key]) {
       trades_by_symbol[symbol_key] = { symbol: symbol_key, trades: 0, pnl: 0 };
     }
@@ -195,6 +508,15 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
   const loss_rate_decimal = 1 - win_rate_decimal;
   const expectancy = (win_rate_decimal * avg_win) - (loss_rate_decimal * abs_avg_loss);
 
+  const r_wins = r_multiples.filter(r => r > 0);
+  const r_losses = r_multiples.filter(r => r < 0);
+  const avg_r_multiple = r_multiples.length > 0 ? r_multiples.reduce((a, b) => a + b, 0) / r_multiples.length : 0;
+  const avg_win_r = r_wins.length > 0 ? r_wins.reduce((a, b) => a + b, 0) / r_wins.length : 0;
+  const avg_loss_r = r_losses.length > 0 ? Math.abs(r_losses.reduce((a, b) => a + b, 0) / r_losses.length) : 0;
+  const r_win_rate = r_multiples.length > 0 ? r_wins.length / r_multiples.length : 0;
+  const r_loss_rate = r_multiples.length > 0 ? r_losses.length / r_multiples.length : 0;
+  const r_expectancy = (r_win_rate * avg_win_r) - (r_loss_rate * avg_loss_r);
+
   // Sort and format grouped data
   const time_data = Object.values(trades_by_time)
     .map(item => ({ ...item, pnl: Number(item.pnl.toFixed(2)) }))
@@ -209,6 +531,10 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
     .map(item => ({ ...item, pnl: Number(item.pnl.toFixed(2)) }))
     .sort((a, b) => a.symbol.localeCompare(b.symbol));
 
+  const daily_pnl = Object.values(trades_by_date)
+    .map(item => ({ ...item, pnl: Number(item.pnl.toFixed(2)) }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+
   return {
     total_pnl: Number(total_pnl.toFixed(2)),
     total_trades,
@@ -227,5 +553,18 @@ export const calculateMetrics = (trades: Trade[]): CalculatedMetrics => {
     max_loss_streak,
     expectancy: Number(expectancy.toFixed(2)),
     reward_risk_ratio: Number(reward_risk_ratio.toFixed(2)),
+    gross_pnl: Number((options.basis === 'gross' ? total_pnl : total_pnl + total_commissions + total_fees).toFixed(2)),
+    total_commissions: Number(total_commissions.toFixed(2)),
+    total_fees: Number(total_fees.toFixed(2)),
+    trades_with_risk: r_multiples.length,
+    avg_r_multiple: Number(avg_r_multiple.toFixed(2)),
+    r_expectancy: Number(r_expectancy.toFixed(2)),
+    r_distribution: r_multiples.length > 0
+      ? R_BUCKETS.map((bucket, index) => ({ bucket: bucket.label, trades: r_counts[index] }))
+      : [],
+    r_equity_curve,
+    daily_pnl,
+    ...dailyStats(daily_pnl),
+    ...riskRatios(daily_pnl, sortedTrades.map(trade => Number(trade.pnl) || 0), startingEquity(options.accountSize, sortedTrades, options.currency)),
   };
 };
\ No newline at end of file
@@ -9,9 +9,17 @@ import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Target, Moon, Heart, Newspaper, DollarSign, ArrowLeft, CheckCircle, AlertTriangle, Shield } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { TablesInsert } from '@/integrations/supabase/types';
+import { useAuth } from '@/components/AuthProvider';
+import { toast } from '@/components/ui/use-toast';
 
 const BiasCheck = () => {
   const navigate = useNavigate();
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
   const [formData, setFormData] = useState({
     sleep: [7],
     mood: 'neutral',
@@ -34,6 +42,21 @@ const BiasCheck = () => {
     excellent: '😊'
   };
 
+  // Saved checks are marked on equity curves for the day they were taken
+  const saveCheckMutation = useMutation({
+    mutationFn: async (check: Omit<TablesInsert<'bias_checks'>, 'user_id'>) => {
+      if (!user) return;
+      const { error } = await supabase.from('bias_checks').insert({ ...check, user_id: user.id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['biasChecks', user?.id] });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Bias check not saved', description: error.message, variant: 'destructive' });
+    },
+  });
+
   const handleSubmit = () => {
     // Simple logic for demo purposes
     const sleepScore = formData.sleep[0];
@@ -59,6 +82,16 @@ const BiasCheck = () => {
       mantra,
       cautionLevel
     });
+    saveCheckMutation.mutate({
+      check_date: format(new Date(), 'yyyy-MM-dd'),
+      sleep_hours: sleepScore,
+      mood: formData.mood,
+      news_impact: formData.newsImpact,
+      yesterday_pnl: formData.yesterdayPnL === '' ? null : pnl,
+      caution_level: cautionLevel,
+      recommended_risk: recommendedRisk,
+      mantra,
+    });
     setIsCompleted(true);
   };
 
@@ -0,0 +1,292 @@
+import { useState } from 'react';
+import { useAuth } from '@/components/AuthProvider';
+import { supabase } from '@/integrations/supabase/client';
+import { useQuery } from '@tanstack/react-query';
+import { useNavigate } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeft, FileSpreadsheet, PencilLine, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import { useImportTemplates } from '@/hooks/useImportTemplates';
+import { ImportMode, MatchingMethod } from '@/lib/fill-matching';
+import { getImportFields, isRequiredFieldMapped } from '@/lib/import-fields';
+import { PnlBasis } from '@/lib/trade-metrics';
+import {
+  ImportTemplate,
+  templateImportMode,
+  templateMapping,
+  templateMatchingMethod,
+  templatePnlBasis
+} from '@/lib/import-templates';
+
+const ALL_JOURNALS = 'all';
+
+const ImportTemplates = () => {
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const { templates, isLoading, updateTemplate, deleteTemplate, isSaving } = useImportTemplates();
+
+  const [editing, setEditing] = useState<ImportTemplate | null>(null);
+  const [name, setName] = useState('');
+  const [journalScope, setJournalScope] = useState(ALL_JOURNALS);
+  const [mode, setMode] = useState<ImportMode>('trades');
+  const [matchingMethod, setMatchingMethod] = useState<MatchingMethod>('fifo');
+  const [pnlBasis, setPnlBasis] = useState<PnlBasis>('net');
+  const [mapping, setMapping] = useState<Record<string, string>>({});
+
+  const { data: journals } = useQuery({
+    queryKey: ['journalNames', user?.id],
+    queryFn: async () => {
+      if (!user) return [];
+      const { data, error } = await supabase
+        .from('journals')
+        .select('id, name')
+        .eq('user_id', user.id)
+        .order('name');
+      if (error) throw error;
+      return data || [];
+    },
+    enabled: !!user,
+  });
+
+  const journalName = (journalId: string | null) =>
+    journalId ? journals?.find(journal => journal.id === journalId)?.name || 'Unknown journal' : 'All journals';
+
+  const openEditor = (template: ImportTemplate) => {
+    setEditing(template);
+    setName(template.name);
+    setJournalScope(template.journal_id || ALL_JOURNALS);
+    setMode(templateImportMode(template));
+    setMatchingMethod(templateMatchingMethod(template));
+    setPnlBasis(templatePnlBasis(template));
+    setMapping(templateMapping(template));
+  };
+
+  const handleSave = () => {
+    if (!editing) return;
+    updateTemplate(
+      {
+        id: editing.id,
+        updates: {
+          name: name.trim() || editing.name,
+          journal_id: journalScope === ALL_JOURNALS ? null : journalScope,
+          import_mode: mode,
+          matching_method: matchingMethod,
+          pnl_basis: pnlBasis,
+          mapping: Object.fromEntries(Object.entries(mapping).filter(([, header]) => header)),
+        },
+      },
+      { onSuccess: () => setEditing(null) }
+    );
+  };
+
+  const handleDelete = (template: ImportTemplate) => {
+    if (window.confirm(`Delete the import template "${template.name}"?`)) {
+      deleteTemplate(template.id);
+    }
+  };
+
+  const { required, optional } = getImportFields(mode);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-slate-50 via-blue-50 to-slate-100">
+      <header className="border-b bg-white/80 backdrop-blur-sm sticky top-0 z-50">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center gap-4">
+            <Button variant="outline" size="icon" onClick={() => navigate('/journals')} aria-label="Back to journals">
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className="text-2xl font-bold text-slate-800">Import Templates</h1>
+              <p className="text-sm text-slate-600">Saved column mappings reused for uploads with matching headers</p>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <div className="container mx-auto p-4 md:p-8">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSpreadsheet className="w-5 h-5 text-blue-600" />
+              My Templates
+            </CardTitle>
+            <CardDescription>
+              Templates are created from the column mapping dialog when you tick "Save as import template".
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <p className="text-slate-500">Loading templates...</p>
+            ) : templates.length === 0 ? (
+              <p className="text-slate-500">No import templates yet. Upload a CSV and save its mapping to create one.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Applies to</TableHead>
+                    <TableHead>Mode</TableHead>
+                    <TableHead>Columns</TableHead>
+                    <TableHead>Last used</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map(template => (
+                    <TableRow key={template.id}>
+                      <TableCell className="font-medium">{template.name}</TableCell>
+                      <TableCell>{journalName(template.journal_id)}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">
+                          {templateImportMode(template) === 'fills'
+                            ? `Fills (${templateMatchingMethod(template) === 'average' ? 'avg cost' : 'FIFO'})`
+                            : 'Closed trades'}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-sm text-slate-600 max-w-xs truncate" title={template.headers.join(', ')}>
+                        {template.headers.length} columns
+                      </TableCell>
+                      <TableCell className="text-sm text-slate-600">
+                        {template.last_used_at ? format(new Date(template.last_used_at), 'MMM d, yyyy') : 'Never'}
+                      </TableCell>
+                      <TableCell className="text-right space-x-2">
+                        <Button variant="ghost" size="icon" onClick={() => openEditor(template)} aria-label="Edit template">
+                          <PencilLine className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="icon" onClick={() => handleDelete(template)} aria-label="Delete template">
+                          <Trash2 className="h-4 w-4 text-red-500" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!editing} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Import Template</DialogTitle>
+            <DialogDescription>
+              Changes apply to the next upload whose headers match this template.
+            </DialogDescription>
+          </DialogHeader>
+
+          {editing && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <Label htmlFor="template-name">Name</Label>
+                  <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+                </div>
+                <div>
+                  <Label>Applies to</Label>
+                  <Select value={journalScope} onValueChange={setJournalScope}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={ALL_JOURNALS}>All journals</SelectItem>
+                      {journals?.map(journal => (
+                        <SelectItem key={journal.id} value={journal.id}>{journal.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label>Each row is</Label>
+                  <Select value={mode} onValueChange={(value) => setMode(value as ImportMode)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="trades">A closed trade with its P&L</SelectItem>
+                      <SelectItem value="fills">A single execution (fill)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {mode === 'fills' && (
+                  <div>
+                    <Label>Matching method</Label>
+                    <Select value={matchingMethod} onValueChange={(value) => setMatchingMethod(value as MatchingMethod)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="fifo">FIFO (first in, first out)</SelectItem>
+                        <SelectItem value="average">Average cost</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {mode === 'trades' && (
+                  <div>
+                    <Label>P&L column is</Label>
+                    <Select value={pnlBasis} onValueChange={(value) => setPnlBasis(value as PnlBasis)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="net">Net (after commissions and fees)</SelectItem>
+                        <SelectItem value="gross">Gross (before commissions and fees)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <h3 className="font-semibold text-slate-800">Column Mapping</h3>
+                {[...required, ...optional].map(field => (
+                  <div key={field.key} className="grid grid-cols-2 gap-4 items-center">
+                    <Label className="flex items-center gap-2">
+                      {field.label}
+                      {required.includes(field) && <Badge variant="outline" className="text-xs">Required</Badge>}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] || 'none'}
+                      onValueChange={(value) => setMapping(prev => ({ ...prev, [field.key]: value === 'none' ? '' : value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select column" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">-- No mapping --</SelectItem>
+                        {editing.headers.map(header => (
+                          <SelectItem key={header} value={header}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={handleSave}
+              disabled={isSaving || required.some(field => !isRequiredFieldMapped(field.key, mapping, mode))}
+              className="bg-gradient-to-r from-blue-600 to-green-500 hover:from-blue-700 hover:to-green-600"
+            >
+              Save Template
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ImportTemplates;
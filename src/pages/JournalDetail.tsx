@@ -42,6 +42,7 @@ const JournalDetail = () => {
           .from('trade_sessions')
           .select('*, trades(*)')
           .eq('journal_id', journalId)
+          .order('trade_date', { ascending: false, nullsFirst: false })
           .order('created_at', { ascending: false })
       ]);
 
@@ -105,6 +106,7 @@ const JournalDetail = () => {
             <h2 className="text-2xl font-bold mb-6">Add Trade to {journal.name}</h2>
             <QuickEntryButton 
               journalId={journal.id} 
+              timeZone={journal.timezone}
               onTradeAdded={handleTradeAdded} 
             />
           </div>
@@ -11,19 +11,32 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, Dialog
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { toast } from '@/components/ui/use-toast';
 import { Badge } from '@/components/ui/badge';
-import { Tables, TablesInsert } from '@/integrations/supabase/types';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Database, Tables, TablesInsert } from '@/integrations/supabase/types';
+import { BROKER_ADAPTERS } from '@/lib/broker-adapters';
+import { DEFAULT_TIMEZONE, TIMEZONE_OPTIONS } from '@/lib/timezones';
+import { CURRENCY_OPTIONS, DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+import { RISK_RATIOS, formatRiskRatio } from '@/lib/trade-metrics';
+import { useReportingCurrency } from '@/hooks/useReportingCurrency';
+import CurrencySelect from '@/components/CurrencySelect';
+import FxRatesDialog from '@/components/FxRatesDialog';
 import { PlusCircle, Trash2, Settings, BarChart3, ChevronRight, TrendingUp, ArrowUpRight, FileSpreadsheet, PencilLine, Info } from 'lucide-react';
 
 type Journal = Tables<'journals'>;
+type JournalSummary = Database['public']['Functions']['get_journal_summary']['Returns'][number];
+
+// The journal cards have room for three of the summary's ratios
+const JOURNAL_CARD_RATIOS = RISK_RATIOS.filter(ratio => ['sharpe_ratio', 'sortino_ratio', 'sqn'].includes(ratio.key));
 
 const Journals = () => {
     const { user } = useAuth();
     const queryClient = useQueryClient();
     const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
     const navigate = useNavigate();
+    const { reportingCurrency, setReportingCurrency } = useReportingCurrency();
 
-    const { data: journals, isLoading } = useQuery<(Journal & { summary?: any })[]>({
-        queryKey: ['journals', user?.id],
+    const { data: journals, isLoading } = useQuery<(Journal & { summary?: JournalSummary | null })[]>({
+        queryKey: ['journals', user?.id, reportingCurrency],
         queryFn: async () => {
             if (!user) return [];
             
@@ -37,19 +50,19 @@ const Journals = () => {
                 
                 if (error) throw error;
                 
-                // For each journal, fetch a summary using our new function
+                // For each journal, fetch a summary with its P&L in the reporting currency
                 const journalsWithSummary = await Promise.all(
                     (journalsData || []).map(async (journal) => {
                         try {
                             const { data: summaryData, error: summaryError } = await supabase
-                                .rpc('get_journal_summary', { p_journal_id: journal.id });
+                                .rpc('get_journal_summary', { p_journal_id: journal.id, p_currency: reportingCurrency });
                             
                             if (summaryError) {
                                 console.error('Error fetching journal summary:', summaryError);
                                 return { ...journal, summary: null };
                             }
                             
-                            return { ...journal, summary: summaryData };
+                            return { ...journal, summary: summaryData?.[0] || null };
                         } catch (err) {
                             console.error('Failed to fetch summary for journal:', journal.id, err);
                             return { ...journal, summary: null };
@@ -115,6 +128,8 @@ const Journals = () => {
             prop_firm: formData.get('prop_firm') as string,
             account_size: accountSize ? Number(accountSize) : null,
             broker: formData.get('broker') as string,
+            timezone: (formData.get('timezone') as string) || DEFAULT_TIMEZONE,
+            currency: (formData.get('currency') as string) || DEFAULT_CURRENCY,
         };
         createJournalMutation.mutate(newJournal);
     };
@@ -133,13 +148,24 @@ const Journals = () => {
                                 <p className="text-sm text-slate-600">Organize and analyze your trades by account</p>
                             </div>
                         </div>
-                        <Button
-                            onClick={() => navigate('/dashboard')}
-                            variant="outline"
-                            className="border-slate-300"
-                        >
-                            Dashboard
-                        </Button>
+                        <div className="flex items-center gap-2">
+                            <CurrencySelect value={reportingCurrency} onChange={setReportingCurrency} label="Reporting currency" />
+                            <FxRatesDialog />
+                            <Button
+                                onClick={() => navigate('/import-templates')}
+                                variant="outline"
+                                className="border-slate-300"
+                            >
+                                <FileSpreadsheet className="mr-2 h-4 w-4" /> Import Templates
+                            </Button>
+                            <Button
+                                onClick={() => navigate('/dashboard')}
+                                variant="outline"
+                                className="border-slate-300"
+                            >
+                                Dashboard
+                            </Button>
+                        </div>
                     </div>
                 </div>
             </header>
@@ -178,13 +204,47 @@ const Journals = () => {
                                         <Input id="prop_firm" name="prop_firm" placeholder="e.g. Apex Trader Funding" className="bg-white"/>
                                     </div>
                                     <div>
-                                        <label htmlFor="account_size" className="block text-sm font-medium text-gray-700 mb-1">Account Size ($)</label>
+                                        <label htmlFor="account_size" className="block text-sm font-medium text-gray-700 mb-1">Account Size</label>
                                         <Input id="account_size" name="account_size" type="number" step="any" placeholder="e.g. 50000" className="bg-white"/>
                                     </div>
                                 </div>
+                                <div>
+                                    <label htmlFor="currency" className="block text-sm font-medium text-gray-700 mb-1">Account Currency</label>
+                                    <Select name="currency" defaultValue={DEFAULT_CURRENCY}>
+                                        <SelectTrigger id="currency" className="bg-white">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {CURRENCY_OPTIONS.map(option => (
+                                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <p className="text-xs text-slate-500 mt-1">Trades are in this currency unless the import says otherwise.</p>
+                                </div>
                                 <div>
                                     <label htmlFor="broker" className="block text-sm font-medium text-gray-700 mb-1">Broker</label>
-                                    <Input id="broker" name="broker" placeholder="e.g. Tradovate" className="bg-white"/>
+                                    <Input id="broker" name="broker" list="broker-adapters" placeholder="e.g. Tradovate" className="bg-white"/>
+                                    <datalist id="broker-adapters">
+                                        {BROKER_ADAPTERS.map(adapter => (
+                                            <option key={adapter.id} value={adapter.name} />
+                                        ))}
+                                    </datalist>
+                                    <p className="text-xs text-slate-500 mt-1">Known brokers are imported with an exact column mapping.</p>
+                                </div>
+                                <div>
+                                    <label htmlFor="timezone" className="block text-sm font-medium text-gray-700 mb-1">Timezone</label>
+                                    <Select name="timezone" defaultValue={DEFAULT_TIMEZONE}>
+                                        <SelectTrigger id="timezone" className="bg-white">
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            {TIMEZONE_OPTIONS.map(option => (
+                                                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                    <p className="text-xs text-slate-500 mt-1">Timestamps without an offset are read in this zone, and hourly and weekday stats use it.</p>
                                 </div>
                                 <DialogFooter className="mt-6">
                                     <Button type="button" variant="outline" onClick={() => setIsCreateDialogOpen(false)}>
@@ -271,7 +331,7 @@ const Journals = () => {
                                         <div>
                                             <p className="text-xs text-slate-500">Account Size</p>
                                             <p className="font-medium text-slate-700">
-                                                {journal.account_size ? `$${journal.account_size.toLocaleString()}` : 'N/A'}
+                                                {journal.account_size ? formatMoney(journal.account_size, journal.currency, 0) : 'N/A'}
                                             </p>
                                         </div>
                                         <div>
@@ -292,7 +352,7 @@ const Journals = () => {
                                                 <div>
                                                     <p className="text-xs text-slate-500">Total P&L</p>
                                                     <p className={`text-sm font-semibold ${journal.summary.total_pnl >= 0 ? 'text-green-600' : 'text-red-600'}`}>
-                                                        {journal.summary.total_pnl >= 0 ? '+' : ''}{journal.summary.total_pnl?.toFixed(2)}
+                                                        {journal.summary.total_pnl >= 0 ? '+' : ''}{formatMoney(journal.summary.total_pnl, journal.summary.currency)}
                                                     </p>
                                                 </div>
                                                 <div>
@@ -304,6 +364,19 @@ const Journals = () => {
                                                     <p className="text-sm font-semibold text-slate-700">{journal.summary.total_trades}</p>
                                                 </div>
                                             </div>
+                                            <div className="grid grid-cols-3 gap-2 text-center mt-2 pt-2 border-t border-slate-200">
+                                                {JOURNAL_CARD_RATIOS.map(ratio => (
+                                                    <div key={ratio.key} title={ratio.explanation} className="cursor-help">
+                                                        <p className="text-xs text-slate-500">{ratio.label}</p>
+                                                        <p className="text-sm font-semibold text-purple-600">{formatRiskRatio(ratio.key, journal.summary?.[ratio.key])}</p>
+                                                    </div>
+                                                ))}
+                                            </div>
+                                            {journal.summary.unconverted_trades > 0 && (
+                                                <p className="text-xs text-amber-700 mt-2 text-center">
+                                                    {journal.summary.unconverted_trades} trade{journal.summary.unconverted_trades === 1 ? '' : 's'} left out: no {journal.summary.currency} FX rate
+                                                </p>
+                                            )}
                                         </div>
                                     )}
                                     
@@ -5,6 +5,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useQuery } from '@tanstack/react-query';
 import { toast } from '@/components/ui/use-toast';
 import { Tables } from '@/integrations/supabase/types';
+import { dayToDate, sessionDay } from '@/lib/timezones';
 import { Button } from '@/components/ui/button';
 import { ArrowLeft } from 'lucide-react';
 import AnalysisView from '@/components/AutoJournal/AnalysisView';
@@ -113,13 +114,13 @@ const SessionDetail = () => {
               {journal?.name || 'Trading Session'}
             </h1>
             <p className="text-muted-foreground">
-              Session from {new Date(session.created_at).toLocaleDateString()}
+              Trading day {dayToDate(sessionDay(session, journal?.timezone)).toLocaleDateString()}
             </p>
           </div>
         </div>
       </div>
       <div className="flex-1">
-        <AnalysisView currentSession={session} onUploadNew={handleUploadNew} />
+        <AnalysisView currentSession={session} onUploadNew={handleUploadNew} timeZone={journal?.timezone} currency={journal?.currency} accountSize={journal?.account_size} />
       </div>
     </div>
   );
@@ -14,6 +14,11 @@ import { toast } from '@/components/ui/use-toast';
 import { Tables } from '@/integrations/supabase/types';
 import { ArrowLeft, Save, Calendar, DollarSign, TrendingUp, TrendingDown, Brain, Target, AlertCircle, CheckCircle, Image, PlusCircle, Link2, FileText, Lightbulb, Star, Plus, X, Settings, BookOpen, Sparkles, Link } from 'lucide-react';
 import { format } from 'date-fns';
+import { tradeInitialRisk, tradeRMultiple } from '@/lib/trade-metrics';
+
+/** Blank or non-numeric inputs clear the column */
+const parseOptionalNumber = (value: string): number | null =>
+  value.trim() === '' || isNaN(Number(value)) ? null : Number(value);
 
 const TradeNotes = () => {
   const { tradeId } = useParams<{ tradeId: string }>();
@@ -50,6 +55,9 @@ const TradeNotes = () => {
   const [showAiSuggestions, setShowAiSuggestions] = useState(false);
   const [playbookId, setPlaybookId] = useState<string>('');
   const [tradingViewLink, setTradingViewLink] = useState('');
+  const [plannedStop, setPlannedStop] = useState('');
+  const [plannedTarget, setPlannedTarget] = useState('');
+  const [initialRisk, setInitialRisk] = useState('');
   
   // Custom field options
   const [customOptions, setCustomOptions] = useState<{[key: string]: string[]}>({});
@@ -145,6 +153,9 @@ const TradeNotes = () => {
       setTags((trade as any).tags || []);
       setImageUrl(trade.image_url || '');
       setPlaybookId((trade as any).playbook_id || '');
+      setPlannedStop(trade.planned_stop?.toString() ?? '');
+      setPlannedTarget(trade.planned_target?.toString() ?? '');
+      setInitialRisk(trade.initial_risk?.toString() ?? '');
       
       // Parse detailed notes if they exist
       try {
@@ -198,12 +209,18 @@ const TradeNotes = () => {
       lastUpdated: new Date().toISOString()
     };
 
+    // Initial risk must be positive; zero or blank falls back to the planned stop
+    const riskDollars = parseOptionalNumber(initialRisk);
+
     updateTradeMutation.mutate({
       notes: JSON.stringify(detailedNotes),
       strategy,
       tags, 
       image_url: imageUrl,
       playbook_id: playbookId || null,
+      planned_stop: parseOptionalNumber(plannedStop),
+      planned_target: parseOptionalNumber(plannedTarget),
+      initial_risk: riskDollars ? Math.abs(riskDollars) : null,
     } as any);
   };
 
@@ -638,6 +655,64 @@ const TradeNotes = () => {
           </CardContent>
         </Card>
 
+        {/* Risk Plan */}
+        {(() => {
+          const plannedTrade = {
+            ...trade,
+            planned_stop: parseOptionalNumber(plannedStop),
+            planned_target: parseOptionalNumber(plannedTarget),
+            initial_risk: parseOptionalNumber(initialRisk),
+          };
+          const risk = tradeInitialRisk(plannedTrade);
+          const rMultiple = tradeRMultiple(plannedTrade);
+          const entry = trade.entry_price ?? trade.price;
+          const stopDistance = plannedTrade.planned_stop !== null && entry !== null ? Math.abs(entry - plannedTrade.planned_stop) : 0;
+          const targetDistance = plannedTrade.planned_target !== null && entry !== null ? Math.abs(plannedTrade.planned_target - entry) : 0;
+
+          return (
+            <Card className="mb-8 border-0 shadow-lg">
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Target className="w-5 h-5 text-orange-600" />
+                  <span>Risk Plan</span>
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid md:grid-cols-3 gap-4 mb-4">
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Planned Stop</label>
+                    <Input type="number" step="any" placeholder="Stop-loss price" value={plannedStop} onChange={(e) => setPlannedStop(e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Planned Target</label>
+                    <Input type="number" step="any" placeholder="Profit target price" value={plannedTarget} onChange={(e) => setPlannedTarget(e.target.value)} />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-slate-700 mb-2">Initial Risk ($)</label>
+                    <Input type="number" step="0.01" min="0" placeholder={risk ? `From stop: ${risk.toFixed(2)}` : 'Dollars at risk'} value={initialRisk} onChange={(e) => setInitialRisk(e.target.value)} />
+                  </div>
+                </div>
+                <div className="grid md:grid-cols-3 gap-4 text-sm">
+                  <div className="p-3 rounded-lg bg-slate-50">
+                    <p className="text-slate-600">Risk</p>
+                    <p className="font-semibold">{risk ? `$${risk.toFixed(2)}` : 'Not set'}</p>
+                  </div>
+                  <div className="p-3 rounded-lg bg-slate-50">
+                    <p className="text-slate-600">Planned Reward:Risk</p>
+                    <p className="font-semibold">{stopDistance > 0 && targetDistance > 0 ? `${(targetDistance / stopDistance).toFixed(2)}:1` : '-'}</p>
+                  </div>
+                  <div className={`p-3 rounded-lg ${rMultiple === null ? 'bg-slate-50' : rMultiple >= 0 ? 'bg-green-50' : 'bg-red-50'}`}>
+                    <p className="text-slate-600">R-Multiple</p>
+                    <p className={`font-semibold ${rMultiple === null ? '' : rMultiple >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                      {rMultiple === null ? '-' : `${rMultiple >= 0 ? '+' : ''}${rMultiple.toFixed(2)}R`}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })()}
+
         {/* Strategy and Tags */}
         <div className="grid lg:grid-cols-2 gap-6 mb-8">
           <Card className="border-0 shadow-lg">
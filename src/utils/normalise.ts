@@ -3,6 +3,8 @@
  * Handles all broker-specific formatting quirks in a deterministic way
  */
 
+import { parseDateTimeInZone } from '@/lib/timezones';
+
 /**
  * Parse a money/number field: removes $ , () % and whitespace.
  * Handles international formats and broker-specific negative representations.
@@ -15,8 +17,6 @@ export function parseNumber(raw: string | number | null | undefined): number {
   const s = String(raw).trim();
   if (!s) return NaN;
 
-  console.log(`🔍 Parsing value: "${raw}"`);
-
   let isNegative = false;
 
   // Handle parentheses formats: (500), ($500), (500.00), etc.
@@ -32,7 +32,6 @@ export function parseNumber(raw: string | number | null | undefined): number {
     if (match) {
       isNegative = true;
       cleanValue = match[1];
-      console.log(`💰 Found parentheses format: "${raw}" -> negative: ${cleanValue}`);
       break;
     }
   }
@@ -41,14 +40,12 @@ export function parseNumber(raw: string | number | null | undefined): number {
   if (!isNegative && cleanValue.match(/.*-\s*$/)) {
     isNegative = true;
     cleanValue = cleanValue.replace(/-\s*$/, '');
-    console.log(`➖ Found trailing minus: "${raw}" -> negative: ${cleanValue}`);
   }
 
   // Check for leading minus
   if (!isNegative && cleanValue.startsWith('-')) {
     isNegative = true;
     cleanValue = cleanValue.slice(1);
-    console.log(`⬅️ Found leading minus: "${raw}" -> negative: ${cleanValue}`);
   }
 
   // Remove currency symbols and spaces first, but keep numbers, commas, and periods
@@ -69,11 +66,9 @@ export function parseNumber(raw: string | number | null | undefined): number {
     if (afterLastComma.length <= 3 && /^\d+$/.test(afterLastComma)) {
       // Likely decimal separator (e.g., "123,45" or "1234,56")
       cleanValue = cleanValue.replace(',', '.').replace(/[^0-9.]/g, '');
-      console.log(`🌍 Detected comma as decimal separator: "${raw}" -> "${cleanValue}"`);
     } else {
       // Likely thousands separators (e.g., "1,234,567")
       cleanValue = cleanValue.replace(/,/g, '').replace(/[^0-9]/g, '');
-      console.log(`🌍 Detected commas as thousands separators: "${raw}" -> "${cleanValue}"`);
     }
   } else if (commaCount > 0 && periodCount > 0) {
     // Both commas and periods present
@@ -85,13 +80,11 @@ export function parseNumber(raw: string | number | null | undefined): number {
       const beforeDecimal = cleanValue.substring(0, lastCommaIndex).replace(/[^0-9]/g, '');
       const afterDecimal = cleanValue.substring(lastCommaIndex + 1).replace(/[^0-9]/g, '');
       cleanValue = beforeDecimal + '.' + afterDecimal;
-      console.log(`🌍 Detected European format (period=thousands, comma=decimal): "${raw}" -> "${cleanValue}"`);
     } else {
       // Period comes after comma, period is decimal separator (e.g., "1,234.56")
       const beforeDecimal = cleanValue.substring(0, lastPeriodIndex).replace(/[^0-9]/g, '');
       const afterDecimal = cleanValue.substring(lastPeriodIndex + 1).replace(/[^0-9]/g, '');
       cleanValue = beforeDecimal + '.' + afterDecimal;
-      console.log(`🌍 Detected US format (comma=thousands, period=decimal): "${raw}" -> "${cleanValue}"`);
     }
   } else {
     // Multiple periods, no commas - remove all but last period
@@ -111,13 +104,7 @@ export function parseNumber(raw: string | number | null | undefined): number {
 
   const parsed = parseFloat(cleanValue);
   const result = isNaN(parsed) ? NaN : parsed;
-  const finalValue = isNegative ? -Math.abs(result) : result;
-  
-  if (isNegative || Math.abs(result) > 0) {
-    console.log(`✅ Final parsed value: "${raw}" -> ${finalValue} (negative: ${isNegative})`);
-  }
-  
-  return finalValue;
+  return isNegative ? -Math.abs(result) : result;
 }
 
 /**
@@ -134,6 +121,10 @@ export function inferSide(
   if (explicit) {
     const t = explicit.toString().trim().toUpperCase();
     
+    // Option order actions: buy/sell to open/close
+    if (['BTO', 'BTC'].includes(t)) return 'BUY';
+    if (['STO', 'STC'].includes(t)) return 'SELL';
+
     // Standard variations
     if (['BUY', 'B', 'LONG', 'L'].includes(t)) return 'BUY';
     if (['SELL', 'S', 'SHORT', 'SH', 'SL'].includes(t)) return 'SELL';
@@ -162,10 +153,73 @@ export function inferSide(
     return exitPrice >= entryPrice ? 'BUY' : 'SELL';
   }
 
-  console.warn(`⚠️ Could not infer side from: explicit="${explicit}", qty=${qty}, entryPrice=${entryPrice}, exitPrice=${exitPrice}`);
   return null; // Give up → mark row invalid
 }
 
+/**
+ * Parse a date without a time (an option expiry, an FX rate date) to yyyy-MM-dd: ISO dates,
+ * US MM/dd/yyyy, or anything Date understands, read on the local calendar
+ */
+export function parseDateOnly(raw: string | number | null | undefined): string | null {
+  const value = (raw ?? '').toString().trim();
+  if (!value) return null;
+
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return `${iso[1]}-${iso[2]}-${iso[3]}`;
+
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (us) {
+    const year = us[3].length === 2 ? `20${us[3]}` : us[3];
+    return `${year}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}`;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return null;
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(part => part.toString().padStart(2, '0')).join('-');
+}
+
+/** An option contract read from its OCC symbol */
+export interface OccContract {
+  /** OCC root, e.g. `SPXW` for SPX weeklies */
+  root: string;
+  /** Expiry date, yyyy-MM-dd */
+  expiry: string;
+  optionType: 'CALL' | 'PUT';
+  strike: number;
+}
+
+// Root (padded to six characters in the strict form), YYMMDD, C/P and the strike times 1000 in eight
+// digits. Leading `.` (thinkorswim) and `O:` (Polygon) prefixes are accepted.
+const OCC_SYMBOL = /^(?:O:|\.)?([A-Z][A-Z0-9]{0,5})\s*(\d{2})(\d{2})(\d{2})([CP])(\d{8})$/;
+
+/**
+ * Parse an OCC option symbol such as `SPXW  240119C04800000` or `AAPL240621P00185000`.
+ * Returns null for anything else, including stock and futures symbols.
+ */
+export function parseOccSymbol(raw: string | null | undefined): OccContract | null {
+  if (!raw) return null;
+
+  const match = raw.toString().trim().toUpperCase().match(OCC_SYMBOL);
+  if (!match) return null;
+
+  const [, root, year, month, day, callPut, strike] = match;
+  if (Number(month) < 1 || Number(month) > 12 || Number(day) < 1 || Number(day) > 31) return null;
+
+  return {
+    root,
+    expiry: `20${year}-${month}-${day}`,
+    optionType: callPut === 'C' ? 'CALL' : 'PUT',
+    strike: Number(strike) / 1000,
+  };
+}
+
+/** Compact OCC symbol for a contract, without the root padding: `SPXW240119C04800000` */
+export function formatOccSymbol(contract: OccContract): string {
+  const expiry = contract.expiry.slice(2).replace(/-/g, '');
+  const strike = Math.round(contract.strike * 1000).toString().padStart(8, '0');
+  return `${contract.root}${expiry}${contract.optionType[0]}${strike}`;
+}
+
 /**
  * Normalize a symbol string for consistency
  */
@@ -174,11 +228,18 @@ export function normalizeSymbol(raw: string | null | undefined): string | null {
   
   const symbol = raw.toString().trim().toUpperCase();
   if (!symbol) return null;
+
+  // Brokers pad or prefix OCC symbols differently; store them in one compact form
+  const option = parseOccSymbol(symbol);
+  if (option) return formatOccSymbol(option);
   
   // Remove common prefixes/suffixes that some brokers add
+  // (futures: thinkorswim's leading slash on /ESZ24 and exchange suffixes like NQZ4:XCME)
   return symbol
     .replace(/^(NASDAQ:|NYSE:|AMEX:)/i, '')
     .replace(/\.(US|USA)$/i, '')
+    .replace(/^\//, '')
+    .replace(/:(XCME|XCBT|XNYM|XCEC|XEUR|CME|CBOT|NYMEX|COMEX|GLOBEX)$/i, '')
     .trim();
 }
 
@@ -196,27 +257,20 @@ export function parseTags(raw: string | null | undefined): string[] {
 }
 
 /**
- * Validate that a datetime string can be parsed
+ * Validate that a datetime string can be parsed.
+ * Timestamps without an offset are read in `timeZone` when given, otherwise in the browser's zone.
  */
-export function validateDateTime(raw: string | null | undefined): Date | null {
+export function validateDateTime(raw: string | null | undefined, timeZone?: string): Date | null {
   if (!raw) return null;
   
-  const date = new Date(raw.toString());
+  const date = timeZone ? parseDateTimeInZone(raw.toString(), timeZone) : new Date(raw.toString());
   if (isNaN(date.getTime())) return null;
   
   // Sanity checks
   const now = new Date();
   const minDate = new Date('2000-01-01');
   
-  if (date > now) {
-    console.warn(`⚠️ Future datetime detected: ${raw}`);
-    return null;
-  }
-  
-  if (date < minDate) {
-    console.warn(`⚠️ Very old datetime detected: ${raw}`);
-    return null;
-  }
+  if (date > now || date < minDate) return null;
   
   return date;
 }
\ No newline at end of file
@@ -0,0 +1,45 @@
+import Papa from 'papaparse';
+import type { ImportRow } from '@/lib/import-issues';
+import type { CsvStreamMessage, CsvStreamRequest } from '@/lib/import-files';
+
+/**
+ * Parses a CSV file off the main thread. The file is read a chunk at a time and parsing pauses
+ * after each chunk until the page asks for the next, so neither side holds more than one chunk
+ * of the file however slowly the rows are handled.
+ */
+
+const CHUNK_SIZE = 1024 * 1024;
+
+const post = (message: CsvStreamMessage) => self.postMessage(message);
+
+let parser: Papa.Parser | null = null;
+
+const start = (file: File) => {
+  let headers: string[] = [];
+  let rowCount = 0;
+  let errorCount = 0;
+
+  Papa.parse<ImportRow>(file, {
+    header: true,
+    skipEmptyLines: true,
+    chunkSize: CHUNK_SIZE,
+    transformHeader: (header) => header.trim(),
+    chunk: (results, chunkParser) => {
+      headers = results.meta.fields || headers;
+      rowCount += results.data.length;
+      errorCount += results.errors.length;
+      parser = chunkParser;
+      parser.pause();
+      // The cursor counts characters, which is close enough to bytes for a progress bar
+      post({ type: 'rows', headers, rows: results.data, progress: Math.min(1, results.meta.cursor / (file.size || 1)) });
+    },
+    complete: () => post({ type: 'done', headers, rowCount, errorCount }),
+    error: (error) => post({ type: 'error', message: error.message }),
+  });
+};
+
+self.onmessage = (event: MessageEvent<CsvStreamRequest>) => {
+  const request = event.data;
+  if (request.type === 'start') start(request.file);
+  else parser?.resume();
+};
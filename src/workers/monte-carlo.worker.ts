@@ -0,0 +1,14 @@
+import { runMonteCarlo } from '@/lib/monte-carlo';
+import type { MonteCarloMessage, MonteCarloRequest } from '@/lib/monte-carlo';
+
+/** Runs a Monte Carlo simulation off the main thread and posts back the summary */
+
+const post = (message: MonteCarloMessage) => self.postMessage(message);
+
+self.onmessage = (event: MessageEvent<MonteCarloRequest>) => {
+  try {
+    post({ type: 'result', result: runMonteCarlo(event.data) });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : 'The simulation failed.' });
+  }
+};
@@ -0,0 +1,57 @@
+/**
+ * Journal timezone helpers for edge functions, which cannot import the app's `src/lib/timezones.ts`.
+ * Keep `zonedParts` in step with the app's copy so both bucket times on the same clock.
+ */
+
+export const DEFAULT_TIMEZONE = 'America/New_York';
+
+/** Wall clock reading of an instant in a timezone; month is 1-based */
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  /** English weekday name, e.g. `Monday` */
+  weekday: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const formatterFor = (timeZone: string | undefined): Intl.DateTimeFormat => {
+  const key = timeZone || '';
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'long',
+    });
+    formatters.set(key, formatter);
+  }
+  return formatter;
+};
+
+/** Read an instant on the wall clock of `timeZone`; the runtime's zone (UTC on Supabase) when none is given */
+export const zonedParts = (date: Date, timeZone?: string): ZonedParts => {
+  const parts: Record<string, string> = {};
+  formatterFor(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: parts.weekday,
+  };
+};
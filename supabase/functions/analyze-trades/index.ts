@@ -1,5 +1,6 @@
 import 'https://deno.land/x/xhr@0.1.0/mod.ts';
 import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
+import { DEFAULT_TIMEZONE, zonedParts } from '../_shared/timezones.ts';
 
 const GEMINI_API_KEY = Deno.env.get('GEMINI_API_KEY');
 const GEMINI_API_URL = `https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash-latest:generateContent?key=${GEMINI_API_KEY}`;
@@ -15,7 +16,7 @@ serve(async (req) => {
     }
 
     try {
-        const { trades } = await req.json();
+        const { trades, timeZone = DEFAULT_TIMEZONE } = await req.json();
 
         if (!trades || !Array.isArray(trades) || trades.length === 0) {
             return new Response(JSON.stringify({ error: 'Trades data is required and should be a non-empty array.' }), {
@@ -32,11 +33,11 @@ serve(async (req) => {
         const losers = tradesForAnalysis.filter(t => (t.pnl || 0) < 0);
         const winRate = tradesForAnalysis.length > 0 ? (winners.length / tradesForAnalysis.length) * 100 : 0;
 
-        // Group trades by hour to analyze time patterns
+        // Group trades by hour on the journal's clock, as the client's time-of-day charts do
         const hourlyData = {};
         tradesForAnalysis.forEach(trade => {
             if (trade.datetime) {
-                const hour = new Date(trade.datetime).getHours();
+                const { hour } = zonedParts(new Date(trade.datetime), timeZone);
                 if (!hourlyData[hour]) hourlyData[hour] = [];
                 hourlyData[hour].push(trade.pnl || 0);
             }
@@ -50,6 +51,22 @@ serve(async (req) => {
             symbolData[symbol].push(trade.pnl || 0);
         });
 
+        // Excursions (MAE/MFE, positive dollar amounts) exist only once price bars were loaded for the trades
+        const measured = tradesForAnalysis.filter(t => t.mae != null && t.mfe != null);
+        // MFE is a gross price move, so capture compares it with P&L before commission and fees as the app does
+        const grossPnl = (t) => (t.pnl || 0) + (t.commission || 0) + (t.fees || 0);
+        const avg = (values) => values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+        const excursionSection = measured.length > 0 ? `
+EXCURSION DATA (${measured.length} trades measured against price bars, dollars):
+- Avg MAE on winners: $${avg(measured.filter(t => (t.pnl || 0) > 0).map(t => t.mae)).toFixed(2)}
+- Avg MAE on losers: $${avg(measured.filter(t => (t.pnl || 0) < 0).map(t => t.mae)).toFixed(2)}
+- Avg MFE on winners: $${avg(measured.filter(t => (t.pnl || 0) > 0).map(t => t.mfe)).toFixed(2)}
+- Avg MFE on losers: $${avg(measured.filter(t => (t.pnl || 0) < 0).map(t => t.mfe)).toFixed(2)}
+- Avg share of MFE kept by winners: ${avg(measured.filter(t => (t.pnl || 0) > 0 && t.mfe > 0).map(t => grossPnl(t) / t.mfe * 100)).toFixed(0)}%
+Use these to judge stop placement (losers with MAE far beyond winners' MAE suggest stops are too wide or missing)
+and exit timing (winners keeping a small share of MFE suggest profits are cut early or given back).
+` : '';
+
         const prompt = `
 You are a professional trading psychology coach and performance analyst. Analyze this trader's performance data.
 
@@ -67,7 +84,7 @@ ${JSON.stringify(hourlyData, null, 2)}
 
 SYMBOL PERFORMANCE DATA:
 ${JSON.stringify(symbolData, null, 2)}
-
+${excursionSection}
 As a trading coach, provide analysis focusing on:
 1. Psychological patterns and biases
 2. Risk management behaviors
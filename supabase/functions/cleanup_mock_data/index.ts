@@ -26,12 +26,9 @@ serve(async (req) => {
       });
     }
 
-    // Delete mock trades based on patterns
+    // Only rows flagged is_sample are removed; real trades in the same symbols are kept
     const { error: deleteError } = await supabaseClient
-      .from('trades')
-      .delete()
-      .eq('user_id', user_uuid)
-      .or('notes.ilike.%Mock trade%,symbol.in.(AAPL,TSLA,GOOG,GOOGL,META,NVDA,AMZN,MSFT)');
+      .rpc('cleanup_mock_data', { user_uuid });
 
     if (deleteError) {
       console.error('Error deleting mock data:', deleteError);
@@ -0,0 +1,63 @@
+/*
+  # Create import templates table
+
+  1. New Table
+    - `import_templates` - Named column mappings confirmed by a user during CSV import
+    - Keyed by a header fingerprint so a later upload with the same columns can reuse the mapping
+    - Optionally scoped to a single journal; NULL `journal_id` applies to all of the user's journals
+    - Stores the import mode and fill matching method alongside the mapping
+
+  2. Security
+    - Row-level security policies to ensure users can only access their own templates
+*/
+
+CREATE TABLE IF NOT EXISTS import_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  journal_id uuid REFERENCES journals(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  header_fingerprint text NOT NULL,
+  headers text[] NOT NULL DEFAULT '{}',
+  mapping jsonb NOT NULL DEFAULT '{}'::jsonb,
+  import_mode text NOT NULL DEFAULT 'trades' CHECK (import_mode IN ('trades', 'fills')),
+  matching_method text NOT NULL DEFAULT 'fifo' CHECK (matching_method IN ('fifo', 'average')),
+  last_used_at timestamptz,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+-- One template per header layout for each scope (a journal, or all journals)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_import_templates_scope_fingerprint
+  ON import_templates (user_id, COALESCE(journal_id, '00000000-0000-0000-0000-000000000000'::uuid), header_fingerprint);
+
+CREATE INDEX IF NOT EXISTS idx_import_templates_user_fingerprint
+  ON import_templates (user_id, header_fingerprint);
+
+-- Enable row level security
+ALTER TABLE import_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own import templates"
+  ON import_templates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import templates"
+  ON import_templates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import templates"
+  ON import_templates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import templates"
+  ON import_templates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
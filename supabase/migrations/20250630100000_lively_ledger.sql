@@ -0,0 +1,38 @@
+/*
+  # Add commissions and fees to trades
+
+  1. Trades
+    - `commission` - broker commission charged on the round trip, as a positive amount
+    - `fees` - exchange, clearing and regulatory (NFA) fees, as a positive amount
+    - `pnl` remains the net P&L; gross P&L is `pnl + commission + fees`
+
+  2. Trade Sessions
+    - `gross_pnl`, `total_commissions`, `total_fees` - stored alongside the existing net metrics
+
+  3. Import Templates
+    - `pnl_basis` - whether the mapped P&L column is reported net of fees or gross
+*/
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS commission numeric NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS fees numeric NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN trades.pnl IS 'Net P&L after commission and fees';
+COMMENT ON COLUMN trades.commission IS 'Broker commission, positive amount';
+COMMENT ON COLUMN trades.fees IS 'Exchange, clearing and regulatory fees, positive amount';
+
+ALTER TABLE trade_sessions
+  ADD COLUMN IF NOT EXISTS gross_pnl numeric,
+  ADD COLUMN IF NOT EXISTS total_commissions numeric,
+  ADD COLUMN IF NOT EXISTS total_fees numeric;
+
+-- Existing sessions had no fee data, so gross equals net
+UPDATE trade_sessions
+SET
+  gross_pnl = total_pnl,
+  total_commissions = 0,
+  total_fees = 0
+WHERE gross_pnl IS NULL;
+
+ALTER TABLE import_templates
+  ADD COLUMN IF NOT EXISTS pnl_basis text NOT NULL DEFAULT 'net' CHECK (pnl_basis IN ('net', 'gross'));
@@ -0,0 +1,30 @@
+/*
+  # Entry and exit legs on trades
+
+  1. Trades
+    - `entry_price`, `exit_price` - opening and closing prices of the round trip
+    - `entry_time`, `exit_time` - when the position was opened and closed
+    - `price` and `datetime` are kept for existing readers; `datetime` is the close of the trade
+    - Holding time is derived as `exit_time - entry_time`, so it is not stored
+
+  2. Existing rows
+    - Trades imported before this change only kept one price and one timestamp, and the
+      importer's single `price` was not always the entry, so the new columns stay null for them
+*/
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS entry_price numeric,
+  ADD COLUMN IF NOT EXISTS exit_price numeric,
+  ADD COLUMN IF NOT EXISTS entry_time timestamptz,
+  ADD COLUMN IF NOT EXISTS exit_time timestamptz;
+
+ALTER TABLE trades
+  ADD CONSTRAINT trades_exit_after_entry
+  CHECK (entry_time IS NULL OR exit_time IS NULL OR exit_time >= entry_time);
+
+COMMENT ON COLUMN trades.entry_price IS 'Price the position was opened at';
+COMMENT ON COLUMN trades.exit_price IS 'Price the position was closed at';
+COMMENT ON COLUMN trades.entry_time IS 'When the position was opened';
+COMMENT ON COLUMN trades.exit_time IS 'When the position was closed';
+
+CREATE INDEX IF NOT EXISTS trades_exit_time_idx ON trades (journal_id, exit_time);
@@ -0,0 +1,31 @@
+/*
+  # Planned risk and R-multiples
+
+  1. Trades
+    - `planned_stop` - stop-loss price planned when the trade was opened
+    - `planned_target` - profit target price planned when the trade was opened
+    - `initial_risk` - dollars at risk when the trade was opened, as a positive amount.
+      When null the app derives it from `planned_stop`, the entry price, quantity and point value.
+
+  2. Trade Sessions
+    - `trades_with_risk` - number of trades with a planned risk; the R figures cover only these
+    - `avg_r_multiple`, `r_expectancy` - average R and win-rate weighted R expectancy
+    - `r_distribution` - histogram of R-multiples
+    - `r_equity_curve` - cumulative R by trade
+*/
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS planned_stop numeric,
+  ADD COLUMN IF NOT EXISTS planned_target numeric,
+  ADD COLUMN IF NOT EXISTS initial_risk numeric CHECK (initial_risk IS NULL OR initial_risk > 0);
+
+COMMENT ON COLUMN trades.planned_stop IS 'Planned stop-loss price at entry';
+COMMENT ON COLUMN trades.planned_target IS 'Planned profit target price at entry';
+COMMENT ON COLUMN trades.initial_risk IS 'Dollars at risk at entry, positive amount';
+
+ALTER TABLE trade_sessions
+  ADD COLUMN IF NOT EXISTS trades_with_risk integer,
+  ADD COLUMN IF NOT EXISTS avg_r_multiple numeric,
+  ADD COLUMN IF NOT EXISTS r_expectancy numeric,
+  ADD COLUMN IF NOT EXISTS r_distribution jsonb,
+  ADD COLUMN IF NOT EXISTS r_equity_curve jsonb;
@@ -0,0 +1,16 @@
+/*
+  # Trade excursions
+
+  1. Trades
+    - `mae` - maximum adverse excursion between entry and exit, in dollars, as a positive amount
+    - `mfe` - maximum favorable excursion between entry and exit, in dollars, as a positive amount
+    - Both are calculated in the app from OHLC bars the user loads for the trade's symbol,
+      so they stay null until bars covering the trade have been loaded
+*/
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS mae numeric CHECK (mae IS NULL OR mae >= 0),
+  ADD COLUMN IF NOT EXISTS mfe numeric CHECK (mfe IS NULL OR mfe >= 0);
+
+COMMENT ON COLUMN trades.mae IS 'Maximum adverse excursion in dollars, positive amount';
+COMMENT ON COLUMN trades.mfe IS 'Maximum favorable excursion in dollars, positive amount';
@@ -0,0 +1,215 @@
+/*
+  # Transactional import jobs
+
+  1. New Tables
+    - `import_jobs` - one row per CSV import, with its stage, progress and outcome so the UI can
+      poll it. `raw_data` and `session_metrics` hold what the commit writes to `raw_trade_data`
+      and `trade_sessions`.
+    - `import_job_rows` - parsed trades staged for a job before they are committed
+
+  2. Functions
+    - `commit_import_job(p_job_id)` - in one transaction, creates the raw data row, the session and
+      every staged trade, then clears the staging rows. Nothing is left behind if any insert fails,
+      and a failed job keeps its staged rows so the commit can be retried.
+    - `cancel_import_job(p_job_id)` - cancels a job that has not been committed and discards its rows
+
+  3. Security
+    - Row-level security policies to ensure users can only access their own jobs and staged rows
+    - Both functions check that the job belongs to the calling user
+*/
+
+CREATE TABLE IF NOT EXISTS import_jobs (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  journal_id uuid REFERENCES journals(id) ON DELETE CASCADE NOT NULL,
+  file_name text,
+  status text NOT NULL DEFAULT 'staging'
+    CHECK (status IN ('staging', 'completed', 'failed', 'cancelled')),
+  stage_message text,
+  total_trades integer NOT NULL DEFAULT 0,
+  staged_trades integer NOT NULL DEFAULT 0,
+  inserted_trades integer NOT NULL DEFAULT 0,
+  raw_data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  session_metrics jsonb NOT NULL DEFAULT '{}'::jsonb,
+  raw_data_id uuid REFERENCES raw_trade_data(id) ON DELETE SET NULL,
+  session_id uuid REFERENCES trade_sessions(id) ON DELETE SET NULL,
+  error text,
+  created_at timestamptz DEFAULT now() NOT NULL,
+  updated_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS import_job_rows (
+  job_id uuid REFERENCES import_jobs(id) ON DELETE CASCADE NOT NULL,
+  row_index integer NOT NULL,
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  trade jsonb NOT NULL,
+  PRIMARY KEY (job_id, row_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_import_jobs_journal_status ON import_jobs (journal_id, status);
+
+-- Enable row level security
+ALTER TABLE import_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE import_job_rows ENABLE ROW LEVEL SECURITY;
+
+-- Create RLS policies
+CREATE POLICY "Users can view their own import jobs"
+  ON import_jobs
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own import jobs"
+  ON import_jobs
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own import jobs"
+  ON import_jobs
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own import jobs"
+  ON import_jobs
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view their own staged import rows"
+  ON import_job_rows
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own staged import rows"
+  ON import_job_rows
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own staged import rows"
+  ON import_job_rows
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Commit a fully staged job atomically
+CREATE OR REPLACE FUNCTION commit_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_staged integer;
+  v_raw_data_id uuid;
+  v_session_id uuid;
+  v_inserted integer := 0;
+BEGIN
+  -- Lock the job so a concurrent cancel waits for the commit to finish
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  -- A failed commit leaves its staged rows in place so it can be retried
+  IF v_job.status NOT IN ('staging', 'failed') THEN
+    RAISE EXCEPTION 'Import job is % and cannot be committed', v_job.status;
+  END IF;
+
+  SELECT count(*) INTO v_staged FROM import_job_rows WHERE job_id = p_job_id;
+  IF v_staged < v_job.total_trades THEN
+    RAISE EXCEPTION 'Import job has % of % trades staged', v_staged, v_job.total_trades;
+  END IF;
+
+  BEGIN
+    INSERT INTO raw_trade_data (user_id, file_name, headers, data)
+    VALUES (
+      v_job.user_id,
+      v_job.file_name,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_job.raw_data->'headers', '[]'::jsonb))),
+      v_job.raw_data->'data'
+    )
+    RETURNING id INTO v_raw_data_id;
+
+    -- Session metrics are calculated by the client and keyed by trade_sessions column
+    INSERT INTO trade_sessions
+    SELECT (jsonb_populate_record(
+      NULL::trade_sessions,
+      v_job.session_metrics || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'raw_data_id', v_raw_data_id,
+        'created_at', now()
+      )
+    )).*
+    RETURNING id INTO v_session_id;
+
+    -- Staged rows carry every trade column except the ids filled in here
+    INSERT INTO trades
+    SELECT (jsonb_populate_record(
+      NULL::trades,
+      r.trade || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'session_id', v_session_id,
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'created_at', now()
+      )
+    )).*
+    FROM import_job_rows r
+    WHERE r.job_id = p_job_id
+    ORDER BY r.row_index
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    DELETE FROM import_job_rows WHERE job_id = p_job_id;
+
+    UPDATE import_jobs
+    SET
+      status = 'completed',
+      stage_message = 'Import complete',
+      error = NULL,
+      inserted_trades = v_inserted,
+      raw_data_id = v_raw_data_id,
+      session_id = v_session_id,
+      updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  EXCEPTION WHEN others THEN
+    -- The block's inserts are rolled back; only the failure is recorded
+    UPDATE import_jobs
+    SET status = 'failed', error = SQLERRM, stage_message = 'Import failed', updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancel a job that has not been committed and discard its staged rows
+CREATE OR REPLACE FUNCTION cancel_import_job(p_job_id uuid)
+RETURNS boolean AS $$
+DECLARE
+  v_cancelled boolean;
+BEGIN
+  UPDATE import_jobs
+  SET status = 'cancelled', stage_message = 'Import cancelled', updated_at = now()
+  WHERE id = p_job_id AND user_id = auth.uid() AND status IN ('staging', 'failed');
+
+  v_cancelled := FOUND;
+
+  IF v_cancelled THEN
+    DELETE FROM import_job_rows WHERE job_id = p_job_id;
+  END IF;
+
+  RETURN v_cancelled;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION commit_import_job(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_import_job(uuid) TO authenticated;
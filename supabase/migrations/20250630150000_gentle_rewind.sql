@@ -0,0 +1,200 @@
+/*
+  # Import history and rollback
+
+  1. Changes
+    - Add `import_job_id` to `trades` so the trades written by an import can be told apart from
+      manual entries later added to the same session
+    - Add `rolled_back_at` and `rolled_back_trades` to `import_jobs` and allow the `rolled_back` status
+    - Add `can_roll_back` to `import_jobs`, false for jobs whose inserted trades were never recorded
+    - `commit_import_job` now tags every trade it inserts with the job id
+
+  2. Functions
+    - `rollback_import_job(p_job_id)` - deletes the trades inserted by a completed job, and its
+      session when nothing else is left in it. Session metrics are recalculated by the client.
+      Jobs that cannot be rolled back are refused.
+
+  3. Backfill
+    - Sessions imported before import jobs existed get a completed job so they appear in the history.
+      The job points at the session's raw data rather than copying it. The old import did not record
+      which trades it inserted, so their trades stay untagged and these jobs cannot be rolled back.
+*/
+
+ALTER TABLE import_jobs
+  ADD COLUMN IF NOT EXISTS rolled_back_at timestamptz,
+  ADD COLUMN IF NOT EXISTS rolled_back_trades integer,
+  ADD COLUMN IF NOT EXISTS can_roll_back boolean NOT NULL DEFAULT true;
+
+ALTER TABLE import_jobs DROP CONSTRAINT IF EXISTS import_jobs_status_check;
+ALTER TABLE import_jobs
+  ADD CONSTRAINT import_jobs_status_check
+  CHECK (status IN ('staging', 'completed', 'failed', 'cancelled', 'rolled_back'));
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS import_job_id uuid REFERENCES import_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_trades_import_job_id ON trades(import_job_id) WHERE import_job_id IS NOT NULL;
+
+-- Backfill jobs for sessions created by the old client-side import; their raw data stays where it is
+INSERT INTO import_jobs (
+  user_id, journal_id, file_name, status, stage_message, total_trades, staged_trades, inserted_trades,
+  raw_data_id, session_id, can_roll_back, created_at, updated_at
+)
+SELECT
+  s.user_id,
+  s.journal_id,
+  r.file_name,
+  'completed',
+  'Import complete',
+  COALESCE(s.total_trades, 0),
+  COALESCE(s.total_trades, 0),
+  COALESCE(s.total_trades, 0),
+  r.id,
+  s.id,
+  false,
+  s.created_at,
+  s.created_at
+FROM trade_sessions s
+JOIN raw_trade_data r ON r.id = s.raw_data_id
+WHERE NOT EXISTS (SELECT 1 FROM import_jobs j WHERE j.session_id = s.id);
+
+-- Commit a fully staged job atomically, tagging its trades with the job id
+CREATE OR REPLACE FUNCTION commit_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_staged integer;
+  v_raw_data_id uuid;
+  v_session_id uuid;
+  v_inserted integer := 0;
+BEGIN
+  -- Lock the job so a concurrent cancel waits for the commit to finish
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  -- A failed commit leaves its staged rows in place so it can be retried
+  IF v_job.status NOT IN ('staging', 'failed') THEN
+    RAISE EXCEPTION 'Import job is % and cannot be committed', v_job.status;
+  END IF;
+
+  SELECT count(*) INTO v_staged FROM import_job_rows WHERE job_id = p_job_id;
+  IF v_staged < v_job.total_trades THEN
+    RAISE EXCEPTION 'Import job has % of % trades staged', v_staged, v_job.total_trades;
+  END IF;
+
+  BEGIN
+    INSERT INTO raw_trade_data (user_id, file_name, headers, data)
+    VALUES (
+      v_job.user_id,
+      v_job.file_name,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_job.raw_data->'headers', '[]'::jsonb))),
+      v_job.raw_data->'data'
+    )
+    RETURNING id INTO v_raw_data_id;
+
+    -- Session metrics are calculated by the client and keyed by trade_sessions column
+    INSERT INTO trade_sessions
+    SELECT (jsonb_populate_record(
+      NULL::trade_sessions,
+      v_job.session_metrics || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'raw_data_id', v_raw_data_id,
+        'created_at', now()
+      )
+    )).*
+    RETURNING id INTO v_session_id;
+
+    -- Staged rows carry every trade column except the ids filled in here
+    INSERT INTO trades
+    SELECT (jsonb_populate_record(
+      NULL::trades,
+      r.trade || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'session_id', v_session_id,
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'import_job_id', p_job_id,
+        'created_at', now()
+      )
+    )).*
+    FROM import_job_rows r
+    WHERE r.job_id = p_job_id
+    ORDER BY r.row_index
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    DELETE FROM import_job_rows WHERE job_id = p_job_id;
+
+    UPDATE import_jobs
+    SET
+      status = 'completed',
+      stage_message = 'Import complete',
+      error = NULL,
+      inserted_trades = v_inserted,
+      raw_data_id = v_raw_data_id,
+      session_id = v_session_id,
+      updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  EXCEPTION WHEN others THEN
+    -- The block's inserts are rolled back; only the failure is recorded
+    UPDATE import_jobs
+    SET status = 'failed', error = SQLERRM, stage_message = 'Import failed', updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Remove exactly the trades a completed import inserted
+CREATE OR REPLACE FUNCTION rollback_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_deleted integer := 0;
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  IF v_job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Import job is % and cannot be rolled back', v_job.status;
+  END IF;
+
+  IF NOT v_job.can_roll_back THEN
+    RAISE EXCEPTION 'Import job predates import history and cannot be rolled back';
+  END IF;
+
+  DELETE FROM trades WHERE import_job_id = p_job_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Manual trades keep the session alive; otherwise it goes with the import
+  IF v_job.session_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM trades WHERE session_id = v_job.session_id) THEN
+    DELETE FROM trade_sessions WHERE id = v_job.session_id;
+  END IF;
+
+  UPDATE import_jobs
+  SET
+    status = 'rolled_back',
+    stage_message = 'Import rolled back',
+    rolled_back_at = now(),
+    rolled_back_trades = v_deleted,
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION rollback_import_job(uuid) TO authenticated;
@@ -0,0 +1,12 @@
+/*
+  # Add a timezone to journals
+
+  1. Changes
+    - `journals.timezone` - IANA zone naive broker timestamps are read in at import time, and the
+      zone time-of-day and day-of-week analytics are bucketed in
+    - Existing journals default to `America/New_York`; imported timestamps stay stored in UTC, so
+      changing the zone later only moves the analytics buckets
+*/
+
+ALTER TABLE journals
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'America/New_York';
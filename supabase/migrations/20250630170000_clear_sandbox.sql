@@ -0,0 +1,176 @@
+/*
+  # Explicit sample data marker and journal demo mode
+
+  1. Changes
+    - Add `is_sample` to `trades` and `trade_sessions`, set only on the sample data the app generates
+    - Add `demo_mode` to `journals`, on while a journal holds sample data
+    - Sample data used to be recognised by symbol (AAPL, TSLA, MSFT, ...), which also matched real
+      trades. Only trades carrying the generator's "Mock trade" note are backfilled as samples.
+
+  2. Functions
+    - `commit_import_job(p_job_id)` writes `is_sample = false` on the session and trades it creates
+    - `cleanup_mock_data(user_uuid)` now deletes only trades and sessions marked `is_sample`
+    - `clear_sample_data(p_journal_id)` removes a journal's sample trades, and any sample session
+      left empty, then turns demo mode off. Returns the number of trades removed.
+*/
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS is_sample boolean NOT NULL DEFAULT false;
+
+ALTER TABLE trade_sessions
+  ADD COLUMN IF NOT EXISTS is_sample boolean NOT NULL DEFAULT false;
+
+ALTER TABLE journals
+  ADD COLUMN IF NOT EXISTS demo_mode boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_trades_journal_sample ON trades(journal_id) WHERE is_sample;
+
+-- Backfill what the old sample generator wrote; real trades in the same symbols stay untouched
+UPDATE trades SET is_sample = true WHERE notes LIKE 'Mock trade%';
+
+UPDATE trade_sessions s
+SET is_sample = true
+WHERE EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id)
+  AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id AND NOT t.is_sample);
+
+UPDATE journals j
+SET demo_mode = true
+WHERE EXISTS (SELECT 1 FROM trades t WHERE t.journal_id = j.id AND t.is_sample);
+
+-- Imports are never sample data; set the flag explicitly since jsonb_populate_record skips defaults
+CREATE OR REPLACE FUNCTION commit_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_staged integer;
+  v_raw_data_id uuid;
+  v_session_id uuid;
+  v_inserted integer := 0;
+BEGIN
+  -- Lock the job so a concurrent cancel waits for the commit to finish
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  -- A failed commit leaves its staged rows in place so it can be retried
+  IF v_job.status NOT IN ('staging', 'failed') THEN
+    RAISE EXCEPTION 'Import job is % and cannot be committed', v_job.status;
+  END IF;
+
+  SELECT count(*) INTO v_staged FROM import_job_rows WHERE job_id = p_job_id;
+  IF v_staged < v_job.total_trades THEN
+    RAISE EXCEPTION 'Import job has % of % trades staged', v_staged, v_job.total_trades;
+  END IF;
+
+  BEGIN
+    INSERT INTO raw_trade_data (user_id, file_name, headers, data)
+    VALUES (
+      v_job.user_id,
+      v_job.file_name,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_job.raw_data->'headers', '[]'::jsonb))),
+      v_job.raw_data->'data'
+    )
+    RETURNING id INTO v_raw_data_id;
+
+    -- Session metrics are calculated by the client and keyed by trade_sessions column
+    INSERT INTO trade_sessions
+    SELECT (jsonb_populate_record(
+      NULL::trade_sessions,
+      v_job.session_metrics || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'raw_data_id', v_raw_data_id,
+        'is_sample', false,
+        'created_at', now()
+      )
+    )).*
+    RETURNING id INTO v_session_id;
+
+    -- Staged rows carry every trade column except the ids filled in here
+    INSERT INTO trades
+    SELECT (jsonb_populate_record(
+      NULL::trades,
+      r.trade || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'session_id', v_session_id,
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'import_job_id', p_job_id,
+        'is_sample', false,
+        'created_at', now()
+      )
+    )).*
+    FROM import_job_rows r
+    WHERE r.job_id = p_job_id
+    ORDER BY r.row_index
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    DELETE FROM import_job_rows WHERE job_id = p_job_id;
+
+    UPDATE import_jobs
+    SET
+      status = 'completed',
+      stage_message = 'Import complete',
+      error = NULL,
+      inserted_trades = v_inserted,
+      raw_data_id = v_raw_data_id,
+      session_id = v_session_id,
+      updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  EXCEPTION WHEN others THEN
+    -- The block's inserts are rolled back; only the failure is recorded
+    UPDATE import_jobs
+    SET status = 'failed', error = SQLERRM, stage_message = 'Import failed', updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cleanup_mock_data(user_uuid UUID)
+RETURNS VOID AS $$
+BEGIN
+  DELETE FROM trades WHERE user_id = user_uuid AND is_sample;
+
+  DELETE FROM trade_sessions s
+  WHERE s.user_id = user_uuid
+    AND s.is_sample
+    AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+  UPDATE journals SET demo_mode = false WHERE user_id = user_uuid AND demo_mode;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION clear_sample_data(p_journal_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_deleted integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM journals WHERE id = p_journal_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Journal % not found', p_journal_id;
+  END IF;
+
+  DELETE FROM trades WHERE journal_id = p_journal_id AND is_sample;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- A real trade added to a sample session keeps the session
+  DELETE FROM trade_sessions s
+  WHERE s.journal_id = p_journal_id
+    AND s.is_sample
+    AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+  UPDATE journals SET demo_mode = false WHERE id = p_journal_id;
+
+  RETURN v_deleted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION clear_sample_data(uuid) TO authenticated;
@@ -0,0 +1,262 @@
+/*
+  # Duplicate review before committing an import
+
+  1. Changes
+    - Add `replaces_trade_id` to `import_job_rows`, set on a staged trade the user chose to import
+      over an existing duplicate
+    - Add `replaced_trades` to `import_jobs`, the rows of the trades a committed import overwrote
+
+  2. Functions
+    - `find_duplicate_candidates(p_journal_id, p_trades)` returns each incoming trade that matches one
+      already in the journal, with the existing trade and the strategy that matched (`both_fills`,
+      `single_fill` or `composite`, as in `get_duplicate_trades_enhanced`). Near matches, where the
+      P&L differs by rounding (under 0.50) or the time by seconds within the same minute, are
+      returned too with `near_match` set.
+    - `commit_import_job(p_job_id)` deletes the trades being overwritten in the transaction that
+      inserts their replacements, and any session they leave empty. The deleted rows are kept on the job.
+    - `rollback_import_job(p_job_id)` puts the overwritten trades back after removing the import's own.
+      One whose session was removed with it goes into the import's session.
+*/
+
+ALTER TABLE import_job_rows
+  ADD COLUMN IF NOT EXISTS replaces_trade_id uuid REFERENCES trades(id) ON DELETE SET NULL;
+
+ALTER TABLE import_jobs
+  ADD COLUMN IF NOT EXISTS replaced_trades jsonb NOT NULL DEFAULT '[]';
+
+CREATE OR REPLACE FUNCTION find_duplicate_candidates(p_journal_id uuid, p_trades jsonb)
+RETURNS TABLE(trade_index integer, match_type text, near_match boolean, existing_trade jsonb) AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM journals WHERE id = p_journal_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Journal % not found', p_journal_id;
+  END IF;
+
+  RETURN QUERY
+  WITH incoming AS (
+    SELECT
+      (e.ordinality - 1)::integer AS idx,
+      NULLIF(e.value->>'buy_fill_id', '') AS buy_fill,
+      NULLIF(e.value->>'sell_fill_id', '') AS sell_fill,
+      (e.value->>'datetime')::timestamptz AS at,
+      UPPER(TRIM(e.value->>'symbol')) AS sym,
+      UPPER(TRIM(e.value->>'side')) AS dir,
+      (e.value->>'qty')::real AS quantity,
+      (e.value->>'price')::real AS fill_price,
+      (e.value->>'pnl')::real AS profit
+    FROM jsonb_array_elements(p_trades) WITH ORDINALITY AS e(value, ordinality)
+  )
+  SELECT i.idx, m.kind, m.near, to_jsonb(m.existing)
+  FROM incoming i
+  CROSS JOIN LATERAL (
+    SELECT
+      t AS existing,
+      CASE
+        WHEN i.buy_fill IS NOT NULL AND i.sell_fill IS NOT NULL THEN 'both_fills'
+        WHEN i.buy_fill IS NOT NULL OR i.sell_fill IS NOT NULL THEN 'single_fill'
+        ELSE 'composite'
+      END AS kind,
+      -- Matching both fill ids pins the trade whatever its time; the other strategies need it
+      ABS(t.pnl - i.profit) >= 0.005
+        OR (NOT (i.buy_fill IS NOT NULL AND i.sell_fill IS NOT NULL) AND t.datetime <> i.at) AS near
+    FROM trades t
+    WHERE t.journal_id = p_journal_id
+      AND ABS(t.pnl - i.profit) < 0.5
+      AND CASE
+        WHEN i.buy_fill IS NOT NULL AND i.sell_fill IS NOT NULL THEN
+          t.buy_fill_id = i.buy_fill AND t.sell_fill_id = i.sell_fill
+        WHEN i.buy_fill IS NOT NULL OR i.sell_fill IS NOT NULL THEN
+          (t.buy_fill_id = i.buy_fill OR t.sell_fill_id = i.sell_fill)
+          AND UPPER(TRIM(t.symbol)) = i.sym
+          AND date_trunc('minute', t.datetime) = date_trunc('minute', i.at)
+        ELSE
+          UPPER(TRIM(t.symbol)) = i.sym
+          AND UPPER(TRIM(t.side)) = i.dir
+          AND t.qty = i.quantity
+          AND ABS(t.price - i.fill_price) < 0.005
+          AND date_trunc('minute', t.datetime) = date_trunc('minute', i.at)
+      END
+    -- Prefer an exact match, then the closest one
+    ORDER BY 3, ABS(EXTRACT(EPOCH FROM t.datetime - i.at)), ABS(t.pnl - i.profit)
+    LIMIT 1
+  ) m
+  ORDER BY i.idx;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION find_duplicate_candidates(uuid, jsonb) TO authenticated;
+
+CREATE OR REPLACE FUNCTION commit_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_staged integer;
+  v_raw_data_id uuid;
+  v_session_id uuid;
+  v_inserted integer := 0;
+  v_replaced_sessions uuid[];
+  v_replaced_trades jsonb;
+BEGIN
+  -- Lock the job so a concurrent cancel waits for the commit to finish
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  -- A failed commit leaves its staged rows in place so it can be retried
+  IF v_job.status NOT IN ('staging', 'failed') THEN
+    RAISE EXCEPTION 'Import job is % and cannot be committed', v_job.status;
+  END IF;
+
+  SELECT count(*) INTO v_staged FROM import_job_rows WHERE job_id = p_job_id;
+  IF v_staged < v_job.total_trades THEN
+    RAISE EXCEPTION 'Import job has % of % trades staged', v_staged, v_job.total_trades;
+  END IF;
+
+  BEGIN
+    INSERT INTO raw_trade_data (user_id, file_name, headers, data)
+    VALUES (
+      v_job.user_id,
+      v_job.file_name,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_job.raw_data->'headers', '[]'::jsonb))),
+      v_job.raw_data->'data'
+    )
+    RETURNING id INTO v_raw_data_id;
+
+    -- Session metrics are calculated by the client and keyed by trade_sessions column
+    INSERT INTO trade_sessions
+    SELECT (jsonb_populate_record(
+      NULL::trade_sessions,
+      v_job.session_metrics || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'raw_data_id', v_raw_data_id,
+        'is_sample', false,
+        'created_at', now()
+      )
+    )).*
+    RETURNING id INTO v_session_id;
+
+    -- Trades the user chose to overwrite go in the same transaction as their replacements, and
+    -- their rows stay on the job so a rollback can put them back
+    WITH replaced AS (
+      DELETE FROM trades t
+      USING import_job_rows r
+      WHERE r.job_id = p_job_id
+        AND t.id = r.replaces_trade_id
+        AND t.journal_id = v_job.journal_id
+      RETURNING t.*
+    )
+    SELECT array_agg(DISTINCT session_id), COALESCE(jsonb_agg(to_jsonb(replaced)), '[]')
+    INTO v_replaced_sessions, v_replaced_trades
+    FROM replaced;
+
+    -- Staged rows carry every trade column except the ids filled in here
+    INSERT INTO trades
+    SELECT (jsonb_populate_record(
+      NULL::trades,
+      r.trade || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'session_id', v_session_id,
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'import_job_id', p_job_id,
+        'is_sample', false,
+        'created_at', now()
+      )
+    )).*
+    FROM import_job_rows r
+    WHERE r.job_id = p_job_id
+    ORDER BY r.row_index
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    DELETE FROM trade_sessions s
+    WHERE s.id = ANY(COALESCE(v_replaced_sessions, '{}'))
+      AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+    DELETE FROM import_job_rows WHERE job_id = p_job_id;
+
+    UPDATE import_jobs
+    SET
+      status = 'completed',
+      stage_message = 'Import complete',
+      error = NULL,
+      inserted_trades = v_inserted,
+      raw_data_id = v_raw_data_id,
+      session_id = v_session_id,
+      replaced_trades = v_replaced_trades,
+      updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  EXCEPTION WHEN others THEN
+    -- The block's inserts are rolled back; only the failure is recorded
+    UPDATE import_jobs
+    SET status = 'failed', error = SQLERRM, stage_message = 'Import failed', updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rollback_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_deleted integer := 0;
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  IF v_job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Import job is % and cannot be rolled back', v_job.status;
+  END IF;
+
+  IF NOT v_job.can_roll_back THEN
+    RAISE EXCEPTION 'Import job predates import history and cannot be rolled back';
+  END IF;
+
+  DELETE FROM trades WHERE import_job_id = p_job_id;
+  GET DIAGNOSTICS v_deleted = ROW_COUNT;
+
+  -- Overwritten trades come back as they were; the commit removed any session they left empty
+  INSERT INTO trades
+  SELECT (jsonb_populate_record(
+    NULL::trades,
+    r.value || jsonb_build_object(
+      'session_id',
+      CASE WHEN EXISTS (SELECT 1 FROM trade_sessions s WHERE s.id = (r.value->>'session_id')::uuid)
+        THEN r.value->'session_id'
+        ELSE to_jsonb(v_job.session_id)
+      END
+    )
+  )).*
+  FROM jsonb_array_elements(v_job.replaced_trades) AS r(value)
+  ON CONFLICT DO NOTHING;
+
+  -- Manual and restored trades keep the session alive; otherwise it goes with the import
+  IF v_job.session_id IS NOT NULL
+    AND NOT EXISTS (SELECT 1 FROM trades WHERE session_id = v_job.session_id) THEN
+    DELETE FROM trade_sessions WHERE id = v_job.session_id;
+  END IF;
+
+  UPDATE import_jobs
+  SET
+    status = 'rolled_back',
+    stage_message = 'Import rolled back',
+    rolled_back_at = now(),
+    rolled_back_trades = v_deleted,
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,22 @@
+/*
+  # Option contracts and multi-leg positions
+
+  1. Changes
+    - Add option contract fields to `trades`: `underlying`, `expiry`, `strike`, `option_type`
+      (CALL or PUT) and `multiplier`. They stay null for stocks and futures.
+    - Add `position_group`, shared by the legs of a spread that were filled together so stats can
+      treat them as one position
+
+  2. Notes
+    - Imported trades carry these fields in their staged JSON, so `commit_import_job` needs no change
+*/
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS underlying text,
+  ADD COLUMN IF NOT EXISTS expiry date,
+  ADD COLUMN IF NOT EXISTS strike real,
+  ADD COLUMN IF NOT EXISTS option_type text CHECK (option_type IN ('CALL', 'PUT')),
+  ADD COLUMN IF NOT EXISTS multiplier real CHECK (multiplier > 0),
+  ADD COLUMN IF NOT EXISTS position_group text;
+
+CREATE INDEX IF NOT EXISTS idx_trades_position_group ON trades(journal_id, position_group) WHERE position_group IS NOT NULL;
@@ -0,0 +1,146 @@
+/*
+  # Multi-currency journals and FX rates
+
+  1. Changes
+    - `journals.currency` - the account's currency; existing journals are USD
+    - `trades.currency` - currency the trade's P&L, commission and fees are in. NULL means the
+      journal's currency, so trades imported before this change keep their meaning.
+
+  2. New Table
+    - `fx_rates` - exchange rates a user imports from a local file. One unit of `base_currency`
+      buys `rate` units of `quote_currency` on `rate_date`.
+
+  3. Functions
+    - `fx_rate(user_id, from, to, on)` - the user's rate from one currency to another on a date: the
+      latest rate on or before it, else the earliest after it. The inverse pair is used when only
+      that was imported, and currencies without a direct pair are crossed through USD. NULL when
+      no rate connects them.
+    - `get_journal_summary(p_journal_id, p_currency)` now sums trade P&L converted to `p_currency`
+      (the journal's currency when NULL), reports the currency it used and counts trades left
+      out for want of a rate. The journal must belong to the caller.
+
+  4. Security
+    - Row-level security policies so users only see and change their own rates
+*/
+
+ALTER TABLE journals
+  ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE trades
+  ADD COLUMN IF NOT EXISTS currency text CHECK (currency ~ '^[A-Z]{3}$');
+
+CREATE TABLE IF NOT EXISTS fx_rates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  rate_date date NOT NULL,
+  base_currency text NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency text NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate numeric NOT NULL CHECK (rate > 0),
+  created_at timestamptz DEFAULT now() NOT NULL,
+  UNIQUE (user_id, base_currency, quote_currency, rate_date)
+);
+
+ALTER TABLE fx_rates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own fx rates"
+  ON fx_rates
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own fx rates"
+  ON fx_rates
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own fx rates"
+  ON fx_rates
+  FOR UPDATE
+  TO authenticated
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own fx rates"
+  ON fx_rates
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Mirrors createFxConverter in src/lib/currency.ts
+CREATE OR REPLACE FUNCTION fx_rate(p_user_id uuid, p_from text, p_to text, p_on date)
+RETURNS numeric AS $$
+DECLARE
+  v_rate numeric;
+BEGIN
+  IF p_from = p_to THEN
+    RETURN 1;
+  END IF;
+
+  SELECT CASE WHEN r.base_currency = p_from THEN r.rate ELSE 1 / r.rate END
+  INTO v_rate
+  FROM fx_rates r
+  WHERE r.user_id = p_user_id
+    AND ((r.base_currency = p_from AND r.quote_currency = p_to)
+      OR (r.base_currency = p_to AND r.quote_currency = p_from))
+  ORDER BY r.rate_date > p_on, abs(r.rate_date - p_on), r.base_currency = p_to
+  LIMIT 1;
+
+  IF v_rate IS NOT NULL OR 'USD' IN (p_from, p_to) THEN
+    RETURN v_rate;
+  END IF;
+
+  RETURN fx_rate(p_user_id, p_from, 'USD', p_on) * fx_rate(p_user_id, 'USD', p_to, p_on);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+DROP FUNCTION IF EXISTS public.get_journal_summary(uuid);
+
+CREATE OR REPLACE FUNCTION public.get_journal_summary(p_journal_id uuid, p_currency text DEFAULT NULL)
+RETURNS TABLE (
+  total_pnl double precision,
+  win_rate double precision,
+  total_trades bigint,
+  currency text,
+  unconverted_trades bigint
+) AS $$
+DECLARE
+  v_journal journals;
+  v_currency text;
+BEGIN
+  SELECT * INTO v_journal FROM journals WHERE id = p_journal_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal % not found', p_journal_id;
+  END IF;
+
+  v_currency := COALESCE(p_currency, v_journal.currency);
+
+  RETURN QUERY
+  WITH converted AS (
+    SELECT
+      t.pnl,
+      fx_rate(v_journal.user_id, COALESCE(t.currency, v_journal.currency), v_currency, t.datetime::date) AS rate
+    FROM trades t
+    WHERE t.journal_id = p_journal_id AND t.pnl IS NOT NULL
+  ),
+  sessions AS (
+    SELECT
+      ROUND(COALESCE(AVG(ts.win_rate), 0)::numeric, 2)::double precision AS win_rate,
+      COALESCE(SUM(ts.total_trades), 0)::bigint AS total_trades
+    FROM trade_sessions ts
+    WHERE ts.journal_id = p_journal_id
+  )
+  SELECT
+    ROUND(COALESCE(SUM(c.pnl * c.rate), 0)::numeric, 2)::double precision,
+    s.win_rate,
+    s.total_trades,
+    v_currency,
+    COUNT(c.pnl) FILTER (WHERE c.rate IS NULL)::bigint
+  FROM sessions s
+  LEFT JOIN converted c ON true
+  GROUP BY s.win_rate, s.total_trades;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_journal_summary(uuid, text) TO authenticated;
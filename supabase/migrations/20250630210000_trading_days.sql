@@ -0,0 +1,354 @@
+/*
+  # Sessions are trading days
+
+  1. Changes
+    - Add `trade_date` to `trade_sessions`: the day its trades happened, in the journal's timezone.
+      A journal has one session per trading day (and a separate one for sample trades that day).
+    - Add `session_ids` to `import_jobs`, every day session an import wrote trades into.
+      `session_id` keeps the first of them.
+
+  2. Functions
+    - `trading_date(p_at, p_time_zone)` is the calendar day of a timestamp in a timezone
+    - `day_session_id(p_journal_id, p_user_id, p_date, p_is_sample)` finds or creates a day's session
+    - `route_trade_to_day()` is a trigger that puts every inserted trade into the session for its day,
+      and moves a trade whose time changes. Callers no longer choose a session.
+    - `prune_day_session()` is a trigger that removes a session once its last trade has moved out or
+      been deleted
+    - `reassign_trading_days(p_journal_id)` re-routes a journal's trades, e.g. after its timezone
+      changes, and refreshes each session's trade count, P&L and win rate. The client recalculates
+      the full metrics.
+    - `commit_import_job(p_job_id)` lets the trigger route trades instead of creating one session per
+      upload, and records the sessions it touched
+    - `rollback_import_job(p_job_id)` removes every day session the import leaves empty, and routes
+      the trades it overwrote back to their days
+
+  3. Backfill
+    - Upload sessions become day sessions. The earliest session holding a day's first trade keeps its
+      AI insights and becomes that day's session; trades from other days move out and sessions left
+      empty are removed.
+*/
+
+ALTER TABLE trade_sessions
+  ADD COLUMN IF NOT EXISTS trade_date date;
+
+ALTER TABLE import_jobs
+  ADD COLUMN IF NOT EXISTS session_ids uuid[] NOT NULL DEFAULT '{}';
+
+-- Upload sessions from before this migration have no date, and nulls never conflict
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trade_sessions_journal_day
+  ON trade_sessions(journal_id, trade_date, is_sample);
+
+CREATE OR REPLACE FUNCTION trading_date(p_at timestamptz, p_time_zone text)
+RETURNS date AS $$
+  SELECT (p_at AT TIME ZONE COALESCE(NULLIF(p_time_zone, ''), 'UTC'))::date;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION day_session_id(p_journal_id uuid, p_user_id uuid, p_date date, p_is_sample boolean)
+RETURNS uuid AS $$
+DECLARE
+  v_session_id uuid;
+BEGIN
+  INSERT INTO trade_sessions (journal_id, user_id, trade_date, is_sample, total_trades, total_pnl, win_rate)
+  VALUES (p_journal_id, p_user_id, p_date, p_is_sample, 0, 0, 0)
+  ON CONFLICT (journal_id, trade_date, is_sample) DO NOTHING
+  RETURNING id INTO v_session_id;
+
+  IF v_session_id IS NULL THEN
+    SELECT id INTO v_session_id
+    FROM trade_sessions
+    WHERE journal_id = p_journal_id AND trade_date = p_date AND is_sample = p_is_sample;
+  END IF;
+
+  RETURN v_session_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION route_trade_to_day()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_time_zone text;
+BEGIN
+  -- Trades outside a journal keep whatever session they were given
+  IF NEW.journal_id IS NULL OR NEW.datetime IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT timezone INTO v_time_zone FROM journals WHERE id = NEW.journal_id;
+
+  NEW.session_id := day_session_id(
+    NEW.journal_id,
+    NEW.user_id,
+    trading_date(NEW.datetime, v_time_zone),
+    COALESCE(NEW.is_sample, false)
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_route_trade_to_day ON trades;
+CREATE TRIGGER trigger_route_trade_to_day
+  BEFORE INSERT OR UPDATE OF datetime, journal_id, is_sample, session_id ON trades
+  FOR EACH ROW
+  EXECUTE FUNCTION route_trade_to_day();
+
+CREATE OR REPLACE FUNCTION prune_day_session()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.session_id IS NOT DISTINCT FROM NEW.session_id THEN
+    RETURN NULL;
+  END IF;
+
+  DELETE FROM trade_sessions s
+  WHERE s.id = OLD.session_id
+    AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_prune_day_session ON trades;
+-- Not limited to `session_id`: the routing trigger moves trades whose time was the column updated.
+-- Deletes count too, so removing a day's last trade by hand, by overwrite or by cascade removes the day.
+CREATE TRIGGER trigger_prune_day_session
+  AFTER UPDATE OR DELETE ON trades
+  FOR EACH ROW
+  EXECUTE FUNCTION prune_day_session();
+
+CREATE OR REPLACE FUNCTION reassign_trading_days(p_journal_id uuid)
+RETURNS void AS $$
+BEGIN
+  -- Touching the time re-runs the routing trigger in the journal's current timezone
+  UPDATE trades SET datetime = datetime WHERE journal_id = p_journal_id;
+
+  DELETE FROM trade_sessions s
+  WHERE s.journal_id = p_journal_id
+    AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+  UPDATE trade_sessions s
+  SET
+    total_trades = totals.trades,
+    total_pnl = totals.pnl,
+    win_rate = CASE WHEN totals.trades > 0 THEN totals.winners * 100.0 / totals.trades ELSE 0 END
+  FROM (
+    SELECT session_id, count(*) AS trades, COALESCE(sum(pnl), 0) AS pnl, count(*) FILTER (WHERE pnl > 0) AS winners
+    FROM trades
+    WHERE journal_id = p_journal_id
+    GROUP BY session_id
+  ) totals
+  WHERE s.id = totals.session_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION reassign_trading_days_on_timezone()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM reassign_trading_days(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS trigger_reassign_trading_days ON journals;
+CREATE TRIGGER trigger_reassign_trading_days
+  AFTER UPDATE OF timezone ON journals
+  FOR EACH ROW
+  WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION reassign_trading_days_on_timezone();
+
+CREATE OR REPLACE FUNCTION commit_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_staged integer;
+  v_raw_data_id uuid;
+  v_session_ids uuid[];
+  v_inserted integer := 0;
+  v_replaced_sessions uuid[];
+  v_replaced_trades jsonb;
+BEGIN
+  -- Lock the job so a concurrent cancel waits for the commit to finish
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  -- A failed commit leaves its staged rows in place so it can be retried
+  IF v_job.status NOT IN ('staging', 'failed') THEN
+    RAISE EXCEPTION 'Import job is % and cannot be committed', v_job.status;
+  END IF;
+
+  SELECT count(*) INTO v_staged FROM import_job_rows WHERE job_id = p_job_id;
+  IF v_staged < v_job.total_trades THEN
+    RAISE EXCEPTION 'Import job has % of % trades staged', v_staged, v_job.total_trades;
+  END IF;
+
+  BEGIN
+    INSERT INTO raw_trade_data (user_id, file_name, headers, data)
+    VALUES (
+      v_job.user_id,
+      v_job.file_name,
+      ARRAY(SELECT jsonb_array_elements_text(COALESCE(v_job.raw_data->'headers', '[]'::jsonb))),
+      v_job.raw_data->'data'
+    )
+    RETURNING id INTO v_raw_data_id;
+
+    -- Trades the user chose to overwrite go in the same transaction as their replacements, and
+    -- their rows stay on the job so a rollback can put them back
+    WITH replaced AS (
+      DELETE FROM trades t
+      USING import_job_rows r
+      WHERE r.job_id = p_job_id
+        AND t.id = r.replaces_trade_id
+        AND t.journal_id = v_job.journal_id
+      RETURNING t.*
+    )
+    SELECT array_agg(DISTINCT session_id), COALESCE(jsonb_agg(to_jsonb(replaced)), '[]')
+    INTO v_replaced_sessions, v_replaced_trades
+    FROM replaced;
+
+    -- Staged rows carry every trade column except the ids filled in here; the routing trigger
+    -- files each trade under the session for its trading day
+    INSERT INTO trades
+    SELECT (jsonb_populate_record(
+      NULL::trades,
+      r.trade || jsonb_build_object(
+        'id', gen_random_uuid(),
+        'session_id', NULL,
+        'journal_id', v_job.journal_id,
+        'user_id', v_job.user_id,
+        'import_job_id', p_job_id,
+        'is_sample', false,
+        'created_at', now()
+      )
+    )).*
+    FROM import_job_rows r
+    WHERE r.job_id = p_job_id
+    ORDER BY r.row_index
+    ON CONFLICT DO NOTHING;
+
+    GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+    SELECT array_agg(t.session_id ORDER BY s.trade_date) INTO v_session_ids
+    FROM (SELECT DISTINCT session_id FROM trades WHERE import_job_id = p_job_id) t
+    JOIN trade_sessions s ON s.id = t.session_id;
+
+    DELETE FROM trade_sessions s
+    WHERE s.id = ANY(COALESCE(v_replaced_sessions, '{}'))
+      AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+    DELETE FROM import_job_rows WHERE job_id = p_job_id;
+
+    UPDATE import_jobs
+    SET
+      status = 'completed',
+      stage_message = 'Import complete',
+      error = NULL,
+      inserted_trades = v_inserted,
+      raw_data_id = v_raw_data_id,
+      session_id = v_session_ids[1],
+      session_ids = COALESCE(v_session_ids, '{}'),
+      replaced_trades = v_replaced_trades,
+      updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  EXCEPTION WHEN others THEN
+    -- The block's inserts are rolled back; only the failure is recorded
+    UPDATE import_jobs
+    SET status = 'failed', error = SQLERRM, stage_message = 'Import failed', updated_at = now()
+    WHERE id = p_job_id
+    RETURNING * INTO v_job;
+  END;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION rollback_import_job(p_job_id uuid)
+RETURNS import_jobs AS $$
+DECLARE
+  v_job import_jobs;
+  v_deleted integer := 0;
+  v_sessions uuid[];
+BEGIN
+  SELECT * INTO v_job FROM import_jobs WHERE id = p_job_id AND user_id = auth.uid() FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Import job % not found', p_job_id;
+  END IF;
+
+  IF v_job.status <> 'completed' THEN
+    RAISE EXCEPTION 'Import job is % and cannot be rolled back', v_job.status;
+  END IF;
+
+  IF NOT v_job.can_roll_back THEN
+    RAISE EXCEPTION 'Import job predates import history and cannot be rolled back';
+  END IF;
+
+  WITH deleted AS (
+    DELETE FROM trades WHERE import_job_id = p_job_id RETURNING session_id
+  )
+  SELECT count(*), array_agg(DISTINCT session_id) INTO v_deleted, v_sessions FROM deleted;
+
+  -- Overwritten trades come back as they were, and the routing trigger files them under their days
+  WITH restored AS (
+    INSERT INTO trades
+    SELECT (jsonb_populate_record(NULL::trades, r.value || jsonb_build_object('session_id', NULL))).*
+    FROM jsonb_array_elements(v_job.replaced_trades) AS r(value)
+    ON CONFLICT DO NOTHING
+    RETURNING session_id
+  )
+  SELECT COALESCE(v_sessions, '{}') || COALESCE(array_agg(DISTINCT session_id), '{}') INTO v_sessions FROM restored;
+
+  -- Trades from other imports or manual entries keep a day alive; otherwise it goes with the import
+  DELETE FROM trade_sessions s
+  WHERE s.id = ANY(COALESCE(v_sessions, '{}') || COALESCE(v_job.session_ids, '{}'))
+    AND NOT EXISTS (SELECT 1 FROM trades t WHERE t.session_id = s.id);
+
+  UPDATE import_jobs
+  SET
+    status = 'rolled_back',
+    stage_message = 'Import rolled back',
+    rolled_back_at = now(),
+    rolled_back_trades = v_deleted,
+    session_ids = ARRAY(SELECT DISTINCT unnest(COALESCE(v_sessions, '{}') || COALESCE(v_job.session_ids, '{}'))),
+    updated_at = now()
+  WHERE id = p_job_id
+  RETURNING * INTO v_job;
+
+  RETURN v_job;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Backfill: the earliest session holding each day's first trade becomes that day's session
+UPDATE trade_sessions s
+SET trade_date = first_day.day
+FROM (
+  SELECT DISTINCT ON (sessions.journal_id, days.day, sessions.is_sample) sessions.id, days.day
+  FROM trade_sessions sessions
+  JOIN journals j ON j.id = sessions.journal_id
+  CROSS JOIN LATERAL (
+    SELECT trading_date(min(t.datetime), j.timezone) AS day FROM trades t WHERE t.session_id = sessions.id
+  ) days
+  WHERE days.day IS NOT NULL
+  ORDER BY sessions.journal_id, days.day, sessions.is_sample, sessions.created_at
+) first_day
+WHERE s.id = first_day.id;
+
+DO $$
+DECLARE
+  v_journal_id uuid;
+BEGIN
+  FOR v_journal_id IN SELECT id FROM journals LOOP
+    PERFORM reassign_trading_days(v_journal_id);
+  END LOOP;
+END $$;
+
+UPDATE import_jobs j
+SET session_ids = ARRAY(SELECT DISTINCT t.session_id FROM trades t WHERE t.import_job_id = j.id)
+WHERE j.status = 'completed';
+
+UPDATE import_jobs j
+SET session_id = j.session_ids[1]
+WHERE j.status = 'completed'
+  AND (j.session_id IS NULL OR NOT (j.session_id = ANY(j.session_ids)));
@@ -0,0 +1,27 @@
+/*
+  # Day-level performance
+
+  1. Trade Sessions
+    - `daily_pnl` - P&L and trade count of each trading day, oldest first
+    - `trading_days` - number of days with at least one trade
+    - `green_day_rate` - percentage of trading days that closed positive
+    - `avg_daily_pnl`, `median_daily_pnl` - mean and median P&L per trading day
+    - `best_day`, `worst_day` - `{ date, pnl }` of the highest and lowest day
+    - `daily_pnl_std_dev` - sample standard deviation of daily P&L
+    - `max_green_day_streak`, `max_red_day_streak` - longest runs of positive and negative days
+
+    A session now covers one trading day, so these mostly matter for sessions created
+    before trading days; the journal dashboard works them out across all sessions.
+*/
+
+ALTER TABLE trade_sessions
+  ADD COLUMN IF NOT EXISTS daily_pnl jsonb,
+  ADD COLUMN IF NOT EXISTS trading_days integer,
+  ADD COLUMN IF NOT EXISTS green_day_rate numeric,
+  ADD COLUMN IF NOT EXISTS avg_daily_pnl numeric,
+  ADD COLUMN IF NOT EXISTS median_daily_pnl numeric,
+  ADD COLUMN IF NOT EXISTS best_day jsonb,
+  ADD COLUMN IF NOT EXISTS worst_day jsonb,
+  ADD COLUMN IF NOT EXISTS daily_pnl_std_dev numeric,
+  ADD COLUMN IF NOT EXISTS max_green_day_streak integer,
+  ADD COLUMN IF NOT EXISTS max_red_day_streak integer;
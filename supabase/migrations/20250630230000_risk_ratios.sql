@@ -0,0 +1,156 @@
+/*
+  # Risk-adjusted return ratios
+
+  1. Trade Sessions
+    - `sharpe_ratio` - annualised mean over standard deviation of daily returns on account equity
+    - `sortino_ratio` - as Sharpe, with only losing days' deviation as risk
+    - `calmar_ratio` - annualised return over the deepest drawdown of daily closing equity
+    - `sqn` - system quality number from trade P&L
+    - `kelly_fraction` - win rate less loss rate over payoff ratio, as a fraction of equity
+    - `ulcer_index` - root mean square of daily closing equity's percentage drawdowns
+
+    Daily returns are each trading day's P&L over the equity it started with, from the journal's
+    account size. The return ratios stay NULL without an account size; the client calculates
+    them with `calculateMetrics`.
+
+  2. Functions
+    - `get_journal_summary(p_journal_id, p_currency)` also returns the six ratios over the whole
+      journal, in the reporting currency, mirroring `riskRatios` in src/lib/trade-metrics.ts.
+      Trading days are read in the journal's timezone; trades without an FX rate are left out.
+*/
+
+ALTER TABLE trade_sessions
+  ADD COLUMN IF NOT EXISTS sharpe_ratio numeric,
+  ADD COLUMN IF NOT EXISTS sortino_ratio numeric,
+  ADD COLUMN IF NOT EXISTS calmar_ratio numeric,
+  ADD COLUMN IF NOT EXISTS sqn numeric,
+  ADD COLUMN IF NOT EXISTS kelly_fraction numeric,
+  ADD COLUMN IF NOT EXISTS ulcer_index numeric;
+
+DROP FUNCTION IF EXISTS public.get_journal_summary(uuid, text);
+
+CREATE OR REPLACE FUNCTION public.get_journal_summary(p_journal_id uuid, p_currency text DEFAULT NULL)
+RETURNS TABLE (
+  total_pnl double precision,
+  win_rate double precision,
+  total_trades bigint,
+  currency text,
+  unconverted_trades bigint,
+  sharpe_ratio double precision,
+  sortino_ratio double precision,
+  calmar_ratio double precision,
+  sqn double precision,
+  kelly_fraction double precision,
+  ulcer_index double precision
+) AS $$
+DECLARE
+  v_journal journals;
+  v_currency text;
+  v_equity numeric;
+  v_peak numeric;
+  v_day record;
+  v_returns numeric[] := '{}';
+  v_drawdowns numeric[] := '{}';
+  v_sharpe numeric;
+  v_sortino numeric;
+  v_calmar numeric;
+  v_sqn numeric;
+  v_kelly numeric;
+  v_ulcer numeric;
+BEGIN
+  SELECT * INTO v_journal FROM journals WHERE id = p_journal_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Journal % not found', p_journal_id;
+  END IF;
+
+  v_currency := COALESCE(p_currency, v_journal.currency);
+
+  -- Starting equity in the reporting currency, at the rate on the first trade's date
+  SELECT v_journal.account_size * fx_rate(v_journal.user_id, v_journal.currency, v_currency, MIN(t.datetime)::date)
+  INTO v_equity
+  FROM trades t
+  WHERE t.journal_id = p_journal_id AND t.pnl IS NOT NULL;
+
+  -- Daily returns and drawdowns of closing equity
+  IF v_equity > 0 THEN
+    v_peak := v_equity;
+    FOR v_day IN
+      SELECT SUM(c.pnl) AS pnl
+      FROM (
+        SELECT
+          trading_date(t.datetime, v_journal.timezone) AS day,
+          t.pnl * fx_rate(v_journal.user_id, COALESCE(t.currency, v_journal.currency), v_currency, t.datetime::date) AS pnl
+        FROM trades t
+        WHERE t.journal_id = p_journal_id AND t.pnl IS NOT NULL
+      ) c
+      WHERE c.pnl IS NOT NULL
+      GROUP BY c.day
+      ORDER BY c.day
+    LOOP
+      EXIT WHEN v_equity <= 0;
+      v_returns := v_returns || (v_day.pnl / v_equity);
+      v_equity := v_equity + v_day.pnl;
+      v_peak := GREATEST(v_peak, v_equity);
+      v_drawdowns := v_drawdowns || ((v_peak - v_equity) / v_peak * 100);
+    END LOOP;
+  END IF;
+
+  SELECT
+    CASE WHEN COUNT(*) > 1 AND STDDEV_SAMP(r) > 0 THEN AVG(r) / STDDEV_SAMP(r) * sqrt(252) END,
+    CASE WHEN COUNT(*) > 1 AND AVG(LEAST(r, 0) ^ 2) > 0 THEN AVG(r) / sqrt(AVG(LEAST(r, 0) ^ 2)) * sqrt(252) END,
+    CASE WHEN MAX(dd) > 0 THEN AVG(r) * 252 * 100 / MAX(dd) END,
+    CASE WHEN COUNT(dd) > 0 THEN sqrt(AVG(dd ^ 2)) END
+  INTO v_sharpe, v_sortino, v_calmar, v_ulcer
+  FROM unnest(v_returns, v_drawdowns) AS d(r, dd);
+
+  -- Trade ratios over the converted trades
+  SELECT
+    CASE WHEN STDDEV_SAMP(c.pnl) > 0 THEN AVG(c.pnl) / STDDEV_SAMP(c.pnl) * sqrt(LEAST(COUNT(*), 100)) END,
+    CASE WHEN COUNT(*) FILTER (WHERE c.pnl > 0) > 0 AND COUNT(*) FILTER (WHERE c.pnl < 0) > 0 THEN
+      COUNT(*) FILTER (WHERE c.pnl > 0)::numeric / COUNT(*)
+      - (1 - COUNT(*) FILTER (WHERE c.pnl > 0)::numeric / COUNT(*))
+        / (AVG(c.pnl) FILTER (WHERE c.pnl > 0) / ABS(AVG(c.pnl) FILTER (WHERE c.pnl < 0)))
+    END
+  INTO v_sqn, v_kelly
+  FROM (
+    SELECT t.pnl * fx_rate(v_journal.user_id, COALESCE(t.currency, v_journal.currency), v_currency, t.datetime::date) AS pnl
+    FROM trades t
+    WHERE t.journal_id = p_journal_id AND t.pnl IS NOT NULL
+  ) c
+  WHERE c.pnl IS NOT NULL;
+
+  RETURN QUERY
+  WITH converted AS (
+    SELECT
+      t.pnl,
+      fx_rate(v_journal.user_id, COALESCE(t.currency, v_journal.currency), v_currency, t.datetime::date) AS rate
+    FROM trades t
+    WHERE t.journal_id = p_journal_id AND t.pnl IS NOT NULL
+  ),
+  sessions AS (
+    SELECT
+      ROUND(COALESCE(AVG(ts.win_rate), 0)::numeric, 2)::double precision AS win_rate,
+      COALESCE(SUM(ts.total_trades), 0)::bigint AS total_trades
+    FROM trade_sessions ts
+    WHERE ts.journal_id = p_journal_id
+  )
+  SELECT
+    ROUND(COALESCE(SUM(c.pnl * c.rate), 0)::numeric, 2)::double precision,
+    s.win_rate,
+    s.total_trades,
+    v_currency,
+    COUNT(c.pnl) FILTER (WHERE c.rate IS NULL)::bigint,
+    ROUND(v_sharpe, 2)::double precision,
+    ROUND(v_sortino, 2)::double precision,
+    ROUND(v_calmar, 2)::double precision,
+    ROUND(v_sqn, 2)::double precision,
+    ROUND(v_kelly, 4)::double precision,
+    ROUND(v_ulcer, 2)::double precision
+  FROM sessions s
+  LEFT JOIN converted c ON true
+  GROUP BY s.win_rate, s.total_trades;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.get_journal_summary(uuid, text) TO authenticated;
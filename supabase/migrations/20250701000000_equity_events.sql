@@ -0,0 +1,52 @@
+/*
+  # Equity curve events
+
+  1. New Tables
+    - `bias_checks` - one row per completed pre-market bias check: the answers, the caution level
+      and risk it recommended, and the trading day it was taken for. Equity curves annotate the
+      days a check was taken.
+
+  2. Trade Sessions
+    - `equity_curve` points also record `time`, the ISO close time of the trade, so curves from
+      different sessions can be placed on one time axis. Points stored before this keep only the
+      trade index; sessions pick up the new shape when their metrics are next recalculated.
+
+  3. Security
+    - Row-level security policies so users can only read, add and remove their own bias checks
+*/
+
+CREATE TABLE IF NOT EXISTS bias_checks (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  check_date date NOT NULL DEFAULT CURRENT_DATE,
+  sleep_hours numeric NOT NULL,
+  mood text NOT NULL,
+  news_impact text NOT NULL,
+  yesterday_pnl numeric,
+  caution_level text NOT NULL CHECK (caution_level IN ('green', 'yellow', 'red')),
+  recommended_risk text,
+  mantra text,
+  created_at timestamptz DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_bias_checks_user_date ON bias_checks (user_id, check_date);
+
+ALTER TABLE bias_checks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own bias checks"
+  ON bias_checks
+  FOR SELECT
+  TO authenticated
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own bias checks"
+  ON bias_checks
+  FOR INSERT
+  TO authenticated
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bias checks"
+  ON bias_checks
+  FOR DELETE
+  TO authenticated
+  USING (auth.uid() = user_id);